@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { INTERNAL_HEADERS } from '../types/user.types';
+
+const storage = new AsyncLocalStorage<{ correlationId: string }>();
+
+// Correlation ID of the HTTP request or event being handled, if any
+export function currentCorrelationId(): string | undefined {
+    return storage.getStore()?.correlationId;
+}
+
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+    return storage.run({ correlationId }, fn);
+}
+
+/**
+ * Runs each HTTP request under the correlation ID the gateway forwarded, so events
+ * published while handling it carry that ID without threading it through every call.
+ */
+@Injectable()
+export class CorrelationMiddleware implements NestMiddleware {
+    use(request: IncomingMessage, _response: ServerResponse, next: () => void): void {
+        const header = request.headers[INTERNAL_HEADERS.CORRELATION_ID];
+        const correlationId = (Array.isArray(header) ? header[0] : header) || randomUUID();
+
+        runWithCorrelationId(correlationId, next);
+    }
+}
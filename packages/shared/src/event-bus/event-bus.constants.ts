@@ -0,0 +1,8 @@
+export const EVENT_BUS_OPTIONS = Symbol('EVENT_BUS_OPTIONS');
+
+export const EVENT_HANDLER_METADATA = 'careflow:event-handler';
+
+// Binding key that receives every event on the exchange
+export const ALL_EVENTS = '#';
+
+export const DEFAULT_EVENT_VERSION = '1.0.0';
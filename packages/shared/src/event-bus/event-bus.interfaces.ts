@@ -0,0 +1,38 @@
+import { EventSchemaRegistry } from './event-schema-registry';
+import { RetryPolicy } from './retry-policy';
+
+export interface EventBusOptions {
+    // AMQP URL of the broker
+    url: string;
+
+    // Written to BaseEvent.source on everything this service publishes
+    serviceName: string;
+
+    // Queue this service consumes from. Required once any @OnEvent handler exists;
+    // it is bound to exactly the events those handlers declare.
+    queue?: string;
+
+    // Retries before a failed message is parked in `<queue>.dlq`
+    retry?: Partial<RetryPolicy>;
+
+    // Unacked messages in flight per consumer (default 10)
+    prefetch?: number;
+
+    // Payload schemas and upcasters (default: eventSchemas from event-schemas.ts)
+    schemas?: EventSchemaRegistry;
+}
+
+// Passed to handlers after the event: how far this message is through its retries
+export interface EventDelivery {
+    // Retries already spent on this message
+    retryCount: number;
+
+    // Throwing now parks the message in the DLQ instead of retrying it
+    finalAttempt: boolean;
+}
+
+export interface EventBusAsyncOptions {
+    imports?: any[];
+    inject?: any[];
+    useFactory: (...args: any[]) => EventBusOptions | Promise<EventBusOptions>;
+}
@@ -0,0 +1,53 @@
+import { DynamicModule, Global, MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { CorrelationMiddleware } from './correlation';
+import { EVENT_BUS_OPTIONS } from './event-bus.constants';
+import { EventBusAsyncOptions, EventBusOptions } from './event-bus.interfaces';
+import { EventBus } from './event-bus.service';
+
+/**
+ * RabbitMQ event bus shared by all services:
+ *
+ *     EventBusModule.forRootAsync({
+ *         inject: [AppConfigService],
+ *         useFactory: (config: AppConfigService) => ({
+ *             url: config.rabbitmqUrl,
+ *             serviceName: 'patient-service',
+ *             queue: RABBITMQ_CONFIG.QUEUES.PATIENT_EVENTS,
+ *         }),
+ *     })
+ *
+ * Inject EventBus to publish; decorate provider methods with @OnEvent to consume.
+ */
+@Global()
+@Module({})
+export class EventBusModule implements NestModule {
+    static forRoot(options: EventBusOptions): DynamicModule {
+        return {
+            module: EventBusModule,
+            imports: [DiscoveryModule],
+            providers: [{ provide: EVENT_BUS_OPTIONS, useValue: options }, EventBus],
+            exports: [EventBus],
+        };
+    }
+
+    static forRootAsync(options: EventBusAsyncOptions): DynamicModule {
+        return {
+            module: EventBusModule,
+            imports: [DiscoveryModule, ...(options.imports ?? [])],
+            providers: [
+                {
+                    provide: EVENT_BUS_OPTIONS,
+                    inject: options.inject ?? [],
+                    useFactory: options.useFactory,
+                },
+                EventBus,
+            ],
+            exports: [EventBus],
+        };
+    }
+
+    configure(consumer: MiddlewareConsumer): void {
+        consumer.apply(CorrelationMiddleware).forRoutes('*');
+    }
+}
@@ -0,0 +1,374 @@
+import { randomUUID } from 'crypto';
+import {
+    Inject,
+    Injectable,
+    Logger,
+    OnApplicationBootstrap,
+    OnModuleDestroy,
+    OnModuleInit,
+} from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import * as amqp from 'amqp-connection-manager';
+import { ConfirmChannel, ConsumeMessage, Options } from 'amqplib';
+import { BaseEvent, EventName, EventPayloadMap, RABBITMQ_CONFIG } from '../types/events.types';
+import { currentCorrelationId, runWithCorrelationId } from './correlation';
+import {
+    ALL_EVENTS,
+    DEFAULT_EVENT_VERSION,
+    EVENT_BUS_OPTIONS,
+    EVENT_HANDLER_METADATA,
+} from './event-bus.constants';
+import { EventBusOptions, EventDelivery } from './event-bus.interfaces';
+import { EventSchemaRegistry } from './event-schema-registry';
+import { eventSchemas } from './event-schemas';
+import {
+    ERROR_HEADER,
+    FAILED_AT_HEADER,
+    RETRY_COUNT_HEADER,
+    RetryPolicy,
+    deadLetterQueueName,
+    isFinalAttempt,
+    onFailure,
+    retryCountOf,
+    retryDelays,
+    retryQueueName,
+} from './retry-policy';
+
+// Without a connection the channel buffers publishes; give up instead of waiting forever
+const PUBLISH_TIMEOUT_MS = 10_000;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 60_000 };
+
+type BoundHandler = (event: BaseEvent<any>, delivery: EventDelivery) => Promise<void>;
+
+interface Subscriptions {
+    // Event name -> @OnEvent handlers, which get events upcast to the current schema
+    typed: Map<string, BoundHandler[]>;
+
+    // @OnAnyEvent handlers, which get events exactly as published
+    any: BoundHandler[];
+}
+
+/**
+ * Publishes and consumes events on the careflow.events topic exchange.
+ *
+ * Handlers are provider methods decorated with @OnEvent / @OnAnyEvent. On bootstrap
+ * the service queue is bound to the events they declare, with the retry queues and
+ * DLQ next to it (see retry-policy.ts). Handlers run under the event's correlation ID,
+ * so whatever they publish stays in the same trace.
+ *
+ * Payloads are checked against the schema registry both ways: createEvent() rejects a
+ * payload that does not match the current version, and @OnEvent handlers only see
+ * events upcast to the current version. An event that fails either step is parked in
+ * the DLQ without retries.
+ */
+@Injectable()
+export class EventBus implements OnModuleInit, OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = new Logger(EventBus.name);
+    private connection!: amqp.AmqpConnectionManager;
+    private channelWrapper!: amqp.ChannelWrapper;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly schemas: EventSchemaRegistry;
+
+    constructor(
+        @Inject(EVENT_BUS_OPTIONS) private options: EventBusOptions,
+        private discovery: DiscoveryService,
+        private scanner: MetadataScanner,
+        private reflector: Reflector,
+    ) {
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+        this.schemas = options.schemas ?? eventSchemas;
+    }
+
+    async onModuleInit() {
+        await this.connect();
+    }
+
+    async onApplicationBootstrap() {
+        const subscriptions = this.discoverHandlers();
+        if (subscriptions.typed.size || subscriptions.any.length) {
+            await this.consume(subscriptions);
+        }
+    }
+
+    async onModuleDestroy() {
+        try {
+            await this.channelWrapper?.close();
+            await this.connection?.close();
+            this.logger.log('Disconnected from RabbitMQ');
+        } catch (error) {
+            this.logger.error('Error disconnecting from RabbitMQ', error);
+        }
+    }
+
+    /**
+     * Build an event envelope stamped with the current schema version. The correlation
+     * ID defaults to the one of the request or event being handled, so callers rarely
+     * pass it. Throws EventValidationError when the payload does not match the schema.
+     */
+    createEvent<E extends EventName>(
+        eventName: E,
+        payload: EventPayloadMap[E],
+        correlationId?: string,
+    ): BaseEvent<EventPayloadMap[E]> {
+        const version = this.schemas.currentVersion(eventName) ?? DEFAULT_EVENT_VERSION;
+        if (this.schemas.has(eventName)) {
+            this.schemas.validate(eventName, version, payload);
+        }
+
+        return {
+            eventId: randomUUID(),
+            eventName,
+            timestamp: new Date().toISOString(),
+            correlationId: correlationId || currentCorrelationId() || randomUUID(),
+            source: this.options.serviceName,
+            version,
+            payload,
+        };
+    }
+
+    async publish<E extends EventName>(
+        eventName: E,
+        payload: EventPayloadMap[E],
+        correlationId?: string,
+    ): Promise<void> {
+        await this.publishEvent(this.createEvent(eventName, payload, correlationId));
+    }
+
+    // Publish a ready-made envelope (e.g. from an outbox); resolves on broker confirm
+    async publishEvent(event: BaseEvent<unknown>): Promise<void> {
+        try {
+            await this.channelWrapper.publish(RABBITMQ_CONFIG.EXCHANGE, event.eventName, event, {
+                persistent: true,
+                contentType: 'application/json',
+                messageId: event.eventId,
+                correlationId: event.correlationId,
+                timestamp: Date.now(),
+                timeout: PUBLISH_TIMEOUT_MS,
+            });
+
+            this.logger.debug(`Published event: ${event.eventName} [${event.eventId}]`);
+        } catch (error) {
+            this.logger.error(`Failed to publish event: ${event.eventName}`, error);
+            throw error;
+        }
+    }
+
+    isConnected(): boolean {
+        return this.connection?.isConnected() || false;
+    }
+
+    private async connect(): Promise<void> {
+        try {
+            this.connection = amqp.connect([this.options.url], {
+                heartbeatIntervalInSeconds: 30,
+                reconnectTimeInSeconds: 5,
+            });
+
+            this.connection.on('connect', () => {
+                this.logger.log('Connected to RabbitMQ');
+            });
+
+            this.connection.on('disconnect', (err: any) => {
+                this.logger.warn('Disconnected from RabbitMQ', err?.message);
+            });
+
+            this.channelWrapper = this.connection.createChannel({
+                json: true,
+                setup: async (channel: ConfirmChannel) => {
+                    await channel.assertExchange(RABBITMQ_CONFIG.EXCHANGE, 'topic', {
+                        durable: true,
+                    });
+                },
+            });
+
+            await this.channelWrapper.waitForConnect();
+            this.logger.log('RabbitMQ channel ready');
+        } catch (error) {
+            this.logger.error('Failed to connect to RabbitMQ', error);
+            throw error;
+        }
+    }
+
+    private discoverHandlers(): Subscriptions {
+        const subscriptions: Subscriptions = { typed: new Map(), any: [] };
+
+        for (const wrapper of this.discovery.getProviders()) {
+            const { instance } = wrapper;
+            if (!instance || typeof instance !== 'object' || !wrapper.isDependencyTreeStatic()) {
+                continue;
+            }
+
+            const prototype = Object.getPrototypeOf(instance);
+            for (const method of this.scanner.getAllMethodNames(prototype)) {
+                const keys = this.reflector.get<string[]>(
+                    EVENT_HANDLER_METADATA,
+                    instance[method],
+                );
+                if (!keys) {
+                    continue;
+                }
+
+                const bound: BoundHandler = async (event, delivery) =>
+                    instance[method](event, delivery);
+                for (const key of keys) {
+                    if (key === ALL_EVENTS) {
+                        subscriptions.any.push(bound);
+                    } else {
+                        const handlers = subscriptions.typed.get(key) ?? [];
+                        subscriptions.typed.set(key, [...handlers, bound]);
+                    }
+                }
+
+                this.logger.log(
+                    `${wrapper.name}.${method} subscribed to ${keys.join(', ')}`,
+                );
+            }
+        }
+
+        return subscriptions;
+    }
+
+    private async consume(subscriptions: Subscriptions): Promise<void> {
+        const queue = this.options.queue;
+        if (!queue) {
+            throw new Error(
+                `${this.options.serviceName} has event handlers but no EventBus queue configured`,
+            );
+        }
+
+        const bindings = subscriptions.any.length ? [ALL_EVENTS] : [...subscriptions.typed.keys()];
+
+        await this.channelWrapper.addSetup(async (channel: ConfirmChannel) => {
+            await channel.assertQueue(queue, { durable: true });
+            for (const key of bindings) {
+                await channel.bindQueue(queue, RABBITMQ_CONFIG.EXCHANGE, key);
+            }
+
+            await channel.assertQueue(deadLetterQueueName(queue), { durable: true });
+
+            // Delay queues: hold a message for their TTL, then dead-letter it back to `queue`
+            for (const delayMs of new Set(retryDelays(this.retryPolicy))) {
+                await channel.assertQueue(retryQueueName(queue, delayMs), {
+                    durable: true,
+                    arguments: {
+                        'x-message-ttl': delayMs,
+                        'x-dead-letter-exchange': '',
+                        'x-dead-letter-routing-key': queue,
+                    },
+                });
+            }
+
+            await channel.prefetch(this.options.prefetch ?? 10);
+
+            await channel.consume(queue, async (msg) => {
+                if (msg) {
+                    await this.handleMessage(channel, queue, msg, subscriptions);
+                }
+            });
+
+            this.logger.log(`Consuming ${queue} (${bindings.join(', ')})`);
+        });
+    }
+
+    private async handleMessage(
+        channel: ConfirmChannel,
+        queue: string,
+        msg: ConsumeMessage,
+        subscriptions: Subscriptions,
+    ): Promise<void> {
+        let event: BaseEvent<any>;
+        try {
+            event = JSON.parse(msg.content.toString()) as BaseEvent<any>;
+        } catch (error) {
+            this.logger.error(`Unparseable message on ${queue}`, error);
+            await this.reject(channel, queue, msg, error, false);
+            return;
+        }
+
+        const typed = subscriptions.typed.get(event.eventName) ?? [];
+
+        let current = event;
+        if (typed.length) {
+            try {
+                current = this.schemas.upcast(event);
+            } catch (error) {
+                this.logger.error(`Rejected ${event.eventName} [${event.eventId}]`, error);
+                await this.reject(channel, queue, msg, error, false);
+                return;
+            }
+        }
+
+        const retryCount = retryCountOf(msg.properties.headers);
+        const delivery: EventDelivery = {
+            retryCount,
+            finalAttempt: isFinalAttempt(retryCount, this.retryPolicy),
+        };
+
+        try {
+            this.logger.debug(`Received event: ${event.eventName} [${event.eventId}]`);
+
+            await runWithCorrelationId(event.correlationId || event.eventId, async () => {
+                for (const handler of typed) {
+                    await handler(current, delivery);
+                }
+                for (const handler of subscriptions.any) {
+                    await handler(event, delivery);
+                }
+            });
+
+            channel.ack(msg);
+        } catch (error) {
+            this.logger.error(`Error processing ${event.eventName} [${event.eventId}]`, error);
+            await this.reject(channel, queue, msg, error, true);
+        }
+    }
+
+    // Move a failed message to its next retry queue, or the DLQ, then ack the original
+    private async reject(
+        channel: ConfirmChannel,
+        queue: string,
+        msg: ConsumeMessage,
+        error: unknown,
+        retryable: boolean,
+    ): Promise<void> {
+        const headers = msg.properties.headers ?? {};
+        const next = onFailure(queue, retryCountOf(headers), this.retryPolicy, retryable);
+        const reason = error instanceof Error ? error.message : String(error);
+
+        const options: Options.Publish = {
+            ...msg.properties,
+            persistent: true,
+            headers: {
+                ...headers,
+                [ERROR_HEADER]: reason,
+                ...(next.action === 'retry'
+                    ? { [RETRY_COUNT_HEADER]: next.retryCount }
+                    : { [FAILED_AT_HEADER]: new Date().toISOString() }),
+            },
+        };
+
+        try {
+            await new Promise<void>((resolve, reject) =>
+                channel.sendToQueue(next.queue, msg.content, options, (err) =>
+                    err ? reject(err) : resolve(),
+                ),
+            );
+            channel.ack(msg);
+        } catch (publishError) {
+            // Could not park the message: put it back rather than lose it
+            this.logger.error(`Failed to move message to ${next.queue}`, publishError);
+            channel.nack(msg, false, true);
+            return;
+        }
+
+        if (next.action === 'retry') {
+            this.logger.warn(
+                `Retrying message ${msg.properties.messageId} in ${next.delayMs}ms ` +
+                `(attempt ${next.retryCount})`,
+            );
+        } else {
+            this.logger.error(`Message ${msg.properties.messageId} dead-lettered to ${next.queue}`);
+        }
+    }
+}
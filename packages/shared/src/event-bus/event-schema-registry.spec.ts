@@ -0,0 +1,145 @@
+import { BaseEvent, EventName } from '../types/events.types';
+import { EventSchemaRegistry, EventValidationError } from './event-schema-registry';
+import { eventSchemas } from './event-schemas';
+import { oneOf, validatePayload } from './payload-schema';
+
+function event(version: string, payload: unknown): BaseEvent<unknown> {
+    return {
+        eventId: 'evt-1',
+        eventName: EventName.USER_CREATED,
+        timestamp: '2026-10-19T12:00:00.000Z',
+        correlationId: 'corr-1',
+        source: 'auth-service',
+        version,
+        payload,
+    };
+}
+
+// v1 had a single name field, v2 split it, v3 added a required locale
+function userCreatedRegistry(): EventSchemaRegistry {
+    return new EventSchemaRegistry()
+        .register(EventName.USER_CREATED, '1.0.0', { userId: 'string', name: 'string' })
+        .register(
+            EventName.USER_CREATED,
+            '2.0.0',
+            { userId: 'string', firstName: 'string', lastName: 'string' },
+            ({ name, ...rest }) => {
+                const [firstName, ...others] = name.split(' ');
+                return { ...rest, firstName, lastName: others.join(' ') };
+            },
+        )
+        .register(
+            EventName.USER_CREATED,
+            '3.0.0',
+            { userId: 'string', firstName: 'string', lastName: 'string', locale: 'string' },
+            (v2) => ({ ...v2, locale: 'en' }),
+        );
+}
+
+describe('validatePayload', () => {
+    const schema = {
+        id: 'string',
+        amount: 'number',
+        at: 'datetime',
+        tags: 'string[]',
+        note: 'string?',
+        kind: oneOf('a', 'b'),
+    } as const;
+
+    it('accepts a matching payload, with optional fields missing and extra fields present', () => {
+        const payload = { id: 'x', amount: 1, at: '2026-10-19T12:00:00Z', tags: [], kind: 'a' };
+
+        expect(validatePayload(schema, { ...payload, extra: true })).toEqual([]);
+        expect(validatePayload(schema, { ...payload, note: null })).toEqual([]);
+    });
+
+    it('lists every problem', () => {
+        const errors = validatePayload(schema, {
+            amount: '1',
+            at: 'yesterday',
+            tags: [1],
+            note: 2,
+            kind: 'c',
+        });
+
+        expect(errors).toEqual([
+            'id is required',
+            'amount must be a number',
+            'at must be an ISO 8601 date string',
+            'tags must be an array of strings',
+            'note must be a string',
+            'kind must be one of a, b',
+        ]);
+    });
+
+    it('rejects payloads that are not objects', () => {
+        expect(validatePayload(schema, [])).toEqual(['payload must be an object']);
+    });
+});
+
+describe('EventSchemaRegistry', () => {
+    it('upcasts an old event one version at a time', () => {
+        const v1 = event('1.0.0', { userId: 'u1', name: 'Ada King Lovelace' });
+
+        const upcast = userCreatedRegistry().upcast(v1);
+
+        expect(upcast.version).toBe('3.0.0');
+        expect(upcast.payload).toEqual({
+            userId: 'u1',
+            firstName: 'Ada',
+            lastName: 'King Lovelace',
+            locale: 'en',
+        });
+        expect(upcast.eventId).toBe('evt-1');
+    });
+
+    it('leaves current events as they are and treats a missing version as the oldest', () => {
+        const registry = userCreatedRegistry();
+        const current = { userId: 'u1', firstName: 'Ada', lastName: 'L', locale: 'fr' };
+
+        expect(registry.upcast(event('3.0.0', current)).payload).toEqual(current);
+        expect(registry.upcast(event('', { userId: 'u1', name: 'Ada' })).version).toBe('3.0.0');
+    });
+
+    it('rejects payloads that do not match their declared version', () => {
+        const registry = userCreatedRegistry();
+
+        expect(() => registry.upcast(event('2.0.0', { userId: 'u1', name: 'Ada' }))).toThrow(
+            new EventValidationError('user.created', '2.0.0', [
+                'firstName is required',
+                'lastName is required',
+            ]),
+        );
+    });
+
+    it('rejects versions it does not know', () => {
+        expect(() => userCreatedRegistry().upcast(event('9.0.0', {}))).toThrow(
+            'Invalid user.created v9.0.0 payload: unknown schema version',
+        );
+    });
+
+    it('passes through events without a registered schema', () => {
+        const other = { ...event('1.0.0', 'anything'), eventName: EventName.USER_LOGOUT };
+
+        expect(userCreatedRegistry().upcast(other)).toBe(other);
+    });
+
+    it('requires an upcaster for every version after the first', () => {
+        const registry = new EventSchemaRegistry().register(EventName.USER_CREATED, '1.0.0', {});
+
+        expect(() => registry.register(EventName.USER_CREATED, '2.0.0', {})).toThrow(
+            'user.created v2.0.0 needs an upcaster from the previous version',
+        );
+        expect(() => registry.register(EventName.USER_CREATED, '1.0.0', {})).toThrow(
+            'user.created v1.0.0 is already registered',
+        );
+    });
+});
+
+describe('eventSchemas', () => {
+    it('covers every event name', () => {
+        const missing = Object.values(EventName).filter((name) => !eventSchemas.has(name));
+
+        expect(missing).toEqual([]);
+    });
+});
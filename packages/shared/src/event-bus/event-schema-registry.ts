@@ -0,0 +1,108 @@
+import { BaseEvent, EventName } from '../types/events.types';
+import { PayloadSchema, validatePayload } from './payload-schema';
+
+// Turns a payload of the previous version into this version's shape
+export type Upcaster = (payload: any) => unknown;
+
+interface SchemaVersion {
+    version: string;
+    schema: PayloadSchema<any>;
+    upcast?: Upcaster;
+}
+
+export class EventValidationError extends Error {
+    constructor(
+        readonly eventName: string,
+        readonly version: string,
+        readonly errors: string[],
+    ) {
+        super(`Invalid ${eventName} v${version} payload: ${errors.join('; ')}`);
+        this.name = 'EventValidationError';
+    }
+}
+
+/**
+ * Payload schemas per event name and version.
+ *
+ * Versions are registered oldest first; the last one is current and is what
+ * publishers write. Every later version comes with an upcaster from the one before,
+ * so an event of any known version can be brought up to date one step at a time:
+ *
+ *     registry
+ *         .register(EventName.USER_CREATED, '1.0.0', { name: 'string' })
+ *         .register(EventName.USER_CREATED, '2.0.0', { firstName: 'string' }, (v1) => ({
+ *             firstName: v1.name,
+ *         }));
+ */
+export class EventSchemaRegistry {
+    private readonly schemas = new Map<string, SchemaVersion[]>();
+
+    register(
+        eventName: EventName,
+        version: string,
+        schema: PayloadSchema<any>,
+        upcast?: Upcaster,
+    ): this {
+        const versions = this.schemas.get(eventName) ?? [];
+
+        if (versions.some((known) => known.version === version)) {
+            throw new Error(`${eventName} v${version} is already registered`);
+        }
+        if (versions.length && !upcast) {
+            throw new Error(`${eventName} v${version} needs an upcaster from the previous version`);
+        }
+
+        this.schemas.set(eventName, [...versions, { version, schema, upcast }]);
+        return this;
+    }
+
+    has(eventName: string): boolean {
+        return this.schemas.has(eventName);
+    }
+
+    currentVersion(eventName: string): string | undefined {
+        return this.schemas.get(eventName)?.at(-1)?.version;
+    }
+
+    // Throws EventValidationError when the payload does not match that version
+    validate(eventName: string, version: string, payload: unknown): void {
+        const schema = this.versionsOf(eventName).find((known) => known.version === version);
+        if (!schema) {
+            throw new EventValidationError(eventName, version, ['unknown schema version']);
+        }
+
+        const errors = validatePayload(schema.schema, payload);
+        if (errors.length) {
+            throw new EventValidationError(eventName, version, errors);
+        }
+    }
+
+    /**
+     * Validate an incoming event against the version it was published with and run
+     * the upcasters up to the current version. Events without a version are taken to
+     * be the oldest one; events of unregistered names are returned untouched.
+     */
+    upcast<T = unknown>(event: BaseEvent<unknown>): BaseEvent<T> {
+        if (!this.has(event.eventName)) {
+            return event as BaseEvent<T>;
+        }
+
+        const versions = this.versionsOf(event.eventName);
+        const version = event.version || versions[0].version;
+        const start = versions.findIndex((known) => known.version === version);
+
+        this.validate(event.eventName, version, event.payload);
+
+        let payload = event.payload;
+        for (const next of versions.slice(start + 1)) {
+            payload = next.upcast!(payload);
+            this.validate(event.eventName, next.version, payload);
+        }
+
+        return { ...event, version: versions.at(-1)!.version, payload: payload as T };
+    }
+
+    private versionsOf(eventName: string): SchemaVersion[] {
+        return this.schemas.get(eventName) ?? [];
+    }
+}
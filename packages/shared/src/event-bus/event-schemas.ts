@@ -0,0 +1,328 @@
+import {
+    AppointmentAwaitingPaymentPayload,
+    AppointmentConfirmedPayload,
+    AppointmentCreatedPayload,
+    AppointmentRescheduledPayload,
+    AppointmentStatusChangedPayload,
+    AppointmentUpdatedPayload,
+    EventName,
+    InvoiceGeneratedPayload,
+    MedicalRecordUploadedPayload,
+    NotificationFailedPayload,
+    NotificationSendPayload,
+    NotificationSentPayload,
+    PasswordResetRequestedPayload,
+    PatientCreatedPayload,
+    PatientDeletedPayload,
+    PatientUpdatedPayload,
+    PaymentCompletedPayload,
+    PaymentFailedPayload,
+    PaymentPendingPayload,
+    PaymentRefundedPayload,
+    RefreshTokenReusedPayload,
+    MfaEnabledPayload,
+    MfaDisabledPayload,
+    TokensRevokedPayload,
+    EmailVerificationRequestedPayload,
+    EmailVerifiedPayload,
+    UserCreatedPayload,
+    UserDeletedPayload,
+    UserLoginPayload,
+    UserLogoutPayload,
+    UserUpdatedPayload,
+} from '../types/events.types';
+import { UserRole } from '../types/user.types';
+import { DEFAULT_EVENT_VERSION } from './event-bus.constants';
+import { EventSchemaRegistry } from './event-schema-registry';
+import { PayloadSchema, oneOf } from './payload-schema';
+
+/**
+ * Schemas of every event on the exchange, used by EventBus unless another registry
+ * is configured.
+ *
+ * Changing a payload: keep its current registration, add the new version after it
+ * with an upcaster from the old shape, and update the interface in events.types.ts.
+ * Messages already queued or stored in the old shape then still reach handlers in
+ * the new one.
+ */
+
+const channel = oneOf('email', 'in_app', 'push');
+
+const userCreated: PayloadSchema<UserCreatedPayload> = {
+    userId: 'string',
+    email: 'string',
+    firstName: 'string',
+    lastName: 'string',
+    role: oneOf(...Object.values(UserRole)),
+};
+
+const userUpdated: PayloadSchema<UserUpdatedPayload> = {
+    userId: 'string',
+    email: 'string',
+    changes: 'string[]',
+};
+
+const userDeleted: PayloadSchema<UserDeletedPayload> = {
+    userId: 'string',
+    email: 'string',
+};
+
+const userLogin: PayloadSchema<UserLoginPayload> = {
+    userId: 'string',
+    email: 'string',
+    ipAddress: 'string?',
+    timestamp: 'datetime',
+};
+
+const userLogout: PayloadSchema<UserLogoutPayload> = {
+    userId: 'string',
+    email: 'string',
+};
+
+const passwordResetRequested: PayloadSchema<PasswordResetRequestedPayload> = {
+    userId: 'string',
+    email: 'string',
+    resetToken: 'string',
+    expiresAt: 'datetime',
+};
+
+const emailVerificationRequested: PayloadSchema<EmailVerificationRequestedPayload> = {
+    userId: 'string',
+    email: 'string',
+    firstName: 'string',
+    verificationToken: 'string',
+    expiresAt: 'datetime',
+};
+
+const emailVerified: PayloadSchema<EmailVerifiedPayload> = {
+    userId: 'string',
+    email: 'string',
+};
+
+const tokensRevoked: PayloadSchema<TokensRevokedPayload> = {
+    userId: 'string',
+    reason: oneOf(
+        'logout',
+        'password_change',
+        'password_reset',
+        'deactivated',
+        'refresh_token_reuse',
+        'session_revoked',
+    ),
+    tokenId: 'string?',
+    sessionId: 'string?',
+    notBefore: 'datetime?',
+    expiresAt: 'datetime',
+};
+
+const refreshTokenReused: PayloadSchema<RefreshTokenReusedPayload> = {
+    userId: 'string',
+    familyId: 'string',
+    ipAddress: 'string?',
+    userAgent: 'string?',
+    detectedAt: 'datetime',
+};
+
+const mfaEnabled: PayloadSchema<MfaEnabledPayload> = {
+    userId: 'string',
+    email: 'string',
+};
+
+const mfaDisabled: PayloadSchema<MfaDisabledPayload> = {
+    userId: 'string',
+    email: 'string',
+    reason: oneOf('user', 'admin_reset'),
+    actorId: 'string?',
+};
+
+const patientCreated: PayloadSchema<PatientCreatedPayload> = {
+    patientId: 'string',
+    userId: 'string',
+    email: 'string',
+    firstName: 'string',
+    lastName: 'string',
+};
+
+const patientUpdated: PayloadSchema<PatientUpdatedPayload> = {
+    patientId: 'string',
+    userId: 'string',
+    changes: 'string[]',
+};
+
+const patientDeleted: PayloadSchema<PatientDeletedPayload> = {
+    patientId: 'string',
+    userId: 'string',
+};
+
+const medicalRecordUploaded: PayloadSchema<MedicalRecordUploadedPayload> = {
+    recordId: 'string',
+    patientId: 'string',
+    type: 'string',
+    title: 'string',
+};
+
+const appointmentCreated: PayloadSchema<AppointmentCreatedPayload> = {
+    appointmentId: 'string',
+    patientId: 'string',
+    doctorId: 'string',
+    scheduledAt: 'datetime',
+    durationMinutes: 'number',
+    type: 'string',
+    status: 'string',
+};
+
+const appointmentUpdated: PayloadSchema<AppointmentUpdatedPayload> = {
+    appointmentId: 'string',
+    patientId: 'string',
+    doctorId: 'string',
+    scheduledAt: 'datetime',
+    updatedFields: 'string[]',
+};
+
+const appointmentConfirmed: PayloadSchema<AppointmentConfirmedPayload> = {
+    appointmentId: 'string',
+    patientId: 'string',
+    doctorId: 'string',
+    scheduledAt: 'datetime',
+    paymentId: 'string',
+};
+
+const appointmentStatusChanged: PayloadSchema<AppointmentStatusChangedPayload> = {
+    appointmentId: 'string',
+    patientId: 'string',
+    doctorId: 'string',
+    scheduledAt: 'datetime',
+    previousStatus: 'string',
+    status: 'string',
+    reason: 'string?',
+    changedBy: 'string?',
+};
+
+const appointmentAwaitingPayment: PayloadSchema<AppointmentAwaitingPaymentPayload> = {
+    ...appointmentStatusChanged,
+    holdExpiresAt: 'datetime',
+};
+
+const appointmentRescheduled: PayloadSchema<AppointmentRescheduledPayload> = {
+    ...appointmentStatusChanged,
+    newAppointmentId: 'string',
+    newScheduledAt: 'datetime',
+};
+
+const paymentPending: PayloadSchema<PaymentPendingPayload> = {
+    paymentId: 'string',
+    appointmentId: 'string',
+    patientId: 'string',
+    amount: 'number',
+    currency: 'string',
+};
+
+const paymentCompleted: PayloadSchema<PaymentCompletedPayload> = {
+    paymentId: 'string',
+    appointmentId: 'string',
+    patientId: 'string?',
+    amount: 'number',
+    currency: 'string',
+    stripePaymentIntentId: 'string',
+};
+
+const paymentFailed: PayloadSchema<PaymentFailedPayload> = {
+    paymentId: 'string',
+    appointmentId: 'string',
+    patientId: 'string?',
+    reason: 'string?',
+};
+
+const paymentRefunded: PayloadSchema<PaymentRefundedPayload> = {
+    paymentId: 'string',
+    appointmentId: 'string',
+    patientId: 'string?',
+    refundId: 'string',
+    amount: 'number',
+    currency: 'string',
+    totalRefunded: 'number',
+    fullyRefunded: 'boolean',
+    reason: 'string',
+};
+
+const invoiceGenerated: PayloadSchema<InvoiceGeneratedPayload> = {
+    invoiceId: 'string',
+    invoiceNumber: 'string',
+    paymentId: 'string',
+    appointmentId: 'string',
+    patientId: 'string',
+    total: 'number',
+    currency: 'string',
+};
+
+const notificationSend: PayloadSchema<NotificationSendPayload> = {
+    recipientId: 'string',
+    recipientEmail: 'string',
+    type: channel,
+    template: 'string',
+    data: 'object',
+};
+
+const notificationSent: PayloadSchema<NotificationSentPayload> = {
+    notificationId: 'string',
+    recipientId: 'string',
+    channel,
+    template: 'string',
+    title: 'string',
+};
+
+const notificationFailed: PayloadSchema<NotificationFailedPayload> = {
+    notificationId: 'string',
+    recipientId: 'string',
+    channel,
+    template: 'string',
+    reason: 'string',
+};
+
+export const eventSchemas = new EventSchemaRegistry()
+    .register(EventName.USER_CREATED, DEFAULT_EVENT_VERSION, userCreated)
+    .register(EventName.USER_UPDATED, DEFAULT_EVENT_VERSION, userUpdated)
+    .register(EventName.USER_DELETED, DEFAULT_EVENT_VERSION, userDeleted)
+    .register(EventName.USER_LOGIN, DEFAULT_EVENT_VERSION, userLogin)
+    .register(EventName.USER_LOGOUT, DEFAULT_EVENT_VERSION, userLogout)
+    .register(EventName.PASSWORD_RESET_REQUESTED, DEFAULT_EVENT_VERSION, passwordResetRequested)
+    .register(
+        EventName.EMAIL_VERIFICATION_REQUESTED,
+        DEFAULT_EVENT_VERSION,
+        emailVerificationRequested,
+    )
+    .register(EventName.EMAIL_VERIFIED, DEFAULT_EVENT_VERSION, emailVerified)
+    .register(EventName.TOKENS_REVOKED, DEFAULT_EVENT_VERSION, tokensRevoked)
+    .register(EventName.REFRESH_TOKEN_REUSED, DEFAULT_EVENT_VERSION, refreshTokenReused)
+    .register(EventName.MFA_ENABLED, DEFAULT_EVENT_VERSION, mfaEnabled)
+    .register(EventName.MFA_DISABLED, DEFAULT_EVENT_VERSION, mfaDisabled)
+
+    .register(EventName.PATIENT_CREATED, DEFAULT_EVENT_VERSION, patientCreated)
+    .register(EventName.PATIENT_UPDATED, DEFAULT_EVENT_VERSION, patientUpdated)
+    .register(EventName.PATIENT_DELETED, DEFAULT_EVENT_VERSION, patientDeleted)
+    .register(EventName.MEDICAL_RECORD_UPLOADED, DEFAULT_EVENT_VERSION, medicalRecordUploaded)
+
+    .register(EventName.APPOINTMENT_CREATED, DEFAULT_EVENT_VERSION, appointmentCreated)
+    .register(EventName.APPOINTMENT_UPDATED, DEFAULT_EVENT_VERSION, appointmentUpdated)
+    .register(
+        EventName.APPOINTMENT_AWAITING_PAYMENT,
+        DEFAULT_EVENT_VERSION,
+        appointmentAwaitingPayment,
+    )
+    .register(EventName.APPOINTMENT_CONFIRMED, DEFAULT_EVENT_VERSION, appointmentConfirmed)
+    .register(EventName.APPOINTMENT_CHECKED_IN, DEFAULT_EVENT_VERSION, appointmentStatusChanged)
+    .register(EventName.APPOINTMENT_STARTED, DEFAULT_EVENT_VERSION, appointmentStatusChanged)
+    .register(EventName.APPOINTMENT_RESCHEDULED, DEFAULT_EVENT_VERSION, appointmentRescheduled)
+    .register(EventName.APPOINTMENT_CANCELLED, DEFAULT_EVENT_VERSION, appointmentStatusChanged)
+    .register(EventName.APPOINTMENT_COMPLETED, DEFAULT_EVENT_VERSION, appointmentStatusChanged)
+    .register(EventName.APPOINTMENT_NO_SHOW, DEFAULT_EVENT_VERSION, appointmentStatusChanged)
+
+    .register(EventName.PAYMENT_PENDING, DEFAULT_EVENT_VERSION, paymentPending)
+    .register(EventName.PAYMENT_COMPLETED, DEFAULT_EVENT_VERSION, paymentCompleted)
+    .register(EventName.PAYMENT_FAILED, DEFAULT_EVENT_VERSION, paymentFailed)
+    .register(EventName.PAYMENT_REFUNDED, DEFAULT_EVENT_VERSION, paymentRefunded)
+    .register(EventName.INVOICE_GENERATED, DEFAULT_EVENT_VERSION, invoiceGenerated)
+
+    .register(EventName.NOTIFICATION_SEND, DEFAULT_EVENT_VERSION, notificationSend)
+    .register(EventName.NOTIFICATION_SENT, DEFAULT_EVENT_VERSION, notificationSent)
+    .register(EventName.NOTIFICATION_FAILED, DEFAULT_EVENT_VERSION, notificationFailed);
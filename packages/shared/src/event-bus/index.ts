@@ -0,0 +1,10 @@
+export * from './event-bus.module';
+export * from './event-bus.service';
+export * from './event-bus.constants';
+export * from './event-bus.interfaces';
+export * from './on-event.decorator';
+export * from './payload-schema';
+export * from './event-schema-registry';
+export * from './event-schemas';
+export * from './correlation';
+export * from './retry-policy';
@@ -0,0 +1,38 @@
+import { SetMetadata } from '@nestjs/common';
+import { BaseEvent, EventName, EventOf } from '../types/events.types';
+import { ALL_EVENTS, EVENT_HANDLER_METADATA } from './event-bus.constants';
+import { EventDelivery } from './event-bus.interfaces';
+
+type Handler<T> = (event: T, delivery: EventDelivery) => Promise<void> | void;
+
+/**
+ * Subscribe a provider method to one or more events. The event bus binds the service
+ * queue to each name and calls the method with the typed event, upcast to the current
+ * schema version:
+ *
+ *     @OnEvent(EventName.USER_CREATED)
+ *     async onUserCreated(event: EventOf<EventName.USER_CREATED>) { ... }
+ *
+ * A throwing handler sends the message through the retry queues, then to the DLQ. The
+ * optional second argument tells the handler whether it is on its last attempt.
+ */
+export function OnEvent<E extends EventName>(...eventNames: [E, ...E[]]) {
+    return (
+        target: object,
+        key: string | symbol,
+        descriptor: TypedPropertyDescriptor<Handler<EventOf<E>>>,
+    ): void => {
+        SetMetadata(EVENT_HANDLER_METADATA, eventNames)(target, key, descriptor);
+    };
+}
+
+// Subscribe a provider method to every event on the exchange, received exactly as published
+export function OnAnyEvent() {
+    return (
+        target: object,
+        key: string | symbol,
+        descriptor: TypedPropertyDescriptor<Handler<BaseEvent<unknown>>>,
+    ): void => {
+        SetMetadata(EVENT_HANDLER_METADATA, [ALL_EVENTS])(target, key, descriptor);
+    };
+}
@@ -0,0 +1,84 @@
+/**
+ * Minimal runtime description of an event payload.
+ *
+ *     { userId: 'string', ipAddress: 'string?', changes: 'string[]', role: oneOf('admin') }
+ *
+ * A trailing `?` marks an optional field (absent or null). Fields not listed are
+ * allowed, so producers can add data before every consumer knows about it.
+ */
+
+type FieldType = 'string' | 'number' | 'boolean' | 'datetime' | 'object' | 'string[]';
+
+export interface EnumField {
+    oneOf: readonly string[];
+    optional?: boolean;
+}
+
+export type FieldSpec = FieldType | `${FieldType}?` | EnumField;
+
+// One spec per payload field; typing it against the payload interface keeps them in step
+export type PayloadSchema<T = Record<string, unknown>> = { [K in keyof T]-?: FieldSpec };
+
+export function oneOf(...values: string[]): EnumField {
+    return { oneOf: values };
+}
+
+export function optional(field: EnumField): EnumField {
+    return { ...field, optional: true };
+}
+
+// Every way `payload` departs from `schema`, empty when it matches
+export function validatePayload(schema: PayloadSchema<any>, payload: unknown): string[] {
+    if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+        return ['payload must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    for (const [field, spec] of Object.entries(schema)) {
+        const value = (payload as Record<string, unknown>)[field];
+        const required = typeof spec === 'string' ? !spec.endsWith('?') : !spec.optional;
+
+        if (value === undefined || value === null) {
+            if (required) {
+                errors.push(`${field} is required`);
+            }
+            continue;
+        }
+
+        const problem = typeof spec === 'string'
+            ? checkType(spec.replace(/\?$/, '') as FieldType, value)
+            : checkEnum(spec, value);
+
+        if (problem) {
+            errors.push(`${field} ${problem}`);
+        }
+    }
+
+    return errors;
+}
+
+function checkType(type: FieldType, value: unknown): string | null {
+    switch (type) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+            return typeof value === type ? null : `must be a ${type}`;
+        case 'datetime':
+            return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+                ? null
+                : 'must be an ISO 8601 date string';
+        case 'object':
+            return typeof value === 'object' && !Array.isArray(value) ? null : 'must be an object';
+        case 'string[]':
+            return Array.isArray(value) && value.every((item) => typeof item === 'string')
+                ? null
+                : 'must be an array of strings';
+    }
+}
+
+function checkEnum(spec: EnumField, value: unknown): string | null {
+    return typeof value === 'string' && spec.oneOf.includes(value)
+        ? null
+        : `must be one of ${spec.oneOf.join(', ')}`;
+}
@@ -0,0 +1,62 @@
+import {
+    RETRY_COUNT_HEADER,
+    isFinalAttempt,
+    onFailure,
+    retryCountOf,
+    retryDelays,
+} from './retry-policy';
+
+const policy = { maxRetries: 4, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe('retryDelays', () => {
+    it('doubles the delay per attempt up to the cap', () => {
+        expect(retryDelays(policy)).toEqual([1000, 2000, 4000, 5000]);
+    });
+
+    it('has no delays when retries are disabled', () => {
+        expect(retryDelays({ ...policy, maxRetries: 0 })).toEqual([]);
+    });
+});
+
+describe('retryCountOf', () => {
+    it('reads the retry header, treating missing or invalid values as zero', () => {
+        expect(retryCountOf({ [RETRY_COUNT_HEADER]: 2 })).toBe(2);
+        expect(retryCountOf({ [RETRY_COUNT_HEADER]: '3' })).toBe(3);
+        expect(retryCountOf({ [RETRY_COUNT_HEADER]: 'x' })).toBe(0);
+        expect(retryCountOf(undefined)).toBe(0);
+    });
+});
+
+describe('isFinalAttempt', () => {
+    it('is true once every retry has been spent', () => {
+        expect(isFinalAttempt(3, policy)).toBe(false);
+        expect(isFinalAttempt(4, policy)).toBe(true);
+        expect(isFinalAttempt(0, { ...policy, maxRetries: 0 })).toBe(true);
+    });
+});
+
+describe('onFailure', () => {
+    it('retries through the queue matching the next delay', () => {
+        expect(onFailure('patient.events', 0, policy)).toEqual({
+            action: 'retry',
+            retryCount: 1,
+            delayMs: 1000,
+            queue: 'patient.events.retry.1000ms',
+        });
+        expect(onFailure('patient.events', 2, policy)).toMatchObject({
+            retryCount: 3,
+            queue: 'patient.events.retry.4000ms',
+        });
+    });
+
+    it('dead-letters once the retries are spent', () => {
+        expect(onFailure('patient.events', 4, policy)).toEqual({
+            action: 'dead-letter',
+            queue: 'patient.events.dlq',
+        });
+    });
+
+    it('dead-letters non-retryable failures straight away', () => {
+        expect(onFailure('patient.events', 0, policy, false).action).toBe('dead-letter');
+    });
+});
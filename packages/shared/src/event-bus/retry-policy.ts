@@ -0,0 +1,71 @@
+/**
+ * Retry and dead-letter routing for consumed messages.
+ *
+ * A failed message is republished to `<queue>.retry.<delay>ms`, a queue with a
+ * fixed TTL that dead-letters back into `<queue>` when the delay runs out. Each
+ * delay gets its own queue so messages never wait behind a longer TTL. After the
+ * last retry the message goes to `<queue>.dlq` with the error attached.
+ */
+
+export const RETRY_COUNT_HEADER = 'x-retry-count';
+export const ERROR_HEADER = 'x-error';
+export const FAILED_AT_HEADER = 'x-failed-at';
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export type FailureAction =
+    | { action: 'retry'; retryCount: number; delayMs: number; queue: string }
+    | { action: 'dead-letter'; queue: string };
+
+// Exponential backoff: base, 2 * base, 4 * base, ... capped at maxDelayMs
+export function retryDelays(policy: RetryPolicy): number[] {
+    return Array.from({ length: policy.maxRetries }, (_, i) =>
+        Math.min(policy.baseDelayMs * 2 ** i, policy.maxDelayMs),
+    );
+}
+
+export function retryQueueName(queue: string, delayMs: number): string {
+    return `${queue}.retry.${delayMs}ms`;
+}
+
+export function deadLetterQueueName(queue: string): string {
+    return `${queue}.dlq`;
+}
+
+// Retries already spent, from the header set when the message was republished
+export function retryCountOf(headers: Record<string, unknown> | undefined): number {
+    const count = Number(headers?.[RETRY_COUNT_HEADER] ?? 0);
+    return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+// Whether a failure after `retryCount` retries goes to the DLQ
+export function isFinalAttempt(retryCount: number, policy: RetryPolicy): boolean {
+    return retryCount >= policy.maxRetries;
+}
+
+/**
+ * Where a message goes after its handler failed.
+ * Messages that can never succeed (unparseable) skip the retries.
+ */
+export function onFailure(
+    queue: string,
+    retryCount: number,
+    policy: RetryPolicy,
+    retryable = true,
+): FailureAction {
+    if (!retryable || isFinalAttempt(retryCount, policy)) {
+        return { action: 'dead-letter', queue: deadLetterQueueName(queue) };
+    }
+
+    const delayMs = retryDelays(policy)[retryCount];
+    return {
+        action: 'retry',
+        retryCount: retryCount + 1,
+        delayMs,
+        queue: retryQueueName(queue, delayMs),
+    };
+}
@@ -1,4 +1,6 @@
 // Re-export all types for easy importing
 export * from './types/user.types';
 export * from './types/events.types';
-export * from './types/api.types';
\ No newline at end of file
+export * from './types/api.types';
+// NestJS event bus over RabbitMQ
+export * from './event-bus';
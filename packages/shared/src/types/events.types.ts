@@ -12,6 +12,12 @@ export enum EventName {
     USER_LOGIN = 'user.login',
     USER_LOGOUT = 'user.logout',
     PASSWORD_RESET_REQUESTED = 'password.reset.requested',
+    EMAIL_VERIFICATION_REQUESTED = 'user.email_verification.requested',
+    EMAIL_VERIFIED = 'user.email.verified',
+    TOKENS_REVOKED = 'user.tokens.revoked',
+    REFRESH_TOKEN_REUSED = 'user.refresh_token.reused',
+    MFA_ENABLED = 'user.mfa.enabled',
+    MFA_DISABLED = 'user.mfa.disabled',
 
     // Patient events
     PATIENT_CREATED = 'patient.created',
@@ -22,7 +28,11 @@ export enum EventName {
     // Appointment events
     APPOINTMENT_CREATED = 'appointment.created',
     APPOINTMENT_UPDATED = 'appointment.updated',
+    APPOINTMENT_AWAITING_PAYMENT = 'appointment.awaiting_payment',
     APPOINTMENT_CONFIRMED = 'appointment.confirmed',
+    APPOINTMENT_CHECKED_IN = 'appointment.checked_in',
+    APPOINTMENT_STARTED = 'appointment.started',
+    APPOINTMENT_RESCHEDULED = 'appointment.rescheduled',
     APPOINTMENT_CANCELLED = 'appointment.cancelled',
     APPOINTMENT_COMPLETED = 'appointment.completed',
     APPOINTMENT_NO_SHOW = 'appointment.no_show',
@@ -60,6 +70,116 @@ export interface UserCreatedPayload {
     role: string;
 }
 
+export interface UserUpdatedPayload {
+    userId: string;
+    email: string;
+    changes: string[];
+}
+
+export interface UserDeletedPayload {
+    userId: string;
+    email: string;
+}
+
+export interface UserLoginPayload {
+    userId: string;
+    email: string;
+    ipAddress?: string;
+    timestamp: string;
+}
+
+export interface UserLogoutPayload {
+    userId: string;
+    email: string;
+}
+
+export interface PasswordResetRequestedPayload {
+    userId: string;
+    email: string;
+    resetToken: string;
+    expiresAt: string;
+}
+
+// Consumed by Notification Service, which emails the verification link
+export interface EmailVerificationRequestedPayload {
+    userId: string;
+    email: string;
+    firstName: string;
+    verificationToken: string;
+    expiresAt: string;
+}
+
+export interface EmailVerifiedPayload {
+    userId: string;
+    email: string;
+}
+
+// Access tokens to reject before they expire: one token, those of one session,
+// or all issued before notBefore
+export interface TokensRevokedPayload {
+    userId: string;
+    reason:
+        | 'logout'
+        | 'password_change'
+        | 'password_reset'
+        | 'deactivated'
+        | 'refresh_token_reuse'
+        | 'session_revoked';
+    tokenId?: string; // jti
+    sessionId?: string; // sid
+    notBefore?: string;
+    expiresAt: string; // Every revoked token has expired by then
+}
+
+// A refresh token was presented after it had been rotated: the login session it
+// belongs to is revoked and the user has to log in again
+export interface RefreshTokenReusedPayload {
+    userId: string;
+    familyId: string;
+    ipAddress?: string;
+    userAgent?: string;
+    detectedAt: string;
+}
+
+export interface MfaEnabledPayload {
+    userId: string;
+    email: string;
+}
+
+// Turned off by the user, or reset by an admin (lost device): the user enrolls again
+export interface MfaDisabledPayload {
+    userId: string;
+    email: string;
+    reason: 'user' | 'admin_reset';
+    actorId?: string; // Admin who reset it
+}
+
+export interface PatientCreatedPayload {
+    patientId: string;
+    userId: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+}
+
+export interface PatientUpdatedPayload {
+    patientId: string;
+    userId: string;
+    changes: string[];
+}
+
+export interface PatientDeletedPayload {
+    patientId: string;
+    userId: string;
+}
+
+export interface MedicalRecordUploadedPayload {
+    recordId: string;
+    patientId: string;
+    type: string;
+    title: string;
+}
+
 export interface AppointmentCreatedPayload {
     appointmentId: string;
     patientId: string;
@@ -70,6 +190,14 @@ export interface AppointmentCreatedPayload {
     status: string;
 }
 
+export interface AppointmentUpdatedPayload {
+    appointmentId: string;
+    patientId: string;
+    doctorId: string;
+    scheduledAt: string;
+    updatedFields: string[];
+}
+
 export interface AppointmentConfirmedPayload {
     appointmentId: string;
     patientId: string;
@@ -78,14 +206,74 @@ export interface AppointmentConfirmedPayload {
     paymentId: string;
 }
 
+// Used for every lifecycle transition other than confirmation
+export interface AppointmentStatusChangedPayload {
+    appointmentId: string;
+    patientId: string;
+    doctorId: string;
+    scheduledAt: string;
+    previousStatus: string;
+    status: string;
+    reason?: string;
+    changedBy?: string;
+}
+
+// requested -> pending_payment: checkout started, the slot is held until holdExpiresAt
+export interface AppointmentAwaitingPaymentPayload extends AppointmentStatusChangedPayload {
+    holdExpiresAt: string;
+}
+
+export interface AppointmentRescheduledPayload extends AppointmentStatusChangedPayload {
+    newAppointmentId: string;
+    newScheduledAt: string;
+}
+
+export interface PaymentPendingPayload {
+    paymentId: string;
+    appointmentId: string;
+    patientId: string;
+    amount: number;
+    currency: string;
+}
+
 export interface PaymentCompletedPayload {
     paymentId: string;
     appointmentId: string;
+    patientId?: string;
     amount: number;
     currency: string;
     stripePaymentIntentId: string;
 }
 
+export interface PaymentFailedPayload {
+    paymentId: string;
+    appointmentId: string;
+    patientId?: string;
+    reason?: string;
+}
+
+export interface PaymentRefundedPayload {
+    paymentId: string;
+    appointmentId: string;
+    patientId?: string;
+    refundId: string;
+    amount: number;
+    currency: string;
+    totalRefunded: number;
+    fullyRefunded: boolean;
+    reason: string;
+}
+
+export interface InvoiceGeneratedPayload {
+    invoiceId: string;
+    invoiceNumber: string;
+    paymentId: string;
+    appointmentId: string;
+    patientId: string;
+    total: number;
+    currency: string;
+}
+
 export interface NotificationSendPayload {
     recipientId: string;
     recipientEmail: string;
@@ -94,6 +282,67 @@ export interface NotificationSendPayload {
     data: Record<string, unknown>;
 }
 
+export interface NotificationSentPayload {
+    notificationId: string;
+    recipientId: string;
+    channel: NotificationSendPayload['type'];
+    template: string;
+    title: string;
+}
+
+export interface NotificationFailedPayload {
+    notificationId: string;
+    recipientId: string;
+    channel: NotificationSendPayload['type'];
+    template: string;
+    reason: string;
+}
+
+// Payload carried by each event: publish and subscribe are typed against this map
+export interface EventPayloadMap {
+    [EventName.USER_CREATED]: UserCreatedPayload;
+    [EventName.USER_UPDATED]: UserUpdatedPayload;
+    [EventName.USER_DELETED]: UserDeletedPayload;
+    [EventName.USER_LOGIN]: UserLoginPayload;
+    [EventName.USER_LOGOUT]: UserLogoutPayload;
+    [EventName.PASSWORD_RESET_REQUESTED]: PasswordResetRequestedPayload;
+    [EventName.EMAIL_VERIFICATION_REQUESTED]: EmailVerificationRequestedPayload;
+    [EventName.EMAIL_VERIFIED]: EmailVerifiedPayload;
+    [EventName.TOKENS_REVOKED]: TokensRevokedPayload;
+    [EventName.REFRESH_TOKEN_REUSED]: RefreshTokenReusedPayload;
+    [EventName.MFA_ENABLED]: MfaEnabledPayload;
+    [EventName.MFA_DISABLED]: MfaDisabledPayload;
+
+    [EventName.PATIENT_CREATED]: PatientCreatedPayload;
+    [EventName.PATIENT_UPDATED]: PatientUpdatedPayload;
+    [EventName.PATIENT_DELETED]: PatientDeletedPayload;
+    [EventName.MEDICAL_RECORD_UPLOADED]: MedicalRecordUploadedPayload;
+
+    [EventName.APPOINTMENT_CREATED]: AppointmentCreatedPayload;
+    [EventName.APPOINTMENT_UPDATED]: AppointmentUpdatedPayload;
+    [EventName.APPOINTMENT_AWAITING_PAYMENT]: AppointmentAwaitingPaymentPayload;
+    [EventName.APPOINTMENT_CONFIRMED]: AppointmentConfirmedPayload;
+    [EventName.APPOINTMENT_CHECKED_IN]: AppointmentStatusChangedPayload;
+    [EventName.APPOINTMENT_STARTED]: AppointmentStatusChangedPayload;
+    [EventName.APPOINTMENT_RESCHEDULED]: AppointmentRescheduledPayload;
+    [EventName.APPOINTMENT_CANCELLED]: AppointmentStatusChangedPayload;
+    [EventName.APPOINTMENT_COMPLETED]: AppointmentStatusChangedPayload;
+    [EventName.APPOINTMENT_NO_SHOW]: AppointmentStatusChangedPayload;
+
+    [EventName.PAYMENT_PENDING]: PaymentPendingPayload;
+    [EventName.PAYMENT_COMPLETED]: PaymentCompletedPayload;
+    [EventName.PAYMENT_FAILED]: PaymentFailedPayload;
+    [EventName.PAYMENT_REFUNDED]: PaymentRefundedPayload;
+    [EventName.INVOICE_GENERATED]: InvoiceGeneratedPayload;
+
+    [EventName.NOTIFICATION_SEND]: NotificationSendPayload;
+    [EventName.NOTIFICATION_SENT]: NotificationSentPayload;
+    [EventName.NOTIFICATION_FAILED]: NotificationFailedPayload;
+}
+
+// The event published under a given name, e.g. EventOf<EventName.USER_CREATED>
+export type EventOf<E extends EventName> = BaseEvent<EventPayloadMap[E]>;
+
 // RabbitMQ exchange and queue names
 export const RABBITMQ_CONFIG = {
     EXCHANGE: 'careflow.events',
@@ -104,6 +353,7 @@ export const RABBITMQ_CONFIG = {
         BILLING_EVENTS: 'billing.events',
         NOTIFICATION_EVENTS: 'notification.events',
         AUDIT_EVENTS: 'audit.events',
+        GATEWAY_EVENTS: 'gateway.events',
     },
     ROUTING_KEYS: {
         AUTH: 'auth.*',
@@ -44,6 +44,9 @@ export interface JwtPayload {
     roles: UserRole[];
     permissions: Permission[];
     departmentId?: string; // For ABAC - which department they belong to
+    jti?: string; // Token ID, for revocation
+    sid?: string; // Session (login) the token was issued to
+    emailVerified?: boolean; // Only set while an email verification policy is enforced
     iat?: number; // Issued at
     exp?: number; // Expiration
 }
@@ -56,6 +59,10 @@ export interface UserContext {
     roles: UserRole[];
     permissions: Permission[];
     departmentId?: string;
+    tokenId?: string; // jti of the access token the request came with
+    tokenExpiresAt?: number; // Its exp, in seconds
+    sessionId?: string; // Its sid
+    emailVerified?: boolean; // Only set while an email verification policy is enforced
 }
 
 // Request headers for internal service communication
@@ -65,6 +72,9 @@ export const INTERNAL_HEADERS = {
     USER_ROLES: 'x-user-roles',
     USER_PERMISSIONS: 'x-user-permissions',
     DEPARTMENT_ID: 'x-department-id',
+    TOKEN_ID: 'x-token-id',
+    TOKEN_EXPIRES_AT: 'x-token-expires-at',
+    SESSION_ID: 'x-session-id',
     CORRELATION_ID: 'x-correlation-id',
     REQUEST_ID: 'x-request-id',
 } as const;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { EventBusModule, RABBITMQ_CONFIG } from '@careflow/shared';
 
 // Core modules
 import { AppConfigModule, AppConfigService } from './config';
@@ -8,6 +9,7 @@ import { RedisModule } from './redis/redis.module';
 import { AuthModule } from './auth/auth.module';
 import { ProxyModule } from './proxy/proxy.module';
 import { WebSocketModule } from './websocket/websocket.module';
+import { PresenceModule } from './presence/presence.module';
 import { HealthModule } from './health/health.module';
 
 // Guards
@@ -48,6 +50,16 @@ import { RootModule } from './root/root.module';
         // Redis (globally available)
         RedisModule,
 
+        // RabbitMQ (domain events for WebSocket push)
+        EventBusModule.forRootAsync({
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => ({
+                url: config.rabbitmqUrl,
+                serviceName: 'api-gateway',
+                queue: RABBITMQ_CONFIG.QUEUES.GATEWAY_EVENTS,
+            }),
+        }),
+
         // Rate limiting
         ThrottlerModule.forRootAsync({
             inject: [AppConfigService],
@@ -71,6 +83,9 @@ import { RootModule } from './root/root.module';
         // WebSocket gateway
         WebSocketModule,
 
+        // Staff presence (on-shift query)
+        PresenceModule,
+
         // Health checks
         HealthModule,
 
@@ -4,7 +4,8 @@ import { PassportModule } from '@nestjs/passport';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
-import { AppConfigService } from '../config';
+import { TokenRevocationService } from './token-revocation.service';
+import { JwksService } from './jwks.service';
 
 /**
  * Auth Module
@@ -13,20 +14,23 @@ import { AppConfigService } from '../config';
  *
  * NOTE: This module does NOT issue tokens.
  * Token issuance happens in Auth Service.
- * Gateway only validates and extracts user context.
+ * Gateway only validates and extracts user context, and rejects tokens
+ * revoked before they expire (TokenRevocationService).
  */
 @Module({
     imports: [
         PassportModule.register({ defaultStrategy: 'jwt' }),
-        JwtModule.registerAsync({
-            inject: [AppConfigService],
-            useFactory: (config: AppConfigService) => ({
-                secret: config.jwt.secret,
-                signOptions: { expiresIn: config.jwt.expiresIn },
-            }),
-        }),
+        // Verification only: keys come from JwksService per token
+        JwtModule.register({}),
+    ],
+    providers: [JwtStrategy, JwtAuthGuard, RolesGuard, TokenRevocationService, JwksService],
+    exports: [
+        JwtStrategy,
+        JwtAuthGuard,
+        RolesGuard,
+        JwtModule,
+        TokenRevocationService,
+        JwksService,
     ],
-    providers: [JwtStrategy, JwtAuthGuard, RolesGuard],
-    exports: [JwtStrategy, JwtAuthGuard, RolesGuard, JwtModule],
 })
 export class AuthModule {}
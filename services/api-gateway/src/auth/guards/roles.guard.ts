@@ -1,6 +1,11 @@
 import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { ROLES_KEY, PERMISSIONS_KEY, PUBLIC_KEY } from '../../common/decorators';
+import {
+    ROLES_KEY,
+    PERMISSIONS_KEY,
+    PUBLIC_KEY,
+    VERIFIED_EMAIL_KEY,
+} from '../../common/decorators';
 import { UserContext, UserRole, Permission } from '@careflow/shared';
 
 /**
@@ -34,8 +39,13 @@ export class RolesGuard implements CanActivate {
             [context.getHandler(), context.getClass()],
         );
 
+        const requiresVerifiedEmail = this.reflector.getAllAndOverride<boolean>(
+            VERIFIED_EMAIL_KEY,
+            [context.getHandler(), context.getClass()],
+        );
+
         // If no roles/permissions specified, allow access (just auth required)
-        if (!requiredRoles?.length && !requiredPermissions?.length) {
+        if (!requiredRoles?.length && !requiredPermissions?.length && !requiresVerifiedEmail) {
             return true;
         }
 
@@ -46,6 +56,14 @@ export class RolesGuard implements CanActivate {
             throw new ForbiddenException('User context not found');
         }
 
+        // Tokens only carry emailVerified while Auth Service enforces a verification policy.
+        // The claim is set when the token is issued, so verifying takes a refresh to show.
+        if (requiresVerifiedEmail && user.emailVerified === false) {
+            throw new ForbiddenException(
+                'Email address not verified; if it has been since, refresh the access token',
+            );
+        }
+
         // Check roles (OR logic - user needs at least one of the required roles)
         if (requiredRoles?.length) {
             const hasRole = requiredRoles.some((role) => user.roles.includes(role));
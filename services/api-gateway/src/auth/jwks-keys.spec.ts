@@ -0,0 +1,63 @@
+import { createVerify, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { readTokenHeader, toVerificationKeys } from './jwks-keys';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+const jwk = (key: KeyObject, extra: object) => ({
+    ...key.export({ format: 'jwk' }),
+    ...extra,
+});
+
+describe('readTokenHeader', () => {
+    it('decodes the header without verifying', () => {
+        const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid: 'k1' })).toString(
+            'base64url',
+        );
+
+        expect(readTokenHeader(`${header}.payload.signature`)).toEqual({ alg: 'RS256', kid: 'k1' });
+    });
+
+    it('returns null for anything that is not a JWT', () => {
+        expect(readTokenHeader('not-a-token')).toBeNull();
+        expect(readTokenHeader('')).toBeNull();
+        expect(readTokenHeader(`${Buffer.from('"text"').toString('base64url')}.x.y`)).toBeNull();
+    });
+});
+
+describe('toVerificationKeys', () => {
+    it('maps RSA and EC signing keys by kid to PEM public keys', () => {
+        const keys = toVerificationKeys({
+            keys: [
+                jwk(rsa.publicKey, { kid: 'rsa-1', alg: 'RS256', use: 'sig' }),
+                jwk(ec.publicKey, { kid: 'ec-1', alg: 'ES256' }),
+            ],
+        });
+
+        expect([...keys.keys()]).toEqual(['rsa-1', 'ec-1']);
+        expect(keys.get('ec-1')?.algorithm).toBe('ES256');
+
+        // The exported PEM verifies what the private key signed
+        const signature = sign('sha256', Buffer.from('data'), rsa.privateKey);
+        const verifier = createVerify('sha256').update('data');
+        expect(verifier.verify(keys.get('rsa-1')!.publicKey, signature)).toBe(true);
+    });
+
+    it('skips keys without a kid, not for signing, or for other algorithms', () => {
+        const keys = toVerificationKeys({
+            keys: [
+                jwk(rsa.publicKey, { alg: 'RS256' }),
+                jwk(rsa.publicKey, { kid: 'enc', alg: 'RS256', use: 'enc' }),
+                jwk(rsa.publicKey, { kid: 'hs', alg: 'HS256' }),
+                { kid: 'broken', alg: 'ES256', kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA' },
+            ],
+        });
+
+        expect(keys.size).toBe(0);
+    });
+
+    it('tolerates a response without keys', () => {
+        expect(toVerificationKeys({}).size).toBe(0);
+        expect(toVerificationKeys({ keys: 'nope' }).size).toBe(0);
+    });
+});
@@ -0,0 +1,59 @@
+import { createPublicKey, JsonWebKey } from 'crypto';
+
+/**
+ * Algorithms Auth Service signs access tokens with. Anything else (HS256 in
+ * particular, which would verify with a public key used as an HMAC secret) is rejected.
+ */
+export const JWT_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+export interface VerificationKey {
+    algorithm: JwtAlgorithm;
+    publicKey: string; // SPKI PEM
+}
+
+export interface TokenHeader {
+    alg?: string;
+    kid?: string;
+}
+
+/**
+ * The unverified header of a JWT, null when it is not one
+ */
+export function readTokenHeader(token: string): TokenHeader | null {
+    try {
+        const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+        return header !== null && typeof header === 'object' ? header : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Signing keys of a JWKS by kid. Keys without a kid, not meant for signatures or
+ * for an algorithm we do not accept are left out.
+ */
+export function toVerificationKeys(jwks: { keys?: unknown }): Map<string, VerificationKey> {
+    const keys = new Map<string, VerificationKey>();
+
+    for (const jwk of Array.isArray(jwks.keys) ? jwks.keys : []) {
+        const { kid, alg, use } = jwk as { kid?: string; alg?: string; use?: string };
+
+        if (!kid || (use && use !== 'sig') || !JWT_ALGORITHMS.includes(alg as JwtAlgorithm)) {
+            continue;
+        }
+
+        try {
+            const publicKey = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+            keys.set(kid, {
+                algorithm: alg as JwtAlgorithm,
+                publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+            });
+        } catch {
+            // Malformed key material: skipped like an unknown key type
+        }
+    }
+
+    return keys;
+}
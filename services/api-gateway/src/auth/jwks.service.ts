@@ -0,0 +1,72 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import axios from 'axios';
+import { AppConfigService } from '../config';
+import { readTokenHeader, toVerificationKeys, VerificationKey } from './jwks-keys';
+
+// An unknown kid triggers a refetch at most this often, so forged kids cannot flood Auth Service
+const MIN_REFETCH_INTERVAL_MS = 30_000;
+
+/**
+ * JWKS Service
+ *
+ * Verification keys for access tokens, fetched from Auth Service's JWKS and cached
+ * in memory for JWKS_CACHE_TTL_SECONDS. A token signed with a kid not in the cache
+ * (Auth Service rotated its key) refetches the set early. While Auth Service is
+ * unreachable, the keys already cached keep being used.
+ */
+@Injectable()
+export class JwksService {
+    private readonly logger = new Logger(JwksService.name);
+    private keys = new Map<string, VerificationKey>();
+    private fetchedAt = 0;
+    private fetching?: Promise<void>;
+
+    constructor(private config: AppConfigService) {}
+
+    /**
+     * Key to verify the token with. Its header must name a known kid and that
+     * key's algorithm.
+     */
+    async keyFor(token: string): Promise<VerificationKey> {
+        const header = readTokenHeader(token);
+        if (!header?.kid) {
+            throw new UnauthorizedException('Invalid token');
+        }
+
+        const age = Date.now() - this.fetchedAt;
+        const stale = age >= this.config.jwks.cacheTtlSeconds * 1000;
+        const unknown = !this.keys.has(header.kid) && age >= MIN_REFETCH_INTERVAL_MS;
+
+        if (stale || unknown) {
+            await this.refresh();
+        }
+
+        const key = this.keys.get(header.kid);
+        if (!key || key.algorithm !== header.alg) {
+            throw new UnauthorizedException('Invalid token');
+        }
+
+        return key;
+    }
+
+    private async refresh(): Promise<void> {
+        this.fetching ??= this.fetch().finally(() => {
+            this.fetching = undefined;
+        });
+        return this.fetching;
+    }
+
+    private async fetch(): Promise<void> {
+        try {
+            const { data } = await axios.get(this.config.jwks.url, { timeout: 5000 });
+            this.keys = toVerificationKeys(data);
+            this.logger.debug(`JWKS loaded: ${[...this.keys.keys()].join(', ')}`);
+        } catch (error) {
+            this.logger.warn(
+                `JWKS fetch failed, using ${this.keys.size} cached key(s): ${error.message}`,
+            );
+        } finally {
+            this.fetchedAt = Date.now();
+        }
+    }
+}
@@ -3,6 +3,9 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { AppConfigService } from '../../config';
 import { RedisService } from '../../redis/redis.service';
+import { TokenRevocationService } from '../token-revocation.service';
+import { JwksService } from '../jwks.service';
+import { JWT_ALGORITHMS } from '../jwks-keys';
 import { JwtPayload, UserContext } from '@careflow/shared';
 
 /**
@@ -16,6 +19,8 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
     constructor(
         private config: AppConfigService,
         private redis: RedisService,
+        private tokenRevocation: TokenRevocationService,
+        jwks: JwksService,
     ) {
         super({
             // Extract JWT from Authorization header: "Bearer <token>"
@@ -24,9 +29,18 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
             // Don't ignore expiration - let it fail if expired
             ignoreExpiration: false,
 
-            // Secret for HS256 verification
-            // In production, use RS256 with public key from Auth Service
-            secretOrKey: config.jwt.secret,
+            // Auth Service's public key named by the token's kid, from its JWKS
+            secretOrKeyProvider: (
+                request: Request,
+                rawJwtToken: string,
+                done: (error: unknown, key?: string) => void,
+            ) => {
+                jwks.keyFor(rawJwtToken).then(
+                    (key) => done(null, key.publicKey),
+                    (error) => done(error),
+                );
+            },
+            algorithms: [...JWT_ALGORITHMS],
 
             // Pass the request to validate() for additional checks
             passReqToCallback: true,
@@ -38,15 +52,9 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
      * This is where we do additional validation
      */
     async validate(request: Request, payload: JwtPayload): Promise<UserContext> {
-        // Check if token is blacklisted (user logged out)
-        if (payload.sub) {
-            // Use token's unique ID (jti) if available, otherwise use sub + iat
-            const tokenIdentifier = `${payload.sub}:${payload.iat}`;
-            const isBlacklisted = await this.redis.isTokenBlacklisted(tokenIdentifier);
-
-            if (isBlacklisted) {
-                throw new UnauthorizedException('Token has been revoked');
-            }
+        // Check if token was revoked (logout, password reset, deactivation)
+        if (await this.tokenRevocation.isRevoked(payload)) {
+            throw new UnauthorizedException('Token has been revoked');
         }
 
         // Optional: Check cached session for additional validation
@@ -64,6 +72,10 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
             roles: payload.roles,
             permissions: payload.permissions,
             departmentId: payload.departmentId,
+            tokenId: payload.jti,
+            tokenExpiresAt: payload.exp,
+            sessionId: payload.sid,
+            emailVerified: payload.emailVerified,
         };
 
         return userContext;
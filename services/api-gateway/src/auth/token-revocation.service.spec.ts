@@ -0,0 +1,212 @@
+import { EventName, EventOf, JwtPayload, TokensRevokedPayload, UserRole } from '@careflow/shared';
+import { RedisService } from '../redis/redis.service';
+import { TokenRevocationService } from './token-revocation.service';
+
+const NOW = new Date('2026-03-02T09:00:00Z');
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+/**
+ * The Redis commands RedisService uses for revocations, with expiry on the
+ * jest clock
+ */
+class FakeRedisClient {
+    readonly entries = new Map<string, { value: string; expiresAt?: number }>();
+
+    async get(key: string): Promise<string | null> {
+        const entry = this.entries.get(key);
+        if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())) {
+            return null;
+        }
+        return entry.value;
+    }
+
+    async set(key: string, value: string): Promise<'OK'> {
+        this.entries.set(key, { value });
+        return 'OK';
+    }
+
+    async setex(key: string, ttlSeconds: number, value: string): Promise<'OK'> {
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+        return 'OK';
+    }
+
+    async exists(key: string): Promise<number> {
+        return (await this.get(key)) === null ? 0 : 1;
+    }
+
+    ttl(key: string): number | undefined {
+        const expiresAt = this.entries.get(key)?.expiresAt;
+        return expiresAt === undefined ? undefined : (expiresAt - Date.now()) / 1000;
+    }
+}
+
+describe('TokenRevocationService', () => {
+    let service: TokenRevocationService;
+    let client: FakeRedisClient;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: NOW });
+        client = new FakeRedisClient();
+
+        const redis = new RedisService({} as never);
+        Object.assign(redis, { client });
+        service = new TokenRevocationService(redis);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    const revoked = (
+        payload: Partial<TokensRevokedPayload>,
+    ): EventOf<EventName.TOKENS_REVOKED> => ({
+        eventId: 'event-1',
+        eventName: EventName.TOKENS_REVOKED,
+        timestamp: NOW.toISOString(),
+        correlationId: 'corr-1',
+        source: 'auth-service',
+        version: '1.0',
+        payload: {
+            userId: 'user-1',
+            reason: 'logout',
+            expiresAt: new Date(NOW.getTime() + 900_000).toISOString(),
+            ...payload,
+        },
+    });
+
+    const token = (claims: Partial<JwtPayload> = {}): JwtPayload => ({
+        sub: 'user-1',
+        email: 'patient@example.com',
+        roles: [UserRole.PATIENT],
+        permissions: [],
+        jti: 'token-1',
+        sid: 'session-1',
+        iat: NOW_SECONDS - 60,
+        ...claims,
+    });
+
+    it('accepts tokens nothing was revoked for', async () => {
+        await expect(service.isRevoked(token())).resolves.toBe(false);
+    });
+
+    describe('by jti', () => {
+        beforeEach(async () => {
+            await service.onTokensRevoked(revoked({ tokenId: 'token-1' }));
+        });
+
+        it('rejects the revoked token', async () => {
+            await expect(service.isRevoked(token())).resolves.toBe(true);
+        });
+
+        it('accepts other tokens of the user and session', async () => {
+            await expect(service.isRevoked(token({ jti: 'token-2' }))).resolves.toBe(false);
+        });
+    });
+
+    describe('by sid', () => {
+        beforeEach(async () => {
+            await service.onTokensRevoked(
+                revoked({ reason: 'session_revoked', sessionId: 'session-1' }),
+            );
+        });
+
+        it('rejects every token of the session', async () => {
+            await expect(service.isRevoked(token({ jti: 'token-2' }))).resolves.toBe(true);
+            await expect(service.isRevoked(token({ iat: NOW_SECONDS + 60 }))).resolves.toBe(true);
+        });
+
+        it('accepts tokens of other sessions of the user', async () => {
+            await expect(service.isRevoked(token({ sid: 'session-2' }))).resolves.toBe(false);
+        });
+    });
+
+    describe('by notBefore', () => {
+        beforeEach(async () => {
+            await service.onTokensRevoked(
+                revoked({ reason: 'password_change', notBefore: NOW.toISOString() }),
+            );
+        });
+
+        it('rejects tokens issued before the revocation', async () => {
+            await expect(service.isRevoked(token({ iat: NOW_SECONDS - 1 }))).resolves.toBe(true);
+        });
+
+        it('accepts a token issued in the same second, e.g. by logging in again', async () => {
+            await expect(service.isRevoked(token({ iat: NOW_SECONDS }))).resolves.toBe(false);
+        });
+
+        it('accepts tokens issued afterwards', async () => {
+            await expect(service.isRevoked(token({ iat: NOW_SECONDS + 1 }))).resolves.toBe(false);
+        });
+
+        it('rejects a token without iat', async () => {
+            await expect(service.isRevoked(token({ iat: undefined }))).resolves.toBe(true);
+        });
+
+        it('accepts tokens of other users', async () => {
+            await expect(service.isRevoked(token({ sub: 'user-2' }))).resolves.toBe(false);
+        });
+
+        it('is not moved back by an older revocation arriving late', async () => {
+            await service.onTokensRevoked(
+                revoked({ notBefore: new Date(NOW.getTime() - 3_600_000).toISOString() }),
+            );
+
+            await expect(service.isRevoked(token({ iat: NOW_SECONDS - 1 }))).resolves.toBe(true);
+        });
+
+        it('drops sub-second precision of notBefore', async () => {
+            await service.onTokensRevoked(
+                revoked({ notBefore: new Date(NOW.getTime() + 1_500).toISOString() }),
+            );
+
+            await expect(service.isRevoked(token({ iat: NOW_SECONDS + 1 }))).resolves.toBe(false);
+        });
+    });
+
+    describe('TTL', () => {
+        it('keeps a revocation until the revoked tokens expire', async () => {
+            await service.onTokensRevoked(
+                revoked({
+                    tokenId: 'token-1',
+                    sessionId: 'session-1',
+                    notBefore: NOW.toISOString(),
+                }),
+            );
+
+            expect(client.ttl('blacklist:token-1')).toBe(900);
+            expect(client.ttl('revoked-session:session-1')).toBe(900);
+            expect(client.ttl('tokens-not-before:user-1')).toBe(900);
+
+            jest.setSystemTime(NOW.getTime() + 899_000);
+            await expect(service.isRevoked(token({ sid: undefined }))).resolves.toBe(true);
+
+            jest.setSystemTime(NOW.getTime() + 900_000);
+            await expect(service.isRevoked(token())).resolves.toBe(false);
+        });
+
+        it('rounds a partial second up', async () => {
+            await service.onTokensRevoked(
+                revoked({
+                    tokenId: 'token-1',
+                    expiresAt: new Date(NOW.getTime() + 10_200).toISOString(),
+                }),
+            );
+
+            expect(client.ttl('blacklist:token-1')).toBe(11);
+        });
+
+        it('ignores revocations of tokens that have expired already', async () => {
+            await service.onTokensRevoked(
+                revoked({
+                    tokenId: 'token-1',
+                    notBefore: NOW.toISOString(),
+                    expiresAt: NOW.toISOString(),
+                }),
+            );
+
+            expect(client.entries.size).toBe(0);
+            await expect(service.isRevoked(token())).resolves.toBe(false);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventName, EventOf, JwtPayload, OnEvent } from '@careflow/shared';
+import { RedisService } from '../redis/redis.service';
+
+/**
+ * Token Revocation Service
+ *
+ * Access tokens are stateless, so Auth Service publishes user.tokens.revoked on
+ * logout, password change or reset, deactivation and session revocation.
+ * Revocations are kept in Redis until the revoked tokens would have expired anyway:
+ * - a single token by its jti (logout from one device)
+ * - every token of a session by its sid (session revoked)
+ * - every token of the user issued before notBefore (logout everywhere,
+ *   password change or reset, deactivation)
+ */
+@Injectable()
+export class TokenRevocationService {
+    private readonly logger = new Logger(TokenRevocationService.name);
+
+    constructor(private redis: RedisService) {}
+
+    @OnEvent(EventName.TOKENS_REVOKED)
+    async onTokensRevoked(event: EventOf<EventName.TOKENS_REVOKED>): Promise<void> {
+        const { userId, reason, tokenId, sessionId, notBefore, expiresAt } = event.payload;
+        const ttl = Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 1000);
+
+        // Everything it covers has expired already
+        if (ttl <= 0) {
+            return;
+        }
+
+        if (tokenId) {
+            await this.redis.blacklistToken(tokenId, ttl);
+        }
+        if (sessionId) {
+            await this.redis.revokeSession(sessionId, ttl);
+        }
+        if (notBefore) {
+            const seconds = Math.floor(new Date(notBefore).getTime() / 1000);
+            await this.redis.setTokensNotBefore(userId, seconds, ttl);
+        }
+
+        const scope = notBefore
+            ? `issued before ${notBefore}`
+            : sessionId
+              ? `session ${sessionId}`
+              : tokenId;
+        this.logger.log(`Tokens revoked for user ${userId} (${reason}): ${scope}`);
+    }
+
+    async isRevoked(payload: JwtPayload): Promise<boolean> {
+        if (payload.jti && (await this.redis.isTokenBlacklisted(payload.jti))) {
+            return true;
+        }
+        if (payload.sid && (await this.redis.isSessionRevoked(payload.sid))) {
+            return true;
+        }
+
+        const notBefore = await this.redis.getTokensNotBefore(payload.sub);
+
+        // iat has second precision: a token issued in the second of the revocation stays
+        // valid, so logging in again right after a password reset works
+        return notBefore !== null && (payload.iat === undefined || payload.iat < notBefore);
+    }
+}
@@ -31,6 +31,7 @@ export const CorrelationId = createParamDecorator(
 export const ROLES_KEY = 'roles';
 export const PERMISSIONS_KEY = 'permissions';
 export const PUBLIC_KEY = 'isPublic';
+export const VERIFIED_EMAIL_KEY = 'requireVerifiedEmail';
 
 /**
  * Mark an endpoint as requiring specific roles
@@ -50,3 +51,10 @@ export const Permissions = (...permissions: Permission[]) =>
  * Usage: @Public()
  */
 export const Public = () => SetMetadata(PUBLIC_KEY, true);
+
+/**
+ * Mark an endpoint as closed to users whose email address is not verified yet,
+ * when Auth Service enforces EMAIL_VERIFICATION_POLICY=booking
+ * Usage: @RequireVerifiedEmail()
+ */
+export const RequireVerifiedEmail = () => SetMetadata(VERIFIED_EMAIL_KEY, true);
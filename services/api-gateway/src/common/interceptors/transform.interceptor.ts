@@ -1,4 +1,10 @@
-import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import {
+    Injectable,
+    NestInterceptor,
+    ExecutionContext,
+    CallHandler,
+    StreamableFile,
+} from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import { Request } from 'express';
@@ -12,6 +18,8 @@ import { ApiResponse } from '@careflow/shared';
  *
  * Before: { id: 1, name: "John" }
  * After:  { success: true, data: { id: 1, name: "John" }, meta: {...} }
+ *
+ * File downloads (StreamableFile) are passed through untouched.
  */
 @Injectable()
 export class TransformInterceptor<T> implements NestInterceptor<T, ApiResponse<T>> {
@@ -21,6 +29,11 @@ export class TransformInterceptor<T> implements NestInterceptor<T, ApiResponse<T
 
         return next.handle().pipe(
             map((data) => {
+                // Binary downloads are sent as-is
+                if (data instanceof StreamableFile) {
+                    return data as unknown as ApiResponse<T>;
+                }
+
                 // If response is already in ApiResponse format, return as-is
                 if (this.isApiResponse(data)) {
                     return data as unknown as ApiResponse<T>;
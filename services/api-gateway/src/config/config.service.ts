@@ -34,12 +34,21 @@ export class AppConfigService {
     // JWT Configuration
     get jwt() {
         return {
-            secret: this.configService.get<string>('JWT_SECRET')!,
             expiresIn: this.configService.get<string>('JWT_EXPIRES_IN')!,
             refreshExpiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN')!,
         };
     }
 
+    // Access token verification keys, published by Auth Service
+    get jwks() {
+        return {
+            url:
+                this.configService.get<string>('JWKS_URL') ||
+                `${this.services.auth}/.well-known/jwks.json`,
+            cacheTtlSeconds: this.configService.get<number>('JWKS_CACHE_TTL_SECONDS') ?? 600,
+        };
+    }
+
     // Redis Configuration
     get redis() {
         return {
@@ -50,6 +59,11 @@ export class AppConfigService {
         };
     }
 
+    // RabbitMQ Configuration
+    get rabbitmqUrl(): string {
+        return this.configService.get<string>('RABBITMQ_URL')!;
+    }
+
     // Internal Service URLs
     get services() {
         return {
@@ -57,6 +71,8 @@ export class AppConfigService {
             patient: this.configService.get<string>('PATIENT_SERVICE_URL')!,
             appointment: this.configService.get<string>('APPOINTMENT_SERVICE_URL')!,
             billing: this.configService.get<string>('BILLING_SERVICE_URL')!,
+            notification: this.configService.get<string>('NOTIFICATION_SERVICE_URL')!,
+            audit: this.configService.get<string>('AUDIT_SERVICE_URL')!,
         };
     }
 
@@ -81,4 +97,12 @@ export class AppConfigService {
     get wsPath(): string {
         return this.configService.get<string>('WS_PATH')!;
     }
+
+    // Missed-event replay for reconnecting WebSocket clients
+    get wsReplay() {
+        return {
+            maxEvents: this.configService.get<number>('WS_REPLAY_MAX_EVENTS')!,
+            maxAgeSeconds: this.configService.get<number>('WS_REPLAY_MAX_AGE_SECONDS')!,
+        };
+    }
 }
@@ -24,8 +24,15 @@ export class EnvironmentVariables {
     @IsString()
     API_PREFIX: string;
 
+    // Defaults to the JWKS of AUTH_SERVICE_URL
+    @IsOptional()
     @IsString()
-    JWT_SECRET: string;
+    JWKS_URL?: string;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    JWKS_CACHE_TTL_SECONDS?: number;
 
     @IsString()
     JWT_EXPIRES_IN: string;
@@ -46,6 +53,9 @@ export class EnvironmentVariables {
     @IsNumber()
     REDIS_DB: number;
 
+    @IsString()
+    RABBITMQ_URL: string;
+
     @IsString()
     AUTH_SERVICE_URL: string;
 
@@ -58,6 +68,12 @@ export class EnvironmentVariables {
     @IsString()
     BILLING_SERVICE_URL: string;
 
+    @IsString()
+    NOTIFICATION_SERVICE_URL: string;
+
+    @IsString()
+    AUDIT_SERVICE_URL: string;
+
     @IsNumber()
     RATE_LIMIT_TTL: number;
 
@@ -72,6 +88,14 @@ export class EnvironmentVariables {
 
     @IsString()
     WS_PATH: string;
+
+    @IsNumber()
+    @Min(1)
+    WS_REPLAY_MAX_EVENTS: number;
+
+    @IsNumber()
+    @Min(1)
+    WS_REPLAY_MAX_AGE_SECONDS: number;
 }
 
 export function validate(config: Record<string, unknown>) {
@@ -3,7 +3,7 @@ import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { Public } from '../common/decorators';
 import { RedisService } from '../redis/redis.service';
 import { ProxyService, ServiceTarget } from '../proxy/proxy.service';
-import { HealthCheckResponse, HealthCheck } from '@careflow/shared';
+import { EventBus, HealthCheckResponse, HealthCheck } from '@careflow/shared';
 
 /**
  * Health Check Controller
@@ -20,6 +20,7 @@ export class HealthController {
     constructor(
         private redis: RedisService,
         private proxyService: ProxyService,
+        private eventBus: EventBus,
     ) {}
 
     /**
@@ -79,6 +80,15 @@ export class HealthController {
         });
         if (!redisHealthy) overallStatus = 'unhealthy';
 
+        // Check RabbitMQ (WebSocket push depends on it)
+        const rabbitHealthy = this.eventBus.isConnected();
+        checks.push({
+            name: 'rabbitmq',
+            status: rabbitHealthy ? 'pass' : 'warn',
+            message: rabbitHealthy ? 'Connected' : 'Disconnected',
+        });
+        if (!rabbitHealthy && overallStatus === 'healthy') overallStatus = 'degraded';
+
         // Check Auth Service
         const authStart = Date.now();
         const authHealthy = await this.proxyService.checkServiceHealth(ServiceTarget.AUTH);
@@ -125,6 +135,30 @@ export class HealthController {
         });
         if (!billingHealthy && overallStatus === 'healthy') overallStatus = 'degraded';
 
+        // Check Notification Service
+        const notificationStart = Date.now();
+        const notificationHealthy = await this.proxyService.checkServiceHealth(
+            ServiceTarget.NOTIFICATION,
+        );
+        checks.push({
+            name: 'notification-service',
+            status: notificationHealthy ? 'pass' : 'warn',
+            message: notificationHealthy ? 'Available' : 'Unavailable',
+            duration: Date.now() - notificationStart,
+        });
+        if (!notificationHealthy && overallStatus === 'healthy') overallStatus = 'degraded';
+
+        // Check Audit Service
+        const auditStart = Date.now();
+        const auditHealthy = await this.proxyService.checkServiceHealth(ServiceTarget.AUDIT);
+        checks.push({
+            name: 'audit-service',
+            status: auditHealthy ? 'pass' : 'warn',
+            message: auditHealthy ? 'Available' : 'Unavailable',
+            duration: Date.now() - auditStart,
+        });
+        if (!auditHealthy && overallStatus === 'healthy') overallStatus = 'degraded';
+
         return {
             status: overallStatus,
             service: 'api-gateway',
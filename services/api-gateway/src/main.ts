@@ -5,6 +5,7 @@ import { NestExpressApplication } from '@nestjs/platform-express';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
 import { AppConfigService } from './config';
+import { RedisIoAdapter } from './websocket/redis-io.adapter';
 
 /**
  * Bootstrap the API Gateway
@@ -110,6 +111,8 @@ async function bootstrap() {
             .addTag('Patients', 'Patient management')
             .addTag('Appointments', 'Appointment scheduling')
             .addTag('Billing', 'Payments and invoicing')
+            .addTag('Notifications', 'In-app notifications')
+            .addTag('Audit', 'Audit trail (Admin only)')
             .addTag('Health', 'Service health checks')
             .build();
 
@@ -125,6 +128,13 @@ async function bootstrap() {
         logger.log(`Swagger docs available at http://localhost:${config.port}/docs`);
     }
 
+    // ==================== WebSocket ====================
+
+    // Socket.IO Redis adapter: rooms span every Gateway instance
+    const redisIoAdapter = new RedisIoAdapter(app, config);
+    await redisIoAdapter.connectToRedis();
+    app.useWebSocketAdapter(redisIoAdapter);
+
     // ==================== Trust Proxy ====================
 
     // Required when behind reverse proxy (NGINX)
@@ -0,0 +1,18 @@
+import { PresenceStatus, derivePresence } from './presence-status';
+
+describe('derivePresence', () => {
+    it('is offline without live sockets, whatever was reported away', () => {
+        expect(derivePresence([], [])).toBe(PresenceStatus.OFFLINE);
+        expect(derivePresence([], ['s1'])).toBe(PresenceStatus.OFFLINE);
+    });
+
+    it('is online while any socket is active', () => {
+        expect(derivePresence(['s1'], [])).toBe(PresenceStatus.ONLINE);
+        expect(derivePresence(['s1', 's2'], ['s1'])).toBe(PresenceStatus.ONLINE);
+    });
+
+    it('is away when every live socket is away', () => {
+        expect(derivePresence(['s1', 's2'], ['s1', 's2'])).toBe(PresenceStatus.AWAY);
+        expect(derivePresence(['s2'], ['s1', 's2'])).toBe(PresenceStatus.AWAY);
+    });
+});
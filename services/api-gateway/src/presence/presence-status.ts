@@ -0,0 +1,20 @@
+export enum PresenceStatus {
+    ONLINE = 'online',
+    AWAY = 'away',
+    OFFLINE = 'offline',
+}
+
+/**
+ * A user is online while any of their sockets is active, away when all of them
+ * reported away, offline without sockets
+ */
+export function derivePresence(liveSocketIds: string[], awaySocketIds: string[]): PresenceStatus {
+    if (!liveSocketIds.length) {
+        return PresenceStatus.OFFLINE;
+    }
+
+    const away = new Set(awaySocketIds);
+    return liveSocketIds.every((socketId) => away.has(socketId))
+        ? PresenceStatus.AWAY
+        : PresenceStatus.ONLINE;
+}
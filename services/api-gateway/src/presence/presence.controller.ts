@@ -0,0 +1,40 @@
+import { Controller, ForbiddenException, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { UserRole, UserContext } from '@careflow/shared';
+import { Roles, CurrentUser } from '../common/decorators';
+import { PresenceService, StaffPresence } from './presence.service';
+
+/**
+ * Presence Controller
+ *
+ * Who is on shift, i.e. connected to the WebSocket gateway right now.
+ *
+ * RBAC Rules:
+ * - Admin: All departments, or one with ?departmentId=
+ * - Doctor/Nurse: Their own department
+ */
+@ApiTags('Presence')
+@Controller('presence')
+@ApiBearerAuth()
+export class PresenceController {
+    constructor(private presenceService: PresenceService) {}
+
+    @Get()
+    @Roles(UserRole.ADMIN, UserRole.DOCTOR, UserRole.NURSE)
+    @ApiOperation({ summary: 'Doctors and nurses currently online or away' })
+    @ApiQuery({ name: 'departmentId', required: false, type: String })
+    async list(
+        @CurrentUser() user: UserContext,
+        @Query('departmentId') departmentId?: string,
+    ): Promise<StaffPresence[]> {
+        if (user.roles.includes(UserRole.ADMIN)) {
+            return this.presenceService.list(departmentId);
+        }
+
+        if (!user.departmentId || (departmentId && departmentId !== user.departmentId)) {
+            throw new ForbiddenException('Presence is only visible for your own department');
+        }
+
+        return this.presenceService.list(user.departmentId);
+    }
+}
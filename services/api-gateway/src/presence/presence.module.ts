@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PresenceService } from './presence.service';
+import { PresenceController } from './presence.controller';
+
+/**
+ * Presence Module
+ *
+ * Staff presence tracked from WebSocket connections, and the on-shift query.
+ */
+@Module({
+    providers: [PresenceService],
+    controllers: [PresenceController],
+    exports: [PresenceService],
+})
+export class PresenceModule {}
@@ -0,0 +1,147 @@
+import { Injectable } from '@nestjs/common';
+import { UserContext, UserRole } from '@careflow/shared';
+import { RedisService } from '../redis/redis.service';
+import { PresenceStatus, derivePresence } from './presence-status';
+
+// Gateways refresh their sockets' liveness this often; a missed refresh window means gone
+export const PRESENCE_HEARTBEAT_SECONDS = 30;
+const SOCKET_ALIVE_TTL_SECONDS = PRESENCE_HEARTBEAT_SECONDS * 3;
+
+const STAFF_ROLES = [UserRole.DOCTOR, UserRole.NURSE];
+
+export interface StaffPresence {
+    userId: string;
+    email: string;
+    roles: UserRole[];
+    departmentId?: string;
+    status: PresenceStatus;
+    since: string;
+}
+
+export interface PresenceChange extends StaffPresence {
+    previous: PresenceStatus;
+}
+
+type StaffProfile = Pick<StaffPresence, 'userId' | 'email' | 'roles' | 'departmentId'>;
+
+/**
+ * Presence Service
+ *
+ * Online/away/offline status of doctors and nurses connected over WebSocket.
+ * State lives in Redis, so every gateway instance sees the same picture:
+ * - sockets per user (ws:user:*), kept alive by the heartbeat of the owning instance
+ * - sockets reported away by the client
+ * - the last announced status per user
+ *
+ * Methods return a PresenceChange when the user's status changed, for the caller to announce.
+ */
+@Injectable()
+export class PresenceService {
+    constructor(private redis: RedisService) {}
+
+    isStaff(user: UserContext): boolean {
+        return user.roles.some((role) => STAFF_ROLES.includes(role));
+    }
+
+    async connect(socketId: string, user: UserContext): Promise<PresenceChange | null> {
+        if (!this.isStaff(user)) {
+            return null;
+        }
+
+        await this.redis.markSocketsAlive([socketId], SOCKET_ALIVE_TTL_SECONDS);
+        return this.refresh(this.profileOf(user));
+    }
+
+    async disconnect(socketId: string, user: UserContext): Promise<PresenceChange | null> {
+        if (!this.isStaff(user)) {
+            return null;
+        }
+
+        await this.redis.clearSocketPresence(user.userId, socketId);
+        return this.refresh(this.profileOf(user));
+    }
+
+    async setAway(
+        socketId: string,
+        user: UserContext,
+        away: boolean,
+    ): Promise<PresenceChange | null> {
+        if (!this.isStaff(user)) {
+            return null;
+        }
+
+        await this.redis.setSocketAway(user.userId, socketId, away);
+        return this.refresh(this.profileOf(user));
+    }
+
+    /**
+     * Keep this instance's staff sockets alive
+     */
+    async heartbeat(socketIds: string[]): Promise<void> {
+        await this.redis.markSocketsAlive(socketIds, SOCKET_ALIVE_TTL_SECONDS);
+    }
+
+    /**
+     * Re-evaluate every connected user, catching sockets of gateway instances that died
+     */
+    async sweep(): Promise<PresenceChange[]> {
+        const connected = await this.redis.getConnectedPresences<StaffPresence>();
+        const changes = await Promise.all(connected.map((presence) => this.refresh(presence)));
+
+        return changes.filter((change): change is PresenceChange => !!change);
+    }
+
+    /**
+     * Doctors and nurses currently connected, optionally of one department
+     */
+    async list(departmentId?: string): Promise<StaffPresence[]> {
+        const connected = await this.redis.getConnectedPresences<StaffPresence>();
+
+        return connected
+            .filter((presence) => !departmentId || presence.departmentId === departmentId)
+            .sort((a, b) => a.email.localeCompare(b.email));
+    }
+
+    private async refresh(profile: StaffProfile): Promise<PresenceChange | null> {
+        const [live, away, current] = await Promise.all([
+            this.redis.getLiveSocketIds(profile.userId),
+            this.redis.getAwaySocketIds(profile.userId),
+            this.redis.getPresence<StaffPresence>(profile.userId),
+        ]);
+
+        const status = derivePresence(live, away);
+        if ((current?.status ?? PresenceStatus.OFFLINE) === status) {
+            return null;
+        }
+
+        const presence: StaffPresence = {
+            userId: profile.userId,
+            email: profile.email,
+            roles: profile.roles,
+            departmentId: profile.departmentId,
+            status,
+            since: new Date().toISOString(),
+        };
+        const previous = await this.redis.swapPresence(
+            profile.userId,
+            presence,
+            status !== PresenceStatus.OFFLINE,
+        );
+
+        // Another gateway instance already announced this transition
+        if (previous?.status === status) {
+            return null;
+        }
+
+        return { ...presence, previous: previous?.status ?? PresenceStatus.OFFLINE };
+    }
+
+    private profileOf(user: UserContext): StaffProfile {
+        return {
+            userId: user.userId,
+            email: user.email,
+            roles: user.roles,
+            departmentId: user.departmentId,
+        };
+    }
+}
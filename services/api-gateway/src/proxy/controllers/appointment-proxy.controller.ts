@@ -15,7 +15,7 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { Request } from 'express';
 import { ProxyService, ServiceTarget } from '../proxy.service';
-import { Roles, Permissions, CurrentUser } from '../../common/decorators';
+import { Roles, Permissions, CurrentUser, RequireVerifiedEmail } from '../../common/decorators';
 import { UserRole, Permission, UserContext } from '@careflow/shared';
 
 /**
@@ -94,10 +94,24 @@ export class AppointmentProxyController {
         return this.proxyService.forward(ServiceTarget.APPOINTMENT, request, `/appointments/${id}`);
     }
 
+    @Get(':id/history')
+    @Permissions(Permission.APPOINTMENT_READ)
+    @ApiOperation({ summary: 'Get appointment status transition history' })
+    @ApiResponse({ status: 200, description: 'Ordered list of status transitions' })
+    async getAppointmentHistory(@Param('id') id: string, @Req() request: Request): Promise<any> {
+        return this.proxyService.forward(
+            ServiceTarget.APPOINTMENT,
+            request,
+            `/appointments/${id}/history`,
+        );
+    }
+
     @Post()
     @Permissions(Permission.APPOINTMENT_WRITE)
+    @RequireVerifiedEmail()
     @ApiOperation({ summary: 'Create a new appointment' })
     @ApiResponse({ status: 201, description: 'Appointment created' })
+    @ApiResponse({ status: 403, description: 'Email address not verified' })
     @ApiResponse({ status: 409, description: 'Time slot not available' })
     async createAppointment(@Body() body: any, @Req() request: Request): Promise<any> {
         return this.proxyService.forward(ServiceTarget.APPOINTMENT, request, '/appointments', {
@@ -124,8 +138,9 @@ export class AppointmentProxyController {
 
     @Patch(':id/status')
     @Permissions(Permission.APPOINTMENT_WRITE)
-    @ApiOperation({ summary: 'Update appointment status' })
+    @ApiOperation({ summary: 'Move appointment along its lifecycle' })
     @ApiResponse({ status: 200, description: 'Status updated' })
+    @ApiResponse({ status: 400, description: 'Invalid status transition' })
     async updateStatus(
         @Param('id') id: string,
         @Body() body: { status: string; reason?: string },
@@ -139,24 +154,6 @@ export class AppointmentProxyController {
         );
     }
 
-    @Post(':id/confirm')
-    @HttpCode(HttpStatus.OK)
-    @Permissions(Permission.APPOINTMENT_WRITE)
-    @ApiOperation({ summary: 'Confirm appointment after payment' })
-    @ApiResponse({ status: 200, description: 'Appointment confirmed' })
-    async confirmAppointment(
-        @Param('id') id: string,
-        @Body() body: { paymentId: string },
-        @Req() request: Request,
-    ): Promise<any> {
-        return this.proxyService.forward(
-            ServiceTarget.APPOINTMENT,
-            request,
-            `/appointments/${id}/confirm`,
-            { data: body },
-        );
-    }
-
     @Post(':id/cancel')
     @HttpCode(HttpStatus.OK)
     @ApiOperation({ summary: 'Cancel appointment' })
@@ -177,8 +174,10 @@ export class AppointmentProxyController {
     @Post(':id/reschedule')
     @HttpCode(HttpStatus.OK)
     @Permissions(Permission.APPOINTMENT_WRITE)
+    @RequireVerifiedEmail()
     @ApiOperation({ summary: 'Reschedule appointment to new time' })
     @ApiResponse({ status: 200, description: 'Appointment rescheduled' })
+    @ApiResponse({ status: 403, description: 'Email address not verified' })
     async rescheduleAppointment(
         @Param('id') id: string,
         @Body() body: { newDateTime: string; reason?: string },
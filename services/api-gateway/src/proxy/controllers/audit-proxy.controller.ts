@@ -0,0 +1,99 @@
+import { Controller, Get, Post, Param, Req, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Request } from 'express';
+import { ProxyService, ServiceTarget } from '../proxy.service';
+import { Roles } from '../../common/decorators';
+import { UserRole } from '@careflow/shared';
+
+/**
+ * Audit Proxy Controller
+ *
+ * Proxies audit trail queries and hash chain checks to Audit Service.
+ *
+ * RBAC Rules:
+ * - Admin only: the trail spans every user and patient
+ */
+@ApiTags('Audit')
+@Controller('audit')
+@ApiBearerAuth()
+@Roles(UserRole.ADMIN)
+export class AuditProxyController {
+    constructor(private proxyService: ProxyService) {}
+
+    @Get('events')
+    @ApiOperation({ summary: 'Search the audit trail' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'userId', required: false, type: String })
+    @ApiQuery({ name: 'patientId', required: false, type: String })
+    @ApiQuery({ name: 'actorId', required: false, type: String })
+    @ApiQuery({ name: 'correlationId', required: false, type: String })
+    @ApiQuery({ name: 'eventName', required: false, type: String })
+    @ApiQuery({ name: 'source', required: false, type: String })
+    @ApiQuery({ name: 'from', required: false, type: String, description: 'ISO 8601' })
+    @ApiQuery({ name: 'to', required: false, type: String, description: 'ISO 8601' })
+    async searchEvents(@Req() request: Request): Promise<any> {
+        return this.proxyService.forward(ServiceTarget.AUDIT, request, '/audit/events');
+    }
+
+    @Get('events/:eventId')
+    @ApiOperation({ summary: 'Get a recorded event' })
+    async getEvent(@Param('eventId') eventId: string, @Req() request: Request): Promise<any> {
+        return this.proxyService.forward(ServiceTarget.AUDIT, request, `/audit/events/${eventId}`);
+    }
+
+    @Get('users/:userId')
+    @ApiOperation({ summary: 'Events referencing a user' })
+    async getUserTrail(@Param('userId') userId: string, @Req() request: Request): Promise<any> {
+        return this.proxyService.forward(ServiceTarget.AUDIT, request, `/audit/users/${userId}`);
+    }
+
+    @Get('patients/:patientId')
+    @ApiOperation({ summary: 'Events referencing a patient' })
+    async getPatientTrail(
+        @Param('patientId') patientId: string,
+        @Req() request: Request,
+    ): Promise<any> {
+        return this.proxyService.forward(
+            ServiceTarget.AUDIT,
+            request,
+            `/audit/patients/${patientId}`,
+        );
+    }
+
+    @Get('correlations/:correlationId')
+    @ApiOperation({ summary: 'Every event of one request flow, in order' })
+    async getTrace(
+        @Param('correlationId') correlationId: string,
+        @Req() request: Request,
+    ): Promise<any> {
+        return this.proxyService.forward(
+            ServiceTarget.AUDIT,
+            request,
+            `/audit/correlations/${correlationId}`,
+        );
+    }
+
+    @Get('chain/verify')
+    @ApiOperation({ summary: 'Verify the audit hash chain, reporting the first broken link' })
+    @ApiQuery({ name: 'fromSequence', required: false, type: Number })
+    @ApiQuery({ name: 'toSequence', required: false, type: Number })
+    async verifyChain(@Req() request: Request): Promise<any> {
+        return this.proxyService.forward(ServiceTarget.AUDIT, request, '/audit/chain/verify');
+    }
+
+    @Get('chain/checkpoints')
+    @ApiOperation({ summary: 'List signed chain checkpoints' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    async listCheckpoints(@Req() request: Request): Promise<any> {
+        return this.proxyService.forward(ServiceTarget.AUDIT, request, '/audit/chain/checkpoints');
+    }
+
+    @Post('chain/checkpoints')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Sign the current chain head now' })
+    async createCheckpoint(@Req() request: Request): Promise<any> {
+        return this.proxyService.forward(ServiceTarget.AUDIT, request, '/audit/chain/checkpoints');
+    }
+}
@@ -1,4 +1,14 @@
-import { Controller, Post, Body, Req, HttpCode, HttpStatus, Get } from '@nestjs/common';
+import {
+    Controller,
+    Post,
+    Body,
+    Req,
+    HttpCode,
+    HttpStatus,
+    Get,
+    Delete,
+    Param,
+} from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { Request } from 'express';
 import { ProxyService, ServiceTarget } from '../proxy.service';
@@ -11,6 +21,17 @@ import {
     LoginResponseDto,
     RegisterResponseDto,
     UserProfileDto,
+    SessionDto,
+    MfaChallengeResponseDto,
+    MfaLoginDto,
+    MfaChallengeDto,
+    MfaCodeDto,
+    MfaVerificationDto,
+    MfaEnrollmentDto,
+    MfaStatusDto,
+    RecoveryCodesDto,
+    VerifyEmailDto,
+    ResendVerificationDto,
 } from './dto/auth.dto';
 
 /**
@@ -20,12 +41,24 @@ import {
  *
  * Public endpoints (no JWT required):
  * - POST /auth/login
+ * - POST /auth/login/mfa
+ * - POST /auth/login/mfa/enroll
  * - POST /auth/register
  * - POST /auth/refresh
+ * - POST /auth/verify-email
+ * - POST /auth/verify-email/resend
  *
  * Protected endpoints:
  * - GET /auth/me
  * - POST /auth/logout
+ * - GET /auth/mfa
+ * - POST /auth/mfa/enroll
+ * - POST /auth/mfa/enable
+ * - POST /auth/mfa/recovery-codes
+ * - POST /auth/mfa/disable
+ * - GET /auth/sessions
+ * - DELETE /auth/sessions/others
+ * - DELETE /auth/sessions/:id
  */
 @ApiTags('Authentication')
 @Controller('auth')
@@ -35,11 +68,15 @@ export class AuthProxyController {
     @Public()
     @Post('login')
     @HttpCode(HttpStatus.OK)
-    @ApiOperation({ summary: 'Authenticate user and get JWT tokens' })
+    @ApiOperation({ summary: 'Authenticate user and get JWT tokens, or an MFA challenge' })
     @ApiResponse({ status: 200, description: 'Login successful', type: LoginResponseDto })
+    @ApiResponse({ status: 200, description: 'MFA required', type: MfaChallengeResponseDto })
     @ApiResponse({ status: 401, description: 'Invalid credentials' })
-    async login(@Body() loginDto: LoginDto, @Req() request: Request): Promise<LoginResponseDto> {
-        return this.proxyService.forward<LoginResponseDto>(
+    async login(
+        @Body() loginDto: LoginDto,
+        @Req() request: Request,
+    ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
+        return this.proxyService.forward<LoginResponseDto | MfaChallengeResponseDto>(
             ServiceTarget.AUTH,
             request,
             '/auth/login',
@@ -47,6 +84,42 @@ export class AuthProxyController {
         );
     }
 
+    @Public()
+    @Post('login/mfa')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Answer the MFA challenge and get JWT tokens' })
+    @ApiResponse({ status: 200, description: 'Login successful', type: LoginResponseDto })
+    @ApiResponse({ status: 401, description: 'Invalid code or expired challenge' })
+    async loginWithMfa(
+        @Body() mfaLoginDto: MfaLoginDto,
+        @Req() request: Request,
+    ): Promise<LoginResponseDto> {
+        return this.proxyService.forward<LoginResponseDto>(
+            ServiceTarget.AUTH,
+            request,
+            '/auth/login/mfa',
+            { data: mfaLoginDto },
+        );
+    }
+
+    @Public()
+    @Post('login/mfa/enroll')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Enroll an authenticator during login, when the role requires MFA' })
+    @ApiResponse({ status: 200, type: MfaEnrollmentDto })
+    @ApiResponse({ status: 400, description: 'Expired challenge' })
+    async enrollMfaWithChallenge(
+        @Body() challengeDto: MfaChallengeDto,
+        @Req() request: Request,
+    ): Promise<MfaEnrollmentDto> {
+        return this.proxyService.forward<MfaEnrollmentDto>(
+            ServiceTarget.AUTH,
+            request,
+            '/auth/login/mfa/enroll',
+            { data: challengeDto },
+        );
+    }
+
     @Public()
     @Post('register')
     @HttpCode(HttpStatus.CREATED)
@@ -111,6 +184,110 @@ export class AuthProxyController {
         return this.proxyService.forward(ServiceTarget.AUTH, request, '/auth/logout');
     }
 
+    @Get('mfa')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get my MFA status' })
+    @ApiResponse({ status: 200, type: MfaStatusDto })
+    async getMfaStatus(@Req() request: Request): Promise<MfaStatusDto> {
+        return this.proxyService.forward<MfaStatusDto>(ServiceTarget.AUTH, request, '/auth/mfa');
+    }
+
+    @Post('mfa/enroll')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Start enrolling an authenticator app' })
+    @ApiResponse({ status: 200, type: MfaEnrollmentDto })
+    @ApiResponse({ status: 409, description: 'MFA already enabled' })
+    async enrollMfa(@Req() request: Request): Promise<MfaEnrollmentDto> {
+        return this.proxyService.forward<MfaEnrollmentDto>(
+            ServiceTarget.AUTH,
+            request,
+            '/auth/mfa/enroll',
+        );
+    }
+
+    @Post('mfa/enable')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Confirm the enrolled authenticator and get recovery codes' })
+    @ApiResponse({ status: 200, type: RecoveryCodesDto })
+    @ApiResponse({ status: 400, description: 'Invalid code' })
+    async enableMfa(
+        @Body() codeDto: MfaCodeDto,
+        @Req() request: Request,
+    ): Promise<RecoveryCodesDto> {
+        return this.proxyService.forward<RecoveryCodesDto>(
+            ServiceTarget.AUTH,
+            request,
+            '/auth/mfa/enable',
+            { data: codeDto },
+        );
+    }
+
+    @Post('mfa/recovery-codes')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Replace my recovery codes' })
+    @ApiResponse({ status: 200, type: RecoveryCodesDto })
+    @ApiResponse({ status: 400, description: 'Invalid code' })
+    async regenerateRecoveryCodes(
+        @Body() codeDto: MfaCodeDto,
+        @Req() request: Request,
+    ): Promise<RecoveryCodesDto> {
+        return this.proxyService.forward<RecoveryCodesDto>(
+            ServiceTarget.AUTH,
+            request,
+            '/auth/mfa/recovery-codes',
+            { data: codeDto },
+        );
+    }
+
+    @Post('mfa/disable')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Turn MFA off' })
+    @ApiResponse({ status: 200, description: 'MFA disabled' })
+    @ApiResponse({ status: 403, description: 'MFA is required for the role' })
+    async disableMfa(
+        @Body() verificationDto: MfaVerificationDto,
+        @Req() request: Request,
+    ): Promise<{ message: string }> {
+        return this.proxyService.forward(ServiceTarget.AUTH, request, '/auth/mfa/disable', {
+            data: verificationDto,
+        });
+    }
+
+    @Get('sessions')
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'List my active sessions (devices)' })
+    @ApiResponse({ status: 200, type: [SessionDto] })
+    async getSessions(@Req() request: Request): Promise<SessionDto[]> {
+        return this.proxyService.forward<SessionDto[]>(
+            ServiceTarget.AUTH,
+            request,
+            '/auth/sessions',
+        );
+    }
+
+    @Delete('sessions/others')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Revoke all my sessions except this one' })
+    @ApiResponse({ status: 200, description: 'Number of sessions revoked' })
+    async revokeOtherSessions(@Req() request: Request): Promise<{ revoked: number }> {
+        return this.proxyService.forward(ServiceTarget.AUTH, request, '/auth/sessions/others');
+    }
+
+    @Delete('sessions/:id')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Revoke one of my sessions' })
+    @ApiResponse({ status: 204, description: 'Session revoked' })
+    @ApiResponse({ status: 404, description: 'Session not found' })
+    async revokeSession(@Param('id') id: string, @Req() request: Request): Promise<void> {
+        await this.proxyService.forward(ServiceTarget.AUTH, request, `/auth/sessions/${id}`);
+    }
+
     @Public()
     @Post('forgot-password')
     @HttpCode(HttpStatus.OK)
@@ -138,4 +315,36 @@ export class AuthProxyController {
             data: body,
         });
     }
+
+    @Public()
+    @Post('verify-email')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Verify an email address with the token from its link' })
+    @ApiResponse({
+        status: 200,
+        description: 'Email address verified; access tokens pick it up once refreshed',
+    })
+    @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+    async verifyEmail(
+        @Body() verifyDto: VerifyEmailDto,
+        @Req() request: Request,
+    ): Promise<{ message: string }> {
+        return this.proxyService.forward(ServiceTarget.AUTH, request, '/auth/verify-email', {
+            data: verifyDto,
+        });
+    }
+
+    @Public()
+    @Post('verify-email/resend')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Send a new email verification link' })
+    @ApiResponse({ status: 200, description: 'Verification email sent if needed' })
+    async resendVerificationEmail(
+        @Body() resendDto: ResendVerificationDto,
+        @Req() request: Request,
+    ): Promise<{ message: string }> {
+        return this.proxyService.forward(ServiceTarget.AUTH, request, '/auth/verify-email/resend', {
+            data: resendDto,
+        });
+    }
 }
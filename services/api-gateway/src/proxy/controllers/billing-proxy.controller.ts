@@ -10,6 +10,8 @@ import {
     HttpStatus,
     Headers,
     RawBodyRequest,
+    BadRequestException,
+    StreamableFile,
 } from '@nestjs/common';
 import {
     ApiTags,
@@ -18,6 +20,7 @@ import {
     ApiBearerAuth,
     ApiQuery,
     ApiExcludeEndpoint,
+    ApiProduces,
 } from '@nestjs/swagger';
 import { Request } from 'express';
 import { ProxyService, ServiceTarget } from '../proxy.service';
@@ -105,8 +108,12 @@ export class BillingProxyController {
     @Get('invoices/:id/pdf')
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Download invoice as PDF' })
-    async downloadInvoicePdf(@Param('id') id: string, @Req() request: Request): Promise<any> {
-        return this.proxyService.forward(
+    @ApiProduces('application/pdf')
+    async downloadInvoicePdf(
+        @Param('id') id: string,
+        @Req() request: Request,
+    ): Promise<StreamableFile> {
+        return this.proxyService.forwardFile(
             ServiceTarget.BILLING,
             request,
             `/billing/invoices/${id}/pdf`,
@@ -173,7 +180,9 @@ export class BillingProxyController {
      * IMPORTANT: This endpoint is PUBLIC (no JWT auth)
      * Security is handled via Stripe signature verification in Billing Service
      *
-     * We need raw body for signature verification, hence RawBodyRequest
+     * The signature covers the exact bytes Stripe sent, so we forward
+     * request.rawBody untouched - re-serializing request.body would change
+     * whitespace/key order and break verification.
      */
     @Public()
     @Post('webhooks/stripe')
@@ -183,8 +192,10 @@ export class BillingProxyController {
         @Headers('stripe-signature') signature: string,
         @Req() request: RawBodyRequest<Request>,
     ): Promise<{ received: boolean }> {
-        // Forward the raw body and signature to Billing Service
-        // Billing Service will verify the signature
+        if (!request.rawBody) {
+            throw new BadRequestException('Webhook body is missing');
+        }
+
         return this.proxyService.forward(
             ServiceTarget.BILLING,
             request,
@@ -192,9 +203,9 @@ export class BillingProxyController {
             {
                 headers: {
                     'stripe-signature': signature,
-                    'content-type': 'application/json',
+                    'content-type': request.headers['content-type'] || 'application/json',
                 },
-                data: request.body,
+                data: request.rawBody, // axios sends Buffers byte-for-byte
             },
         );
     }
@@ -7,6 +7,8 @@ import {
     MaxLength,
     IsEnum,
     IsOptional,
+    Matches,
+    ValidateIf,
 } from 'class-validator';
 import { UserRole } from '@careflow/shared';
 
@@ -126,6 +128,29 @@ export class LoginResponseDto {
 
     @ApiProperty({ description: 'User profile information' })
     user: UserProfileDto;
+
+    @ApiPropertyOptional({
+        type: [String],
+        description: 'Recovery codes, only when MFA was enrolled during this login',
+    })
+    recoveryCodes?: string[];
+}
+
+/**
+ * MFA challenge DTO, returned by login instead of tokens when MFA applies
+ */
+export class MfaChallengeResponseDto {
+    @ApiProperty({ example: true })
+    mfaRequired: true;
+
+    @ApiProperty({ description: 'The role requires MFA and no authenticator is enrolled yet' })
+    enrollmentRequired: boolean;
+
+    @ApiProperty({ description: 'Token to answer the challenge with' })
+    challengeToken: string;
+
+    @ApiProperty({ description: 'Challenge expiration time in seconds' })
+    expiresIn: number;
 }
 
 /**
@@ -142,3 +167,127 @@ export class RegisterResponseDto {
     message: string;
 }
 
+
+/**
+ * Active session (one login on one device) DTO
+ */
+export class SessionDto {
+    @ApiProperty({ description: 'Session ID' })
+    id: string;
+
+    @ApiPropertyOptional({ description: 'User agent of the last login or refresh' })
+    userAgent?: string;
+
+    @ApiPropertyOptional({ description: 'IP address of the last login or refresh' })
+    ipAddress?: string;
+
+    @ApiProperty({ description: 'Login timestamp' })
+    startedAt: string;
+
+    @ApiProperty({ description: 'Last login or token refresh timestamp' })
+    lastActiveAt: string;
+
+    @ApiProperty({ description: 'When the session ends unless refreshed' })
+    expiresAt: string;
+
+    @ApiProperty({ description: 'Whether this is the session making the request' })
+    current: boolean;
+}
+
+/**
+ * MFA code request DTO
+ */
+export class MfaCodeDto {
+    @ApiProperty({ example: '123456', description: 'Code from the authenticator app' })
+    @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+    code: string;
+}
+
+/**
+ * MFA verification request DTO: an authenticator code or a recovery code
+ */
+export class MfaVerificationDto {
+    @ApiPropertyOptional({ example: '123456', description: 'Code from the authenticator app' })
+    @ValidateIf((dto) => !dto.recoveryCode)
+    @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+    code?: string;
+
+    @ApiPropertyOptional({ example: 'k7m2p-x9rtq', description: 'One-time recovery code' })
+    @ValidateIf((dto) => !dto.code)
+    @IsString()
+    @IsNotEmpty()
+    recoveryCode?: string;
+}
+
+/**
+ * MFA challenge request DTO
+ */
+export class MfaChallengeDto {
+    @ApiProperty({ description: 'challengeToken returned by login' })
+    @IsString()
+    @IsNotEmpty()
+    challengeToken: string;
+}
+
+/**
+ * MFA login request DTO (second login step)
+ */
+export class MfaLoginDto extends MfaVerificationDto {
+    @ApiProperty({ description: 'challengeToken returned by login' })
+    @IsString()
+    @IsNotEmpty()
+    challengeToken: string;
+}
+
+/**
+ * MFA enrollment DTO
+ */
+export class MfaEnrollmentDto {
+    @ApiProperty({ description: 'Base32 TOTP secret, for manual entry' })
+    secret: string;
+
+    @ApiProperty({ description: 'otpauth:// URI to render as a QR code' })
+    otpauthUri: string;
+}
+
+/**
+ * MFA status DTO
+ */
+export class MfaStatusDto {
+    @ApiProperty({ description: 'An authenticator is enabled' })
+    enabled: boolean;
+
+    @ApiProperty({ description: "The user's role requires MFA" })
+    required: boolean;
+
+    @ApiProperty({ description: 'Unused recovery codes' })
+    recoveryCodesRemaining: number;
+}
+
+/**
+ * Recovery codes DTO
+ */
+export class RecoveryCodesDto {
+    @ApiProperty({ type: [String], description: 'Shown once; each code works a single time' })
+    recoveryCodes: string[];
+}
+
+/**
+ * Email verification request DTO
+ */
+export class VerifyEmailDto {
+    @ApiProperty({ description: 'Token from the verification link' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
+
+/**
+ * Resend verification email request DTO
+ */
+export class ResendVerificationDto {
+    @ApiProperty({ example: 'john@careflow.com' })
+    @IsEmail()
+    @IsNotEmpty()
+    email: string;
+}
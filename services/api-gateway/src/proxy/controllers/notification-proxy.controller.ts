@@ -0,0 +1,70 @@
+import { Controller, Get, Patch, Param, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Request } from 'express';
+import { ProxyService, ServiceTarget } from '../proxy.service';
+import { Roles, CurrentUser } from '../../common/decorators';
+import { UserRole, UserContext } from '@careflow/shared';
+
+/**
+ * Notification Proxy Controller
+ *
+ * Proxies notification requests to Notification Service.
+ *
+ * RBAC Rules:
+ * - Everyone: Read and mark their own in-app notifications
+ * - Admin: Delivery log across all users and channels
+ */
+@ApiTags('Notifications')
+@Controller('notifications')
+@ApiBearerAuth()
+export class NotificationProxyController {
+    constructor(private proxyService: ProxyService) {}
+
+    @Get()
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({ summary: 'Notification delivery log (Admin only)' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'channel', required: false, type: String })
+    @ApiQuery({ name: 'status', required: false, type: String })
+    @ApiQuery({ name: 'recipientId', required: false, type: String })
+    async listNotifications(@Req() request: Request): Promise<any> {
+        return this.proxyService.forward(ServiceTarget.NOTIFICATION, request, '/notifications');
+    }
+
+    @Get('my')
+    @ApiOperation({ summary: 'Get current user in-app notifications' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'unreadOnly', required: false, type: Boolean })
+    async getMyNotifications(
+        @CurrentUser() user: UserContext,
+        @Req() request: Request,
+    ): Promise<any> {
+        return this.proxyService.forward(
+            ServiceTarget.NOTIFICATION,
+            request,
+            `/notifications/user/${user.userId}`,
+        );
+    }
+
+    @Patch('my/read-all')
+    @ApiOperation({ summary: 'Mark all current user notifications as read' })
+    async markAllRead(@CurrentUser() user: UserContext, @Req() request: Request): Promise<any> {
+        return this.proxyService.forward(
+            ServiceTarget.NOTIFICATION,
+            request,
+            `/notifications/user/${user.userId}/read-all`,
+        );
+    }
+
+    @Patch(':id/read')
+    @ApiOperation({ summary: 'Mark a notification as read' })
+    async markRead(@Param('id') id: string, @Req() request: Request): Promise<any> {
+        return this.proxyService.forward(
+            ServiceTarget.NOTIFICATION,
+            request,
+            `/notifications/${id}/read`,
+        );
+    }
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, Delete, Param, Req, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Request } from 'express';
+import { ProxyService, ServiceTarget } from '../proxy.service';
+import { Roles } from '../../common/decorators';
+import { UserRole } from '@careflow/shared';
+import { SessionDto } from './dto/auth.dto';
+
+/**
+ * User Proxy Controller
+ *
+ * Proxies user administration requests to Auth Service.
+ *
+ * RBAC Rules:
+ * - Admin only: manages other users' sessions and MFA
+ */
+@ApiTags('Users')
+@Controller('users')
+@ApiBearerAuth()
+@Roles(UserRole.ADMIN)
+export class UserProxyController {
+    constructor(private proxyService: ProxyService) {}
+
+    @Get(':id/sessions')
+    @ApiOperation({ summary: "List a user's active sessions (devices)" })
+    @ApiResponse({ status: 200, type: [SessionDto] })
+    @ApiResponse({ status: 404, description: 'User not found' })
+    async getSessions(@Param('id') id: string, @Req() request: Request): Promise<SessionDto[]> {
+        return this.proxyService.forward<SessionDto[]>(
+            ServiceTarget.AUTH,
+            request,
+            `/users/${id}/sessions`,
+        );
+    }
+
+    @Delete(':id/mfa')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: "Reset a user's MFA (lost device)" })
+    @ApiResponse({ status: 204, description: 'MFA reset' })
+    @ApiResponse({ status: 404, description: 'User not found or MFA not set up' })
+    async resetMfa(@Param('id') id: string, @Req() request: Request): Promise<void> {
+        await this.proxyService.forward(ServiceTarget.AUTH, request, `/users/${id}/mfa`);
+    }
+
+    @Delete(':id/sessions/:sessionId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: "Revoke one of a user's sessions" })
+    @ApiResponse({ status: 204, description: 'Session revoked' })
+    @ApiResponse({ status: 404, description: 'Session not found' })
+    async revokeSession(
+        @Param('id') id: string,
+        @Param('sessionId') sessionId: string,
+        @Req() request: Request,
+    ): Promise<void> {
+        await this.proxyService.forward(
+            ServiceTarget.AUTH,
+            request,
+            `/users/${id}/sessions/${sessionId}`,
+        );
+    }
+}
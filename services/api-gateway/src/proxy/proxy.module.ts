@@ -4,12 +4,16 @@ import { AuthProxyController } from './controllers/auth-proxy.controller';
 import { PatientProxyController } from './controllers/patient-proxy.controller';
 import { AppointmentProxyController } from './controllers/appointment-proxy.controller';
 import { BillingProxyController } from './controllers/billing-proxy.controller';
+import { NotificationProxyController } from './controllers/notification-proxy.controller';
+import { AuditProxyController } from './controllers/audit-proxy.controller';
+import { UserProxyController } from './controllers/user-proxy.controller';
 
 /**
  * Proxy Module
  *
  * Contains all proxy controllers that forward requests to internal services.
- * Each controller handles a specific domain (auth, patients, appointments, billing).
+ * Each controller handles a specific domain (auth, patients, appointments, billing,
+ * notifications, audit, user administration).
  */
 @Module({
     providers: [ProxyService],
@@ -18,6 +22,9 @@ import { BillingProxyController } from './controllers/billing-proxy.controller';
         PatientProxyController,
         AppointmentProxyController,
         BillingProxyController,
+        NotificationProxyController,
+        AuditProxyController,
+        UserProxyController,
     ],
     exports: [ProxyService],
 })
@@ -1,6 +1,7 @@
-import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { Injectable, Logger, HttpException, HttpStatus, StreamableFile } from '@nestjs/common';
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
 import { Request } from 'express';
+import { Readable } from 'stream';
 import { AppConfigService } from '../config';
 import { INTERNAL_HEADERS, UserContext } from '@careflow/shared';
 
@@ -12,6 +13,8 @@ export enum ServiceTarget {
     PATIENT = 'patient',
     APPOINTMENT = 'appointment',
     BILLING = 'billing',
+    NOTIFICATION = 'notification',
+    AUDIT = 'audit',
 }
 
 /**
@@ -41,6 +44,8 @@ export class ProxyService {
             [ServiceTarget.PATIENT]: this.config.services.patient,
             [ServiceTarget.APPOINTMENT]: this.config.services.appointment,
             [ServiceTarget.BILLING]: this.config.services.billing,
+            [ServiceTarget.NOTIFICATION]: this.config.services.notification,
+            [ServiceTarget.AUDIT]: this.config.services.audit,
         };
 
         // Initialize HTTP clients for each service
@@ -98,12 +103,13 @@ export class ProxyService {
         const config: AxiosRequestConfig = {
             method: request.method as any,
             url: path,
-            headers,
             ...options,
+            // Extra headers add to (not replace) the internal context headers
+            headers: { ...headers, ...options?.headers },
         };
 
-        // Forward body for POST/PUT/PATCH
-        if (['POST', 'PUT', 'PATCH'].includes(request.method)) {
+        // Forward body for POST/PUT/PATCH, unless the caller supplied its own (e.g. raw bytes)
+        if (['POST', 'PUT', 'PATCH'].includes(request.method) && options?.data === undefined) {
             config.data = request.body;
         }
 
@@ -122,6 +128,81 @@ export class ProxyService {
         }
     }
 
+    /**
+     * Forward a request whose response is a file (e.g. an invoice PDF)
+     *
+     * The body is streamed back as-is with the upstream content type and
+     * disposition, so it is never buffered or wrapped as JSON.
+     */
+    async forwardFile(
+        target: ServiceTarget,
+        request: Request,
+        path: string,
+    ): Promise<StreamableFile> {
+        const client = this.clients.get(target);
+        if (!client) {
+            throw new HttpException(
+                `Unknown service target: ${target}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+
+        try {
+            this.logger.debug(`Streaming ${request.method} ${path} from ${target}`);
+
+            const response = await client.request<Readable>({
+                method: request.method as any,
+                url: path,
+                headers: this.buildInternalHeaders(request),
+                params: Object.keys(request.query).length > 0 ? request.query : undefined,
+                responseType: 'stream',
+            });
+
+            const length = response.headers['content-length'];
+
+            return new StreamableFile(response.data, {
+                type: response.headers['content-type'],
+                disposition: response.headers['content-disposition'],
+                length: length ? Number(length) : undefined,
+            });
+        } catch (error) {
+            // Error bodies arrive as streams too; read them so the usual mapping applies
+            if (axios.isAxiosError(error) && error.response?.data instanceof Readable) {
+                error.response.data = await readJsonBody(error.response.data);
+            }
+            throw this.handleProxyError(error, target);
+        }
+    }
+
+    /**
+     * GET from an internal service on behalf of a user, outside of an HTTP request
+     * (e.g. from a WebSocket handler). Errors are mapped the same way as forward().
+     */
+    async getAsUser<T>(
+        target: ServiceTarget,
+        path: string,
+        user: UserContext,
+        params?: Record<string, string | number>,
+    ): Promise<T> {
+        const client = this.clients.get(target);
+        if (!client) {
+            throw new HttpException(
+                `Unknown service target: ${target}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+
+        try {
+            const response = await client.get<T>(path, {
+                headers: this.buildUserHeaders(user),
+                params,
+            });
+            return response.data;
+        } catch (error) {
+            throw this.handleProxyError(error, target);
+        }
+    }
+
     /**
      * Build headers for internal service communication
      * These headers carry user context and tracing information
@@ -146,14 +227,7 @@ export class ProxyService {
         // Add user context from JWT (set by auth guard)
         const user = (request as any).user as UserContext;
         if (user) {
-            headers[INTERNAL_HEADERS.USER_ID] = user.userId;
-            headers[INTERNAL_HEADERS.USER_EMAIL] = user.email;
-            headers[INTERNAL_HEADERS.USER_ROLES] = JSON.stringify(user.roles);
-            headers[INTERNAL_HEADERS.USER_PERMISSIONS] = JSON.stringify(user.permissions);
-
-            if (user.departmentId) {
-                headers[INTERNAL_HEADERS.DEPARTMENT_ID] = user.departmentId;
-            }
+            Object.assign(headers, this.buildUserHeaders(user));
         }
 
         // Forward specific client headers if needed
@@ -168,6 +242,35 @@ export class ProxyService {
         return headers;
     }
 
+    /**
+     * User context headers, trusted by internal services
+     */
+    private buildUserHeaders(user: UserContext): Record<string, string> {
+        const headers: Record<string, string> = {
+            [INTERNAL_HEADERS.USER_ID]: user.userId,
+            [INTERNAL_HEADERS.USER_EMAIL]: user.email,
+            [INTERNAL_HEADERS.USER_ROLES]: JSON.stringify(user.roles),
+            [INTERNAL_HEADERS.USER_PERMISSIONS]: JSON.stringify(user.permissions),
+        };
+
+        if (user.departmentId) {
+            headers[INTERNAL_HEADERS.DEPARTMENT_ID] = user.departmentId;
+        }
+
+        // Lets Auth Service revoke the token the request came with (logout)
+        if (user.tokenId && user.tokenExpiresAt) {
+            headers[INTERNAL_HEADERS.TOKEN_ID] = user.tokenId;
+            headers[INTERNAL_HEADERS.TOKEN_EXPIRES_AT] = String(user.tokenExpiresAt);
+        }
+
+        // Lets Auth Service tell the caller's own session apart (session management)
+        if (user.sessionId) {
+            headers[INTERNAL_HEADERS.SESSION_ID] = user.sessionId;
+        }
+
+        return headers;
+    }
+
     /**
      * Transform axios errors to NestJS HTTP exceptions
      */
@@ -244,3 +347,16 @@ export class ProxyService {
         }
     }
 }
+
+async function readJsonBody(stream: Readable): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+    }
+
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        return undefined;
+    }
+}
@@ -16,14 +16,23 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     private client: Redis;
     private subscriber: Redis; // Separate connection for pub/sub
     private readonly logger = new Logger(RedisService.name);
+    private readonly channelHandlers = new Map<string, Array<(message: object) => void>>();
 
     // Key prefixes for organization
     private readonly PREFIX = {
         SESSION: 'session:',
         RATE_LIMIT: 'rate:',
         TOKEN_BLACKLIST: 'blacklist:',
+        TOKENS_NOT_BEFORE: 'tokens-not-before:',
+        REVOKED_SESSION: 'revoked-session:',
         WS_SESSION: 'ws:session:',
         USER_SOCKETS: 'ws:user:',
+        DOCTOR_DEPARTMENT: 'ws:doctor-department:',
+        USER_EVENTS: 'ws:events:',
+        SOCKET_ALIVE: 'ws:alive:',
+        PRESENCE: 'ws:presence:',
+        PRESENCE_AWAY: 'ws:presence-away:',
+        PRESENCE_CONNECTED: 'ws:presence-connected',
     };
 
     constructor(private config: AppConfigService) {}
@@ -52,6 +61,13 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
             db: redisConfig.db,
         });
 
+        // One listener for all channels, dispatching to the handlers of each
+        this.subscriber.on('message', (channel, message) => {
+            for (const handler of this.channelHandlers.get(channel) ?? []) {
+                handler(JSON.parse(message));
+            }
+        });
+
         this.client.on('connect', () => {
             this.logger.log('Redis client connected');
         });
@@ -129,6 +145,39 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
         return this.exists(key);
     }
 
+    /**
+     * Tokens for the user issued before this time (epoch seconds) are revoked.
+     * Never moved backwards, so an older revocation arriving late is harmless.
+     */
+    async setTokensNotBefore(
+        userId: string,
+        notBefore: number,
+        expiresInSeconds: number,
+    ): Promise<void> {
+        const key = `${this.PREFIX.TOKENS_NOT_BEFORE}${userId}`;
+        const current = Number(await this.get(key));
+
+        if (current >= notBefore) {
+            return;
+        }
+        await this.set(key, String(notBefore), expiresInSeconds);
+    }
+
+    async getTokensNotBefore(userId: string): Promise<number | null> {
+        const value = await this.get(`${this.PREFIX.TOKENS_NOT_BEFORE}${userId}`);
+        return value ? Number(value) : null;
+    }
+
+    async revokeSession(sessionId: string, expiresInSeconds: number): Promise<void> {
+        const key = `${this.PREFIX.REVOKED_SESSION}${sessionId}`;
+        await this.set(key, '1', expiresInSeconds);
+    }
+
+    async isSessionRevoked(sessionId: string): Promise<boolean> {
+        const key = `${this.PREFIX.REVOKED_SESSION}${sessionId}`;
+        return this.exists(key);
+    }
+
     // ==================== Rate Limiting ====================
 
     /**
@@ -194,19 +243,189 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
         return this.client.smembers(`${this.PREFIX.USER_SOCKETS}${userId}`);
     }
 
-    // ==================== Pub/Sub for WebSocket Scaling ====================
+    /**
+     * Department of a doctor, as last seen in their token or read from Auth Service.
+     * Domain events only carry the doctor's ID; this routes them to the department room
+     * and scopes nurse subscriptions. Expires daily so department moves are picked up.
+     */
+    async setDoctorDepartment(doctorId: string, departmentId: string): Promise<void> {
+        await this.set(`${this.PREFIX.DOCTOR_DEPARTMENT}${doctorId}`, departmentId, 86400);
+    }
+
+    async getDoctorDepartment(doctorId: string): Promise<string | null> {
+        return this.get(`${this.PREFIX.DOCTOR_DEPARTMENT}${doctorId}`);
+    }
+
+    // ==================== Per-user WebSocket Event Streams ====================
+
+    /**
+     * Append an event to the user's stream, keeping roughly maxLength entries.
+     * Returns the stream ID, which increases monotonically per user.
+     */
+    async appendUserEvent(
+        userId: string,
+        fields: Record<string, string>,
+        maxLength: number,
+        ttlSeconds: number,
+    ): Promise<string> {
+        const key = `${this.PREFIX.USER_EVENTS}${userId}`;
+        const args = Object.entries(fields).flat();
+
+        const results = await this.client
+            .multi()
+            .xadd(key, 'MAXLEN', '~', maxLength, '*', ...args)
+            .expire(key, ttlSeconds)
+            .exec();
+
+        return results?.[0]?.[1] as string;
+    }
+
+    /**
+     * Latest `count` entries of the user's stream from `start` (XRANGE syntax), oldest first
+     */
+    async getUserEvents(
+        userId: string,
+        start: string,
+        count: number,
+    ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+        const key = `${this.PREFIX.USER_EVENTS}${userId}`;
+        const entries = await this.client.xrevrange(key, '+', start, 'COUNT', count);
+
+        return entries.reverse().map(([id, flat]) => {
+            const fields: Record<string, string> = {};
+            for (let i = 0; i < flat.length; i += 2) {
+                fields[flat[i]] = flat[i + 1];
+            }
+            return { id, fields };
+        });
+    }
+
+    async getOldestUserEventId(userId: string): Promise<string | null> {
+        const [oldest] = await this.client.xrange(
+            `${this.PREFIX.USER_EVENTS}${userId}`,
+            '-',
+            '+',
+            'COUNT',
+            1,
+        );
+        return oldest ? oldest[0] : null;
+    }
+
+    // ==================== Presence ====================
+
+    /**
+     * Refresh the liveness keys of sockets; an instance that dies stops refreshing them
+     */
+    async markSocketsAlive(socketIds: string[], ttlSeconds: number): Promise<void> {
+        if (!socketIds.length) {
+            return;
+        }
+
+        const multi = this.client.multi();
+        for (const socketId of socketIds) {
+            multi.set(`${this.PREFIX.SOCKET_ALIVE}${socketId}`, '1', 'EX', ttlSeconds);
+        }
+        await multi.exec();
+    }
+
+    /**
+     * The user's sockets whose liveness key is still set; the others are dropped
+     */
+    async getLiveSocketIds(userId: string): Promise<string[]> {
+        const key = `${this.PREFIX.USER_SOCKETS}${userId}`;
+        const socketIds = await this.client.smembers(key);
+        if (!socketIds.length) {
+            return [];
+        }
+
+        const alive = await this.client.mget(
+            socketIds.map((socketId) => `${this.PREFIX.SOCKET_ALIVE}${socketId}`),
+        );
+        const dead = socketIds.filter((_, i) => !alive[i]);
+        if (dead.length) {
+            await this.client.srem(key, ...dead);
+        }
+
+        return socketIds.filter((_, i) => alive[i]);
+    }
+
+    async setSocketAway(userId: string, socketId: string, away: boolean): Promise<void> {
+        const key = `${this.PREFIX.PRESENCE_AWAY}${userId}`;
+
+        if (away) {
+            await this.client.multi().sadd(key, socketId).expire(key, 86400).exec();
+        } else {
+            await this.client.srem(key, socketId);
+        }
+    }
+
+    async getAwaySocketIds(userId: string): Promise<string[]> {
+        return this.client.smembers(`${this.PREFIX.PRESENCE_AWAY}${userId}`);
+    }
+
+    async clearSocketPresence(userId: string, socketId: string): Promise<void> {
+        await this.client
+            .multi()
+            .del(`${this.PREFIX.SOCKET_ALIVE}${socketId}`)
+            .srem(`${this.PREFIX.PRESENCE_AWAY}${userId}`, socketId)
+            .exec();
+    }
+
+    async getPresence<T>(userId: string): Promise<T | null> {
+        const data = await this.get(`${this.PREFIX.PRESENCE}${userId}`);
+        return data ? JSON.parse(data) : null;
+    }
+
+    /**
+     * Store the user's presence and return the one it replaced, in one transaction,
+     * so that only one gateway instance sees a given transition
+     */
+    async swapPresence<T>(userId: string, presence: T, connected: boolean): Promise<T | null> {
+        const multi = this.client
+            .multi()
+            .set(`${this.PREFIX.PRESENCE}${userId}`, JSON.stringify(presence), 'GET');
+
+        if (connected) {
+            multi.sadd(this.PREFIX.PRESENCE_CONNECTED, userId);
+        } else {
+            multi.srem(this.PREFIX.PRESENCE_CONNECTED, userId);
+        }
+
+        const results = await multi.exec();
+        const previous = results?.[0]?.[1] as string | null;
+        return previous ? JSON.parse(previous) : null;
+    }
+
+    /**
+     * Presence of every user currently connected (online or away)
+     */
+    async getConnectedPresences<T>(): Promise<T[]> {
+        const userIds = await this.client.smembers(this.PREFIX.PRESENCE_CONNECTED);
+        if (!userIds.length) {
+            return [];
+        }
+
+        const records = await this.client.mget(
+            userIds.map((userId) => `${this.PREFIX.PRESENCE}${userId}`),
+        );
+        return records.filter((r): r is string => !!r).map((r) => JSON.parse(r));
+    }
+
+    // ==================== Pub/Sub ====================
 
     async publish(channel: string, message: object): Promise<void> {
         await this.client.publish(channel, JSON.stringify(message));
     }
 
     async subscribe(channel: string, callback: (message: object) => void): Promise<void> {
+        const handlers = this.channelHandlers.get(channel);
+        if (handlers) {
+            handlers.push(callback);
+            return;
+        }
+
+        this.channelHandlers.set(channel, [callback]);
         await this.subscriber?.subscribe(channel);
-        this.subscriber?.on('message', (ch, msg) => {
-            if (ch === channel) {
-                callback(JSON.parse(msg));
-            }
-        });
     }
 
     // ==================== Health Check ====================
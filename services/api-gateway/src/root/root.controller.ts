@@ -26,6 +26,9 @@ export class RootController {
                 patients: '/api/v1/patients',
                 appointments: '/api/v1/appointments',
                 billing: '/api/v1/billing',
+                notifications: '/api/v1/notifications',
+                audit: '/api/v1/audit',
+                presence: '/api/v1/presence',
             },
             timestamp: new Date().toISOString(),
         };
@@ -0,0 +1,32 @@
+/**
+ * Environment for specs, loaded through jest's setupFiles. Importing the config
+ * module validates the environment, and most providers import it; specs
+ * provide their own AppConfigService values, so these only have to be valid.
+ */
+const TEST_ENV: Record<string, string> = {
+    PORT: '3000',
+    API_PREFIX: 'api/v1',
+    JWT_EXPIRES_IN: '15m',
+    JWT_REFRESH_EXPIRES_IN: '7d',
+    REDIS_HOST: 'localhost',
+    REDIS_PORT: '6379',
+    REDIS_DB: '0',
+    RABBITMQ_URL: 'amqp://localhost:5672',
+    AUTH_SERVICE_URL: 'http://localhost:3001',
+    PATIENT_SERVICE_URL: 'http://localhost:3002',
+    APPOINTMENT_SERVICE_URL: 'http://localhost:3003',
+    BILLING_SERVICE_URL: 'http://localhost:3004',
+    NOTIFICATION_SERVICE_URL: 'http://localhost:3005',
+    AUDIT_SERVICE_URL: 'http://localhost:3006',
+    RATE_LIMIT_TTL: '60',
+    RATE_LIMIT_MAX: '100',
+    CORS_ORIGINS: 'http://localhost:3000',
+    LOG_LEVEL: 'error',
+    WS_PATH: '/ws',
+    WS_REPLAY_MAX_EVENTS: '100',
+    WS_REPLAY_MAX_AGE_SECONDS: '3600',
+};
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+    process.env[key] ??= value;
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { AppConfigService } from '../config';
+import { compareStreamIds, replayWindow } from './replay-window';
+
+export interface UserEvent {
+    seq: string;
+    event: string;
+    data: any;
+}
+
+export interface Replay {
+    events: UserEvent[];
+
+    // Part of the gap is no longer available (too old or too many events)
+    truncated: boolean;
+}
+
+/**
+ * Event Replay Service
+ *
+ * Keeps the events addressed to each user in a Redis stream, so a client that
+ * reconnects with the last sequence ID it saw gets the gap replayed.
+ * Streams are bounded by WS_REPLAY_MAX_EVENTS and WS_REPLAY_MAX_AGE_SECONDS.
+ */
+@Injectable()
+export class EventReplayService {
+    constructor(
+        private redis: RedisService,
+        private config: AppConfigService,
+    ) {}
+
+    /**
+     * Append the event to each user's stream and return its sequence ID per user
+     */
+    async record(
+        userIds: string[],
+        event: string,
+        data: any,
+    ): Promise<Array<{ userId: string; seq: string }>> {
+        const { maxEvents, maxAgeSeconds } = this.config.wsReplay;
+        const fields = { event, data: JSON.stringify(data) };
+
+        return Promise.all(
+            [...new Set(userIds)].map(async (userId) => ({
+                userId,
+                seq: await this.redis.appendUserEvent(userId, fields, maxEvents, maxAgeSeconds),
+            })),
+        );
+    }
+
+    /**
+     * Events after `lastSeenId`, oldest first, at most the most recent WS_REPLAY_MAX_EVENTS
+     */
+    async since(userId: string, lastSeenId: string): Promise<Replay> {
+        const { maxEvents, maxAgeSeconds } = this.config.wsReplay;
+        const window = replayWindow(lastSeenId, Date.now(), maxAgeSeconds * 1000);
+
+        const [entries, oldest] = await Promise.all([
+            this.redis.getUserEvents(userId, window.start, maxEvents + 1),
+            this.redis.getOldestUserEventId(userId),
+        ]);
+
+        // The stream no longer reaches back to the last seen event: it was trimmed or expired
+        const trimmed = oldest !== null && compareStreamIds(oldest, lastSeenId) > 0;
+
+        return {
+            events: entries.slice(-maxEvents).map(({ id, fields }) => ({
+                seq: id,
+                event: fields.event,
+                data: JSON.parse(fields.data),
+            })),
+            truncated: window.clipped || trimmed || entries.length > maxEvents,
+        };
+    }
+}
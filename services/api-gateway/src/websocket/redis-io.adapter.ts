@@ -0,0 +1,51 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
+import { Server, ServerOptions } from 'socket.io';
+import { AppConfigService } from '../config';
+
+/**
+ * Socket.IO adapter backed by Redis
+ *
+ * Rooms span every Gateway instance: `server.to(room).emit()` reaches sockets
+ * connected to any replica, and `fetchSockets()` / `disconnectSockets()` see them too.
+ */
+export class RedisIoAdapter extends IoAdapter {
+    private readonly logger = new Logger(RedisIoAdapter.name);
+    private adapterConstructor: ReturnType<typeof createAdapter>;
+    private clients: Redis[] = [];
+
+    constructor(
+        app: INestApplicationContext,
+        private config: AppConfigService,
+    ) {
+        super(app);
+    }
+
+    async connectToRedis(): Promise<void> {
+        const { host, port, password, db } = this.config.redis;
+
+        const pubClient = new Redis({ host, port, password, db });
+        const subClient = pubClient.duplicate();
+        await Promise.all([pubClient.ping(), subClient.ping()]);
+
+        this.clients = [pubClient, subClient];
+        this.adapterConstructor = createAdapter(pubClient, subClient, {
+            key: 'careflow:websocket',
+        });
+
+        this.logger.log('Socket.IO Redis adapter connected');
+    }
+
+    createIOServer(port: number, options?: ServerOptions): Server {
+        const server: Server = super.createIOServer(port, options);
+        server.adapter(this.adapterConstructor);
+        return server;
+    }
+
+    async dispose(): Promise<void> {
+        await super.dispose();
+        await Promise.all(this.clients.map((client) => client.quit()));
+    }
+}
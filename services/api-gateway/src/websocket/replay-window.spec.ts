@@ -0,0 +1,39 @@
+import { compareStreamIds, isStreamId, replayWindow } from './replay-window';
+
+describe('isStreamId', () => {
+    it('accepts Redis stream IDs only', () => {
+        expect(isStreamId('1760875200000-0')).toBe(true);
+        expect(isStreamId('1760875200000')).toBe(false);
+        expect(isStreamId('(1760875200000-0')).toBe(false);
+        expect(isStreamId(42)).toBe(false);
+        expect(isStreamId(undefined)).toBe(false);
+    });
+});
+
+describe('compareStreamIds', () => {
+    it('orders by time, then sequence, numerically', () => {
+        expect(compareStreamIds('1000-2', '1000-10')).toBeLessThan(0);
+        expect(compareStreamIds('999-5', '1000-0')).toBeLessThan(0);
+        expect(compareStreamIds('1000-3', '1000-3')).toBe(0);
+        expect(compareStreamIds('10000-0', '9999-99')).toBeGreaterThan(0);
+    });
+});
+
+describe('replayWindow', () => {
+    const now = 1_760_875_200_000;
+    const hour = 3_600_000;
+
+    it('resumes right after the last seen event', () => {
+        expect(replayWindow(`${now - 60_000}-1`, now, hour)).toEqual({
+            start: `(${now - 60_000}-1`,
+            clipped: false,
+        });
+    });
+
+    it('starts at the age limit when the last seen event is older', () => {
+        expect(replayWindow(`${now - 2 * hour}-0`, now, hour)).toEqual({
+            start: `${now - hour}-0`,
+            clipped: true,
+        });
+    });
+});
@@ -0,0 +1,38 @@
+/**
+ * Replay cursors are Redis stream IDs, "<milliseconds>-<sequence>",
+ * which grow monotonically within a user's stream.
+ */
+
+const STREAM_ID = /^\d+-\d+$/;
+
+export interface ReplayWindow {
+    // XRANGE start: exclusive "(id" after the last seen event, or the age limit
+    start: string;
+
+    // The last seen event is older than the age limit, so part of the gap is skipped
+    clipped: boolean;
+}
+
+export function isStreamId(value: unknown): value is string {
+    return typeof value === 'string' && STREAM_ID.test(value);
+}
+
+export function compareStreamIds(a: string, b: string): number {
+    const [aTime, aSeq] = a.split('-').map(Number);
+    const [bTime, bSeq] = b.split('-').map(Number);
+
+    return aTime - bTime || aSeq - bSeq;
+}
+
+/**
+ * Where replay resumes for a client that last saw `lastSeenId`
+ */
+export function replayWindow(lastSeenId: string, now: number, maxAgeMs: number): ReplayWindow {
+    const oldestAllowed = `${now - maxAgeMs}-0`;
+
+    if (compareStreamIds(lastSeenId, oldestAllowed) < 0) {
+        return { start: oldestAllowed, clipped: true };
+    }
+
+    return { start: `(${lastSeenId}`, clipped: false };
+}
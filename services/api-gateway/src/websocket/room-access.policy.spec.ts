@@ -0,0 +1,93 @@
+import { UserContext, UserRole } from '@careflow/shared';
+import { canAccessAppointment, canAccessPatient } from './room-access.policy';
+
+function user(role: UserRole, userId: string, departmentId?: string): UserContext {
+    return {
+        userId,
+        email: `${userId}@careflow.test`,
+        roles: [role],
+        permissions: [],
+        departmentId,
+    };
+}
+
+const appointment = { patientId: 'patient-1', doctorId: 'doctor-1' };
+
+describe('canAccessAppointment', () => {
+    it('lets the patient and the doctor of the appointment in', () => {
+        expect(canAccessAppointment(user(UserRole.PATIENT, 'patient-1'), appointment).allowed).toBe(
+            true,
+        );
+        expect(canAccessAppointment(user(UserRole.DOCTOR, 'doctor-1'), appointment).allowed).toBe(
+            true,
+        );
+    });
+
+    it('keeps other patients and doctors out', () => {
+        expect(canAccessAppointment(user(UserRole.PATIENT, 'patient-2'), appointment)).toEqual({
+            allowed: false,
+            reason: 'not a participant of the appointment',
+        });
+        expect(canAccessAppointment(user(UserRole.DOCTOR, 'doctor-2'), appointment).allowed).toBe(
+            false,
+        );
+    });
+
+    it('scopes nurses to the department of the doctor', () => {
+        const nurse = user(UserRole.NURSE, 'nurse-1', 'cardiology');
+
+        expect(canAccessAppointment(nurse, appointment, 'cardiology').allowed).toBe(true);
+        expect(canAccessAppointment(nurse, appointment, 'oncology').allowed).toBe(false);
+        expect(canAccessAppointment(nurse, appointment, null).allowed).toBe(false);
+        expect(
+            canAccessAppointment(user(UserRole.NURSE, 'nurse-2'), appointment, null).allowed,
+        ).toBe(false);
+    });
+
+    it('marks admin access as an override', () => {
+        expect(canAccessAppointment(user(UserRole.ADMIN, 'admin-1'), appointment)).toEqual({
+            allowed: true,
+            reason: 'admin override',
+            override: true,
+        });
+    });
+});
+
+describe('canAccessPatient', () => {
+    const careTeam = { doctorIds: ['doctor-1'], departmentIds: ['cardiology'] };
+
+    it('lets a patient follow only their own record', () => {
+        expect(
+            canAccessPatient(user(UserRole.PATIENT, 'patient-1'), 'patient-1', careTeam).allowed,
+        ).toBe(true);
+        expect(
+            canAccessPatient(user(UserRole.PATIENT, 'patient-2'), 'patient-1', careTeam).allowed,
+        ).toBe(false);
+    });
+
+    it('lets only care team doctors and department nurses in', () => {
+        const check = (u: UserContext) => canAccessPatient(u, 'patient-1', careTeam).allowed;
+
+        expect(check(user(UserRole.DOCTOR, 'doctor-1'))).toBe(true);
+        expect(check(user(UserRole.DOCTOR, 'doctor-2'))).toBe(false);
+        expect(check(user(UserRole.NURSE, 'nurse-1', 'cardiology'))).toBe(true);
+        expect(check(user(UserRole.NURSE, 'nurse-1', 'oncology'))).toBe(false);
+    });
+
+    it('grants access from any of several roles', () => {
+        const doctorAndPatient = {
+            ...user(UserRole.DOCTOR, 'doctor-2'),
+            roles: [UserRole.DOCTOR, UserRole.PATIENT],
+        };
+
+        expect(canAccessPatient(doctorAndPatient, 'doctor-2', careTeam).reason).toBe('own record');
+    });
+
+    it('lets admins in without a care team', () => {
+        const noCareTeam = { doctorIds: [], departmentIds: [] };
+
+        expect(
+            canAccessPatient(user(UserRole.ADMIN, 'admin-1'), 'patient-1', noCareTeam).override,
+        ).toBe(true);
+    });
+});
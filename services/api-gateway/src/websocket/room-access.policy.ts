@@ -0,0 +1,98 @@
+import { UserContext, UserRole } from '@careflow/shared';
+
+export interface AccessDecision {
+    allowed: boolean;
+    reason: string;
+
+    // Granted only because the user is an admin
+    override?: boolean;
+}
+
+export interface AppointmentParties {
+    patientId: string;
+    doctorId: string;
+}
+
+/**
+ * Clinicians looking after a patient: doctors with an appointment for them and those
+ * doctors' departments
+ */
+export interface CareTeam {
+    doctorIds: string[];
+    departmentIds: string[];
+}
+
+export const ADMIN_OVERRIDE: AccessDecision = {
+    allowed: true,
+    reason: 'admin override',
+    override: true,
+};
+
+/**
+ * Who may follow an appointment room:
+ * - the patient and the doctor of the appointment
+ * - nurses of the doctor's department
+ * - admins, always
+ */
+export function canAccessAppointment(
+    user: UserContext,
+    appointment: AppointmentParties,
+    doctorDepartmentId?: string | null,
+): AccessDecision {
+    if (user.roles.includes(UserRole.ADMIN)) {
+        return ADMIN_OVERRIDE;
+    }
+
+    if (user.roles.includes(UserRole.PATIENT) && appointment.patientId === user.userId) {
+        return { allowed: true, reason: 'own appointment' };
+    }
+
+    if (user.roles.includes(UserRole.DOCTOR) && appointment.doctorId === user.userId) {
+        return { allowed: true, reason: 'assigned doctor' };
+    }
+
+    if (isDepartmentNurse(user, doctorDepartmentId ? [doctorDepartmentId] : [])) {
+        return { allowed: true, reason: 'nurse of the doctor department' };
+    }
+
+    return { allowed: false, reason: 'not a participant of the appointment' };
+}
+
+/**
+ * Who may follow a patient room (patientId is the patient's user ID):
+ * - the patient themselves
+ * - doctors on the patient's care team
+ * - nurses of a department on the care team
+ * - admins, always
+ */
+export function canAccessPatient(
+    user: UserContext,
+    patientId: string,
+    careTeam: CareTeam,
+): AccessDecision {
+    if (user.roles.includes(UserRole.ADMIN)) {
+        return ADMIN_OVERRIDE;
+    }
+
+    if (user.roles.includes(UserRole.PATIENT) && patientId === user.userId) {
+        return { allowed: true, reason: 'own record' };
+    }
+
+    if (user.roles.includes(UserRole.DOCTOR) && careTeam.doctorIds.includes(user.userId)) {
+        return { allowed: true, reason: 'doctor on the care team' };
+    }
+
+    if (isDepartmentNurse(user, careTeam.departmentIds)) {
+        return { allowed: true, reason: 'nurse of a care team department' };
+    }
+
+    return { allowed: false, reason: 'not on the care team of the patient' };
+}
+
+function isDepartmentNurse(user: UserContext, departmentIds: string[]): boolean {
+    return (
+        user.roles.includes(UserRole.NURSE) &&
+        !!user.departmentId &&
+        departmentIds.includes(user.departmentId)
+    );
+}
@@ -0,0 +1,152 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { UserContext, UserRole } from '@careflow/shared';
+import { ProxyService, ServiceTarget } from '../proxy/proxy.service';
+import { RedisService } from '../redis/redis.service';
+import {
+    ADMIN_OVERRIDE,
+    AccessDecision,
+    AppointmentParties,
+    CareTeam,
+    canAccessAppointment,
+    canAccessPatient,
+} from './room-access.policy';
+
+// Appointments read to work out a patient's care team
+const CARE_TEAM_LOOKUP_LIMIT = 100;
+
+/**
+ * Room Access Service
+ *
+ * Decides whether a socket may join an appointment or patient room.
+ * Facts come from the owning services, called with the subscriber's own context,
+ * so a user never learns more than the REST API would tell them.
+ * Every denial and admin override is logged.
+ */
+@Injectable()
+export class RoomAccessService {
+    private readonly logger = new Logger(RoomAccessService.name);
+
+    constructor(
+        private proxyService: ProxyService,
+        private redis: RedisService,
+    ) {}
+
+    async canSubscribeToAppointment(
+        user: UserContext,
+        appointmentId: string,
+    ): Promise<AccessDecision> {
+        const room = `appointment:${appointmentId}`;
+
+        if (user.roles.includes(UserRole.ADMIN)) {
+            return this.record(user, room, ADMIN_OVERRIDE);
+        }
+
+        let appointment: AppointmentParties;
+        try {
+            appointment = await this.proxyService.getAsUser<AppointmentParties>(
+                ServiceTarget.APPOINTMENT,
+                `/appointments/${appointmentId}`,
+                user,
+            );
+        } catch (error) {
+            return this.record(user, room, this.lookupFailed(error, 'appointment'));
+        }
+
+        const doctorDepartmentId = user.roles.includes(UserRole.NURSE)
+            ? await this.departmentOf(user, appointment.doctorId)
+            : null;
+
+        return this.record(user, room, canAccessAppointment(user, appointment, doctorDepartmentId));
+    }
+
+    async canSubscribeToPatient(user: UserContext, patientId: string): Promise<AccessDecision> {
+        const room = `patient:${patientId}`;
+        const isClinician = user.roles.some((r) => r === UserRole.DOCTOR || r === UserRole.NURSE);
+
+        // Admins and patients are decided without looking anything up
+        if (user.roles.includes(UserRole.ADMIN) || !isClinician) {
+            const noCareTeam: CareTeam = { doctorIds: [], departmentIds: [] };
+            return this.record(user, room, canAccessPatient(user, patientId, noCareTeam));
+        }
+
+        let careTeam: CareTeam;
+        try {
+            careTeam = await this.careTeamOf(user, patientId);
+        } catch (error) {
+            return this.record(user, room, this.lookupFailed(error, 'care team'));
+        }
+
+        return this.record(user, room, canAccessPatient(user, patientId, careTeam));
+    }
+
+    /**
+     * Doctors with an appointment for the patient, as far as the user can see them
+     * (Appointment Service only shows a doctor their own appointments)
+     */
+    private async careTeamOf(user: UserContext, patientId: string): Promise<CareTeam> {
+        const { appointments } = await this.proxyService.getAsUser<{
+            appointments: AppointmentParties[];
+        }>(ServiceTarget.APPOINTMENT, '/appointments', user, {
+            patientId,
+            limit: CARE_TEAM_LOOKUP_LIMIT,
+        });
+
+        const doctorIds = [...new Set(appointments.map((a) => a.doctorId))];
+
+        if (!user.roles.includes(UserRole.NURSE)) {
+            return { doctorIds, departmentIds: [] };
+        }
+
+        const departments = await Promise.all(doctorIds.map((id) => this.departmentOf(user, id)));
+        return { doctorIds, departmentIds: departments.filter((d): d is string => !!d) };
+    }
+
+    /**
+     * Department of a doctor: cached in Redis, otherwise read from Auth Service
+     */
+    private async departmentOf(user: UserContext, doctorId: string): Promise<string | null> {
+        const cached = await this.redis.getDoctorDepartment(doctorId);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const doctor = await this.proxyService.getAsUser<{ departmentId?: string }>(
+                ServiceTarget.AUTH,
+                `/users/${doctorId}`,
+                user,
+            );
+
+            if (doctor.departmentId) {
+                await this.redis.setDoctorDepartment(doctorId, doctor.departmentId);
+            }
+            return doctor.departmentId ?? null;
+        } catch (error) {
+            this.logger.warn(`Could not resolve department of doctor ${doctorId}`);
+            return null;
+        }
+    }
+
+    private lookupFailed(error: unknown, what: string): AccessDecision {
+        const status = error instanceof HttpException ? error.getStatus() : undefined;
+
+        return status === 403 || status === 404
+            ? { allowed: false, reason: `${what} not found or not visible to the user` }
+            : {
+                  allowed: false,
+                  reason: `${what} could not be verified (status ${status ?? 'n/a'})`,
+              };
+    }
+
+    private record(user: UserContext, room: string, decision: AccessDecision): AccessDecision {
+        const who = `User ${user.userId} [${user.roles.join(', ')}]`;
+
+        if (!decision.allowed) {
+            this.logger.warn(`WS subscription denied: ${who} -> ${room}: ${decision.reason}`);
+        } else if (decision.override) {
+            this.logger.log(`WS subscription by admin override: ${who} -> ${room}`);
+        }
+
+        return decision;
+    }
+}
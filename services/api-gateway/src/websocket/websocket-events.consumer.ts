@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { BaseEvent, EventName, EventOf, OnEvent, TokensRevokedPayload } from '@careflow/shared';
+import { CareFlowWebSocketGateway } from './websocket.gateway';
+
+const APPOINTMENT_EVENTS = [
+    EventName.APPOINTMENT_CREATED,
+    EventName.APPOINTMENT_UPDATED,
+    EventName.APPOINTMENT_AWAITING_PAYMENT,
+    EventName.APPOINTMENT_CONFIRMED,
+    EventName.APPOINTMENT_CHECKED_IN,
+    EventName.APPOINTMENT_STARTED,
+    EventName.APPOINTMENT_RESCHEDULED,
+    EventName.APPOINTMENT_CANCELLED,
+    EventName.APPOINTMENT_COMPLETED,
+    EventName.APPOINTMENT_NO_SHOW,
+] as const;
+
+const PAYMENT_EVENTS = [
+    EventName.PAYMENT_PENDING,
+    EventName.PAYMENT_COMPLETED,
+    EventName.PAYMENT_FAILED,
+    EventName.PAYMENT_REFUNDED,
+] as const;
+
+// session:revoked reason shown to the client, by user.tokens.revoked reason
+const REVOCATION_MESSAGES: Record<TokensRevokedPayload['reason'], string> = {
+    logout: 'Logged out',
+    password_change: 'Password was changed',
+    password_reset: 'Password was reset',
+    deactivated: 'Account deactivated',
+    refresh_token_reuse: 'Session ended for security reasons, please log in again',
+    session_revoked: 'Session revoked',
+};
+
+/**
+ * WebSocket Events Consumer
+ *
+ * Bridges domain events from RabbitMQ (gateway.events) to WebSocket clients:
+ * - appointment.*       -> booking-status-update (appointment, patient, doctor, department)
+ * - payment.*           -> payment-status-update (appointment, patient)
+ * - notification.sent   -> notification (recipient), for in-app notifications
+ * - user.deleted        -> the user's sockets are disconnected (forced logout)
+ * - user.tokens.revoked -> sockets opened with the revoked token(s) or session are disconnected
+ *
+ * The queue is shared by all Gateway instances; whichever instance consumes an event
+ * reaches clients on the others through the Socket.IO Redis adapter.
+ */
+@Injectable()
+export class WebSocketEventsConsumer {
+    constructor(private gateway: CareFlowWebSocketGateway) {}
+
+    @OnEvent(...APPOINTMENT_EVENTS)
+    async onAppointmentEvent(event: EventOf<(typeof APPOINTMENT_EVENTS)[number]>): Promise<void> {
+        const { appointmentId, patientId, doctorId } = event.payload;
+
+        await this.gateway.broadcastAppointmentUpdate(
+            appointmentId,
+            patientId,
+            doctorId,
+            this.toMessage(event),
+        );
+    }
+
+    @OnEvent(...PAYMENT_EVENTS)
+    async onPaymentEvent(event: EventOf<(typeof PAYMENT_EVENTS)[number]>): Promise<void> {
+        const { appointmentId, patientId } = event.payload;
+
+        await this.gateway.broadcastPaymentUpdate(appointmentId, patientId, this.toMessage(event));
+    }
+
+    @OnEvent(EventName.NOTIFICATION_SENT)
+    async onNotificationSent(event: EventOf<EventName.NOTIFICATION_SENT>): Promise<void> {
+        const { notificationId, recipientId, channel, template, title } = event.payload;
+
+        // Email has already reached its recipient; in-app notifications are the ones to push
+        if (channel !== 'in_app') {
+            return;
+        }
+
+        await this.gateway.sendNotificationToUser(recipientId, {
+            notificationId,
+            template,
+            title,
+            createdAt: event.timestamp,
+        });
+    }
+
+    @OnEvent(EventName.USER_DELETED)
+    async onUserDeleted(event: EventOf<EventName.USER_DELETED>): Promise<void> {
+        await this.gateway.disconnectUser(event.payload.userId, 'Account deactivated');
+    }
+
+    @OnEvent(EventName.TOKENS_REVOKED)
+    async onTokensRevoked(event: EventOf<EventName.TOKENS_REVOKED>): Promise<void> {
+        const { userId, reason, tokenId, sessionId, notBefore } = event.payload;
+
+        // Deactivation also publishes user.deleted, which disconnects the user
+        if (reason === 'deactivated') {
+            return;
+        }
+
+        await this.gateway.disconnectUser(
+            userId,
+            REVOCATION_MESSAGES[reason],
+            notBefore ? {} : { tokenId, sessionId },
+        );
+    }
+
+    private toMessage(event: BaseEvent<object>) {
+        return {
+            event: event.eventName,
+            ...event.payload,
+            occurredAt: event.timestamp,
+        };
+    }
+}
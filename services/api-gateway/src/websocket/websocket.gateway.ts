@@ -9,12 +9,22 @@ import {
     MessageBody,
     WsException,
 } from '@nestjs/websockets';
-import { Logger, UseGuards } from '@nestjs/common';
-import { Server, Socket } from 'socket.io';
+import { Logger, OnModuleDestroy, UseGuards } from '@nestjs/common';
+import { Namespace, Socket } from 'socket.io';
 import { JwtService } from '@nestjs/jwt';
 import { RedisService } from '../redis/redis.service';
 import { AppConfigService } from '../config';
-import { JwtPayload, UserContext } from '@careflow/shared';
+import { JwksService } from '../auth/jwks.service';
+import { TokenRevocationService } from '../auth/token-revocation.service';
+import { RoomAccessService } from './room-access.service';
+import { EventReplayService, UserEvent } from './event-replay.service';
+import { compareStreamIds, isStreamId } from './replay-window';
+import {
+    PRESENCE_HEARTBEAT_SECONDS,
+    PresenceChange,
+    PresenceService,
+} from '../presence/presence.service';
+import { JwtPayload, UserContext, UserRole } from '@careflow/shared';
 
 /**
  * WebSocket Authentication Guard
@@ -23,25 +33,37 @@ import { JwtPayload, UserContext } from '@careflow/shared';
 class WsJwtGuard {
     constructor(
         private jwtService: JwtService,
-        private config: AppConfigService,
+        private jwks: JwksService,
+        private tokenRevocation: TokenRevocationService,
     ) {}
 
     async validateToken(token: string): Promise<UserContext> {
+        let payload: JwtPayload;
         try {
-            const payload = this.jwtService.verify<JwtPayload>(token, {
-                secret: this.config.jwt.secret,
+            const key = await this.jwks.keyFor(token);
+            payload = this.jwtService.verify<JwtPayload>(token, {
+                publicKey: key.publicKey,
+                algorithms: [key.algorithm],
             });
-
-            return {
-                userId: payload.sub,
-                email: payload.email,
-                roles: payload.roles,
-                permissions: payload.permissions,
-                departmentId: payload.departmentId,
-            };
         } catch (error) {
             throw new WsException('Invalid token');
         }
+
+        if (await this.tokenRevocation.isRevoked(payload)) {
+            throw new WsException('Token has been revoked');
+        }
+
+        return {
+            userId: payload.sub,
+            email: payload.email,
+            roles: payload.roles,
+            permissions: payload.permissions,
+            departmentId: payload.departmentId,
+            tokenId: payload.jti,
+            tokenExpiresAt: payload.exp,
+            sessionId: payload.sid,
+            emailVerified: payload.emailVerified,
+        };
     }
 }
 
@@ -52,6 +74,15 @@ interface AuthenticatedSocket extends Socket {
     user: UserContext;
 }
 
+/**
+ * Event for addressed users, each with their own replay stream sequence ID
+ */
+interface UserDelivery {
+    event: string;
+    data: any;
+    users: Array<{ userId: string; seq: string }>;
+}
+
 /**
  * WebSocket Gateway
  *
@@ -59,11 +90,12 @@ interface AuthenticatedSocket extends Socket {
  * - Appointment status updates
  * - Patient status changes
  * - Notifications
- * - Live dashboard updates
+ * - Live dashboard updates (staff presence)
  *
  * IMPORTANT: WebSockets are ONLY exposed at Gateway level.
  * Internal services communicate via RabbitMQ events.
- * Gateway subscribes to relevant events and pushes to connected clients.
+ * Gateway subscribes to relevant events and pushes to connected clients
+ * (see WebSocketEventsConsumer).
  */
 @WebSocketGateway({
     namespace: '/ws',
@@ -74,13 +106,14 @@ interface AuthenticatedSocket extends Socket {
     transports: ['websocket', 'polling'],
 })
 export class CareFlowWebSocketGateway
-    implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+    implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
 {
     @WebSocketServer()
-    server: Server;
+    server: Namespace;
 
     private readonly logger = new Logger(CareFlowWebSocketGateway.name);
     private wsGuard: WsJwtGuard;
+    private presenceHeartbeat?: NodeJS.Timeout;
 
     // Room naming conventions
     private readonly ROOMS = {
@@ -92,19 +125,36 @@ export class CareFlowWebSocketGateway
         ADMIN: 'admin',
     };
 
+    // Server-side event carrying a UserDelivery to the other Gateway instances
+    private readonly USER_DELIVERY = 'user-delivery';
+
     constructor(
         private jwtService: JwtService,
         private redis: RedisService,
         private config: AppConfigService,
+        private roomAccess: RoomAccessService,
+        private eventReplay: EventReplayService,
+        private presence: PresenceService,
+        jwks: JwksService,
+        tokenRevocation: TokenRevocationService,
     ) {
-        this.wsGuard = new WsJwtGuard(jwtService, config);
+        this.wsGuard = new WsJwtGuard(jwtService, jwks, tokenRevocation);
     }
 
-    afterInit(server: Server) {
+    afterInit(server: Namespace) {
         this.logger.log('WebSocket Gateway initialized');
 
-        // Set up Redis pub/sub for scaling across multiple Gateway instances
-        this.setupRedisPubSub();
+        // Events for addressed users emitted by other Gateway instances
+        server.on(this.USER_DELIVERY, (delivery: UserDelivery) => this.deliverToUsers(delivery));
+
+        this.presenceHeartbeat = setInterval(
+            () => this.runPresenceHeartbeat(),
+            PRESENCE_HEARTBEAT_SECONDS * 1000,
+        );
+    }
+
+    onModuleDestroy() {
+        clearInterval(this.presenceHeartbeat);
     }
 
     /**
@@ -129,6 +179,16 @@ export class CareFlowWebSocketGateway
             const user = await this.wsGuard.validateToken(token);
             (client as AuthenticatedSocket).user = user;
 
+            // Visible to fetchSockets() on every instance, to disconnect a revoked token or session
+            client.data.tokenId = user.tokenId;
+            client.data.sessionId = user.sessionId;
+
+            // Reconnecting client: hold live events addressed to the user until the gap is replayed
+            const lastEventId = client.handshake.auth?.lastEventId;
+            if (isStreamId(lastEventId)) {
+                client.data.heldEvents = [];
+            }
+
             // Register socket in Redis for scaling
             await this.redis.registerWebSocketSession(client.id, user.userId, {
                 roles: user.roles,
@@ -139,14 +199,24 @@ export class CareFlowWebSocketGateway
             client.join(this.ROOMS.USER(user.userId));
 
             // Join role-based rooms
-            if (user.roles.includes('admin' as any)) {
+            if (user.roles.includes(UserRole.ADMIN)) {
                 client.join(this.ROOMS.ADMIN);
             }
 
+            if (user.roles.includes(UserRole.DOCTOR)) {
+                client.join(this.ROOMS.DOCTOR(user.userId));
+
+                if (user.departmentId) {
+                    await this.redis.setDoctorDepartment(user.userId, user.departmentId);
+                }
+            }
+
             if (user.departmentId) {
                 client.join(this.ROOMS.DEPARTMENT(user.departmentId));
             }
 
+            await this.announcePresence(await this.presence.connect(client.id, user));
+
             this.logger.log(
                 `Client connected: ${client.id} | User: ${user.userId} | Roles: ${user.roles.join(', ')}`,
             );
@@ -157,6 +227,10 @@ export class CareFlowWebSocketGateway
                 userId: user.userId,
                 timestamp: new Date().toISOString(),
             });
+
+            if (isStreamId(lastEventId)) {
+                await this.replayMissedEvents(client as AuthenticatedSocket, lastEventId);
+            }
         } catch (error) {
             this.logger.error(`Connection error: ${error.message}`);
             client.emit('error', { message: 'Authentication failed' });
@@ -172,20 +246,74 @@ export class CareFlowWebSocketGateway
 
         if (userId) {
             await this.redis.removeWebSocketSession(client.id, userId);
+            await this.announcePresence(await this.presence.disconnect(client.id, client.user));
             this.logger.log(`Client disconnected: ${client.id} | User: ${userId}`);
         }
     }
 
+    /**
+     * Replay events the user missed since `lastEventId`, then resume live delivery
+     * with the events held back meanwhile
+     */
+    private async replayMissedEvents(client: AuthenticatedSocket, lastEventId: string) {
+        let lastSeq = lastEventId;
+
+        try {
+            const { events, truncated } = await this.eventReplay.since(
+                client.user.userId,
+                lastEventId,
+            );
+
+            for (const event of events) {
+                client.emit(event.event, { ...event.data, seq: event.seq, replayed: true });
+            }
+            lastSeq = events.length ? events[events.length - 1].seq : lastEventId;
+
+            client.emit('replay:complete', {
+                from: lastEventId,
+                to: lastSeq,
+                count: events.length,
+                truncated,
+            });
+        } catch (error) {
+            this.logger.error(`Replay failed for user ${client.user.userId}: ${error.message}`);
+            client.emit('replay:complete', {
+                from: lastEventId,
+                to: lastSeq,
+                count: 0,
+                truncated: true,
+            });
+        } finally {
+            // Held events already covered by the replay are dropped
+            const held: UserEvent[] = client.data.heldEvents ?? [];
+            client.data.heldEvents = undefined;
+
+            for (const event of held) {
+                if (compareStreamIds(event.seq, lastSeq) > 0) {
+                    client.emit(event.event, { ...event.data, seq: event.seq });
+                }
+            }
+        }
+    }
+
     // ==================== Client Message Handlers ====================
 
     /**
      * Subscribe to appointment updates
      */
     @SubscribeMessage('subscribe:appointment')
-    handleSubscribeAppointment(
+    async handleSubscribeAppointment(
         @ConnectedSocket() client: AuthenticatedSocket,
         @MessageBody() data: { appointmentId: string },
     ) {
+        const decision = await this.roomAccess.canSubscribeToAppointment(
+            client.user,
+            data.appointmentId,
+        );
+        if (!decision.allowed) {
+            throw new WsException('Not allowed to follow this appointment');
+        }
+
         const room = this.ROOMS.APPOINTMENT(data.appointmentId);
         client.join(room);
         this.logger.debug(`User ${client.user.userId} subscribed to ${room}`);
@@ -208,17 +336,16 @@ export class CareFlowWebSocketGateway
     }
 
     /**
-     * Subscribe to patient updates (for doctors/nurses)
+     * Subscribe to patient updates (the patient, their care team and admins)
      */
     @SubscribeMessage('subscribe:patient')
-    handleSubscribePatient(
+    async handleSubscribePatient(
         @ConnectedSocket() client: AuthenticatedSocket,
         @MessageBody() data: { patientId: string },
     ) {
-        // Check if user has permission to view this patient
-        const { roles } = client.user;
-        if (!roles.some((r) => ['admin', 'doctor', 'nurse'].includes(r))) {
-            throw new WsException('Insufficient permissions');
+        const decision = await this.roomAccess.canSubscribeToPatient(client.user, data.patientId);
+        if (!decision.allowed) {
+            throw new WsException('Not allowed to follow this patient');
         }
 
         const room = this.ROOMS.PATIENT(data.patientId);
@@ -227,6 +354,29 @@ export class CareFlowWebSocketGateway
         return { event: 'subscribed', data: { room, patientId: data.patientId } };
     }
 
+    /**
+     * Staff report whether they are at the screen (e.g. on tab visibility or idle timeout)
+     */
+    @SubscribeMessage('presence:set')
+    async handlePresenceSet(
+        @ConnectedSocket() client: AuthenticatedSocket,
+        @MessageBody() data: { status: 'online' | 'away' },
+    ) {
+        if (!this.presence.isStaff(client.user)) {
+            throw new WsException('Presence is tracked for doctors and nurses only');
+        }
+
+        if (data?.status !== 'online' && data?.status !== 'away') {
+            throw new WsException('Status must be online or away');
+        }
+
+        await this.announcePresence(
+            await this.presence.setAway(client.id, client.user, data.status === 'away'),
+        );
+
+        return { event: 'presence:set', data: { status: data.status } };
+    }
+
     /**
      * Ping/pong for connection health check
      */
@@ -236,79 +386,190 @@ export class CareFlowWebSocketGateway
     }
 
     // ==================== Server-side Event Broadcasting ====================
+    //
+    // Everything goes through publishToAll, so clients connected to any instance receive it.
+    // Events addressed to users are also kept in their replay streams (publishToUsers).
 
     /**
-     * Broadcast appointment status change to relevant parties
+     * Broadcast appointment status change to relevant parties:
+     * the appointment room, the patient, the doctor and the doctor's department
      */
-    broadcastAppointmentUpdate(
+    async broadcastAppointmentUpdate(
         appointmentId: string,
         patientId: string,
         doctorId: string,
         data: any,
     ) {
-        // Emit to appointment room
-        this.server.to(this.ROOMS.APPOINTMENT(appointmentId)).emit('appointment:updated', data);
-
-        // Emit to patient
-        this.server.to(this.ROOMS.USER(patientId)).emit('appointment:updated', data);
+        const rooms = [this.ROOMS.APPOINTMENT(appointmentId), this.ROOMS.DOCTOR(doctorId)];
 
-        // Emit to doctor
-        this.server.to(this.ROOMS.USER(doctorId)).emit('appointment:updated', data);
+        const departmentId = await this.redis.getDoctorDepartment(doctorId);
+        if (departmentId) {
+            rooms.push(this.ROOMS.DEPARTMENT(departmentId));
+        }
 
+        await this.publishToUsers('booking-status-update', data, [patientId, doctorId], rooms);
         this.logger.debug(`Broadcast appointment update: ${appointmentId}`);
     }
 
+    /**
+     * Broadcast payment status change to the appointment room and the paying patient
+     */
+    async broadcastPaymentUpdate(appointmentId: string, patientId: string | undefined, data: any) {
+        await this.publishToUsers(
+            'payment-status-update',
+            data,
+            patientId ? [patientId] : [],
+            this.ROOMS.APPOINTMENT(appointmentId),
+        );
+        this.logger.debug(`Broadcast payment update for appointment: ${appointmentId}`);
+    }
+
     /**
      * Send notification to specific user
      */
-    sendNotificationToUser(userId: string, notification: any) {
-        this.server.to(this.ROOMS.USER(userId)).emit('notification', notification);
+    async sendNotificationToUser(userId: string, notification: any) {
+        await this.publishToUsers('notification', notification, [userId]);
     }
 
     /**
      * Broadcast to all admins
      */
-    broadcastToAdmins(event: string, data: any) {
-        this.server.to(this.ROOMS.ADMIN).emit(event, data);
+    async broadcastToAdmins(event: string, data: any) {
+        await this.publishToAll(event, data, this.ROOMS.ADMIN);
     }
 
     /**
      * Broadcast to department
      */
-    broadcastToDepartment(departmentId: string, event: string, data: any) {
-        this.server.to(this.ROOMS.DEPARTMENT(departmentId)).emit(event, data);
+    async broadcastToDepartment(departmentId: string, event: string, data: any) {
+        await this.publishToAll(event, data, this.ROOMS.DEPARTMENT(departmentId));
     }
 
-    // ==================== Redis Pub/Sub for Scaling ====================
+    // ==================== Presence ====================
 
     /**
-     * Set up Redis pub/sub for multi-instance scaling
-     *
-     * When running multiple Gateway instances behind a load balancer,
-     * a message needs to reach users connected to ANY instance.
-     * Redis pub/sub broadcasts across all instances.
+     * Tell the user's department and the admins about a presence transition
      */
-    private async setupRedisPubSub() {
-        const CHANNEL = 'careflow:websocket:broadcast';
+    private async announcePresence(change: PresenceChange | null) {
+        if (!change) {
+            return;
+        }
 
-        await this.redis.subscribe(CHANNEL, (message: any) => {
-            const { event, room, data } = message;
+        const rooms = [this.ROOMS.ADMIN];
+        if (change.departmentId) {
+            rooms.push(this.ROOMS.DEPARTMENT(change.departmentId));
+        }
+
+        await this.publishToAll('presence:changed', change, rooms);
+    }
 
-            if (room) {
-                this.server.to(room).emit(event, data);
-            } else {
-                this.server.emit(event, data);
+    /**
+     * Keep this instance's staff sockets alive, then sweep for users whose sockets
+     * belonged to an instance that stopped (every instance sweeps; each transition
+     * is announced once)
+     */
+    private async runPresenceHeartbeat() {
+        try {
+            const staffSocketIds = [...this.server.sockets.values()]
+                .filter((socket) => {
+                    const user = (socket as AuthenticatedSocket).user;
+                    return user && this.presence.isStaff(user);
+                })
+                .map((socket) => socket.id);
+
+            await this.presence.heartbeat(staffSocketIds);
+
+            for (const change of await this.presence.sweep()) {
+                await this.announcePresence(change);
             }
-        });
+        } catch (error) {
+            this.logger.error(`Presence heartbeat failed: ${error.message}`);
+        }
+    }
 
-        this.logger.log('Redis pub/sub initialized for WebSocket scaling');
+    // ==================== Multi-instance Delivery ====================
+    //
+    // The Socket.IO Redis adapter (RedisIoAdapter) makes rooms span every Gateway instance
+
+    /**
+     * Emit event to rooms (or everyone) across all Gateway instances
+     */
+    async publishToAll(event: string, data: any, room?: string | string[]) {
+        if (room?.length) {
+            this.server.to(room).emit(event, data);
+        } else {
+            this.server.emit(event, data);
+        }
+    }
+
+    /**
+     * Emit event to users (recorded for replay) and, optionally, other rooms
+     */
+    async publishToUsers(event: string, data: any, userIds: string[], room?: string | string[]) {
+        const delivery: UserDelivery = {
+            event,
+            data,
+            users: await this.eventReplay.record(userIds, event, data),
+        };
+
+        // A socket in several of the rooms still receives the event once;
+        // sockets of addressed users get their own copy, with their sequence ID
+        if (room?.length) {
+            const userRooms = delivery.users.map((u) => this.ROOMS.USER(u.userId));
+            this.server.to(room).except(userRooms).emit(event, data);
+        }
+
+        this.deliverToUsers(delivery);
+        this.server.serverSideEmit(this.USER_DELIVERY, delivery);
+    }
+
+    /**
+     * Emit to the users' sockets on this instance, holding it for sockets still replaying
+     */
+    private deliverToUsers({ event, data, users }: UserDelivery) {
+        for (const { userId, seq } of users) {
+            const socketIds = this.server.adapter.rooms.get(this.ROOMS.USER(userId)) ?? [];
+
+            for (const socketId of socketIds) {
+                const socket = this.server.sockets.get(socketId);
+
+                if (socket?.data.heldEvents) {
+                    socket.data.heldEvents.push({ seq, event, data });
+                } else {
+                    socket?.emit(event, { ...data, seq });
+                }
+            }
+        }
     }
 
     /**
-     * Publish event across all Gateway instances
+     * Forced logout: disconnect every socket of the user, on whichever instance it is.
+     * With a tokenId or sessionId, only the sockets opened with that access token
+     * or with a token of that session.
      */
-    async publishToAll(event: string, data: any, room?: string) {
-        const CHANNEL = 'careflow:websocket:broadcast';
-        await this.redis.publish(CHANNEL, { event, data, room });
+    async disconnectUser(
+        userId: string,
+        reason: string,
+        only: { tokenId?: string; sessionId?: string } = {},
+    ): Promise<number> {
+        const { tokenId, sessionId } = only;
+        const sockets = (await this.server.in(this.ROOMS.USER(userId)).fetchSockets()).filter(
+            (socket) =>
+                (!tokenId || socket.data.tokenId === tokenId) &&
+                (!sessionId || socket.data.sessionId === sessionId),
+        );
+
+        for (const socket of sockets) {
+            socket.emit('session:revoked', { reason });
+            socket.disconnect(true);
+        }
+
+        if (sockets.length) {
+            this.logger.log(
+                `Disconnected ${sockets.length} socket(s) of user ${userId}: ${reason}`,
+            );
+        }
+
+        return sockets.length;
     }
 }
@@ -1,25 +1,29 @@
 import { Module } from '@nestjs/common';
-import { JwtModule } from '@nestjs/jwt';
 import { CareFlowWebSocketGateway } from './websocket.gateway';
-import { AppConfigService } from '../config';
+import { WebSocketEventsConsumer } from './websocket-events.consumer';
+import { RoomAccessService } from './room-access.service';
+import { EventReplayService } from './event-replay.service';
+import { AuthModule } from '../auth/auth.module';
+import { ProxyModule } from '../proxy/proxy.module';
+import { PresenceModule } from '../presence/presence.module';
 
 /**
  * WebSocket Module
  *
  * Provides real-time communication capabilities.
  * Uses Socket.IO for WebSocket transport with polling fallback.
+ * Domain events from RabbitMQ are pushed to clients by WebSocketEventsConsumer.
+ * Room subscriptions are authorized by RoomAccessService; events addressed to users
+ * are kept by EventReplayService for clients that reconnect.
  */
 @Module({
-    imports: [
-        JwtModule.registerAsync({
-            inject: [AppConfigService],
-            useFactory: (config: AppConfigService) => ({
-                secret: config.jwt.secret,
-                signOptions: { expiresIn: config.jwt.expiresIn },
-            }),
-        }),
+    imports: [AuthModule, ProxyModule, PresenceModule],
+    providers: [
+        CareFlowWebSocketGateway,
+        WebSocketEventsConsumer,
+        RoomAccessService,
+        EventReplayService,
     ],
-    providers: [CareFlowWebSocketGateway],
     exports: [CareFlowWebSocketGateway],
 })
 export class WebSocketModule {}
@@ -0,0 +1,199 @@
+import { INestApplication } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import { generateKeyPairSync } from 'crypto';
+import { AddressInfo } from 'net';
+import { io, Socket as ClientSocket } from 'socket.io-client';
+import { UserRole } from '@careflow/shared';
+import type { CareFlowWebSocketGateway } from '../src/websocket/websocket.gateway';
+
+/**
+ * Two Gateway instances sharing one Redis, as behind the load balancer.
+ *
+ * Needs a reachable Redis (REDIS_HOST / REDIS_PORT, default localhost:6379):
+ *   npm run docker:infra
+ *   npm run test:e2e -w @careflow/api-gateway
+ */
+
+// Stands in for Auth Service's signing key; the JWKS lookup is stubbed below
+const { publicKey, privateKey } = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+const KEY_ID = 'websocket-cluster-test';
+
+Object.assign(process.env, {
+    NODE_ENV: 'test',
+    PORT: '3000',
+    API_PREFIX: 'api/v1',
+    JWT_EXPIRES_IN: '15m',
+    JWT_REFRESH_EXPIRES_IN: '7d',
+    REDIS_HOST: process.env.REDIS_HOST ?? 'localhost',
+    REDIS_PORT: process.env.REDIS_PORT ?? '6379',
+    REDIS_DB: process.env.REDIS_DB ?? '0',
+    RABBITMQ_URL: 'amqp://localhost:5672',
+    AUTH_SERVICE_URL: 'http://localhost:3001',
+    PATIENT_SERVICE_URL: 'http://localhost:3002',
+    APPOINTMENT_SERVICE_URL: 'http://localhost:3003',
+    BILLING_SERVICE_URL: 'http://localhost:3004',
+    NOTIFICATION_SERVICE_URL: 'http://localhost:3005',
+    AUDIT_SERVICE_URL: 'http://localhost:3006',
+    RATE_LIMIT_TTL: '60',
+    RATE_LIMIT_MAX: '100',
+    CORS_ORIGINS: 'http://localhost:3000',
+    LOG_LEVEL: 'error',
+    WS_PATH: '/ws',
+    WS_REPLAY_MAX_EVENTS: '100',
+    WS_REPLAY_MAX_AGE_SECONDS: '3600',
+});
+
+jest.setTimeout(20000);
+
+// Imported after the environment is set: the config module validates it on import
+async function startInstance(): Promise<INestApplication> {
+    const { AppConfigModule, AppConfigService } = await import('../src/config');
+    const { RedisModule } = await import('../src/redis/redis.module');
+    const { WebSocketModule } = await import('../src/websocket/websocket.module');
+    const { RedisIoAdapter } = await import('../src/websocket/redis-io.adapter');
+    const { JwksService } = await import('../src/auth/jwks.service');
+
+    const moduleRef = await Test.createTestingModule({
+        imports: [AppConfigModule, RedisModule, WebSocketModule],
+    })
+        .overrideProvider(JwksService)
+        .useValue({ keyFor: async () => ({ algorithm: 'ES256', publicKey }) })
+        .compile();
+
+    const app = moduleRef.createNestApplication({ logger: ['error'] });
+    const adapter = new RedisIoAdapter(app, app.get(AppConfigService));
+    await adapter.connectToRedis();
+    app.useWebSocketAdapter(adapter);
+
+    await app.listen(0);
+    return app;
+}
+
+describe('WebSocket gateway across two instances', () => {
+    const jwt = new JwtService({ privateKey, signOptions: { algorithm: 'ES256', keyid: KEY_ID } });
+    const run = Date.now();
+    const clients: ClientSocket[] = [];
+    let instanceA: INestApplication;
+    let instanceB: INestApplication;
+
+    const gatewayOf = async (app: INestApplication) => {
+        const { CareFlowWebSocketGateway } = await import('../src/websocket/websocket.gateway');
+        return app.get<CareFlowWebSocketGateway>(CareFlowWebSocketGateway);
+    };
+
+    const connect = (
+        app: INestApplication,
+        user: { id: string; roles: UserRole[]; departmentId?: string },
+    ): Promise<ClientSocket> => {
+        const { port } = app.getHttpServer().address() as AddressInfo;
+        const token = jwt.sign({
+            sub: user.id,
+            email: `${user.id}@careflow.test`,
+            roles: user.roles,
+            permissions: [],
+            departmentId: user.departmentId,
+        });
+
+        const client = io(`http://localhost:${port}/ws`, {
+            auth: { token },
+            transports: ['websocket'],
+            forceNew: true,
+            reconnection: false,
+        });
+        clients.push(client);
+
+        return new Promise((resolve, reject) => {
+            client.once('connected', () => resolve(client));
+            client.once('connect_error', reject);
+        });
+    };
+
+    const next = (
+        client: ClientSocket,
+        event: string,
+        matches: (data: any) => boolean = () => true,
+    ): Promise<any> =>
+        new Promise((resolve) => {
+            const listener = (data: any) => {
+                if (matches(data)) {
+                    client.off(event, listener);
+                    resolve(data);
+                }
+            };
+            client.on(event, listener);
+        });
+
+    beforeAll(async () => {
+        instanceA = await startInstance();
+        instanceB = await startInstance();
+    });
+
+    afterEach(() => {
+        clients.splice(0).forEach((client) => client.disconnect());
+    });
+
+    afterAll(async () => {
+        await instanceA?.close();
+        await instanceB?.close();
+    });
+
+    it('delivers an event emitted on one instance to rooms on both', async () => {
+        const patientId = `patient-${run}`;
+        const doctorId = `doctor-${run}`;
+        const patient = await connect(instanceA, { id: patientId, roles: [UserRole.PATIENT] });
+        const doctor = await connect(instanceB, { id: doctorId, roles: [UserRole.DOCTOR] });
+
+        const received = Promise.all([
+            next(patient, 'booking-status-update'),
+            next(doctor, 'booking-status-update'),
+        ]);
+        const gateway = await gatewayOf(instanceA);
+        await gateway.broadcastAppointmentUpdate(`appt-${run}`, patientId, doctorId, {
+            status: 'confirmed',
+        });
+
+        const [toPatient, toDoctor] = await received;
+        expect(toPatient).toMatchObject({ status: 'confirmed', seq: expect.any(String) });
+        expect(toDoctor).toMatchObject({ status: 'confirmed', seq: expect.any(String) });
+    });
+
+    it('finds and disconnects a user on every instance (forced logout)', async () => {
+        const userId = `nurse-${run}`;
+        const onA = await connect(instanceA, { id: userId, roles: [UserRole.NURSE] });
+        const onB = await connect(instanceB, { id: userId, roles: [UserRole.NURSE] });
+
+        const revoked = Promise.all([next(onA, 'session:revoked'), next(onB, 'session:revoked')]);
+        const disconnected = Promise.all([next(onA, 'disconnect'), next(onB, 'disconnect')]);
+
+        const gateway = await gatewayOf(instanceB);
+        const count = await gateway.disconnectUser(userId, 'test');
+
+        expect(count).toBe(2);
+        expect(await revoked).toEqual([{ reason: 'test' }, { reason: 'test' }]);
+        await disconnected;
+    });
+
+    it('announces presence changes to admins connected elsewhere', async () => {
+        const admin = await connect(instanceA, { id: `admin-${run}`, roles: [UserRole.ADMIN] });
+        const nurseId = `nurse-presence-${run}`;
+
+        const isNurse = (change: any) => change.userId === nurseId;
+
+        const online = next(admin, 'presence:changed', isNurse);
+        const nurse = await connect(instanceB, {
+            id: nurseId,
+            roles: [UserRole.NURSE],
+            departmentId: `ward-${run}`,
+        });
+        expect(await online).toMatchObject({ userId: nurseId, status: 'online' });
+
+        const offline = next(admin, 'presence:changed', isNurse);
+        nurse.disconnect();
+        expect(await offline).toMatchObject({ userId: nurseId, status: 'offline' });
+    });
+});
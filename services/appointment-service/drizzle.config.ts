@@ -0,0 +1,11 @@
+import 'dotenv/config';
+import { defineConfig } from 'drizzle-kit';
+
+export default defineConfig({
+    dialect: 'postgresql',
+    schema: './src/database/schema.ts',
+    out: './drizzle',
+    dbCredentials: {
+        url: process.env['DATABASE_URL']!,
+    },
+});
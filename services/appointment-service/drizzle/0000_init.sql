@@ -0,0 +1,34 @@
+CREATE TABLE "appointments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"patient_id" text NOT NULL,
+	"doctor_id" text NOT NULL,
+	"scheduled_at" timestamp with time zone NOT NULL,
+	"ends_at" timestamp with time zone NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"type" text DEFAULT 'consultation' NOT NULL,
+	"status" text DEFAULT 'pending_payment' NOT NULL,
+	"reason" text,
+	"notes" text,
+	"payment_id" text,
+	"confirmed_at" timestamp with time zone,
+	"cancellation_reason" text,
+	"cancelled_by" text,
+	"cancelled_at" timestamp with time zone,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "doctor_working_hours" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doctor_id" text NOT NULL,
+	"day_of_week" smallint NOT NULL,
+	"start_time" text NOT NULL,
+	"end_time" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "appointments_patient_id_idx" ON "appointments" USING btree ("patient_id");--> statement-breakpoint
+CREATE INDEX "appointments_doctor_id_scheduled_at_idx" ON "appointments" USING btree ("doctor_id","scheduled_at");--> statement-breakpoint
+CREATE INDEX "appointments_status_idx" ON "appointments" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "doctor_working_hours_doctor_id_idx" ON "doctor_working_hours" USING btree ("doctor_id","day_of_week");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "doctor_schedule_exceptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doctor_id" text NOT NULL,
+	"date" date NOT NULL,
+	"start_time" text,
+	"end_time" text,
+	"reason" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "doctor_schedule_settings" (
+	"doctor_id" text PRIMARY KEY NOT NULL,
+	"buffer_minutes" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "doctor_schedule_exceptions_doctor_id_idx" ON "doctor_schedule_exceptions" USING btree ("doctor_id","date");
\ No newline at end of file
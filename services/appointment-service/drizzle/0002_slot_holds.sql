@@ -0,0 +1,9 @@
+ALTER TABLE "appointments" ADD COLUMN "hold_expires_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "appointments_hold_expires_at_idx" ON "appointments" USING btree ("hold_expires_at");--> statement-breakpoint
+-- Hand-written: the database is the final arbiter against double booking.
+-- Two active (pending_payment / confirmed) appointments for one doctor may never overlap.
+CREATE EXTENSION IF NOT EXISTS btree_gist;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_doctor_no_overlap" EXCLUDE USING gist (
+	"doctor_id" WITH =,
+	tstzrange("scheduled_at", "ends_at", '[)') WITH &&
+) WHERE ("status" IN ('pending_payment', 'confirmed'));
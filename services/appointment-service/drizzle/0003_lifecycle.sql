@@ -0,0 +1,19 @@
+CREATE TABLE "appointment_status_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"appointment_id" uuid NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"reason" text,
+	"changed_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "rescheduled_from_id" uuid;--> statement-breakpoint
+ALTER TABLE "appointment_status_history" ADD CONSTRAINT "appointment_status_history_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "public"."appointments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "appointment_status_history_appointment_id_idx" ON "appointment_status_history" USING btree ("appointment_id");--> statement-breakpoint
+-- Hand-written: checked-in and in-progress visits still occupy the doctor's time
+ALTER TABLE "appointments" DROP CONSTRAINT "appointments_doctor_no_overlap";--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_doctor_no_overlap" EXCLUDE USING gist (
+	"doctor_id" WITH =,
+	tstzrange("scheduled_at", "ends_at", '[)') WITH &&
+) WHERE ("status" IN ('pending_payment', 'confirmed', 'checked_in', 'in_progress'));
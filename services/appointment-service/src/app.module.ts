@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import { EventBusModule, RABBITMQ_CONFIG } from '@careflow/shared';
+
+import { AppConfigModule, AppConfigService } from './config';
+import { DatabaseModule } from './database';
+import { ScheduleModule } from './schedule/schedule.module';
+import { AppointmentModule } from './appointment/appointment.module';
+import { HealthModule } from './health/health.module';
+import { HttpExceptionFilter } from './common/filters';
+
+@Module({
+    imports: [
+        // Configuration
+        AppConfigModule,
+
+        // Database
+        DatabaseModule,
+
+        // Message Queue
+        EventBusModule.forRootAsync({
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => ({
+                url: config.rabbitmqUrl,
+                serviceName: 'appointment-service',
+                queue: RABBITMQ_CONFIG.QUEUES.APPOINTMENT_EVENTS,
+            }),
+        }),
+
+        // Feature modules
+        // ScheduleModule registers /appointments/available-slots and /appointments/doctors/*,
+        // so it must come before AppointmentModule's /appointments/:id
+        ScheduleModule,
+        AppointmentModule,
+        HealthModule,
+    ],
+    providers: [
+        {
+            provide: APP_FILTER,
+            useClass: HttpExceptionFilter,
+        },
+    ],
+})
+export class AppModule { }
@@ -0,0 +1,77 @@
+import { BadRequestException } from '@nestjs/common';
+import { EventName } from '@careflow/shared';
+import { AppointmentStatus } from '../database/schema';
+import {
+    TRANSITIONS,
+    STATUS_EVENTS,
+    canTransition,
+    assertTransition,
+} from './appointment-state-machine';
+
+describe('appointment-state-machine', () => {
+    it('walks the happy path from request to completion', () => {
+        const path = [
+            AppointmentStatus.REQUESTED,
+            AppointmentStatus.PENDING_PAYMENT,
+            AppointmentStatus.CONFIRMED,
+            AppointmentStatus.CHECKED_IN,
+            AppointmentStatus.IN_PROGRESS,
+            AppointmentStatus.COMPLETED,
+        ];
+
+        for (let i = 1; i < path.length; i++) {
+            expect(canTransition(path[i - 1], path[i])).toBe(true);
+        }
+    });
+
+    it('allows no_show only from confirmed', () => {
+        const from = Object.values(AppointmentStatus).filter((s) =>
+            canTransition(s, AppointmentStatus.NO_SHOW),
+        );
+
+        expect(from).toEqual([AppointmentStatus.CONFIRMED]);
+    });
+
+    it('does not allow skipping steps', () => {
+        expect(canTransition(AppointmentStatus.PENDING_PAYMENT, AppointmentStatus.CHECKED_IN)).toBe(
+            false,
+        );
+        expect(canTransition(AppointmentStatus.CONFIRMED, AppointmentStatus.COMPLETED)).toBe(false);
+    });
+
+    it('treats completed, cancelled, no_show and rescheduled as final', () => {
+        for (const status of [
+            AppointmentStatus.COMPLETED,
+            AppointmentStatus.CANCELLED,
+            AppointmentStatus.NO_SHOW,
+            AppointmentStatus.RESCHEDULED,
+        ]) {
+            expect(TRANSITIONS[status]).toEqual([]);
+        }
+    });
+
+    it('rejects illegal transitions with the allowed targets in the message', () => {
+        expect(() =>
+            assertTransition(AppointmentStatus.IN_PROGRESS, AppointmentStatus.CANCELLED),
+        ).toThrow(
+            new BadRequestException(
+                'Invalid status transition: in_progress -> cancelled. Allowed from in_progress: completed',
+            ),
+        );
+    });
+
+    it('explains that final statuses cannot move', () => {
+        expect(() =>
+            assertTransition(AppointmentStatus.CANCELLED, AppointmentStatus.CONFIRMED),
+        ).toThrow('cancelled is a final status');
+    });
+
+    it('maps every status to an event', () => {
+        expect(STATUS_EVENTS[AppointmentStatus.CHECKED_IN]).toBe(EventName.APPOINTMENT_CHECKED_IN);
+        expect(STATUS_EVENTS[AppointmentStatus.NO_SHOW]).toBe(EventName.APPOINTMENT_NO_SHOW);
+        expect(STATUS_EVENTS[AppointmentStatus.PENDING_PAYMENT]).toBe(
+            EventName.APPOINTMENT_AWAITING_PAYMENT,
+        );
+        expect(Object.keys(STATUS_EVENTS).sort()).toEqual(Object.values(AppointmentStatus).sort());
+    });
+});
@@ -0,0 +1,69 @@
+import { BadRequestException } from '@nestjs/common';
+import { EventName } from '@careflow/shared';
+import { AppointmentStatus } from '../database/schema';
+
+// requested -> pending_payment -> confirmed -> checked_in -> in_progress -> completed
+// with cancelled / no_show / rescheduled branching off along the way
+export const TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+    [AppointmentStatus.REQUESTED]: [
+        AppointmentStatus.PENDING_PAYMENT,
+        AppointmentStatus.CANCELLED,
+        AppointmentStatus.RESCHEDULED,
+    ],
+    [AppointmentStatus.PENDING_PAYMENT]: [
+        AppointmentStatus.CONFIRMED,
+        AppointmentStatus.CANCELLED,
+        AppointmentStatus.RESCHEDULED,
+    ],
+    [AppointmentStatus.CONFIRMED]: [
+        AppointmentStatus.CHECKED_IN,
+        AppointmentStatus.CANCELLED,
+        AppointmentStatus.NO_SHOW,
+        AppointmentStatus.RESCHEDULED,
+    ],
+    [AppointmentStatus.CHECKED_IN]: [AppointmentStatus.IN_PROGRESS, AppointmentStatus.CANCELLED],
+    [AppointmentStatus.IN_PROGRESS]: [AppointmentStatus.COMPLETED],
+    [AppointmentStatus.COMPLETED]: [],
+    [AppointmentStatus.CANCELLED]: [],
+    [AppointmentStatus.NO_SHOW]: [],
+    [AppointmentStatus.RESCHEDULED]: [],
+};
+
+// Event published when an appointment enters each status
+export const STATUS_EVENTS: Record<AppointmentStatus, EventName> = {
+    [AppointmentStatus.REQUESTED]: EventName.APPOINTMENT_CREATED,
+    [AppointmentStatus.PENDING_PAYMENT]: EventName.APPOINTMENT_AWAITING_PAYMENT,
+    [AppointmentStatus.CONFIRMED]: EventName.APPOINTMENT_CONFIRMED,
+    [AppointmentStatus.CHECKED_IN]: EventName.APPOINTMENT_CHECKED_IN,
+    [AppointmentStatus.IN_PROGRESS]: EventName.APPOINTMENT_STARTED,
+    [AppointmentStatus.COMPLETED]: EventName.APPOINTMENT_COMPLETED,
+    [AppointmentStatus.CANCELLED]: EventName.APPOINTMENT_CANCELLED,
+    [AppointmentStatus.NO_SHOW]: EventName.APPOINTMENT_NO_SHOW,
+    [AppointmentStatus.RESCHEDULED]: EventName.APPOINTMENT_RESCHEDULED,
+};
+
+// Statuses in which an appointment still occupies the doctor's time
+export const ACTIVE_STATUSES = [
+    AppointmentStatus.PENDING_PAYMENT,
+    AppointmentStatus.CONFIRMED,
+    AppointmentStatus.CHECKED_IN,
+    AppointmentStatus.IN_PROGRESS,
+];
+
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+    return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function assertTransition(from: AppointmentStatus, to: AppointmentStatus): void {
+    if (canTransition(from, to)) {
+        return;
+    }
+
+    const allowed = TRANSITIONS[from] ?? [];
+
+    throw new BadRequestException(
+        allowed.length
+            ? `Invalid status transition: ${from} -> ${to}. Allowed from ${from}: ${allowed.join(', ')}`
+            : `Invalid status transition: ${from} -> ${to}. ${from} is a final status`,
+    );
+}
@@ -0,0 +1,165 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    HttpCode,
+    HttpStatus,
+    Headers,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { AppointmentService } from './appointment.service';
+import {
+    CreateAppointmentDto,
+    UpdateAppointmentDto,
+    UpdateStatusDto,
+    CancelAppointmentDto,
+    RescheduleAppointmentDto,
+    AppointmentQueryDto,
+    UserAppointmentsQueryDto,
+    AppointmentResponseDto,
+    AppointmentListResponseDto,
+    StatusHistoryResponseDto,
+    AppointmentStatus,
+} from './dto/appointment.dto';
+import { CurrentUser } from '../common/decorators';
+import { INTERNAL_HEADERS, UserContext } from '@careflow/shared';
+
+@ApiTags('Appointments')
+@Controller('appointments')
+export class AppointmentController {
+    constructor(private appointmentService: AppointmentService) { }
+
+    @Post()
+    @ApiOperation({ summary: 'Book a new appointment' })
+    @ApiResponse({ status: 201, type: AppointmentResponseDto })
+    @ApiResponse({ status: 409, description: 'Time slot not available' })
+    async create(
+        @Body() dto: CreateAppointmentDto,
+        @CurrentUser() user: UserContext,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        return this.appointmentService.create(dto, user, correlationId);
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'List appointments (filtered by caller role)' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'status', required: false, enum: AppointmentStatus })
+    @ApiQuery({ name: 'doctorId', required: false, type: String })
+    @ApiQuery({ name: 'patientId', required: false, type: String })
+    @ApiQuery({ name: 'startDate', required: false, type: String })
+    @ApiQuery({ name: 'endDate', required: false, type: String })
+    @ApiResponse({ status: 200, type: AppointmentListResponseDto })
+    async findAll(
+        @Query() query: AppointmentQueryDto,
+        @CurrentUser() user: UserContext,
+    ): Promise<AppointmentListResponseDto> {
+        return this.appointmentService.findAll(query, user);
+    }
+
+    @Get('user/:userId')
+    @ApiOperation({ summary: 'Get appointments where the user is patient or doctor' })
+    @ApiQuery({ name: 'status', required: false, enum: AppointmentStatus })
+    @ApiQuery({ name: 'upcoming', required: false, type: Boolean })
+    @ApiResponse({ status: 200, type: [AppointmentResponseDto] })
+    @ApiResponse({ status: 403, description: "Not allowed to list this user's appointments" })
+    async findByUser(
+        @Param('userId') userId: string,
+        @Query() query: UserAppointmentsQueryDto,
+        @CurrentUser() user: UserContext,
+    ): Promise<AppointmentResponseDto[]> {
+        return this.appointmentService.findByUser(userId, query, user);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get appointment by ID' })
+    @ApiResponse({ status: 200, type: AppointmentResponseDto })
+    @ApiResponse({ status: 404, description: 'Appointment not found' })
+    async findById(
+        @Param('id') id: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<AppointmentResponseDto> {
+        return this.appointmentService.findById(id, user);
+    }
+
+    @Get(':id/history')
+    @ApiOperation({ summary: 'Get the status transition history of an appointment' })
+    @ApiResponse({ status: 200, type: [StatusHistoryResponseDto] })
+    @ApiResponse({ status: 404, description: 'Appointment not found' })
+    async getHistory(
+        @Param('id') id: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<StatusHistoryResponseDto[]> {
+        return this.appointmentService.getHistory(id, user);
+    }
+
+    @Put(':id')
+    @ApiOperation({ summary: 'Update appointment details' })
+    @ApiResponse({ status: 200, type: AppointmentResponseDto })
+    @ApiResponse({ status: 404, description: 'Appointment not found' })
+    async update(
+        @Param('id') id: string,
+        @Body() dto: UpdateAppointmentDto,
+        @CurrentUser() user: UserContext,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        return this.appointmentService.update(id, dto, user, correlationId);
+    }
+
+    @Patch(':id/status')
+    @ApiOperation({ summary: 'Move appointment along its lifecycle' })
+    @ApiResponse({ status: 200, type: AppointmentResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid status transition' })
+    @ApiResponse({ status: 409, description: 'Appointment changed concurrently' })
+    async updateStatus(
+        @Param('id') id: string,
+        @Body() dto: UpdateStatusDto,
+        @CurrentUser() user: UserContext,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        return this.appointmentService.updateStatus(id, dto, user, correlationId);
+    }
+
+    @Post(':id/cancel')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Cancel appointment' })
+    @ApiResponse({ status: 200, type: AppointmentResponseDto })
+    async cancel(
+        @Param('id') id: string,
+        @Body() dto: CancelAppointmentDto,
+        @CurrentUser() user: UserContext,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        return this.appointmentService.cancel(id, dto, user, correlationId);
+    }
+
+    @Post(':id/reschedule')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Reschedule appointment; returns the replacement appointment' })
+    @ApiResponse({ status: 200, type: AppointmentResponseDto })
+    @ApiResponse({ status: 409, description: 'Time slot not available' })
+    async reschedule(
+        @Param('id') id: string,
+        @Body() dto: RescheduleAppointmentDto,
+        @CurrentUser() user: UserContext,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        return this.appointmentService.reschedule(id, dto, user, correlationId);
+    }
+
+    @Delete(':id')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete appointment' })
+    @ApiResponse({ status: 204 })
+    @ApiResponse({ status: 404, description: 'Appointment not found' })
+    async delete(@Param('id') id: string): Promise<void> {
+        await this.appointmentService.delete(id);
+    }
+}
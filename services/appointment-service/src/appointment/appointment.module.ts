@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AppointmentService } from './appointment.service';
+import { AppointmentController } from './appointment.controller';
+import { SlotHoldService } from './slot-hold.service';
+import { ScheduleModule } from '../schedule/schedule.module';
+
+@Module({
+    imports: [ScheduleModule],
+    controllers: [AppointmentController],
+    providers: [AppointmentService, SlotHoldService],
+    exports: [AppointmentService],
+})
+export class AppointmentModule { }
@@ -0,0 +1,492 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { eq } from 'drizzle-orm';
+import { EventName, UserContext, UserRole } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import {
+    AppointmentStatus,
+    appointments,
+    appointmentStatusHistory,
+    doctorScheduleExceptions,
+    doctorScheduleSettings,
+    doctorWorkingHours,
+} from '../database/schema';
+import { ScheduleService } from '../schedule/schedule.service';
+import { RecordingEventBus, TestDatabase } from '../testing';
+import { AppointmentService } from './appointment.service';
+
+const START = new Date('2026-03-02T08:00:00Z'); // a Monday
+const MINUTE_MS = 60_000;
+
+describe('AppointmentService', () => {
+    let database: TestDatabase;
+    let service: AppointmentService;
+    let eventBus: RecordingEventBus;
+
+    const patient: UserContext = {
+        userId: 'patient-1',
+        email: 'patient@example.com',
+        roles: [UserRole.PATIENT],
+        permissions: [],
+    };
+
+    // Today at the given UTC time
+    const at = (time: string) => new Date(`2026-03-02T${time}:00Z`);
+
+    const book = (time: string, overrides: { doctorId?: string; durationMinutes?: number } = {}) =>
+        service.create(
+            {
+                doctorId: 'doctor-1',
+                scheduledAt: at(time).toISOString(),
+                durationMinutes: 30,
+                ...overrides,
+            },
+            patient,
+        );
+
+    const statusOf = async (id: string) => {
+        const [row] = await database.db
+            .select({ status: appointments.status })
+            .from(appointments)
+            .where(eq(appointments.id, id));
+        return row.status;
+    };
+
+    beforeAll(() => {
+        database = new TestDatabase();
+    });
+
+    afterAll(async () => {
+        await database.close();
+    });
+
+    beforeEach(async () => {
+        // Only Date is faked: PGlite runs on the real timers
+        jest.useFakeTimers({
+            now: START,
+            doNotFake: [
+                'nextTick',
+                'setImmediate',
+                'clearImmediate',
+                'setTimeout',
+                'clearTimeout',
+                'setInterval',
+                'clearInterval',
+                'queueMicrotask',
+            ],
+        });
+        await database.reset();
+        eventBus = new RecordingEventBus();
+        // Both doctors work Mondays 08:00-18:00
+        await database.db.insert(doctorWorkingHours).values(
+            ['doctor-1', 'doctor-2'].map((doctorId) => ({
+                doctorId,
+                dayOfWeek: 1,
+                startTime: '08:00',
+                endTime: '18:00',
+            })),
+        );
+
+        const config = { defaultAppointmentDuration: 30, slotHoldMinutes: 10 } as AppConfigService;
+        service = new AppointmentService(
+            database.service,
+            eventBus,
+            config,
+            new ScheduleService(database.service, config),
+        );
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('booking', () => {
+        it('holds the slot until payment, for SLOT_HOLD_MINUTES', async () => {
+            const booking = await book('09:00');
+
+            expect(booking).toMatchObject({
+                status: AppointmentStatus.PENDING_PAYMENT,
+                holdExpiresAt: new Date(START.getTime() + 10 * MINUTE_MS),
+            });
+        });
+
+        it.each([
+            ['the same time', '09:00'],
+            ['a start inside it', '09:15'],
+            ['an end inside it', '08:45'],
+        ])('refuses an overlapping booking: %s', async (_, time) => {
+            await book('09:00');
+
+            await expect(book(time)).rejects.toThrow(ConflictException);
+        });
+
+        it('refuses a booking around an existing one', async () => {
+            await book('09:00', { durationMinutes: 15 });
+
+            await expect(book('08:50')).rejects.toThrow('Time slot not available');
+        });
+
+        it('allows back-to-back bookings', async () => {
+            await book('09:00');
+
+            await expect(book('09:30')).resolves.toBeDefined();
+            await expect(book('08:30')).resolves.toBeDefined();
+        });
+
+        it('allows the same time with another doctor', async () => {
+            await book('09:00');
+
+            await expect(book('09:00', { doctorId: 'doctor-2' })).resolves.toBeDefined();
+        });
+
+        it("keeps the doctor's buffer between bookings", async () => {
+            await database.db
+                .insert(doctorScheduleSettings)
+                .values({ doctorId: 'doctor-1', bufferMinutes: 10 });
+            await book('09:00');
+
+            await expect(book('09:35')).rejects.toThrow(ConflictException);
+            await expect(book('09:40')).resolves.toBeDefined();
+        });
+
+        it("refuses a booking outside the doctor's working hours", async () => {
+            await expect(book('19:00')).rejects.toThrow('the doctor is not working then');
+            await expect(book('17:45')).rejects.toThrow(ConflictException);
+            await expect(book('17:30')).resolves.toBeDefined();
+        });
+
+        it('refuses a booking on a day off', async () => {
+            await database.db
+                .insert(doctorScheduleExceptions)
+                .values({ doctorId: 'doctor-1', date: '2026-03-02', reason: 'Holiday' });
+
+            await expect(book('09:00')).rejects.toThrow('the doctor is not working then');
+            await expect(book('09:00', { doctorId: 'doctor-2' })).resolves.toBeDefined();
+        });
+
+        it('books within the hours an exception sets for the day', async () => {
+            await database.db.insert(doctorScheduleExceptions).values({
+                doctorId: 'doctor-1',
+                date: '2026-03-02',
+                startTime: '13:00',
+                endTime: '15:00',
+            });
+
+            await expect(book('09:00')).rejects.toThrow('the doctor is not working then');
+            await expect(book('13:00')).resolves.toBeDefined();
+            await expect(book('14:45')).rejects.toThrow('the doctor is not working then');
+        });
+
+        it('lets only one of two simultaneous bookings through', async () => {
+            const results = await Promise.allSettled([book('09:00'), book('09:15')]);
+
+            expect(results.map((result) => result.status).sort()).toEqual([
+                'fulfilled',
+                'rejected',
+            ]);
+        });
+
+        it('falls back on the exclusion constraint when the check is bypassed', async () => {
+            await book('09:00');
+            jest.spyOn(service as any, 'assertSlotFree').mockResolvedValue(undefined);
+
+            await expect(book('09:15')).rejects.toThrow('Time slot not available');
+        });
+
+        it("refuses a request outside the doctor's working hours", async () => {
+            await expect(
+                service.create(
+                    {
+                        doctorId: 'doctor-1',
+                        scheduledAt: at('19:00').toISOString(),
+                        requestOnly: true,
+                    },
+                    patient,
+                ),
+            ).rejects.toThrow('the doctor is not working then');
+        });
+
+        it('does not hold the slot for a request', async () => {
+            await service.create(
+                { doctorId: 'doctor-1', scheduledAt: at('09:00').toISOString(), requestOnly: true },
+                patient,
+            );
+
+            await expect(book('09:00')).resolves.toBeDefined();
+        });
+    });
+
+    describe('cancellation', () => {
+        it('frees the slot', async () => {
+            const booking = await book('09:00');
+
+            const cancelled = await service.cancel(booking.id, { reason: 'Feeling fine' }, patient);
+
+            expect(cancelled).toMatchObject({
+                status: AppointmentStatus.CANCELLED,
+                holdExpiresAt: undefined,
+            });
+            await expect(book('09:00')).resolves.toBeDefined();
+        });
+
+        it('frees the slot of a confirmed appointment', async () => {
+            const booking = await book('09:00');
+            await service.confirmPayment(booking.id, 'payment-1');
+
+            await service.cancel(booking.id, { reason: 'Feeling better' }, patient);
+
+            await expect(book('09:00')).resolves.toBeDefined();
+        });
+    });
+
+    describe('rescheduling', () => {
+        it('moves the hold to the new time and frees the old slot', async () => {
+            const booking = await book('09:00');
+
+            const replacement = await service.reschedule(
+                booking.id,
+                { newDateTime: at('11:00').toISOString() },
+                patient,
+            );
+
+            expect(replacement).toMatchObject({
+                status: AppointmentStatus.PENDING_PAYMENT,
+                holdExpiresAt: booking.holdExpiresAt,
+            });
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.RESCHEDULED);
+            await expect(book('09:00')).resolves.toBeDefined();
+        });
+
+        it("refuses a time outside the doctor's working hours", async () => {
+            const booking = await book('09:00');
+
+            await expect(
+                service.reschedule(booking.id, { newDateTime: at('18:00').toISOString() }, patient),
+            ).rejects.toThrow('the doctor is not working then');
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.PENDING_PAYMENT);
+        });
+
+        it('may overlap the time it moves away from', async () => {
+            const booking = await book('09:00');
+
+            await expect(
+                service.reschedule(booking.id, { newDateTime: at('09:15').toISOString() }, patient),
+            ).resolves.toBeDefined();
+        });
+
+        it('refuses a time taken by another booking', async () => {
+            const booking = await book('09:00');
+            await book('11:00');
+
+            await expect(
+                service.reschedule(booking.id, { newDateTime: at('11:15').toISOString() }, patient),
+            ).rejects.toThrow(ConflictException);
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.PENDING_PAYMENT);
+        });
+    });
+
+    describe('payment failure', () => {
+        it('releases the hold at once', async () => {
+            const booking = await book('09:00');
+
+            await expect(
+                service.releaseHold(booking.id, 'Payment failed: card declined'),
+            ).resolves.toBe(true);
+
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.CANCELLED);
+            expect(eventBus.payloads(EventName.APPOINTMENT_CANCELLED)).toEqual([
+                expect.objectContaining({
+                    appointmentId: booking.id,
+                    reason: 'Payment failed: card declined',
+                }),
+            ]);
+            await expect(book('09:00')).resolves.toBeDefined();
+        });
+
+        it('follows a rescheduled booking to its replacement', async () => {
+            const booking = await book('09:00');
+            const replacement = await service.reschedule(
+                booking.id,
+                { newDateTime: at('11:00').toISOString() },
+                patient,
+            );
+
+            await expect(service.releaseHold(booking.id, 'Payment failed')).resolves.toBe(true);
+
+            await expect(statusOf(replacement.id)).resolves.toBe(AppointmentStatus.CANCELLED);
+        });
+
+        it('leaves a confirmed booking alone', async () => {
+            const booking = await book('09:00');
+            await service.confirmPayment(booking.id, 'payment-1');
+
+            await expect(service.releaseHold(booking.id, 'Payment failed')).resolves.toBe(false);
+
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.CONFIRMED);
+        });
+    });
+
+    describe('status transitions', () => {
+        const nurse: UserContext = {
+            userId: 'nurse-1',
+            email: 'nurse@example.com',
+            roles: [UserRole.NURSE],
+            permissions: [],
+        };
+
+        const move = (id: string, status: AppointmentStatus) =>
+            service.updateStatus(id, { status, reason: 'Front desk' }, nurse);
+
+        it('publishes appointment.awaiting_payment when a request moves to checkout', async () => {
+            const request = await service.create(
+                { doctorId: 'doctor-1', scheduledAt: at('09:00').toISOString(), requestOnly: true },
+                patient,
+            );
+
+            const moved = await move(request.id, AppointmentStatus.PENDING_PAYMENT);
+
+            expect(moved.holdExpiresAt).toEqual(new Date(START.getTime() + 10 * MINUTE_MS));
+            expect(eventBus.events.at(-1)).toMatchObject({
+                eventName: EventName.APPOINTMENT_AWAITING_PAYMENT,
+                payload: {
+                    appointmentId: request.id,
+                    previousStatus: AppointmentStatus.REQUESTED,
+                    status: AppointmentStatus.PENDING_PAYMENT,
+                    reason: 'Front desk',
+                    changedBy: 'nurse-1',
+                    holdExpiresAt: moved.holdExpiresAt!.toISOString(),
+                },
+            });
+        });
+
+        it('publishes a valid event for every edge of a visit', async () => {
+            const booking = await book('09:00');
+            await service.confirmPayment(booking.id, 'payment-1');
+
+            await move(booking.id, AppointmentStatus.CHECKED_IN);
+            await move(booking.id, AppointmentStatus.IN_PROGRESS);
+            await move(booking.id, AppointmentStatus.COMPLETED);
+
+            expect(eventBus.events.map((event) => event.eventName)).toEqual([
+                EventName.APPOINTMENT_CREATED,
+                EventName.APPOINTMENT_CONFIRMED,
+                EventName.APPOINTMENT_CHECKED_IN,
+                EventName.APPOINTMENT_STARTED,
+                EventName.APPOINTMENT_COMPLETED,
+            ]);
+        });
+
+        it('publishes a valid event for a no-show and a cancellation', async () => {
+            const missed = await book('09:00');
+            await service.confirmPayment(missed.id, 'payment-1');
+            const cancelled = await book('10:00');
+
+            await move(missed.id, AppointmentStatus.NO_SHOW);
+            await move(cancelled.id, AppointmentStatus.CANCELLED);
+
+            expect(eventBus.events.slice(-2).map((event) => event.eventName)).toEqual([
+                EventName.APPOINTMENT_NO_SHOW,
+                EventName.APPOINTMENT_CANCELLED,
+            ]);
+        });
+    });
+
+    describe('listing by user', () => {
+        const as = (userId: string, role: UserRole): UserContext => ({
+            userId,
+            email: `${userId}@example.com`,
+            roles: [role],
+            permissions: [],
+        });
+
+        beforeEach(async () => {
+            await book('09:00');
+        });
+
+        it("lists a patient's own appointments", async () => {
+            await expect(service.findByUser('patient-1', {}, patient)).resolves.toHaveLength(1);
+        });
+
+        it("lists a doctor's own appointments", async () => {
+            const doctor = as('doctor-1', UserRole.DOCTOR);
+
+            await expect(service.findByUser('doctor-1', {}, doctor)).resolves.toHaveLength(1);
+        });
+
+        it.each([UserRole.ADMIN, UserRole.NURSE])("lists anyone's for %s", async (role) => {
+            const staff = as('staff-1', role);
+
+            await expect(service.findByUser('patient-1', {}, staff)).resolves.toHaveLength(1);
+        });
+
+        it.each([
+            ['a patient', as('patient-2', UserRole.PATIENT)],
+            ['a doctor', as('doctor-1', UserRole.DOCTOR)],
+        ])("refuses another user's to %s", async (_, user) => {
+            await expect(service.findByUser('patient-1', {}, user)).rejects.toThrow(
+                ForbiddenException,
+            );
+        });
+    });
+
+    describe('hold expiry', () => {
+        let booking: { id: string };
+
+        beforeEach(async () => {
+            booking = await book('09:00');
+            jest.setSystemTime(START.getTime() + 10 * MINUTE_MS);
+        });
+
+        it('lets a new booking take the slot, cancelling the expired hold', async () => {
+            await expect(book('09:00')).resolves.toBeDefined();
+
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.CANCELLED);
+            expect(eventBus.payloads(EventName.APPOINTMENT_CANCELLED)).toEqual([
+                expect.objectContaining({
+                    appointmentId: booking.id,
+                    previousStatus: AppointmentStatus.PENDING_PAYMENT,
+                    reason: 'Slot hold expired',
+                }),
+            ]);
+        });
+
+        it('is released by the sweep, with a history entry', async () => {
+            await expect(service.releaseExpiredHolds()).resolves.toBe(1);
+
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.CANCELLED);
+            const history = await database.db
+                .select()
+                .from(appointmentStatusHistory)
+                .where(eq(appointmentStatusHistory.appointmentId, booking.id));
+            expect(history.map((entry) => entry.toStatus)).toEqual([
+                AppointmentStatus.PENDING_PAYMENT,
+                AppointmentStatus.CANCELLED,
+            ]);
+        });
+
+        it('leaves holds that have not expired and confirmed bookings alone', async () => {
+            // Booked with another doctor, whose lock only releases that doctor's holds
+            const fresh = await book('10:00', { doctorId: 'doctor-2' });
+            const confirmed = await book('11:00', { doctorId: 'doctor-2' });
+            await service.confirmPayment(confirmed.id, 'payment-1');
+
+            await expect(service.releaseExpiredHolds()).resolves.toBe(1);
+
+            await expect(statusOf(fresh.id)).resolves.toBe(AppointmentStatus.PENDING_PAYMENT);
+            await expect(statusOf(confirmed.id)).resolves.toBe(AppointmentStatus.CONFIRMED);
+        });
+
+        it('still confirms a payment arriving before the hold is released', async () => {
+            await expect(service.confirmPayment(booking.id, 'payment-1')).resolves.toMatchObject({
+                status: AppointmentStatus.CONFIRMED,
+                paymentId: 'payment-1',
+            });
+        });
+
+        it('does not confirm a payment arriving after the hold was released', async () => {
+            await service.releaseExpiredHolds();
+
+            await expect(service.confirmPayment(booking.id, 'payment-1')).resolves.toBeNull();
+            await expect(statusOf(booking.id)).resolves.toBe(AppointmentStatus.CANCELLED);
+        });
+    });
+});
@@ -0,0 +1,895 @@
+import {
+    Injectable,
+    NotFoundException,
+    ConflictException,
+    BadRequestException,
+    ForbiddenException,
+    Logger,
+} from '@nestjs/common';
+import {
+    and,
+    eq,
+    gt,
+    gte,
+    lt,
+    lte,
+    ne,
+    or,
+    inArray,
+    desc,
+    asc,
+    count,
+    SQL,
+} from 'drizzle-orm';
+import { DatabaseService, Transaction } from '../database/database.service';
+import { lockDoctor } from '../database/doctor-lock';
+import {
+    appointments,
+    appointmentStatusHistory,
+    Appointment,
+    NewAppointment,
+} from '../database/schema';
+import { AppConfigService } from '../config';
+import { ScheduleService } from '../schedule/schedule.service';
+import { withinWorkingBlocks } from '../schedule/slot-engine';
+import {
+    CreateAppointmentDto,
+    UpdateAppointmentDto,
+    UpdateStatusDto,
+    CancelAppointmentDto,
+    RescheduleAppointmentDto,
+    AppointmentQueryDto,
+    UserAppointmentsQueryDto,
+    AppointmentResponseDto,
+    AppointmentListResponseDto,
+    StatusHistoryResponseDto,
+    AppointmentStatus,
+    AppointmentType,
+} from './dto/appointment.dto';
+import {
+    ACTIVE_STATUSES,
+    STATUS_EVENTS,
+    TRANSITIONS,
+    assertTransition,
+} from './appointment-state-machine';
+import {
+    EventName,
+    UserContext,
+    UserRole,
+    AppointmentStatusChangedPayload,
+    EventBus,
+} from '@careflow/shared';
+
+// Postgres exclusion_violation, raised by appointments_doctor_no_overlap
+const EXCLUSION_VIOLATION = '23P01';
+
+interface TransitionOptions {
+    reason?: string;
+    changedBy?: string;
+    set?: Partial<NewAppointment>;
+    guard?: SQL; // extra condition the row must still meet at write time
+}
+
+@Injectable()
+export class AppointmentService {
+    private readonly logger = new Logger(AppointmentService.name);
+
+    constructor(
+        private database: DatabaseService,
+        private eventBus: EventBus,
+        private config: AppConfigService,
+        private scheduleService: ScheduleService,
+    ) { }
+
+    private get db() {
+        return this.database.db;
+    }
+
+    async create(
+        dto: CreateAppointmentDto,
+        user: UserContext,
+        correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        const patientId = this.isPatient(user) ? user.userId : dto.patientId;
+
+        if (!patientId) {
+            throw new BadRequestException('patientId is required');
+        }
+
+        const scheduledAt = new Date(dto.scheduledAt);
+        const durationMinutes = dto.durationMinutes || this.config.defaultAppointmentDuration;
+        const endsAt = new Date(scheduledAt.getTime() + durationMinutes * 60_000);
+
+        if (scheduledAt.getTime() <= Date.now()) {
+            throw new BadRequestException('Appointment must be scheduled in the future');
+        }
+
+        const values: NewAppointment = {
+            patientId,
+            doctorId: dto.doctorId,
+            scheduledAt,
+            endsAt,
+            durationMinutes,
+            type: dto.type || AppointmentType.CONSULTATION,
+            status: AppointmentStatus.REQUESTED,
+            reason: dto.reason,
+            notes: dto.notes,
+            createdBy: user.userId || undefined,
+        };
+
+        let appointment: Appointment;
+
+        if (dto.requestOnly) {
+            // A request does not occupy the slot until it moves to pending_payment
+            appointment = await this.db.transaction(async (tx) => {
+                await this.assertDoctorWorking(tx, dto.doctorId, scheduledAt, endsAt);
+
+                return this.insertWithHistory(tx, values, user.userId);
+            });
+        } else {
+            // The booking holds the slot until payment confirms it or the hold expires
+            appointment = await this.withDoctorLock(dto.doctorId, correlationId, async (tx) => {
+                await this.assertSlotFree(tx, dto.doctorId, scheduledAt, endsAt);
+
+                return this.insertWithHistory(
+                    tx,
+                    {
+                        ...values,
+                        status: AppointmentStatus.PENDING_PAYMENT,
+                        holdExpiresAt: this.newHoldExpiry(),
+                    },
+                    user.userId,
+                );
+            });
+        }
+
+        this.logger.log(
+            `Appointment created: ${appointment.id} [${appointment.status}, doctor ${appointment.doctorId} @ ${appointment.scheduledAt.toISOString()}]`,
+        );
+
+        await this.publishCreated(appointment, correlationId);
+
+        return AppointmentResponseDto.fromEntity(appointment);
+    }
+
+    async findAll(
+        query: AppointmentQueryDto,
+        user: UserContext,
+    ): Promise<AppointmentListResponseDto> {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+        const offset = (page - 1) * limit;
+
+        const conditions: SQL[] = [];
+
+        // Patients and doctors only ever see their own appointments
+        if (this.isPatient(user)) {
+            conditions.push(eq(appointments.patientId, user.userId));
+        } else if (this.isDoctorOnly(user)) {
+            conditions.push(eq(appointments.doctorId, user.userId));
+        }
+
+        if (query.status) {
+            conditions.push(eq(appointments.status, query.status));
+        }
+
+        if (query.doctorId) {
+            conditions.push(eq(appointments.doctorId, query.doctorId));
+        }
+
+        if (query.patientId) {
+            conditions.push(eq(appointments.patientId, query.patientId));
+        }
+
+        if (query.startDate) {
+            conditions.push(gte(appointments.scheduledAt, new Date(query.startDate)));
+        }
+
+        if (query.endDate) {
+            conditions.push(lte(appointments.scheduledAt, new Date(query.endDate)));
+        }
+
+        const where = conditions.length ? and(...conditions) : undefined;
+
+        const [rows, [{ total }]] = await Promise.all([
+            this.db
+                .select()
+                .from(appointments)
+                .where(where)
+                .orderBy(desc(appointments.scheduledAt))
+                .limit(limit)
+                .offset(offset),
+            this.db.select({ total: count() }).from(appointments).where(where),
+        ]);
+
+        return {
+            appointments: rows.map(AppointmentResponseDto.fromEntity),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    async findByUser(
+        userId: string,
+        query: UserAppointmentsQueryDto,
+        user: UserContext,
+    ): Promise<AppointmentResponseDto[]> {
+        if (userId !== user.userId && !this.isStaff(user)) {
+            throw new ForbiddenException("You do not have access to this user's appointments");
+        }
+
+        const conditions: SQL[] = [
+            or(eq(appointments.patientId, userId), eq(appointments.doctorId, userId))!,
+        ];
+
+        if (query.status) {
+            conditions.push(eq(appointments.status, query.status));
+        }
+
+        if (query.upcoming) {
+            conditions.push(gte(appointments.scheduledAt, new Date()));
+        }
+
+        const rows = await this.db
+            .select()
+            .from(appointments)
+            .where(and(...conditions))
+            .orderBy(query.upcoming ? asc(appointments.scheduledAt) : desc(appointments.scheduledAt));
+
+        return rows.map(AppointmentResponseDto.fromEntity);
+    }
+
+    async findById(id: string, user: UserContext): Promise<AppointmentResponseDto> {
+        const appointment = await this.getAccessible(id, user);
+        return AppointmentResponseDto.fromEntity(appointment);
+    }
+
+    async getHistory(id: string, user: UserContext): Promise<StatusHistoryResponseDto[]> {
+        await this.getAccessible(id, user);
+
+        const rows = await this.db
+            .select()
+            .from(appointmentStatusHistory)
+            .where(eq(appointmentStatusHistory.appointmentId, id))
+            .orderBy(asc(appointmentStatusHistory.createdAt));
+
+        return rows.map(StatusHistoryResponseDto.fromEntity);
+    }
+
+    async update(
+        id: string,
+        dto: UpdateAppointmentDto,
+        user: UserContext,
+        correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        const existing = await this.getAccessible(id, user);
+
+        if (!TRANSITIONS[existing.status].length) {
+            throw new BadRequestException(`Appointment is already ${existing.status}`);
+        }
+
+        const [appointment] = await this.db
+            .update(appointments)
+            .set({
+                type: dto.type,
+                reason: dto.reason,
+                notes: dto.notes,
+            })
+            .where(eq(appointments.id, id))
+            .returning();
+
+        this.logger.log(`Appointment updated: ${appointment.id}`);
+
+        await this.eventBus.publish(
+            EventName.APPOINTMENT_UPDATED,
+            {
+                appointmentId: appointment.id,
+                patientId: appointment.patientId,
+                doctorId: appointment.doctorId,
+                scheduledAt: appointment.scheduledAt.toISOString(),
+                updatedFields: Object.keys(dto),
+            },
+            correlationId,
+        );
+
+        return AppointmentResponseDto.fromEntity(appointment);
+    }
+
+    async updateStatus(
+        id: string,
+        dto: UpdateStatusDto,
+        user: UserContext,
+        correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        if (dto.status === AppointmentStatus.CANCELLED) {
+            return this.cancel(id, { reason: dto.reason || 'Cancelled' }, user, correlationId);
+        }
+
+        if (dto.status === AppointmentStatus.CONFIRMED) {
+            throw new BadRequestException('Appointments are confirmed by their payment');
+        }
+
+        if (dto.status === AppointmentStatus.RESCHEDULED) {
+            throw new BadRequestException('Use POST /appointments/:id/reschedule with a new time');
+        }
+
+        if (this.isPatient(user)) {
+            throw new ForbiddenException('Patients can only cancel or reschedule appointments');
+        }
+
+        const existing = await this.getAccessible(id, user);
+        assertTransition(existing.status, dto.status);
+
+        const options: TransitionOptions = { reason: dto.reason, changedBy: user.userId };
+        let appointment: Appointment;
+
+        if (dto.status === AppointmentStatus.PENDING_PAYMENT) {
+            // Starting checkout on a request takes a hold on the slot
+            appointment = await this.withDoctorLock(existing.doctorId, correlationId, async (tx) => {
+                await this.assertSlotFree(
+                    tx,
+                    existing.doctorId,
+                    existing.scheduledAt,
+                    existing.endsAt,
+                    existing.id,
+                );
+
+                return this.applyTransition(tx, existing, dto.status, {
+                    ...options,
+                    set: { holdExpiresAt: this.newHoldExpiry() },
+                });
+            });
+        } else {
+            appointment = await this.db.transaction((tx) =>
+                this.applyTransition(tx, existing, dto.status, options),
+            );
+        }
+
+        await this.publishTransition(appointment, existing.status, options, correlationId);
+
+        return AppointmentResponseDto.fromEntity(appointment);
+    }
+
+    async cancel(
+        id: string,
+        dto: CancelAppointmentDto,
+        user: UserContext,
+        correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        const existing = await this.getAccessible(id, user);
+        assertTransition(existing.status, AppointmentStatus.CANCELLED);
+
+        const options: TransitionOptions = {
+            reason: dto.reason,
+            changedBy: user.userId,
+            set: {
+                cancellationReason: dto.reason,
+                cancelledBy: user.userId || undefined,
+                cancelledAt: new Date(),
+                holdExpiresAt: null,
+            },
+        };
+
+        const appointment = await this.db.transaction((tx) =>
+            this.applyTransition(tx, existing, AppointmentStatus.CANCELLED, options),
+        );
+
+        await this.publishTransition(appointment, existing.status, options, correlationId);
+
+        return AppointmentResponseDto.fromEntity(appointment);
+    }
+
+    /**
+     * The original appointment ends in `rescheduled` and a replacement is created at the
+     * new time, carrying over its status, payment and hold. Returns the replacement.
+     */
+    async reschedule(
+        id: string,
+        dto: RescheduleAppointmentDto,
+        user: UserContext,
+        correlationId?: string,
+    ): Promise<AppointmentResponseDto> {
+        const existing = await this.getAccessible(id, user);
+        assertTransition(existing.status, AppointmentStatus.RESCHEDULED);
+
+        const scheduledAt = new Date(dto.newDateTime);
+        const endsAt = new Date(scheduledAt.getTime() + existing.durationMinutes * 60_000);
+
+        if (scheduledAt.getTime() <= Date.now()) {
+            throw new BadRequestException('Appointment must be scheduled in the future');
+        }
+
+        const options: TransitionOptions = { reason: dto.reason, changedBy: user.userId };
+
+        const [original, replacement] = await this.withDoctorLock(
+            existing.doctorId,
+            correlationId,
+            async (tx) => {
+                await this.assertSlotFree(tx, existing.doctorId, scheduledAt, endsAt, existing.id);
+
+                // Free the old slot first so the exclusion constraint sees only the new one
+                const moved = await this.applyTransition(
+                    tx,
+                    existing,
+                    AppointmentStatus.RESCHEDULED,
+                    { ...options, set: { holdExpiresAt: null } },
+                );
+
+                const created = await this.insertWithHistory(
+                    tx,
+                    {
+                        patientId: existing.patientId,
+                        doctorId: existing.doctorId,
+                        scheduledAt,
+                        endsAt,
+                        durationMinutes: existing.durationMinutes,
+                        type: existing.type,
+                        status: existing.status,
+                        reason: existing.reason,
+                        notes: existing.notes,
+                        holdExpiresAt: existing.holdExpiresAt,
+                        paymentId: existing.paymentId,
+                        confirmedAt: existing.confirmedAt,
+                        rescheduledFromId: existing.id,
+                        createdBy: user.userId || undefined,
+                    },
+                    user.userId,
+                    `Rescheduled from ${existing.id}`,
+                );
+
+                return [moved, created] as const;
+            },
+        );
+
+        this.logger.log(
+            `Appointment rescheduled: ${original.id} -> ${replacement.id} [${scheduledAt.toISOString()}]`,
+        );
+
+        await this.eventBus.publish(
+            EventName.APPOINTMENT_RESCHEDULED,
+            {
+                ...this.statusChangedPayload(original, existing.status, options),
+                newAppointmentId: replacement.id,
+                newScheduledAt: replacement.scheduledAt.toISOString(),
+            },
+            correlationId,
+        );
+        await this.publishCreated(replacement, correlationId);
+
+        return AppointmentResponseDto.fromEntity(replacement);
+    }
+
+    async delete(id: string): Promise<void> {
+        const deleted = await this.db
+            .delete(appointments)
+            .where(eq(appointments.id, id))
+            .returning({ id: appointments.id });
+
+        if (!deleted.length) {
+            throw new NotFoundException(`Appointment not found: ${id}`);
+        }
+
+        this.logger.log(`Appointment deleted: ${id}`);
+    }
+
+    // ==================== Slot holds ====================
+
+    /**
+     * Confirm the booking a payment was made for (payment.completed from Billing). A booking
+     * rescheduled while awaiting payment is followed to its replacement. The hold's expiry is
+     * not checked: until the sweeper or another booking releases it, the slot is still ours.
+     * Returns null when no booking is awaiting this payment.
+     */
+    async confirmPayment(
+        appointmentId: string,
+        paymentId: string,
+        correlationId?: string,
+    ): Promise<AppointmentResponseDto | null> {
+        const existing = await this.findCurrent(appointmentId);
+
+        if (!existing) {
+            this.logger.warn(`Payment ${paymentId} completed for unknown appointment ${appointmentId}`);
+            return null;
+        }
+
+        if (existing.status === AppointmentStatus.CONFIRMED && existing.paymentId === paymentId) {
+            return null; // redelivery
+        }
+
+        if (existing.status !== AppointmentStatus.PENDING_PAYMENT) {
+            this.logger.error(
+                `Payment ${paymentId} completed for appointment ${existing.id} in status ${existing.status}, it needs a refund`,
+            );
+            return null;
+        }
+
+        const options: TransitionOptions = {
+            reason: `Payment ${paymentId}`,
+            set: { paymentId, confirmedAt: new Date(), holdExpiresAt: null },
+        };
+
+        const appointment = await this.db
+            .transaction((tx) =>
+                this.applyTransition(tx, existing, AppointmentStatus.CONFIRMED, options),
+            )
+            .catch((error) => {
+                if (error instanceof ConflictException) {
+                    this.logger.error(
+                        `Payment ${paymentId} completed but appointment ${existing.id} was released concurrently, it needs a refund`,
+                    );
+                    return null;
+                }
+                throw error;
+            });
+
+        if (!appointment) {
+            return null;
+        }
+
+        await this.publishTransition(appointment, existing.status, options, correlationId);
+
+        return AppointmentResponseDto.fromEntity(appointment);
+    }
+
+    async releaseExpiredHolds(): Promise<number> {
+        const released = await this.db.transaction((tx) =>
+            this.cancelHolds(tx, 'Slot hold expired', lte(appointments.holdExpiresAt, new Date())),
+        );
+        await this.publishReleasedHolds(released, 'Slot hold expired');
+        return released.length;
+    }
+
+    /**
+     * Release the hold of a booking whose payment failed (payment.failed from Billing),
+     * following a booking rescheduled while awaiting payment to its replacement. Billing
+     * refunds a retried card that succeeds afterwards. Returns false when nothing was held.
+     */
+    async releaseHold(
+        appointmentId: string,
+        reason: string,
+        correlationId?: string,
+    ): Promise<boolean> {
+        const existing = await this.findCurrent(appointmentId);
+
+        if (!existing) {
+            return false;
+        }
+
+        const released = await this.db.transaction((tx) =>
+            this.cancelHolds(tx, reason, eq(appointments.id, existing.id)),
+        );
+        await this.publishReleasedHolds(released, reason, correlationId);
+        return released.length > 0;
+    }
+
+    // System-initiated pending_payment -> cancelled, recorded in the history like any other edge
+    private async cancelHolds(tx: Transaction, reason: string, scope: SQL): Promise<Appointment[]> {
+        const released = await tx
+            .update(appointments)
+            .set({
+                status: AppointmentStatus.CANCELLED,
+                cancellationReason: reason,
+                cancelledAt: new Date(),
+                holdExpiresAt: null,
+            })
+            .where(and(eq(appointments.status, AppointmentStatus.PENDING_PAYMENT), scope))
+            .returning();
+
+        if (released.length) {
+            await tx.insert(appointmentStatusHistory).values(
+                released.map((appointment) => ({
+                    appointmentId: appointment.id,
+                    fromStatus: AppointmentStatus.PENDING_PAYMENT,
+                    toStatus: AppointmentStatus.CANCELLED,
+                    reason,
+                })),
+            );
+        }
+
+        return released;
+    }
+
+    private async publishReleasedHolds(
+        released: Appointment[],
+        reason: string,
+        correlationId?: string,
+    ): Promise<void> {
+        for (const appointment of released) {
+            this.logger.log(`Slot hold released: ${appointment.id} (${reason})`);
+            await this.publishTransition(
+                appointment,
+                AppointmentStatus.PENDING_PAYMENT,
+                { reason },
+                correlationId,
+            );
+        }
+    }
+
+    private newHoldExpiry(): Date {
+        return new Date(Date.now() + this.config.slotHoldMinutes * 60_000);
+    }
+
+    // ==================== Lifecycle ====================
+
+    /**
+     * Move an appointment along one edge of the state machine. The write only succeeds if
+     * the row is still in the status we read, so concurrent transitions cannot both win.
+     */
+    private async applyTransition(
+        tx: Transaction,
+        appointment: Appointment,
+        to: AppointmentStatus,
+        options: TransitionOptions,
+    ): Promise<Appointment> {
+        assertTransition(appointment.status, to);
+
+        const [updated] = await tx
+            .update(appointments)
+            .set({ ...options.set, status: to })
+            .where(
+                and(
+                    eq(appointments.id, appointment.id),
+                    eq(appointments.status, appointment.status),
+                    options.guard,
+                ),
+            )
+            .returning();
+
+        if (!updated) {
+            throw new ConflictException(
+                `Appointment ${appointment.id} changed while moving ${appointment.status} -> ${to}, please retry`,
+            );
+        }
+
+        await tx.insert(appointmentStatusHistory).values({
+            appointmentId: appointment.id,
+            fromStatus: appointment.status,
+            toStatus: to,
+            reason: options.reason,
+            changedBy: options.changedBy || undefined,
+        });
+
+        this.logger.log(`Appointment ${appointment.id}: ${appointment.status} -> ${to}`);
+
+        return updated;
+    }
+
+    private async insertWithHistory(
+        tx: Transaction,
+        values: NewAppointment,
+        changedBy?: string,
+        reason?: string,
+    ): Promise<Appointment> {
+        const [created] = await tx.insert(appointments).values(values).returning();
+
+        await tx.insert(appointmentStatusHistory).values({
+            appointmentId: created.id,
+            fromStatus: null,
+            toStatus: created.status,
+            reason,
+            changedBy: changedBy || undefined,
+        });
+
+        return created;
+    }
+
+    private async publishCreated(appointment: Appointment, correlationId?: string): Promise<void> {
+        await this.eventBus.publish(
+            EventName.APPOINTMENT_CREATED,
+            {
+                appointmentId: appointment.id,
+                patientId: appointment.patientId,
+                doctorId: appointment.doctorId,
+                scheduledAt: appointment.scheduledAt.toISOString(),
+                durationMinutes: appointment.durationMinutes,
+                type: appointment.type,
+                status: appointment.status,
+            },
+            correlationId,
+        );
+    }
+
+    private async publishTransition(
+        appointment: Appointment,
+        previousStatus: AppointmentStatus,
+        options: TransitionOptions,
+        correlationId?: string,
+    ): Promise<void> {
+        const eventName = STATUS_EVENTS[appointment.status];
+
+        if (eventName === EventName.APPOINTMENT_CONFIRMED) {
+            await this.eventBus.publish(
+                eventName,
+                {
+                    appointmentId: appointment.id,
+                    patientId: appointment.patientId,
+                    doctorId: appointment.doctorId,
+                    scheduledAt: appointment.scheduledAt.toISOString(),
+                    paymentId: appointment.paymentId!,
+                },
+                correlationId,
+            );
+            return;
+        }
+
+        if (eventName === EventName.APPOINTMENT_AWAITING_PAYMENT) {
+            await this.eventBus.publish(
+                eventName,
+                {
+                    ...this.statusChangedPayload(appointment, previousStatus, options),
+                    holdExpiresAt: appointment.holdExpiresAt!.toISOString(),
+                },
+                correlationId,
+            );
+            return;
+        }
+
+        await this.eventBus.publish(
+            eventName,
+            this.statusChangedPayload(appointment, previousStatus, options),
+            correlationId,
+        );
+    }
+
+    private statusChangedPayload(
+        appointment: Appointment,
+        previousStatus: AppointmentStatus,
+        options: TransitionOptions,
+    ): AppointmentStatusChangedPayload {
+        return {
+            appointmentId: appointment.id,
+            patientId: appointment.patientId,
+            doctorId: appointment.doctorId,
+            scheduledAt: appointment.scheduledAt.toISOString(),
+            previousStatus,
+            status: appointment.status,
+            reason: options.reason,
+            changedBy: options.changedBy || undefined,
+        };
+    }
+
+    // ==================== Helpers ====================
+
+    private async getAccessible(id: string, user: UserContext): Promise<Appointment> {
+        const [appointment] = await this.db
+            .select()
+            .from(appointments)
+            .where(eq(appointments.id, id))
+            .limit(1);
+
+        if (!appointment) {
+            throw new NotFoundException(`Appointment not found: ${id}`);
+        }
+
+        const isParticipant =
+            appointment.patientId === user.userId || appointment.doctorId === user.userId;
+
+        if (!this.isStaff(user) && !isParticipant) {
+            throw new ForbiddenException('You do not have access to this appointment');
+        }
+
+        return appointment;
+    }
+
+    // The appointment itself, or the replacement it was (last) rescheduled to
+    private async findCurrent(id: string): Promise<Appointment | undefined> {
+        let [appointment] = await this.db
+            .select()
+            .from(appointments)
+            .where(eq(appointments.id, id))
+            .limit(1);
+
+        while (appointment?.status === AppointmentStatus.RESCHEDULED) {
+            [appointment] = await this.db
+                .select()
+                .from(appointments)
+                .where(eq(appointments.rescheduledFromId, appointment.id))
+                .limit(1);
+        }
+
+        return appointment;
+    }
+
+    /**
+     * Run a booking write under a per-doctor advisory lock so the overlap check and the
+     * write are atomic. Expired holds for the doctor are released first so they never
+     * block a new booking, and the exclusion constraint is mapped to a 409 as a backstop.
+     */
+    private async withDoctorLock<T>(
+        doctorId: string,
+        correlationId: string | undefined,
+        fn: (tx: Transaction) => Promise<T>,
+    ): Promise<T> {
+        let released: Appointment[] = [];
+
+        try {
+            const result = await this.db.transaction(async (tx) => {
+                await lockDoctor(tx, doctorId);
+                released = await this.cancelHolds(
+                    tx,
+                    'Slot hold expired',
+                    and(
+                        eq(appointments.doctorId, doctorId),
+                        lte(appointments.holdExpiresAt, new Date()),
+                    )!,
+                );
+                return fn(tx);
+            });
+
+            await this.publishReleasedHolds(released, 'Slot hold expired', correlationId);
+            return result;
+        } catch (error) {
+            if (isExclusionViolation(error)) {
+                throw new ConflictException('Time slot not available');
+            }
+            throw error;
+        }
+    }
+
+    private async assertSlotFree(
+        tx: Transaction,
+        doctorId: string,
+        scheduledAt: Date,
+        endsAt: Date,
+        excludeId?: string,
+    ): Promise<void> {
+        const { bufferMinutes } = await this.assertDoctorWorking(tx, doctorId, scheduledAt, endsAt);
+        const buffer = bufferMinutes * 60_000;
+
+        const conditions: SQL[] = [
+            eq(appointments.doctorId, doctorId),
+            inArray(appointments.status, ACTIVE_STATUSES),
+            lt(appointments.scheduledAt, new Date(endsAt.getTime() + buffer)),
+            gt(appointments.endsAt, new Date(scheduledAt.getTime() - buffer)),
+        ];
+
+        if (excludeId) {
+            conditions.push(ne(appointments.id, excludeId));
+        }
+
+        const [clash] = await tx
+            .select({ id: appointments.id })
+            .from(appointments)
+            .where(and(...conditions))
+            .limit(1);
+
+        if (clash) {
+            throw new ConflictException('Time slot not available');
+        }
+    }
+
+    // Within the doctor's working hours for the date, after holidays and other exceptions
+    private async assertDoctorWorking(
+        tx: Transaction,
+        doctorId: string,
+        scheduledAt: Date,
+        endsAt: Date,
+    ) {
+        const date = scheduledAt.toISOString().slice(0, 10);
+        const availability = await this.scheduleService.getAvailability(tx, doctorId, date);
+
+        if (!withinWorkingBlocks(date, availability.blocks, scheduledAt, endsAt)) {
+            throw new ConflictException('Time slot not available: the doctor is not working then');
+        }
+
+        return availability;
+    }
+
+    private isPatient(user: UserContext): boolean {
+        return user.roles.length > 0 && user.roles.every((r) => r === UserRole.PATIENT);
+    }
+
+    private isDoctorOnly(user: UserContext): boolean {
+        return user.roles.includes(UserRole.DOCTOR) && !this.isStaff(user);
+    }
+
+    private isStaff(user: UserContext): boolean {
+        return user.roles.some((r) => r === UserRole.ADMIN || r === UserRole.NURSE);
+    }
+}
+
+function isExclusionViolation(error: any): boolean {
+    return (error?.code ?? error?.cause?.code) === EXCLUSION_VIOLATION;
+}
@@ -0,0 +1,302 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+    IsString,
+    IsNotEmpty,
+    IsOptional,
+    IsDateString,
+    IsEnum,
+    IsInt,
+    IsBoolean,
+    Min,
+    Max,
+    MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+    Appointment,
+    AppointmentStatus,
+    AppointmentStatusHistory,
+    AppointmentType,
+} from '../../database/schema';
+
+export { AppointmentStatus, AppointmentType };
+
+// ==================== Request DTOs ====================
+
+export class CreateAppointmentDto {
+    @ApiPropertyOptional({
+        description: 'Patient user ID. Defaults to the caller when a patient books for themselves',
+    })
+    @IsString()
+    @IsOptional()
+    patientId?: string;
+
+    @ApiProperty({ description: 'Doctor user ID' })
+    @IsString()
+    @IsNotEmpty()
+    doctorId: string;
+
+    @ApiProperty({ example: '2024-03-15T09:30:00.000Z' })
+    @IsDateString()
+    @IsNotEmpty()
+    scheduledAt: string;
+
+    @ApiPropertyOptional({ example: 30, description: 'Duration in minutes' })
+    @IsInt()
+    @Min(5)
+    @Max(480)
+    @IsOptional()
+    durationMinutes?: number;
+
+    @ApiPropertyOptional({ enum: AppointmentType, example: AppointmentType.CONSULTATION })
+    @IsEnum(AppointmentType)
+    @IsOptional()
+    type?: AppointmentType;
+
+    @ApiPropertyOptional({ example: 'Persistent headache' })
+    @IsString()
+    @MaxLength(500)
+    @IsOptional()
+    reason?: string;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @MaxLength(2000)
+    @IsOptional()
+    notes?: string;
+
+    @ApiPropertyOptional({
+        default: false,
+        description: 'Record a request without holding the slot; staff start checkout later',
+    })
+    @IsBoolean()
+    @IsOptional()
+    requestOnly?: boolean;
+}
+
+export class UpdateAppointmentDto {
+    @ApiPropertyOptional({ enum: AppointmentType })
+    @IsEnum(AppointmentType)
+    @IsOptional()
+    type?: AppointmentType;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @MaxLength(500)
+    @IsOptional()
+    reason?: string;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @MaxLength(2000)
+    @IsOptional()
+    notes?: string;
+}
+
+export class UpdateStatusDto {
+    @ApiProperty({ enum: AppointmentStatus })
+    @IsEnum(AppointmentStatus)
+    status: AppointmentStatus;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @MaxLength(500)
+    @IsOptional()
+    reason?: string;
+}
+
+export class CancelAppointmentDto {
+    @ApiProperty({ example: 'Feeling better' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string;
+}
+
+export class RescheduleAppointmentDto {
+    @ApiProperty({ example: '2024-03-16T10:00:00.000Z' })
+    @IsDateString()
+    @IsNotEmpty()
+    newDateTime: string;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @MaxLength(500)
+    @IsOptional()
+    reason?: string;
+}
+
+export class AppointmentQueryDto {
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number;
+
+    @ApiPropertyOptional({ enum: AppointmentStatus })
+    @IsEnum(AppointmentStatus)
+    @IsOptional()
+    status?: AppointmentStatus;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    doctorId?: string;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    patientId?: string;
+
+    @ApiPropertyOptional()
+    @IsDateString()
+    @IsOptional()
+    startDate?: string;
+
+    @ApiPropertyOptional()
+    @IsDateString()
+    @IsOptional()
+    endDate?: string;
+}
+
+export class UserAppointmentsQueryDto {
+    @ApiPropertyOptional({ enum: AppointmentStatus })
+    @IsEnum(AppointmentStatus)
+    @IsOptional()
+    status?: AppointmentStatus;
+
+    @ApiPropertyOptional()
+    @IsBoolean()
+    @IsOptional()
+    @Transform(({ value }) => value === 'true' || value === true)
+    upcoming?: boolean;
+}
+
+// ==================== Response DTOs ====================
+
+export class AppointmentResponseDto {
+    @ApiProperty()
+    id: string;
+
+    @ApiProperty()
+    patientId: string;
+
+    @ApiProperty()
+    doctorId: string;
+
+    @ApiProperty()
+    scheduledAt: Date;
+
+    @ApiProperty()
+    endsAt: Date;
+
+    @ApiProperty()
+    durationMinutes: number;
+
+    @ApiProperty({ enum: AppointmentType })
+    type: AppointmentType;
+
+    @ApiProperty({ enum: AppointmentStatus })
+    status: AppointmentStatus;
+
+    @ApiPropertyOptional()
+    reason?: string;
+
+    @ApiPropertyOptional()
+    notes?: string;
+
+    @ApiPropertyOptional({ description: 'Slot is released if not confirmed by this time' })
+    holdExpiresAt?: Date;
+
+    @ApiPropertyOptional()
+    paymentId?: string;
+
+    @ApiPropertyOptional()
+    confirmedAt?: Date;
+
+    @ApiPropertyOptional()
+    cancellationReason?: string;
+
+    @ApiPropertyOptional()
+    cancelledAt?: Date;
+
+    @ApiPropertyOptional({ description: 'Appointment this one replaced when rescheduled' })
+    rescheduledFromId?: string;
+
+    @ApiProperty()
+    createdAt: Date;
+
+    @ApiProperty()
+    updatedAt: Date;
+
+    static fromEntity(appointment: Appointment): AppointmentResponseDto {
+        return {
+            id: appointment.id,
+            patientId: appointment.patientId,
+            doctorId: appointment.doctorId,
+            scheduledAt: appointment.scheduledAt,
+            endsAt: appointment.endsAt,
+            durationMinutes: appointment.durationMinutes,
+            type: appointment.type as AppointmentType,
+            status: appointment.status as AppointmentStatus,
+            reason: appointment.reason ?? undefined,
+            notes: appointment.notes ?? undefined,
+            holdExpiresAt: appointment.holdExpiresAt ?? undefined,
+            paymentId: appointment.paymentId ?? undefined,
+            confirmedAt: appointment.confirmedAt ?? undefined,
+            cancellationReason: appointment.cancellationReason ?? undefined,
+            cancelledAt: appointment.cancelledAt ?? undefined,
+            rescheduledFromId: appointment.rescheduledFromId ?? undefined,
+            createdAt: appointment.createdAt,
+            updatedAt: appointment.updatedAt,
+        };
+    }
+}
+
+export class AppointmentListResponseDto {
+    @ApiProperty({ type: [AppointmentResponseDto] })
+    appointments: AppointmentResponseDto[];
+
+    @ApiProperty()
+    total: number;
+
+    @ApiProperty()
+    page: number;
+
+    @ApiProperty()
+    limit: number;
+
+    @ApiProperty()
+    totalPages: number;
+}
+
+export class StatusHistoryResponseDto {
+    @ApiPropertyOptional({ enum: AppointmentStatus, description: 'Empty for the initial status' })
+    fromStatus?: AppointmentStatus;
+
+    @ApiProperty({ enum: AppointmentStatus })
+    toStatus: AppointmentStatus;
+
+    @ApiPropertyOptional()
+    reason?: string;
+
+    @ApiPropertyOptional({ description: 'User ID, empty for system transitions' })
+    changedBy?: string;
+
+    @ApiProperty()
+    createdAt: Date;
+
+    static fromEntity(entry: AppointmentStatusHistory): StatusHistoryResponseDto {
+        return {
+            fromStatus: entry.fromStatus ?? undefined,
+            toStatus: entry.toStatus,
+            reason: entry.reason ?? undefined,
+            changedBy: entry.changedBy ?? undefined,
+            createdAt: entry.createdAt,
+        };
+    }
+}
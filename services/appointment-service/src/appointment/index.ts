@@ -0,0 +1,4 @@
+export * from './appointment.module';
+export * from './appointment.service';
+export * from './appointment.controller';
+export * from './dto/appointment.dto';
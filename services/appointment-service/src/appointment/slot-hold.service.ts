@@ -0,0 +1,62 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy, Logger } from '@nestjs/common';
+import { AppointmentService } from './appointment.service';
+import { EventName, EventOf, OnEvent } from '@careflow/shared';
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Ends slot holds:
+ * - payment.completed from Billing confirms the booking it paid for; clients cannot
+ *   confirm a booking themselves
+ * - a periodic sweep cancels pending_payment bookings past hold_expires_at
+ * - payment.failed from Billing cancels the booking's hold straight away
+ */
+@Injectable()
+export class SlotHoldService implements OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = new Logger(SlotHoldService.name);
+    private timer?: NodeJS.Timeout;
+
+    constructor(private appointmentService: AppointmentService) { }
+
+    onApplicationBootstrap() {
+        this.timer = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+    }
+
+    onModuleDestroy() {
+        clearInterval(this.timer);
+    }
+
+    async sweep(): Promise<void> {
+        try {
+            const released = await this.appointmentService.releaseExpiredHolds();
+
+            if (released) {
+                this.logger.log(`Released ${released} expired slot hold(s)`);
+            }
+        } catch (error) {
+            this.logger.error('Slot hold sweep failed', error);
+        }
+    }
+
+    @OnEvent(EventName.PAYMENT_COMPLETED)
+    async handlePaymentCompleted(event: EventOf<EventName.PAYMENT_COMPLETED>): Promise<void> {
+        const { appointmentId, paymentId } = event.payload;
+
+        await this.appointmentService.confirmPayment(appointmentId, paymentId, event.correlationId);
+    }
+
+    @OnEvent(EventName.PAYMENT_FAILED)
+    async handlePaymentFailed(event: EventOf<EventName.PAYMENT_FAILED>): Promise<void> {
+        const { appointmentId, reason } = event.payload;
+
+        const released = await this.appointmentService.releaseHold(
+            appointmentId,
+            reason ? `Payment failed: ${reason}` : 'Payment failed',
+            event.correlationId,
+        );
+
+        if (!released) {
+            this.logger.debug(`No active hold for appointment ${appointmentId}, nothing to release`);
+        }
+    }
+}
@@ -0,0 +1,69 @@
+import { plainToInstance } from 'class-transformer';
+import {
+    IsEnum,
+    IsNumber,
+    IsOptional,
+    IsString,
+    validateSync,
+    Min,
+    Max,
+} from 'class-validator';
+
+export enum Environment {
+    Development = 'development',
+    Production = 'production',
+    Test = 'test',
+}
+
+export class EnvironmentVariables {
+    @IsEnum(Environment)
+    NODE_ENV: Environment;
+
+    @IsNumber()
+    @Min(1)
+    @Max(65535)
+    PORT: number;
+
+    @IsString()
+    DATABASE_URL: string;
+
+    @IsString()
+    RABBITMQ_URL: string;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(5)
+    @Max(480)
+    DEFAULT_APPOINTMENT_DURATION?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    @Max(60)
+    SLOT_HOLD_MINUTES?: number;
+}
+
+export function validate(config: Record<string, unknown>) {
+    const validatedConfig = plainToInstance(EnvironmentVariables, config, {
+        enableImplicitConversion: true,
+    });
+
+    const errors = validateSync(validatedConfig, {
+        skipMissingProperties: false,
+    });
+
+    if (errors.length > 0) {
+        const errorMessages = errors
+            .map((err) => {
+                const constraints = err.constraints
+                    ? Object.values(err.constraints).join(', ')
+                    : 'Unknown error';
+                return `${err.property}: ${constraints}`;
+            })
+            .join('\n');
+
+        throw new Error(`Appointment Service config validation failed:\n${errorMessages}`);
+    }
+
+    return validatedConfig;
+}
@@ -0,0 +1,40 @@
+import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
+import { drizzle, NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { sql } from 'drizzle-orm';
+import { Pool } from 'pg';
+import { AppConfigService } from '../config';
+import * as schema from './schema';
+
+export type Database = NodePgDatabase<typeof schema>;
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+@Injectable()
+export class DatabaseService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(DatabaseService.name);
+    private readonly pool: Pool;
+    readonly db: Database;
+
+    constructor(config: AppConfigService) {
+        this.pool = new Pool({ connectionString: config.databaseUrl });
+        this.db = drizzle(this.pool, { schema });
+    }
+
+    async onModuleInit() {
+        await this.pool.query('SELECT 1');
+        this.logger.log('Connected to PostgreSQL database');
+    }
+
+    async onModuleDestroy() {
+        await this.pool.end();
+        this.logger.log('Disconnected from PostgreSQL database');
+    }
+
+    async healthCheck(): Promise<boolean> {
+        try {
+            await this.db.execute(sql`SELECT 1`);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
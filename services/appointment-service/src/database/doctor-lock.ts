@@ -0,0 +1,10 @@
+import { sql } from 'drizzle-orm';
+import { Transaction } from './database.service';
+
+/**
+ * Per-doctor advisory lock, held until the transaction ends. Bookings and schedule
+ * changes both take it, so a booking is checked against one version of the schedule.
+ */
+export async function lockDoctor(tx: Transaction, doctorId: string): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${doctorId}))`);
+}
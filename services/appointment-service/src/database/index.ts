@@ -0,0 +1,4 @@
+export * from './database.module';
+export * from './database.service';
+export * from './doctor-lock';
+export * from './schema';
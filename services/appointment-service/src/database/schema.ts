@@ -0,0 +1,159 @@
+// Drizzle Schema for Appointment Service
+// Run: npm run db:generate && npm run db:migrate
+
+import {
+    pgTable,
+    uuid,
+    text,
+    integer,
+    smallint,
+    date,
+    timestamp,
+    index,
+} from 'drizzle-orm/pg-core';
+
+// ==================== Enums ====================
+
+// Allowed transitions live in src/appointment/appointment-state-machine.ts
+export enum AppointmentStatus {
+    REQUESTED = 'requested',
+    PENDING_PAYMENT = 'pending_payment',
+    CONFIRMED = 'confirmed',
+    CHECKED_IN = 'checked_in',
+    IN_PROGRESS = 'in_progress',
+    COMPLETED = 'completed',
+    CANCELLED = 'cancelled',
+    NO_SHOW = 'no_show',
+    RESCHEDULED = 'rescheduled',
+}
+
+export enum AppointmentType {
+    CONSULTATION = 'consultation',
+    FOLLOW_UP = 'follow_up',
+    CHECK_UP = 'check_up',
+    PROCEDURE = 'procedure',
+    TELEMEDICINE = 'telemedicine',
+    EMERGENCY = 'emergency',
+}
+
+const enumValues = <T extends Record<string, string>>(e: T) =>
+    Object.values(e) as [T[keyof T], ...T[keyof T][]];
+
+// ==================== Tables ====================
+
+export const appointments = pgTable(
+    'appointments',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        // Participants (user IDs from Auth Service)
+        patientId: text('patient_id').notNull(),
+        doctorId: text('doctor_id').notNull(),
+
+        // Timing
+        scheduledAt: timestamp('scheduled_at', { withTimezone: true }).notNull(),
+        endsAt: timestamp('ends_at', { withTimezone: true }).notNull(),
+        durationMinutes: integer('duration_minutes').notNull(),
+
+        // Details
+        type: text('type', { enum: enumValues(AppointmentType) })
+            .notNull()
+            .default(AppointmentType.CONSULTATION),
+        status: text('status', { enum: enumValues(AppointmentStatus) })
+            .notNull()
+            .default(AppointmentStatus.PENDING_PAYMENT),
+        reason: text('reason'),
+        notes: text('notes'),
+
+        // Payment - a pending_payment booking holds its slot until hold_expires_at
+        holdExpiresAt: timestamp('hold_expires_at', { withTimezone: true }),
+        paymentId: text('payment_id'),
+        confirmedAt: timestamp('confirmed_at', { withTimezone: true }),
+
+        // Cancellation
+        cancellationReason: text('cancellation_reason'),
+        cancelledBy: text('cancelled_by'),
+        cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+
+        // Set on the replacement when an appointment is rescheduled
+        rescheduledFromId: uuid('rescheduled_from_id'),
+
+        // Audit
+        createdBy: text('created_by'),
+        createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+        updatedAt: timestamp('updated_at', { withTimezone: true })
+            .notNull()
+            .defaultNow()
+            .$onUpdate(() => new Date()),
+    },
+    (table) => [
+        index('appointments_patient_id_idx').on(table.patientId),
+        index('appointments_doctor_id_scheduled_at_idx').on(table.doctorId, table.scheduledAt),
+        index('appointments_status_idx').on(table.status),
+        index('appointments_hold_expires_at_idx').on(table.holdExpiresAt),
+        // No-overlap exclusion constraint is maintained by hand, see drizzle/0003_lifecycle.sql
+    ],
+);
+
+// One row per lifecycle transition; from_status is null for the initial state
+export const appointmentStatusHistory = pgTable(
+    'appointment_status_history',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        appointmentId: uuid('appointment_id')
+            .notNull()
+            .references(() => appointments.id, { onDelete: 'cascade' }),
+        fromStatus: text('from_status', { enum: enumValues(AppointmentStatus) }),
+        toStatus: text('to_status', { enum: enumValues(AppointmentStatus) }).notNull(),
+        reason: text('reason'),
+        changedBy: text('changed_by'), // user ID, or null for system transitions
+        createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    },
+    (table) => [index('appointment_status_history_appointment_id_idx').on(table.appointmentId)],
+);
+
+// Weekly recurring working hours. Times are 'HH:mm' in UTC.
+export const doctorWorkingHours = pgTable(
+    'doctor_working_hours',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        doctorId: text('doctor_id').notNull(),
+        dayOfWeek: smallint('day_of_week').notNull(), // 0 = Sunday ... 6 = Saturday
+        startTime: text('start_time').notNull(),
+        endTime: text('end_time').notNull(),
+        createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    },
+    (table) => [index('doctor_working_hours_doctor_id_idx').on(table.doctorId, table.dayOfWeek)],
+);
+
+// Per-date overrides of the weekly hours (holidays, leave, half days).
+// A row without times blocks the whole date; rows with times replace that day's hours.
+export const doctorScheduleExceptions = pgTable(
+    'doctor_schedule_exceptions',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        doctorId: text('doctor_id').notNull(),
+        date: date('date', { mode: 'string' }).notNull(), // YYYY-MM-DD (UTC)
+        startTime: text('start_time'),
+        endTime: text('end_time'),
+        reason: text('reason'),
+        createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    },
+    (table) => [index('doctor_schedule_exceptions_doctor_id_idx').on(table.doctorId, table.date)],
+);
+
+export const doctorScheduleSettings = pgTable('doctor_schedule_settings', {
+    doctorId: text('doctor_id').primaryKey(),
+    bufferMinutes: integer('buffer_minutes').notNull().default(0),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+        .notNull()
+        .defaultNow()
+        .$onUpdate(() => new Date()),
+});
+
+export type Appointment = typeof appointments.$inferSelect;
+export type NewAppointment = typeof appointments.$inferInsert;
+export type AppointmentStatusHistory = typeof appointmentStatusHistory.$inferSelect;
+export type DoctorWorkingHours = typeof doctorWorkingHours.$inferSelect;
+export type DoctorScheduleException = typeof doctorScheduleExceptions.$inferSelect;
+export type DoctorScheduleSettings = typeof doctorScheduleSettings.$inferSelect;
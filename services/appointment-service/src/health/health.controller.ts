@@ -0,0 +1,69 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { DatabaseService } from '../database/database.service';
+import { HealthCheckResponse, HealthCheck, EventBus } from '@careflow/shared';
+
+@ApiTags('Health')
+@Controller('health')
+export class HealthController {
+    constructor(
+        private database: DatabaseService,
+        private eventBus: EventBus,
+    ) { }
+
+    @Get('live')
+    @ApiOperation({ summary: 'Liveness probe' })
+    @ApiResponse({ status: 200 })
+    async liveness(): Promise<{ status: string }> {
+        return { status: 'alive' };
+    }
+
+    @Get('ready')
+    @ApiOperation({ summary: 'Readiness probe' })
+    @ApiResponse({ status: 200 })
+    async readiness(): Promise<{ status: string }> {
+        const dbReady = await this.database.healthCheck();
+
+        if (!dbReady) {
+            return { status: 'not ready - PostgreSQL unavailable' };
+        }
+
+        return { status: 'ready' };
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'Full health check' })
+    @ApiResponse({ status: 200 })
+    async healthCheck(): Promise<HealthCheckResponse> {
+        const checks: HealthCheck[] = [];
+        let overallStatus: 'healthy' | 'unhealthy' | 'degraded' = 'healthy';
+
+        // PostgreSQL
+        const dbReady = await this.database.healthCheck();
+        checks.push({
+            name: 'postgresql',
+            status: dbReady ? 'pass' : 'fail',
+            message: dbReady ? 'Connected' : 'Disconnected',
+        });
+        if (!dbReady) overallStatus = 'unhealthy';
+
+        // RabbitMQ
+        const rabbitReady = this.eventBus.isConnected();
+        checks.push({
+            name: 'rabbitmq',
+            status: rabbitReady ? 'pass' : 'warn',
+            message: rabbitReady ? 'Connected' : 'Disconnected',
+        });
+        if (!rabbitReady && overallStatus === 'healthy') {
+            overallStatus = 'degraded';
+        }
+
+        return {
+            status: overallStatus,
+            service: 'appointment-service',
+            version: '1.0.0',
+            timestamp: new Date().toISOString(),
+            checks,
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+    IsString,
+    IsNotEmpty,
+    IsOptional,
+    IsDateString,
+    IsInt,
+    IsArray,
+    Min,
+    Max,
+    Matches,
+    MaxLength,
+    ValidateNested,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { DoctorWorkingHours, DoctorScheduleException } from '../../database/schema';
+import { AppointmentResponseDto } from '../../appointment/dto/appointment.dto';
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// ==================== Request DTOs ====================
+
+export class WorkingHoursDto {
+    @ApiProperty({ example: 1, description: '0 = Sunday ... 6 = Saturday' })
+    @IsInt()
+    @Min(0)
+    @Max(6)
+    dayOfWeek: number;
+
+    @ApiProperty({ example: '09:00', description: 'HH:mm (UTC)' })
+    @Matches(TIME_REGEX, { message: 'startTime must be HH:mm' })
+    startTime: string;
+
+    @ApiProperty({ example: '17:00', description: 'HH:mm (UTC)' })
+    @Matches(TIME_REGEX, { message: 'endTime must be HH:mm' })
+    endTime: string;
+}
+
+export class ScheduleExceptionDto {
+    @ApiProperty({ example: '2024-12-25', description: 'YYYY-MM-DD' })
+    @Matches(DATE_REGEX, { message: 'date must be YYYY-MM-DD' })
+    date: string;
+
+    @ApiPropertyOptional({ example: '09:00', description: 'Omit start/end to block the whole day' })
+    @Matches(TIME_REGEX, { message: 'startTime must be HH:mm' })
+    @IsOptional()
+    startTime?: string;
+
+    @ApiPropertyOptional({ example: '13:00' })
+    @Matches(TIME_REGEX, { message: 'endTime must be HH:mm' })
+    @IsOptional()
+    endTime?: string;
+
+    @ApiPropertyOptional({ example: 'Public holiday' })
+    @IsString()
+    @MaxLength(200)
+    @IsOptional()
+    reason?: string;
+}
+
+// Each section that is present replaces what is stored; omitted sections are left untouched
+export class UpdateScheduleDto {
+    @ApiPropertyOptional({ type: [WorkingHoursDto], description: 'Weekly recurring hours' })
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => WorkingHoursDto)
+    @IsOptional()
+    workingHours?: WorkingHoursDto[];
+
+    @ApiPropertyOptional({ type: [ScheduleExceptionDto], description: 'Per-date overrides' })
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => ScheduleExceptionDto)
+    @IsOptional()
+    exceptions?: ScheduleExceptionDto[];
+
+    @ApiPropertyOptional({ example: 10, description: 'Minutes kept free between visits' })
+    @IsInt()
+    @Min(0)
+    @Max(120)
+    @IsOptional()
+    bufferMinutes?: number;
+}
+
+export class ScheduleQueryDto {
+    @ApiProperty({ example: '2024-03-11' })
+    @IsDateString()
+    @IsNotEmpty()
+    startDate: string;
+
+    @ApiProperty({ example: '2024-03-17' })
+    @IsDateString()
+    @IsNotEmpty()
+    endDate: string;
+}
+
+export class AvailableSlotsQueryDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    doctorId: string;
+
+    @ApiProperty({ example: '2024-03-15', description: 'YYYY-MM-DD' })
+    @Matches(DATE_REGEX, { message: 'date must be YYYY-MM-DD' })
+    date: string;
+
+    @ApiPropertyOptional({ example: 30, description: 'Duration in minutes' })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    @IsInt()
+    @Min(5)
+    @Max(480)
+    duration?: number;
+}
+
+// ==================== Response DTOs ====================
+
+export class WorkingHoursResponseDto {
+    @ApiProperty()
+    dayOfWeek: number;
+
+    @ApiProperty()
+    startTime: string;
+
+    @ApiProperty()
+    endTime: string;
+
+    static fromEntity(hours: DoctorWorkingHours): WorkingHoursResponseDto {
+        return {
+            dayOfWeek: hours.dayOfWeek,
+            startTime: hours.startTime,
+            endTime: hours.endTime,
+        };
+    }
+}
+
+export class ScheduleExceptionResponseDto {
+    @ApiProperty()
+    date: string;
+
+    @ApiPropertyOptional()
+    startTime?: string;
+
+    @ApiPropertyOptional()
+    endTime?: string;
+
+    @ApiPropertyOptional()
+    reason?: string;
+
+    static fromEntity(exception: DoctorScheduleException): ScheduleExceptionResponseDto {
+        return {
+            date: exception.date,
+            startTime: exception.startTime ?? undefined,
+            endTime: exception.endTime ?? undefined,
+            reason: exception.reason ?? undefined,
+        };
+    }
+}
+
+export class DoctorScheduleResponseDto {
+    @ApiProperty()
+    doctorId: string;
+
+    @ApiProperty()
+    bufferMinutes: number;
+
+    @ApiProperty({ type: [WorkingHoursResponseDto] })
+    workingHours: WorkingHoursResponseDto[];
+
+    @ApiProperty({ type: [ScheduleExceptionResponseDto] })
+    exceptions: ScheduleExceptionResponseDto[];
+
+    @ApiPropertyOptional({ type: [AppointmentResponseDto] })
+    appointments?: AppointmentResponseDto[];
+}
+
+export class TimeSlotDto {
+    @ApiProperty()
+    startTime: string;
+
+    @ApiProperty()
+    endTime: string;
+}
+
+export class AvailableSlotsResponseDto {
+    @ApiProperty()
+    doctorId: string;
+
+    @ApiProperty()
+    date: string;
+
+    @ApiProperty()
+    duration: number;
+
+    @ApiProperty()
+    bufferMinutes: number;
+
+    @ApiProperty({ type: [TimeSlotDto] })
+    slots: TimeSlotDto[];
+}
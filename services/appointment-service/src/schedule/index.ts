@@ -0,0 +1,4 @@
+export * from './schedule.module';
+export * from './schedule.service';
+export * from './schedule.controller';
+export * from './dto/schedule.dto';
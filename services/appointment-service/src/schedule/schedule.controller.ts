@@ -0,0 +1,49 @@
+import { Controller, Get, Put, Body, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ScheduleService } from './schedule.service';
+import {
+    UpdateScheduleDto,
+    ScheduleQueryDto,
+    AvailableSlotsQueryDto,
+    DoctorScheduleResponseDto,
+    AvailableSlotsResponseDto,
+} from './dto/schedule.dto';
+import { CurrentUser } from '../common/decorators';
+import { UserContext } from '@careflow/shared';
+
+@ApiTags('Schedules')
+@Controller('appointments')
+export class ScheduleController {
+    constructor(private scheduleService: ScheduleService) { }
+
+    @Get('available-slots')
+    @ApiOperation({ summary: 'Get available appointment slots for a doctor on a date' })
+    @ApiResponse({ status: 200, type: AvailableSlotsResponseDto })
+    async getAvailableSlots(
+        @Query() query: AvailableSlotsQueryDto,
+    ): Promise<AvailableSlotsResponseDto> {
+        return this.scheduleService.getAvailableSlots(query);
+    }
+
+    @Get('doctors/:doctorId/schedule')
+    @ApiOperation({ summary: 'Get doctor working hours and bookings in a date range' })
+    @ApiResponse({ status: 200, type: DoctorScheduleResponseDto })
+    async getDoctorSchedule(
+        @Param('doctorId') doctorId: string,
+        @Query() query: ScheduleQueryDto,
+    ): Promise<DoctorScheduleResponseDto> {
+        return this.scheduleService.getDoctorSchedule(doctorId, query);
+    }
+
+    @Put('doctors/:doctorId/schedule')
+    @ApiOperation({ summary: 'Replace doctor weekly working hours' })
+    @ApiResponse({ status: 200, type: DoctorScheduleResponseDto })
+    @ApiResponse({ status: 403, description: 'Not allowed to edit this schedule' })
+    async updateDoctorSchedule(
+        @Param('doctorId') doctorId: string,
+        @Body() dto: UpdateScheduleDto,
+        @CurrentUser() user: UserContext,
+    ): Promise<DoctorScheduleResponseDto> {
+        return this.scheduleService.updateDoctorSchedule(doctorId, dto, user);
+    }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ScheduleService } from './schedule.service';
+import { ScheduleController } from './schedule.controller';
+
+@Module({
+    controllers: [ScheduleController],
+    providers: [ScheduleService],
+    exports: [ScheduleService],
+})
+export class ScheduleModule { }
@@ -0,0 +1,338 @@
+import {
+    Injectable,
+    BadRequestException,
+    ForbiddenException,
+    Logger,
+} from '@nestjs/common';
+import { and, or, eq, gt, gte, lt, lte, inArray, asc } from 'drizzle-orm';
+import { DatabaseService, Transaction } from '../database/database.service';
+import { lockDoctor } from '../database/doctor-lock';
+import {
+    appointments,
+    doctorWorkingHours,
+    doctorScheduleExceptions,
+    doctorScheduleSettings,
+    AppointmentStatus,
+} from '../database/schema';
+import { AppConfigService } from '../config';
+import { AppointmentResponseDto } from '../appointment/dto/appointment.dto';
+import {
+    UpdateScheduleDto,
+    ScheduleQueryDto,
+    AvailableSlotsQueryDto,
+    DoctorScheduleResponseDto,
+    AvailableSlotsResponseDto,
+    WorkingHoursResponseDto,
+    ScheduleExceptionResponseDto,
+} from './dto/schedule.dto';
+import { generateSlots, resolveWorkingBlocks, toMinutes, TimeBlock } from './slot-engine';
+import { UserContext, UserRole } from '@careflow/shared';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Availability {
+    blocks: TimeBlock[]; // working blocks for the date, exceptions applied
+    bufferMinutes: number;
+}
+
+@Injectable()
+export class ScheduleService {
+    private readonly logger = new Logger(ScheduleService.name);
+
+    constructor(
+        private database: DatabaseService,
+        private config: AppConfigService,
+    ) { }
+
+    private get db() {
+        return this.database.db;
+    }
+
+    async getDoctorSchedule(
+        doctorId: string,
+        query: ScheduleQueryDto,
+    ): Promise<DoctorScheduleResponseDto> {
+        const start = new Date(query.startDate);
+        const end = new Date(query.endDate);
+
+        if (end < start) {
+            throw new BadRequestException('endDate must not be before startDate');
+        }
+
+        const [hours, exceptions, bufferMinutes, booked] = await Promise.all([
+            this.getWorkingHours(doctorId),
+            this.db
+                .select()
+                .from(doctorScheduleExceptions)
+                .where(
+                    and(
+                        eq(doctorScheduleExceptions.doctorId, doctorId),
+                        gte(doctorScheduleExceptions.date, toDateString(start)),
+                        lte(doctorScheduleExceptions.date, toDateString(end)),
+                    ),
+                )
+                .orderBy(asc(doctorScheduleExceptions.date), asc(doctorScheduleExceptions.startTime)),
+            this.getBufferMinutes(doctorId),
+            this.db
+                .select()
+                .from(appointments)
+                .where(
+                    and(
+                        eq(appointments.doctorId, doctorId),
+                        gte(appointments.scheduledAt, start),
+                        // endDate is inclusive of the whole day
+                        lt(appointments.scheduledAt, new Date(end.getTime() + DAY_MS)),
+                    ),
+                )
+                .orderBy(asc(appointments.scheduledAt)),
+        ]);
+
+        return {
+            doctorId,
+            bufferMinutes,
+            workingHours: hours.map(WorkingHoursResponseDto.fromEntity),
+            exceptions: exceptions.map(ScheduleExceptionResponseDto.fromEntity),
+            appointments: booked.map(AppointmentResponseDto.fromEntity),
+        };
+    }
+
+    async updateDoctorSchedule(
+        doctorId: string,
+        dto: UpdateScheduleDto,
+        user: UserContext,
+    ): Promise<DoctorScheduleResponseDto> {
+        if (!user.roles.includes(UserRole.ADMIN) && user.userId !== doctorId) {
+            throw new ForbiddenException('Doctors can only update their own schedule');
+        }
+
+        for (const block of dto.workingHours || []) {
+            assertValidBlock(block, `day ${block.dayOfWeek}`);
+        }
+
+        for (const exception of dto.exceptions || []) {
+            if (!!exception.startTime !== !!exception.endTime) {
+                throw new BadRequestException(
+                    `Exception on ${exception.date} needs both startTime and endTime, or neither`,
+                );
+            }
+
+            if (exception.startTime) {
+                assertValidBlock(exception as TimeBlock, exception.date);
+            }
+        }
+
+        await this.db.transaction(async (tx) => {
+            await lockDoctor(tx, doctorId);
+
+            if (dto.workingHours) {
+                await tx.delete(doctorWorkingHours).where(eq(doctorWorkingHours.doctorId, doctorId));
+
+                if (dto.workingHours.length) {
+                    await tx.insert(doctorWorkingHours).values(
+                        dto.workingHours.map((block) => ({
+                            doctorId,
+                            dayOfWeek: block.dayOfWeek,
+                            startTime: block.startTime,
+                            endTime: block.endTime,
+                        })),
+                    );
+                }
+            }
+
+            if (dto.exceptions) {
+                await tx
+                    .delete(doctorScheduleExceptions)
+                    .where(eq(doctorScheduleExceptions.doctorId, doctorId));
+
+                if (dto.exceptions.length) {
+                    await tx.insert(doctorScheduleExceptions).values(
+                        dto.exceptions.map((exception) => ({
+                            doctorId,
+                            date: exception.date,
+                            startTime: exception.startTime,
+                            endTime: exception.endTime,
+                            reason: exception.reason,
+                        })),
+                    );
+                }
+            }
+
+            if (dto.bufferMinutes !== undefined) {
+                await tx
+                    .insert(doctorScheduleSettings)
+                    .values({ doctorId, bufferMinutes: dto.bufferMinutes })
+                    .onConflictDoUpdate({
+                        target: doctorScheduleSettings.doctorId,
+                        set: { bufferMinutes: dto.bufferMinutes },
+                    });
+            }
+        });
+
+        this.logger.log(`Schedule updated for doctor ${doctorId}`);
+
+        const [hours, exceptions, bufferMinutes] = await Promise.all([
+            this.getWorkingHours(doctorId),
+            this.db
+                .select()
+                .from(doctorScheduleExceptions)
+                .where(eq(doctorScheduleExceptions.doctorId, doctorId))
+                .orderBy(asc(doctorScheduleExceptions.date), asc(doctorScheduleExceptions.startTime)),
+            this.getBufferMinutes(doctorId),
+        ]);
+
+        return {
+            doctorId,
+            bufferMinutes,
+            workingHours: hours.map(WorkingHoursResponseDto.fromEntity),
+            exceptions: exceptions.map(ScheduleExceptionResponseDto.fromEntity),
+        };
+    }
+
+    async getAvailableSlots(query: AvailableSlotsQueryDto): Promise<AvailableSlotsResponseDto> {
+        const duration = query.duration || this.config.defaultAppointmentDuration;
+        const dayStart = new Date(`${query.date}T00:00:00.000Z`);
+
+        if (isNaN(dayStart.getTime())) {
+            throw new BadRequestException(`Invalid date: ${query.date}`);
+        }
+
+        const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+        const [weeklyHours, exceptions, bufferMinutes, booked] = await Promise.all([
+            this.db
+                .select()
+                .from(doctorWorkingHours)
+                .where(
+                    and(
+                        eq(doctorWorkingHours.doctorId, query.doctorId),
+                        eq(doctorWorkingHours.dayOfWeek, dayStart.getUTCDay()),
+                    ),
+                ),
+            this.db
+                .select()
+                .from(doctorScheduleExceptions)
+                .where(
+                    and(
+                        eq(doctorScheduleExceptions.doctorId, query.doctorId),
+                        eq(doctorScheduleExceptions.date, query.date),
+                    ),
+                ),
+            this.getBufferMinutes(query.doctorId),
+            this.db
+                .select({ scheduledAt: appointments.scheduledAt, endsAt: appointments.endsAt })
+                .from(appointments)
+                .where(
+                    and(
+                        eq(appointments.doctorId, query.doctorId),
+                        // Expired holds no longer block a slot, even before the sweeper runs
+                        or(
+                            inArray(appointments.status, [
+                                AppointmentStatus.CONFIRMED,
+                                AppointmentStatus.CHECKED_IN,
+                                AppointmentStatus.IN_PROGRESS,
+                            ]),
+                            and(
+                                eq(appointments.status, AppointmentStatus.PENDING_PAYMENT),
+                                gt(appointments.holdExpiresAt, new Date()),
+                            ),
+                        ),
+                        // Widen by a day so buffers around neighbouring bookings still count
+                        lt(appointments.scheduledAt, new Date(dayEnd.getTime() + DAY_MS)),
+                        gte(appointments.endsAt, new Date(dayStart.getTime() - DAY_MS)),
+                    ),
+                ),
+        ]);
+
+        const slots = generateSlots({
+            date: query.date,
+            durationMinutes: duration,
+            bufferMinutes,
+            weeklyHours,
+            exceptions: exceptions.map((e) => ({
+                date: e.date,
+                startTime: e.startTime ?? undefined,
+                endTime: e.endTime ?? undefined,
+            })),
+            booked,
+        });
+
+        return {
+            doctorId: query.doctorId,
+            date: query.date,
+            duration,
+            bufferMinutes,
+            slots,
+        };
+    }
+
+    /**
+     * The doctor's hours and buffer on a date, read in the booking transaction. The booking
+     * holds the doctor lock, which schedule updates take too, so neither can change before
+     * the booking commits.
+     */
+    async getAvailability(tx: Transaction, doctorId: string, date: string): Promise<Availability> {
+        const weeklyHours = await tx
+            .select()
+            .from(doctorWorkingHours)
+            .where(eq(doctorWorkingHours.doctorId, doctorId));
+
+        const exceptions = await tx
+            .select()
+            .from(doctorScheduleExceptions)
+            .where(
+                and(
+                    eq(doctorScheduleExceptions.doctorId, doctorId),
+                    eq(doctorScheduleExceptions.date, date),
+                ),
+            );
+
+        const [settings] = await tx
+            .select({ bufferMinutes: doctorScheduleSettings.bufferMinutes })
+            .from(doctorScheduleSettings)
+            .where(eq(doctorScheduleSettings.doctorId, doctorId))
+            .limit(1);
+
+        return {
+            blocks: resolveWorkingBlocks(
+                date,
+                weeklyHours,
+                exceptions.map((e) => ({
+                    date: e.date,
+                    startTime: e.startTime ?? undefined,
+                    endTime: e.endTime ?? undefined,
+                })),
+            ),
+            bufferMinutes: settings?.bufferMinutes ?? 0,
+        };
+    }
+
+    async getBufferMinutes(doctorId: string): Promise<number> {
+        const [settings] = await this.db
+            .select({ bufferMinutes: doctorScheduleSettings.bufferMinutes })
+            .from(doctorScheduleSettings)
+            .where(eq(doctorScheduleSettings.doctorId, doctorId))
+            .limit(1);
+
+        return settings?.bufferMinutes ?? 0;
+    }
+
+    private getWorkingHours(doctorId: string) {
+        return this.db
+            .select()
+            .from(doctorWorkingHours)
+            .where(eq(doctorWorkingHours.doctorId, doctorId))
+            .orderBy(asc(doctorWorkingHours.dayOfWeek), asc(doctorWorkingHours.startTime));
+    }
+}
+
+function assertValidBlock(block: TimeBlock, label: string): void {
+    if (toMinutes(block.startTime) >= toMinutes(block.endTime)) {
+        throw new BadRequestException(
+            `Invalid hours on ${label}: ${block.startTime}-${block.endTime}`,
+        );
+    }
+}
+
+function toDateString(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,127 @@
+import {
+    generateSlots,
+    resolveWorkingBlocks,
+    SlotRequest,
+    withinWorkingBlocks,
+} from './slot-engine';
+
+// 2030-01-07 is a Monday
+const MONDAY = '2030-01-07';
+const NOW = new Date('2030-01-01T00:00:00.000Z');
+
+const baseRequest = (overrides: Partial<SlotRequest> = {}): SlotRequest => ({
+    date: MONDAY,
+    durationMinutes: 30,
+    bufferMinutes: 0,
+    weeklyHours: [{ dayOfWeek: 1, startTime: '09:00', endTime: '11:00' }],
+    exceptions: [],
+    booked: [],
+    now: NOW,
+    ...overrides,
+});
+
+const starts = (request: SlotRequest) =>
+    generateSlots(request).map((s) => s.startTime.slice(11, 16));
+
+describe('slot-engine', () => {
+    describe('resolveWorkingBlocks', () => {
+        it('uses the weekly hours for the weekday', () => {
+            expect(resolveWorkingBlocks(MONDAY, baseRequest().weeklyHours, [])).toEqual([
+                { startTime: '09:00', endTime: '11:00' },
+            ]);
+        });
+
+        it('returns nothing for a day-off exception', () => {
+            const blocks = resolveWorkingBlocks(MONDAY, baseRequest().weeklyHours, [
+                { date: MONDAY },
+            ]);
+
+            expect(blocks).toEqual([]);
+        });
+
+        it('replaces the weekly hours with exception hours', () => {
+            const blocks = resolveWorkingBlocks(MONDAY, baseRequest().weeklyHours, [
+                { date: MONDAY, startTime: '09:00', endTime: '10:00' },
+            ]);
+
+            expect(blocks).toEqual([{ startTime: '09:00', endTime: '10:00' }]);
+        });
+    });
+
+    describe('withinWorkingBlocks', () => {
+        const blocks = [
+            { startTime: '09:00', endTime: '10:00' },
+            { startTime: '14:00', endTime: '15:00' },
+        ];
+        const within = (start: string, end: string) =>
+            withinWorkingBlocks(
+                MONDAY,
+                blocks,
+                new Date(`${MONDAY}T${start}:00.000Z`),
+                new Date(`${MONDAY}T${end}:00.000Z`),
+            );
+
+        it('accepts a range inside a block, up to its edges', () => {
+            expect(within('09:00', '10:00')).toBe(true);
+            expect(within('14:15', '14:45')).toBe(true);
+        });
+
+        it('refuses a range that runs past a block or across a break', () => {
+            expect(within('08:45', '09:15')).toBe(false);
+            expect(within('09:45', '10:15')).toBe(false);
+            expect(within('09:30', '14:30')).toBe(false);
+        });
+
+        it('refuses everything without blocks', () => {
+            expect(withinWorkingBlocks(MONDAY, [], NOW, NOW)).toBe(false);
+        });
+    });
+
+    describe('generateSlots', () => {
+        it('fills the working block with back-to-back slots', () => {
+            expect(starts(baseRequest())).toEqual(['09:00', '09:30', '10:00', '10:30']);
+        });
+
+        it('returns no slots on a day without working hours', () => {
+            expect(starts(baseRequest({ date: '2030-01-08' }))).toEqual([]);
+        });
+
+        it('keeps the buffer free between slots', () => {
+            expect(starts(baseRequest({ bufferMinutes: 10 }))).toEqual([
+                '09:00',
+                '09:40',
+                '10:20',
+            ]);
+        });
+
+        it('skips booked appointments and their buffer', () => {
+            const slots = starts(
+                baseRequest({
+                    bufferMinutes: 10,
+                    booked: [
+                        {
+                            scheduledAt: new Date(`${MONDAY}T09:30:00.000Z`),
+                            endsAt: new Date(`${MONDAY}T10:00:00.000Z`),
+                        },
+                    ],
+                }),
+            );
+
+            expect(slots).toEqual(['10:10']);
+        });
+
+        it('drops slots that have already started', () => {
+            const slots = starts(baseRequest({ now: new Date(`${MONDAY}T09:45:00.000Z`) }));
+
+            expect(slots).toEqual(['10:00', '10:30']);
+        });
+
+        it('honours half-day exceptions', () => {
+            const slots = starts(
+                baseRequest({ exceptions: [{ date: MONDAY, startTime: '10:00', endTime: '11:00' }] }),
+            );
+
+            expect(slots).toEqual(['10:00', '10:30']);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+// Pure slot computation - no I/O, so it can be unit tested and reused by the booking path.
+// All times are UTC; working hours are 'HH:mm' on the requested date.
+
+export interface TimeBlock {
+    startTime: string; // HH:mm
+    endTime: string; // HH:mm
+}
+
+export interface DateException extends Partial<TimeBlock> {
+    date: string; // YYYY-MM-DD
+}
+
+export interface BookedInterval {
+    scheduledAt: Date;
+    endsAt: Date;
+}
+
+export interface SlotRequest {
+    date: string; // YYYY-MM-DD
+    durationMinutes: number;
+    bufferMinutes: number;
+    weeklyHours: (TimeBlock & { dayOfWeek: number })[];
+    exceptions: DateException[];
+    booked: BookedInterval[];
+    now?: Date;
+}
+
+export interface Slot {
+    startTime: string;
+    endTime: string;
+}
+
+const MINUTE_MS = 60_000;
+
+export function toMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+}
+
+/**
+ * Working blocks for a date: exceptions for that date win over the weekly hours.
+ * An exception without times means the doctor is off for the whole day.
+ */
+export function resolveWorkingBlocks(
+    date: string,
+    weeklyHours: SlotRequest['weeklyHours'],
+    exceptions: DateException[],
+): TimeBlock[] {
+    const overrides = exceptions.filter((e) => e.date === date);
+
+    if (overrides.length) {
+        if (overrides.some((e) => !e.startTime || !e.endTime)) {
+            return [];
+        }
+
+        return overrides.map((e) => ({ startTime: e.startTime!, endTime: e.endTime! }));
+    }
+
+    const dayOfWeek = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+
+    return weeklyHours
+        .filter((h) => h.dayOfWeek === dayOfWeek)
+        .map((h) => ({ startTime: h.startTime, endTime: h.endTime }));
+}
+
+/**
+ * Whether [start, end) lies inside a single working block of `date`
+ */
+export function withinWorkingBlocks(
+    date: string,
+    blocks: TimeBlock[],
+    start: Date,
+    end: Date,
+): boolean {
+    const dayStart = new Date(`${date}T00:00:00.000Z`).getTime();
+
+    return blocks.some(
+        (b) =>
+            dayStart + toMinutes(b.startTime) * MINUTE_MS <= start.getTime() &&
+            end.getTime() <= dayStart + toMinutes(b.endTime) * MINUTE_MS,
+    );
+}
+
+/**
+ * Walk each working block and emit back-to-back slots of `durationMinutes`,
+ * keeping `bufferMinutes` free between consecutive visits. When a slot would
+ * overlap a booking (padded by the buffer) the cursor jumps past that booking.
+ */
+export function generateSlots(request: SlotRequest): Slot[] {
+    const dayStart = new Date(`${request.date}T00:00:00.000Z`).getTime();
+    const duration = request.durationMinutes * MINUTE_MS;
+    const buffer = request.bufferMinutes * MINUTE_MS;
+    const now = (request.now ?? new Date()).getTime();
+
+    const booked = request.booked
+        .map((b) => ({ start: b.scheduledAt.getTime() - buffer, end: b.endsAt.getTime() + buffer }))
+        .sort((a, b) => a.start - b.start);
+
+    const blocks = resolveWorkingBlocks(request.date, request.weeklyHours, request.exceptions)
+        .map((b) => ({
+            start: dayStart + toMinutes(b.startTime) * MINUTE_MS,
+            end: dayStart + toMinutes(b.endTime) * MINUTE_MS,
+        }))
+        .sort((a, b) => a.start - b.start);
+
+    const slots: Slot[] = [];
+
+    for (const block of blocks) {
+        let cursor = block.start;
+
+        while (cursor + duration <= block.end) {
+            const slotEnd = cursor + duration;
+            const clash = booked.find((b) => b.start < slotEnd && b.end > cursor);
+
+            if (clash) {
+                cursor = clash.end;
+                continue;
+            }
+
+            if (cursor > now) {
+                slots.push({
+                    startTime: new Date(cursor).toISOString(),
+                    endTime: new Date(slotEnd).toISOString(),
+                });
+            }
+
+            cursor = slotEnd + buffer;
+        }
+    }
+
+    return slots;
+}
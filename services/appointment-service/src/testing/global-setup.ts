@@ -0,0 +1,28 @@
+import { join } from 'path';
+import { Extension, PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+
+// A subpath export, which the node module resolution of this tsconfig cannot see
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { btree_gist } = require('@electric-sql/pglite/contrib/btree_gist') as {
+    btree_gist: Extension;
+};
+
+/**
+ * Jest globalSetup: an in-memory Postgres (PGlite), migrated like the real
+ * database, served over the wire protocol for TestDatabase to connect to. It
+ * runs here rather than inside a spec because PGlite loads parts of itself with
+ * dynamic import(), which the jest sandbox does not allow.
+ */
+export default async function globalSetup(): Promise<void> {
+    const client = await PGlite.create({ extensions: { btree_gist } });
+    await migrate(drizzle(client), { migrationsFolder: join(__dirname, '../../drizzle') });
+
+    const server = new PGLiteSocketServer({ db: client, port: 0 });
+    await server.start();
+
+    process.env.TEST_DATABASE_URL = `postgresql://postgres@${server.getServerConn()}/postgres`;
+    Object.assign(globalThis, { testDatabase: { client, server } });
+}
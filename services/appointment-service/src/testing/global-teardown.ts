@@ -0,0 +1,13 @@
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+
+// Jest globalTeardown: stops what globalSetup started
+export default async function globalTeardown(): Promise<void> {
+    const { client, server } = (globalThis as any).testDatabase as {
+        client: PGlite;
+        server: PGLiteSocketServer;
+    };
+
+    await server.stop();
+    await client.close();
+}
@@ -0,0 +1,28 @@
+import { BaseEvent, EventBus, EventName, EventPayloadMap } from '@careflow/shared';
+
+/**
+ * The real EventBus for specs, so every payload is validated against the event
+ * schemas like in production, with publishes collected instead of sent to RabbitMQ
+ */
+export class RecordingEventBus extends EventBus {
+    readonly events: BaseEvent<unknown>[] = [];
+
+    constructor() {
+        super(
+            { url: 'amqp://localhost:5672', serviceName: 'appointment-service' },
+            {} as never,
+            {} as never,
+            {} as never,
+        );
+    }
+
+    async publishEvent(event: BaseEvent<unknown>): Promise<void> {
+        this.events.push(event);
+    }
+
+    payloads<E extends EventName>(eventName: E): EventPayloadMap[E][] {
+        return this.events
+            .filter((event) => event.eventName === eventName)
+            .map((event) => event.payload as EventPayloadMap[E]);
+    }
+}
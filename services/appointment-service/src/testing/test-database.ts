@@ -0,0 +1,36 @@
+import { sql } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { Pool } from 'pg';
+import { Database, DatabaseService } from '../database/database.service';
+import * as schema from '../database/schema';
+
+/**
+ * The database jest's globalSetup serves, for specs: the real schema, so the
+ * advisory locks and the no-overlap exclusion constraint take part. PGlite takes
+ * one connection at a time, hence a pool of one; transactions queue for it like
+ * they would for a lock. Create one per spec file and reset() it between tests.
+ */
+export class TestDatabase {
+    readonly db: Database;
+    private readonly pool: Pool;
+
+    constructor() {
+        this.pool = new Pool({ connectionString: process.env.TEST_DATABASE_URL, max: 1 });
+        this.db = drizzle(this.pool, { schema });
+    }
+
+    // Stand-in for DatabaseService
+    get service(): DatabaseService {
+        return { db: this.db } as DatabaseService;
+    }
+
+    async reset(): Promise<void> {
+        await this.db.execute(sql`
+            TRUNCATE appointments, appointment_status_history, doctor_working_hours,
+                doctor_schedule_exceptions, doctor_schedule_settings`);
+    }
+
+    async close(): Promise<void> {
+        await this.pool.end();
+    }
+}
@@ -0,0 +1,162 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AppConfigService } from '../config';
+import { AuditService } from './audit.service';
+import { AuditEvent, AuditEventDocument } from './schemas/audit-event.schema';
+import { AuditCheckpoint, AuditCheckpointDocument } from './schemas/audit-checkpoint.schema';
+import {
+    VerifyChainQueryDto,
+    CheckpointQueryDto,
+    CheckpointResponseDto,
+    CheckpointListResponseDto,
+    ChainVerificationResponseDto,
+} from './dto/audit.dto';
+import { Checkpoint, StoredEntry, signCheckpoint, verifyChain } from './hash-chain';
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Signs the chain head periodically and verifies the chain on demand.
+ * The same check runs offline with `npm run audit:verify`.
+ */
+@Injectable()
+export class AuditChainService implements OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = new Logger(AuditChainService.name);
+    private timer?: NodeJS.Timeout;
+
+    constructor(
+        @InjectModel(AuditEvent.name) private auditEventModel: Model<AuditEventDocument>,
+        @InjectModel(AuditCheckpoint.name)
+        private checkpointModel: Model<AuditCheckpointDocument>,
+        private auditService: AuditService,
+        private config: AppConfigService,
+    ) { }
+
+    onApplicationBootstrap() {
+        this.timer = setInterval(() => void this.tick(), this.config.checkpointIntervalMs);
+    }
+
+    onModuleDestroy() {
+        clearInterval(this.timer);
+    }
+
+    /**
+     * Sign the current head. Returns null when nothing was appended since the last
+     * checkpoint, or another instance signed the same head first.
+     */
+    async createCheckpoint(): Promise<CheckpointResponseDto | null> {
+        const [head, latest] = await Promise.all([
+            this.auditService.getHead(),
+            this.checkpointModel.findOne({}, { sequence: 1 }).sort({ sequence: -1 }).lean(),
+        ]);
+
+        if (!head || (latest && latest.sequence >= head.sequence)) {
+            return null;
+        }
+
+        const unsigned = { sequence: head.sequence, hash: head.hash, createdAt: new Date() };
+
+        try {
+            const checkpoint = await this.checkpointModel.create({
+                ...unsigned,
+                signature: signCheckpoint(unsigned, this.config.checkpointSecret),
+            });
+
+            this.logger.log(`Checkpoint signed at sequence ${checkpoint.sequence}`);
+            return CheckpointResponseDto.fromDocument(checkpoint);
+        } catch (error: any) {
+            if (error?.code === DUPLICATE_KEY) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async listCheckpoints(query: CheckpointQueryDto): Promise<CheckpointListResponseDto> {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const [checkpoints, total] = await Promise.all([
+            this.checkpointModel
+                .find()
+                .sort({ sequence: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            this.checkpointModel.countDocuments(),
+        ]);
+
+        return {
+            checkpoints: checkpoints.map(CheckpointResponseDto.fromDocument),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    // Walk the chain (or a sequence range of it) and report the first broken link
+    async verify(query: VerifyChainQueryDto): Promise<ChainVerificationResponseDto> {
+        const fromSequence = query.fromSequence || 1;
+        const range = {
+            $gte: fromSequence,
+            ...(query.toSequence ? { $lte: query.toSequence } : {}),
+        };
+
+        const previous =
+            fromSequence > 1
+                ? await this.auditEventModel
+                    .findOne({ sequence: fromSequence - 1 }, { sequence: 1, hash: 1 })
+                    .lean<{ sequence: number; hash: string }>()
+                : null;
+
+        if (fromSequence > 1 && !previous) {
+            return {
+                valid: false,
+                fromSequence,
+                lastSequence: 0,
+                entriesChecked: 0,
+                checkpointsChecked: 0,
+                firstBrokenLink: {
+                    sequence: fromSequence - 1,
+                    reason: 'Entry before the requested range is missing',
+                },
+                verifiedAt: new Date(),
+            };
+        }
+
+        const checkpoints = await this.checkpointModel
+            .find({ sequence: range })
+            .lean<Checkpoint[]>();
+
+        const entries = this.auditEventModel
+            .find({ sequence: range })
+            .sort({ sequence: 1 })
+            .lean<StoredEntry[]>()
+            .cursor();
+
+        const result = await verifyChain(
+            entries as AsyncIterable<StoredEntry>,
+            previous,
+            checkpoints,
+            this.config.checkpointSecret,
+        );
+
+        if (!result.valid) {
+            this.logger.error(
+                `Audit chain broken at sequence ${result.firstBrokenLink?.sequence}: ` +
+                `${result.firstBrokenLink?.reason}`,
+            );
+        }
+
+        return { ...result, fromSequence, verifiedAt: new Date() };
+    }
+
+    private async tick(): Promise<void> {
+        try {
+            await this.createCheckpoint();
+        } catch (error) {
+            this.logger.error('Audit checkpoint failed', error);
+        }
+    }
+}
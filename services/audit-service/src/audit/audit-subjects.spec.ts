@@ -0,0 +1,77 @@
+import { BaseEvent, EventName } from '@careflow/shared';
+import { REDACTED, extractSubjects, redactPayload } from './audit-subjects';
+
+function event(eventName: EventName, payload: unknown): BaseEvent<unknown> {
+    return {
+        eventId: 'evt-1',
+        eventName,
+        timestamp: '2026-10-19T10:00:00.000Z',
+        correlationId: 'corr-1',
+        source: 'test',
+        version: '1.0.0',
+        payload,
+    };
+}
+
+describe('extractSubjects', () => {
+    it('uses the user the event is about as actor when nobody else is named', () => {
+        const subjects = extractSubjects(
+            event(EventName.USER_LOGIN, { userId: 'u1', email: 'a@b.c' }),
+        );
+
+        expect(subjects).toEqual({
+            actorId: 'u1',
+            userIds: ['u1'],
+            patientIds: [],
+        });
+    });
+
+    it('prefers the explicit actor and collects every referenced user', () => {
+        const subjects = extractSubjects(
+            event(EventName.APPOINTMENT_CANCELLED, {
+                appointmentId: 'a1',
+                patientId: 'p1',
+                doctorId: 'd1',
+                changedBy: 'admin1',
+            }),
+        );
+
+        expect(subjects).toEqual({
+            actorId: 'admin1',
+            userIds: ['d1', 'admin1'],
+            patientIds: ['p1'],
+        });
+    });
+
+    it('ignores non-string and empty fields, and odd payloads', () => {
+        const subjects = extractSubjects(
+            event(EventName.USER_UPDATED, { userId: 42, doctorId: '' }),
+        );
+
+        expect(subjects).toEqual({ actorId: undefined, userIds: [], patientIds: [] });
+        expect(extractSubjects(event(EventName.USER_UPDATED, null)).userIds).toEqual([]);
+        expect(extractSubjects(event(EventName.USER_UPDATED, ['u1'])).userIds).toEqual([]);
+    });
+});
+
+describe('redactPayload', () => {
+    it('masks credentials and secrets at any depth', () => {
+        const payload = {
+            userId: 'u1',
+            resetToken: 'abc',
+            nested: { clientSecret: 'pi_secret', items: [{ password: 'x', note: 'ok' }] },
+        };
+
+        expect(redactPayload(payload)).toEqual({
+            userId: 'u1',
+            resetToken: REDACTED,
+            nested: { clientSecret: REDACTED, items: [{ password: REDACTED, note: 'ok' }] },
+        });
+    });
+
+    it('leaves the input untouched', () => {
+        const payload = { token: 't' };
+        redactPayload(payload);
+        expect(payload.token).toBe('t');
+    });
+});
@@ -0,0 +1,67 @@
+import { BaseEvent } from '@careflow/shared';
+
+/**
+ * Who an event is about, pulled out of the payload so the trail can be indexed.
+ * Payload shapes differ per service, so this goes by field name:
+ *
+ *   actorId    - who did it: changedBy / createdBy / performedBy / uploadedBy,
+ *                otherwise the userId the event is about (login, logout, ...)
+ *   userIds    - every user referenced (userId, doctorId, recipientId, actor)
+ *   patientIds - patientId
+ */
+export interface AuditSubjects {
+    actorId?: string;
+    userIds: string[];
+    patientIds: string[];
+}
+
+const ACTOR_FIELDS = ['changedBy', 'createdBy', 'performedBy', 'uploadedBy'];
+const USER_FIELDS = ['userId', 'doctorId', 'recipientId', ...ACTOR_FIELDS];
+
+// Credentials and one-time secrets never reach the audit store
+const SENSITIVE_KEY = /password|token|secret/i;
+export const REDACTED = '[REDACTED]';
+
+export function extractSubjects(event: BaseEvent<unknown>): AuditSubjects {
+    const payload = isRecord(event.payload) ? event.payload : {};
+
+    const actorId = [...ACTOR_FIELDS, 'userId']
+        .map((field) => stringField(payload, field))
+        .find((value) => value !== undefined);
+
+    return {
+        actorId,
+        userIds: unique(USER_FIELDS.map((field) => stringField(payload, field))),
+        patientIds: unique([stringField(payload, 'patientId')]),
+    };
+}
+
+export function redactPayload(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(redactPayload);
+    }
+
+    if (!isRecord(value)) {
+        return value;
+    }
+
+    return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [
+            key,
+            SENSITIVE_KEY.test(key) ? REDACTED : redactPayload(entry),
+        ]),
+    );
+}
+
+function stringField(payload: Record<string, unknown>, field: string): string | undefined {
+    const value = payload[field];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function unique(values: (string | undefined)[]): string[] {
+    return [...new Set(values.filter((value): value is string => value !== undefined))];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,102 @@
+import { Controller, Get, Post, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { AuditService } from './audit.service';
+import { AuditChainService } from './audit-chain.service';
+import {
+    AuditQueryDto,
+    AuditEventResponseDto,
+    AuditEventListResponseDto,
+    VerifyChainQueryDto,
+    CheckpointQueryDto,
+    CheckpointResponseDto,
+    CheckpointListResponseDto,
+    ChainVerificationResponseDto,
+} from './dto/audit.dto';
+
+@ApiTags('Audit')
+@Controller('audit')
+export class AuditController {
+    constructor(
+        private auditService: AuditService,
+        private auditChainService: AuditChainService,
+    ) { }
+
+    @Get('events')
+    @ApiOperation({ summary: 'Search the audit trail, newest first' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'userId', required: false, type: String })
+    @ApiQuery({ name: 'patientId', required: false, type: String })
+    @ApiQuery({ name: 'actorId', required: false, type: String })
+    @ApiQuery({ name: 'correlationId', required: false, type: String })
+    @ApiQuery({ name: 'eventName', required: false, type: String })
+    @ApiQuery({ name: 'source', required: false, type: String })
+    @ApiQuery({ name: 'from', required: false, type: String })
+    @ApiQuery({ name: 'to', required: false, type: String })
+    @ApiResponse({ status: 200, type: AuditEventListResponseDto })
+    async findAll(@Query() query: AuditQueryDto): Promise<AuditEventListResponseDto> {
+        return this.auditService.findAll(query);
+    }
+
+    @Get('events/:eventId')
+    @ApiOperation({ summary: 'Get a recorded event by its event ID' })
+    @ApiResponse({ status: 200, type: AuditEventResponseDto })
+    @ApiResponse({ status: 404, description: 'Audit event not found' })
+    async findByEventId(@Param('eventId') eventId: string): Promise<AuditEventResponseDto> {
+        return this.auditService.findByEventId(eventId);
+    }
+
+    @Get('users/:userId')
+    @ApiOperation({ summary: 'Events referencing a user' })
+    @ApiResponse({ status: 200, type: AuditEventListResponseDto })
+    async findByUser(
+        @Param('userId') userId: string,
+        @Query() query: AuditQueryDto,
+    ): Promise<AuditEventListResponseDto> {
+        return this.auditService.findAll({ ...query, userId });
+    }
+
+    @Get('patients/:patientId')
+    @ApiOperation({ summary: 'Events referencing a patient' })
+    @ApiResponse({ status: 200, type: AuditEventListResponseDto })
+    async findByPatient(
+        @Param('patientId') patientId: string,
+        @Query() query: AuditQueryDto,
+    ): Promise<AuditEventListResponseDto> {
+        return this.auditService.findAll({ ...query, patientId });
+    }
+
+    @Get('correlations/:correlationId')
+    @ApiOperation({ summary: 'Every event of one request flow, in order' })
+    @ApiResponse({ status: 200, type: [AuditEventResponseDto] })
+    async trace(@Param('correlationId') correlationId: string): Promise<AuditEventResponseDto[]> {
+        return this.auditService.trace(correlationId);
+    }
+
+    @Get('chain/verify')
+    @ApiOperation({ summary: 'Walk the hash chain and report the first broken link' })
+    @ApiQuery({ name: 'fromSequence', required: false, type: Number })
+    @ApiQuery({ name: 'toSequence', required: false, type: Number })
+    @ApiResponse({ status: 200, type: ChainVerificationResponseDto })
+    async verifyChain(@Query() query: VerifyChainQueryDto): Promise<ChainVerificationResponseDto> {
+        return this.auditChainService.verify(query);
+    }
+
+    @Get('chain/checkpoints')
+    @ApiOperation({ summary: 'Signed checkpoints, newest first' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiResponse({ status: 200, type: CheckpointListResponseDto })
+    async listCheckpoints(@Query() query: CheckpointQueryDto): Promise<CheckpointListResponseDto> {
+        return this.auditChainService.listCheckpoints(query);
+    }
+
+    @Post('chain/checkpoints')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Sign the current chain head now' })
+    @ApiResponse({ status: 200, type: CheckpointResponseDto })
+    @ApiResponse({ status: 200, description: 'null when the head is already signed' })
+    async createCheckpoint(): Promise<CheckpointResponseDto | null> {
+        return this.auditChainService.createCheckpoint();
+    }
+}
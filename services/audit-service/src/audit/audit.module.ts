@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuditEvent, AuditEventSchema } from './schemas/audit-event.schema';
+import { AuditCheckpoint, AuditCheckpointSchema } from './schemas/audit-checkpoint.schema';
+import { AuditService } from './audit.service';
+import { AuditChainService } from './audit-chain.service';
+import { AuditController } from './audit.controller';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: AuditEvent.name, schema: AuditEventSchema },
+            { name: AuditCheckpoint.name, schema: AuditCheckpointSchema },
+        ]),
+    ],
+    controllers: [AuditController],
+    providers: [AuditService, AuditChainService],
+    exports: [AuditService],
+})
+export class AuditModule { }
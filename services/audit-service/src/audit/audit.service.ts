@@ -0,0 +1,163 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AuditEvent, AuditEventDocument } from './schemas/audit-event.schema';
+import {
+    AuditQueryDto,
+    AuditEventResponseDto,
+    AuditEventListResponseDto,
+} from './dto/audit.dto';
+import { extractSubjects, redactPayload } from './audit-subjects';
+import { ChainedEntry, GENESIS_HASH, hashEntry } from './hash-chain';
+import { BaseEvent, OnAnyEvent } from '@careflow/shared';
+
+const DUPLICATE_KEY = 11000;
+const MAX_TRACE_EVENTS = 1000;
+const MAX_APPEND_ATTEMPTS = 5;
+
+@Injectable()
+export class AuditService {
+    private readonly logger = new Logger(AuditService.name);
+
+    // Appends run one at a time in this process; the unique sequence index settles
+    // races with other instances
+    private appendQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        @InjectModel(AuditEvent.name) private auditEventModel: Model<AuditEventDocument>,
+    ) { }
+
+    @OnAnyEvent()
+    async record(event: BaseEvent<unknown>): Promise<void> {
+        if (!event?.eventId || !event.eventName) {
+            throw new Error('Not a BaseEvent: eventId and eventName are required');
+        }
+
+        const run = this.appendQueue.then(() => this.append(event));
+        this.appendQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    // Head of the chain: the entry with the highest sequence
+    async getHead(): Promise<{ sequence: number; hash: string } | null> {
+        return this.auditEventModel
+            .findOne({}, { sequence: 1, hash: 1 })
+            .sort({ sequence: -1 })
+            .lean<{ sequence: number; hash: string }>();
+    }
+
+    async findAll(query: AuditQueryDto): Promise<AuditEventListResponseDto> {
+        const page = query.page || 1;
+        const limit = query.limit || 50;
+        const filter = this.buildFilter(query);
+
+        const [events, total] = await Promise.all([
+            this.auditEventModel
+                .find(filter)
+                .sort({ occurredAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            this.auditEventModel.countDocuments(filter),
+        ]);
+
+        return {
+            events: events.map(AuditEventResponseDto.fromDocument),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    // Everything that happened under one correlation ID, in the order it happened
+    async trace(correlationId: string): Promise<AuditEventResponseDto[]> {
+        const events = await this.auditEventModel
+            .find({ correlationId })
+            .sort({ occurredAt: 1 })
+            .limit(MAX_TRACE_EVENTS);
+
+        return events.map(AuditEventResponseDto.fromDocument);
+    }
+
+    async findByEventId(eventId: string): Promise<AuditEventResponseDto> {
+        const event = await this.auditEventModel.findOne({ eventId });
+
+        if (!event) {
+            throw new NotFoundException('Audit event not found');
+        }
+
+        return AuditEventResponseDto.fromDocument(event);
+    }
+
+    private async append(event: BaseEvent<unknown>): Promise<void> {
+        // Redelivered event: already on the trail
+        if (await this.auditEventModel.exists({ eventId: event.eventId })) {
+            this.logger.debug(`Event ${event.eventId} already recorded, skipping`);
+            return;
+        }
+
+        const occurredAt = new Date(event.timestamp);
+        const fields = {
+            eventId: event.eventId,
+            eventName: event.eventName,
+            source: event.source || 'unknown',
+            version: event.version,
+            correlationId: event.correlationId || event.eventId,
+            occurredAt: isNaN(occurredAt.getTime()) ? new Date() : occurredAt,
+            receivedAt: new Date(),
+            ...extractSubjects(event),
+            payload: redactPayload(event.payload),
+        };
+
+        for (let attempt = 1; ; attempt++) {
+            const head = await this.getHead();
+            const entry: ChainedEntry = {
+                ...fields,
+                sequence: (head?.sequence ?? 0) + 1,
+                prevHash: head?.hash ?? GENESIS_HASH,
+            };
+
+            try {
+                await this.auditEventModel.create({ ...entry, hash: hashEntry(entry) });
+                return;
+            } catch (error: any) {
+                if (error?.code !== DUPLICATE_KEY) {
+                    throw error;
+                }
+
+                if (error.keyPattern?.eventId) {
+                    this.logger.debug(`Event ${event.eventId} already recorded, skipping`);
+                    return;
+                }
+
+                // Another instance appended first; retry on top of the new head
+                if (attempt >= MAX_APPEND_ATTEMPTS) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private buildFilter(query: AuditQueryDto): any {
+        const filter: any = {};
+
+        // A patient's own user ID shows up as patientId on appointment and billing events
+        if (query.userId) {
+            filter.$or = [{ userIds: query.userId }, { patientIds: query.userId }];
+        }
+
+        if (query.patientId) filter.patientIds = query.patientId;
+        if (query.actorId) filter.actorId = query.actorId;
+        if (query.correlationId) filter.correlationId = query.correlationId;
+        if (query.eventName) filter.eventName = query.eventName;
+        if (query.source) filter.source = query.source;
+
+        if (query.from || query.to) {
+            filter.occurredAt = {};
+            if (query.from) filter.occurredAt.$gte = new Date(query.from);
+            if (query.to) filter.occurredAt.$lt = new Date(query.to);
+        }
+
+        return filter;
+    }
+}
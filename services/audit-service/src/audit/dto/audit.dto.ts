@@ -0,0 +1,241 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+// ==================== Request DTOs ====================
+
+export class AuditQueryDto {
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number;
+
+    @ApiPropertyOptional({ default: 50 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number;
+
+    @ApiPropertyOptional({ description: 'Events referencing this user, as user or patient' })
+    @IsString()
+    @IsOptional()
+    userId?: string;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    patientId?: string;
+
+    @ApiPropertyOptional({ description: 'Events performed by this user' })
+    @IsString()
+    @IsOptional()
+    actorId?: string;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    correlationId?: string;
+
+    @ApiPropertyOptional({ example: 'appointment.cancelled' })
+    @IsString()
+    @IsOptional()
+    eventName?: string;
+
+    @ApiPropertyOptional({ example: 'appointment-service' })
+    @IsString()
+    @IsOptional()
+    source?: string;
+
+    @ApiPropertyOptional({ description: 'Occurred at or after (ISO 8601)' })
+    @IsDateString()
+    @IsOptional()
+    from?: string;
+
+    @ApiPropertyOptional({ description: 'Occurred before (ISO 8601)' })
+    @IsDateString()
+    @IsOptional()
+    to?: string;
+}
+
+export class VerifyChainQueryDto {
+    @ApiPropertyOptional({ default: 1, description: 'First sequence to check' })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    @IsInt()
+    @Min(1)
+    fromSequence?: number;
+
+    @ApiPropertyOptional({ description: 'Last sequence to check (default: head)' })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    @IsInt()
+    @Min(1)
+    toSequence?: number;
+}
+
+export class CheckpointQueryDto {
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number;
+}
+
+// ==================== Response DTOs ====================
+
+export class AuditEventResponseDto {
+    @ApiProperty({ description: 'Position in the hash chain' })
+    sequence: number;
+
+    @ApiProperty()
+    prevHash: string;
+
+    @ApiProperty()
+    hash: string;
+
+    @ApiProperty()
+    eventId: string;
+
+    @ApiProperty({ example: 'appointment.cancelled' })
+    eventName: string;
+
+    @ApiProperty({ example: 'appointment-service' })
+    source: string;
+
+    @ApiProperty()
+    version: string;
+
+    @ApiProperty()
+    correlationId: string;
+
+    @ApiProperty()
+    occurredAt: Date;
+
+    @ApiProperty()
+    receivedAt: Date;
+
+    @ApiPropertyOptional()
+    actorId?: string;
+
+    @ApiProperty({ type: [String] })
+    userIds: string[];
+
+    @ApiProperty({ type: [String] })
+    patientIds: string[];
+
+    @ApiProperty({ description: 'Event payload, credentials redacted' })
+    payload: unknown;
+
+    static fromDocument(event: any): AuditEventResponseDto {
+        return {
+            sequence: event.sequence,
+            prevHash: event.prevHash,
+            hash: event.hash,
+            eventId: event.eventId,
+            eventName: event.eventName,
+            source: event.source,
+            version: event.version,
+            correlationId: event.correlationId,
+            occurredAt: event.occurredAt,
+            receivedAt: event.receivedAt,
+            actorId: event.actorId,
+            userIds: event.userIds,
+            patientIds: event.patientIds,
+            payload: event.payload,
+        };
+    }
+}
+
+export class AuditEventListResponseDto {
+    @ApiProperty({ type: [AuditEventResponseDto] })
+    events: AuditEventResponseDto[];
+
+    @ApiProperty()
+    total: number;
+
+    @ApiProperty()
+    page: number;
+
+    @ApiProperty()
+    limit: number;
+
+    @ApiProperty()
+    totalPages: number;
+}
+
+export class CheckpointResponseDto {
+    @ApiProperty()
+    sequence: number;
+
+    @ApiProperty()
+    hash: string;
+
+    @ApiProperty()
+    signature: string;
+
+    @ApiProperty()
+    createdAt: Date;
+
+    static fromDocument(checkpoint: any): CheckpointResponseDto {
+        return {
+            sequence: checkpoint.sequence,
+            hash: checkpoint.hash,
+            signature: checkpoint.signature,
+            createdAt: checkpoint.createdAt,
+        };
+    }
+}
+
+export class CheckpointListResponseDto {
+    @ApiProperty({ type: [CheckpointResponseDto] })
+    checkpoints: CheckpointResponseDto[];
+
+    @ApiProperty()
+    total: number;
+
+    @ApiProperty()
+    page: number;
+
+    @ApiProperty()
+    limit: number;
+
+    @ApiProperty()
+    totalPages: number;
+}
+
+export class BrokenLinkResponseDto {
+    @ApiProperty()
+    sequence: number;
+
+    @ApiPropertyOptional()
+    eventId?: string;
+
+    @ApiProperty({ example: 'Entry contents do not match its hash' })
+    reason: string;
+}
+
+export class ChainVerificationResponseDto {
+    @ApiProperty()
+    valid: boolean;
+
+    @ApiProperty()
+    fromSequence: number;
+
+    @ApiProperty({ description: 'Last sequence that passed' })
+    lastSequence: number;
+
+    @ApiProperty()
+    entriesChecked: number;
+
+    @ApiProperty()
+    checkpointsChecked: number;
+
+    @ApiPropertyOptional({ type: BrokenLinkResponseDto })
+    firstBrokenLink?: BrokenLinkResponseDto;
+
+    @ApiProperty()
+    verifiedAt: Date;
+}
@@ -0,0 +1,139 @@
+import {
+    GENESIS_HASH,
+    StoredEntry,
+    Checkpoint,
+    canonicalJson,
+    hashEntry,
+    signCheckpoint,
+    verifyChain,
+} from './hash-chain';
+
+const SECRET = 'checkpoint-secret';
+
+function buildChain(length: number): StoredEntry[] {
+    const entries: StoredEntry[] = [];
+
+    for (let sequence = 1; sequence <= length; sequence++) {
+        const fields = {
+            sequence,
+            prevHash: entries.length ? entries[entries.length - 1].hash : GENESIS_HASH,
+            eventId: `evt-${sequence}`,
+            eventName: 'appointment.cancelled',
+            source: 'appointment-service',
+            version: '1.0.0',
+            correlationId: 'corr-1',
+            occurredAt: new Date(Date.UTC(2026, 9, 19, 10, sequence)),
+            receivedAt: new Date(Date.UTC(2026, 9, 19, 10, sequence, 1)),
+            actorId: 'admin-1',
+            userIds: ['admin-1'],
+            patientIds: ['patient-1'],
+            payload: { appointmentId: `a-${sequence}`, reason: 'ill' },
+        };
+        entries.push({ ...fields, hash: hashEntry(fields) });
+    }
+
+    return entries;
+}
+
+function checkpointAt(entry: StoredEntry, secret = SECRET): Checkpoint {
+    const unsigned = { sequence: entry.sequence, hash: entry.hash, createdAt: new Date() };
+    return { ...unsigned, signature: signCheckpoint(unsigned, secret) };
+}
+
+describe('canonicalJson', () => {
+    it('ignores key order and undefined values', () => {
+        expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 1 }], c: undefined } })).toBe(
+            canonicalJson({ a: { d: [1, { e: 1, f: 2 }] }, b: 1 }),
+        );
+    });
+});
+
+describe('verifyChain', () => {
+    it('accepts an intact chain and its checkpoints', async () => {
+        const chain = buildChain(5);
+
+        const result = await verifyChain(chain, null, [checkpointAt(chain[2])], SECRET);
+
+        expect(result).toEqual({
+            valid: true,
+            entriesChecked: 5,
+            checkpointsChecked: 1,
+            lastSequence: 5,
+        });
+    });
+
+    it('reports an edited entry', async () => {
+        const chain = buildChain(5);
+        chain[2] = { ...chain[2], payload: { appointmentId: 'a-3', reason: 'edited' } };
+
+        const result = await verifyChain(chain, null, [], SECRET);
+
+        expect(result.valid).toBe(false);
+        expect(result.firstBrokenLink).toEqual({
+            sequence: 3,
+            eventId: 'evt-3',
+            reason: 'Entry contents do not match its hash',
+        });
+        expect(result.entriesChecked).toBe(2);
+    });
+
+    it('reports a deleted entry as a gap', async () => {
+        const chain = buildChain(5);
+        chain.splice(1, 1);
+
+        const result = await verifyChain(chain, null, [], SECRET);
+
+        expect(result.firstBrokenLink?.sequence).toBe(3);
+        expect(result.firstBrokenLink?.reason).toBe('Expected sequence 2, found 3 (entries missing)');
+    });
+
+    it('catches a consistently rewritten chain through the signed checkpoint', async () => {
+        const original = buildChain(4);
+        const checkpoint = checkpointAt(original[3]);
+
+        // Rehash everything after editing entry 2: every link is valid again
+        const rewritten = buildChain(4).map((entry) => ({ ...entry }));
+        rewritten[1].payload = { appointmentId: 'a-2', reason: 'edited' };
+        for (let i = 1; i < rewritten.length; i++) {
+            rewritten[i].prevHash = rewritten[i - 1].hash;
+            rewritten[i].hash = hashEntry(rewritten[i]);
+        }
+
+        const result = await verifyChain(rewritten, null, [checkpoint], SECRET);
+
+        expect(result.firstBrokenLink).toEqual({
+            sequence: 4,
+            eventId: 'evt-4',
+            reason: 'Entry hash differs from the signed checkpoint (chain rewritten)',
+        });
+    });
+
+    it('rejects checkpoints not signed with the secret', async () => {
+        const chain = buildChain(2);
+
+        const result = await verifyChain(chain, null, [checkpointAt(chain[1], 'forged')], SECRET);
+
+        expect(result.firstBrokenLink?.reason).toBe('Checkpoint signature is invalid');
+    });
+
+    it('reports truncation when a checkpoint outlives its entry', async () => {
+        const chain = buildChain(4);
+        const checkpoint = checkpointAt(chain[3]);
+
+        const result = await verifyChain(chain.slice(0, 3), null, [checkpoint], SECRET);
+
+        expect(result.valid).toBe(false);
+        expect(result.firstBrokenLink).toEqual({
+            sequence: 4,
+            reason: 'Signed checkpoint has no matching entry (log truncated)',
+        });
+    });
+
+    it('verifies a range starting after the genesis entry', async () => {
+        const chain = buildChain(6);
+
+        const result = await verifyChain(chain.slice(3), chain[2], [], SECRET);
+
+        expect(result).toMatchObject({ valid: true, entriesChecked: 3, lastSequence: 6 });
+    });
+});
@@ -0,0 +1,218 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Tamper evidence for the audit trail.
+ *
+ * Every entry stores sequence (1, 2, 3, ...), prevHash (the hash of entry
+ * sequence - 1, GENESIS_HASH for the first) and hash = sha256 over its own
+ * contents plus prevHash. Editing or deleting a row breaks the link to the next
+ * one. Rewriting the whole tail consistently is caught by checkpoints: the head
+ * hash signed with a key that lives outside the database.
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Everything stored for an entry except its own hash
+export interface ChainedEntry {
+    sequence: number;
+    prevHash: string;
+    eventId: string;
+    eventName: string;
+    source: string;
+    version?: string;
+    correlationId: string;
+    occurredAt: Date;
+    receivedAt: Date;
+    actorId?: string;
+    userIds: string[];
+    patientIds: string[];
+    payload: unknown;
+}
+
+export interface StoredEntry extends ChainedEntry {
+    hash: string;
+}
+
+export interface Checkpoint {
+    sequence: number;
+    hash: string;
+    createdAt: Date;
+    signature: string;
+}
+
+export interface BrokenLink {
+    sequence: number;
+    eventId?: string;
+    reason: string;
+}
+
+export interface ChainVerification {
+    valid: boolean;
+    entriesChecked: number;
+    checkpointsChecked: number;
+    lastSequence: number;
+    firstBrokenLink?: BrokenLink;
+}
+
+// JSON with sorted keys, so the same entry always hashes the same after a round trip
+export function canonicalJson(value: unknown): string {
+    return JSON.stringify(canonicalize(value));
+}
+
+export function hashEntry(entry: ChainedEntry): string {
+    const covered = {
+        sequence: entry.sequence,
+        prevHash: entry.prevHash,
+        eventId: entry.eventId,
+        eventName: entry.eventName,
+        source: entry.source,
+        version: entry.version ?? null,
+        correlationId: entry.correlationId,
+        occurredAt: entry.occurredAt,
+        receivedAt: entry.receivedAt,
+        actorId: entry.actorId ?? null,
+        userIds: entry.userIds,
+        patientIds: entry.patientIds,
+        payload: entry.payload ?? null,
+    };
+
+    return createHash('sha256').update(canonicalJson(covered)).digest('hex');
+}
+
+export function signCheckpoint(checkpoint: Omit<Checkpoint, 'signature'>, secret: string): string {
+    const signed = {
+        sequence: checkpoint.sequence,
+        hash: checkpoint.hash,
+        createdAt: checkpoint.createdAt,
+    };
+
+    return createHmac('sha256', secret).update(canonicalJson(signed)).digest('hex');
+}
+
+export function isCheckpointSignatureValid(checkpoint: Checkpoint, secret: string): boolean {
+    const expected = Buffer.from(signCheckpoint(checkpoint, secret), 'hex');
+    const actual = Buffer.from(checkpoint.signature, 'hex');
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Why `entry` does not follow `previous`, or null when the link holds.
+ * `previous` is null for the first entry of the chain.
+ */
+export function checkLink(
+    previous: Pick<StoredEntry, 'sequence' | 'hash'> | null,
+    entry: StoredEntry,
+): string | null {
+    const expectedSequence = previous ? previous.sequence + 1 : 1;
+
+    if (entry.sequence !== expectedSequence) {
+        return `Expected sequence ${expectedSequence}, found ${entry.sequence} (entries missing)`;
+    }
+
+    if (entry.prevHash !== (previous ? previous.hash : GENESIS_HASH)) {
+        return 'prevHash does not match the previous entry';
+    }
+
+    if (hashEntry(entry) !== entry.hash) {
+        return 'Entry contents do not match its hash';
+    }
+
+    return null;
+}
+
+/**
+ * Walk entries in sequence order and report the first broken link.
+ *
+ * @param entries - entries to check, ascending by sequence
+ * @param previous - the entry just before the first one, null when starting at sequence 1
+ * @param checkpoints - checkpoints falling in the checked range
+ */
+export async function verifyChain(
+    entries: AsyncIterable<StoredEntry> | Iterable<StoredEntry>,
+    previous: Pick<StoredEntry, 'sequence' | 'hash'> | null,
+    checkpoints: Checkpoint[],
+    secret: string,
+): Promise<ChainVerification> {
+    const pending = new Map(checkpoints.map((checkpoint) => [checkpoint.sequence, checkpoint]));
+    let entriesChecked = 0;
+    let checkpointsChecked = 0;
+    let last = previous;
+
+    const broken = (link: BrokenLink): ChainVerification => ({
+        valid: false,
+        entriesChecked,
+        checkpointsChecked,
+        lastSequence: last?.sequence ?? 0,
+        firstBrokenLink: link,
+    });
+
+    for await (const entry of entries) {
+        const reason = checkLink(last, entry);
+        if (reason) {
+            return broken({ sequence: entry.sequence, eventId: entry.eventId, reason });
+        }
+
+        const checkpoint = pending.get(entry.sequence);
+        if (checkpoint) {
+            pending.delete(entry.sequence);
+            checkpointsChecked++;
+
+            if (!isCheckpointSignatureValid(checkpoint, secret)) {
+                return broken({
+                    sequence: entry.sequence,
+                    eventId: entry.eventId,
+                    reason: 'Checkpoint signature is invalid',
+                });
+            }
+
+            if (checkpoint.hash !== entry.hash) {
+                return broken({
+                    sequence: entry.sequence,
+                    eventId: entry.eventId,
+                    reason: 'Entry hash differs from the signed checkpoint (chain rewritten)',
+                });
+            }
+        }
+
+        entriesChecked++;
+        last = entry;
+    }
+
+    // A checkpoint past the last entry means the tail was cut off
+    const [orphan] = [...pending.values()].sort((a, b) => a.sequence - b.sequence);
+    if (orphan) {
+        return broken({
+            sequence: orphan.sequence,
+            reason: 'Signed checkpoint has no matching entry (log truncated)',
+        });
+    }
+
+    return {
+        valid: true,
+        entriesChecked,
+        checkpointsChecked,
+        lastSequence: last?.sequence ?? 0,
+    };
+}
+
+function canonicalize(value: unknown): unknown {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(canonicalize);
+    }
+
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value)
+                .sort()
+                .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+                .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+        );
+    }
+
+    return value;
+}
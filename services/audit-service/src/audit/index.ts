@@ -0,0 +1,9 @@
+export * from './audit.module';
+export * from './audit.service';
+export * from './audit-chain.service';
+export * from './audit.controller';
+export * from './audit-subjects';
+export * from './hash-chain';
+export * from './schemas/audit-event.schema';
+export * from './schemas/audit-checkpoint.schema';
+export * from './dto/audit.dto';
@@ -0,0 +1,30 @@
+import { Schema } from 'mongoose';
+
+const MUTATING_QUERIES = [
+    'updateOne',
+    'updateMany',
+    'replaceOne',
+    'findOneAndUpdate',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+] as const;
+
+// Reject every update and delete through the model; documents can only be inserted
+export function makeAppendOnly(schema: Schema, collection: string): void {
+    const message = `${collection} is append-only`;
+
+    for (const operation of MUTATING_QUERIES) {
+        schema.pre(operation, function () {
+            throw new Error(message);
+        });
+    }
+
+    schema.pre('save', function (next) {
+        if (!this.isNew) {
+            return next(new Error(message));
+        }
+        next();
+    });
+}
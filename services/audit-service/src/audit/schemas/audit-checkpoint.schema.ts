@@ -0,0 +1,36 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { makeAppendOnly } from './append-only';
+
+/**
+ * Periodic signed snapshot of the chain head. The signature uses
+ * AUDIT_CHECKPOINT_SECRET, which is not in the database, so a rewritten chain
+ * cannot be re-signed by someone who only has database access.
+ */
+@Schema({
+    collection: 'audit_checkpoints',
+    versionKey: false,
+})
+export class AuditCheckpoint {
+    _id: Types.ObjectId;
+
+    // Sequence and hash of the head entry at checkpoint time
+    @Prop({ required: true, unique: true })
+    sequence: number;
+
+    @Prop({ required: true })
+    hash: string;
+
+    @Prop({ required: true })
+    signature: string;
+
+    @Prop({ required: true })
+    createdAt: Date;
+}
+
+export type AuditCheckpointDocument = AuditCheckpoint & Document;
+
+export const AuditCheckpointSchema = SchemaFactory.createForClass(AuditCheckpoint);
+
+// Append-only
+makeAppendOnly(AuditCheckpointSchema, 'audit_checkpoints');
@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { makeAppendOnly } from './append-only';
+
+/**
+ * One row per event seen on the exchange, hash-chained to the row before it
+ * (see hash-chain.ts). Rows are only ever inserted.
+ */
+@Schema({
+    collection: 'audit_events',
+    versionKey: false,
+    // Keep empty objects in payloads: dropping them would change the entry hash
+    minimize: false,
+})
+export class AuditEvent {
+    _id: Types.ObjectId;
+
+    // Position in the chain: 1, 2, 3, ... without gaps
+    @Prop({ required: true, unique: true })
+    sequence: number;
+
+    @Prop({ required: true })
+    prevHash: string;
+
+    @Prop({ required: true })
+    hash: string;
+
+    // BaseEvent envelope
+    @Prop({ required: true, unique: true })
+    eventId: string;
+
+    @Prop({ required: true, index: true })
+    eventName: string;
+
+    @Prop({ required: true, index: true })
+    source: string;
+
+    @Prop()
+    version: string;
+
+    @Prop({ required: true })
+    correlationId: string;
+
+    // When the event happened (BaseEvent.timestamp) and when it was recorded
+    @Prop({ required: true })
+    occurredAt: Date;
+
+    @Prop({ required: true })
+    receivedAt: Date;
+
+    // Extracted subjects (see audit-subjects.ts)
+    @Prop({ index: true })
+    actorId?: string;
+
+    @Prop({ type: [String], default: [] })
+    userIds: string[];
+
+    @Prop({ type: [String], default: [] })
+    patientIds: string[];
+
+    // Payload with credentials redacted
+    @Prop({ type: MongooseSchema.Types.Mixed })
+    payload: unknown;
+}
+
+export type AuditEventDocument = AuditEvent & Document;
+
+export const AuditEventSchema = SchemaFactory.createForClass(AuditEvent);
+
+// Indexes
+AuditEventSchema.index({ occurredAt: -1 });
+AuditEventSchema.index({ correlationId: 1, occurredAt: 1 });
+AuditEventSchema.index({ userIds: 1, occurredAt: -1 });
+AuditEventSchema.index({ patientIds: 1, occurredAt: -1 });
+
+// Append-only
+makeAppendOnly(AuditEventSchema, 'audit_events');
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService as NestConfigService } from '@nestjs/config';
+import { Environment } from './config.validation';
+
+@Injectable()
+export class AppConfigService {
+    constructor(private configService: NestConfigService) { }
+
+    get nodeEnv(): Environment {
+        return this.configService.get<Environment>('NODE_ENV')!;
+    }
+
+    get isDevelopment(): boolean {
+        return this.nodeEnv === Environment.Development;
+    }
+
+    get isProduction(): boolean {
+        return this.nodeEnv === Environment.Production;
+    }
+
+    get port(): number {
+        return this.configService.get<number>('PORT')!;
+    }
+
+    get mongodbUri(): string {
+        return this.configService.get<string>('MONGODB_URI')!;
+    }
+
+    get rabbitmqUrl(): string {
+        return this.configService.get<string>('RABBITMQ_URL')!;
+    }
+
+    get checkpointSecret(): string {
+        return this.configService.get<string>('AUDIT_CHECKPOINT_SECRET')!;
+    }
+
+    get checkpointIntervalMs(): number {
+        return this.configService.get<number>('AUDIT_CHECKPOINT_INTERVAL_MS') || 300_000;
+    }
+}
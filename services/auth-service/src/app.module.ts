@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
 import { APP_FILTER } from '@nestjs/core';
 import { MongooseModule } from '@nestjs/mongoose';
+import { EventBusModule } from '@careflow/shared';
 
 import { AppConfigModule, AppConfigService } from './config';
-import { RabbitMQModule } from './rabbitmq';
+import { OutboxModule } from './outbox';
+import { MetricsModule } from './metrics';
 import { UserModule } from './user/user.module';
 import { AuthModule } from './auth/auth.module';
 import { HealthModule } from './health/health.module';
@@ -29,7 +31,17 @@ import { HttpExceptionFilter } from './common/filters';
         }),
 
         // RabbitMQ
-        RabbitMQModule,
+        EventBusModule.forRootAsync({
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => ({
+                url: config.rabbitmqUrl,
+                serviceName: 'auth-service',
+            }),
+        }),
+        OutboxModule,
+
+        // Observability
+        MetricsModule,
 
         // Feature modules
         UserModule,
@@ -7,6 +7,7 @@ import {
     Req,
     Headers,
     Get,
+    Delete,
     Param,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
@@ -24,6 +25,23 @@ import {
     TokensResponseDto,
 } from './dto/auth.dto';
 import { UserResponseDto } from '../user/dto/user.dto';
+import { SessionService, SessionResponseDto } from '../session';
+import {
+    MfaService,
+    MfaLoginDto,
+    MfaChallengeDto,
+    MfaCodeDto,
+    MfaVerificationDto,
+    MfaChallengeResponseDto,
+    MfaEnrollmentResponseDto,
+    MfaStatusResponseDto,
+    RecoveryCodesResponseDto,
+} from '../mfa';
+import {
+    EmailVerificationService,
+    VerifyEmailDto,
+    ResendVerificationDto,
+} from '../email-verification';
 import { INTERNAL_HEADERS } from '@careflow/shared';
 
 @ApiTags('Authentication')
@@ -32,6 +50,9 @@ export class AuthController {
     constructor(
         private authService: AuthService,
         private userService: UserService,
+        private sessionService: SessionService,
+        private mfaService: MfaService,
+        private emailVerificationService: EmailVerificationService,
     ) { }
 
     @Post('register')
@@ -47,20 +68,46 @@ export class AuthController {
 
     @Post('login')
     @HttpCode(HttpStatus.OK)
-    @ApiOperation({ summary: 'Login and get tokens' })
+    @ApiOperation({ summary: 'Login and get tokens, or an MFA challenge' })
     @ApiResponse({ status: 200, type: LoginResponseDto })
+    @ApiResponse({ status: 200, type: MfaChallengeResponseDto, description: 'MFA required' })
     @ApiResponse({ status: 401, description: 'Invalid credentials' })
     async login(
         @Body() dto: LoginDto,
         @Req() req: Request,
         @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
-    ): Promise<LoginResponseDto> {
+    ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
         const ipAddress = req.ip || req.headers['x-forwarded-for']?.toString();
         const userAgent = req.headers['user-agent'];
 
         return this.authService.login(dto, ipAddress, userAgent, correlationId);
     }
 
+    @Post('login/mfa')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Answer the MFA challenge and get tokens' })
+    @ApiResponse({ status: 200, type: LoginResponseDto })
+    @ApiResponse({ status: 401, description: 'Invalid code or expired challenge' })
+    async loginWithMfa(
+        @Body() dto: MfaLoginDto,
+        @Req() req: Request,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<LoginResponseDto> {
+        const ipAddress = req.ip || req.headers['x-forwarded-for']?.toString();
+        const userAgent = req.headers['user-agent'];
+
+        return this.authService.loginWithMfa(dto, ipAddress, userAgent, correlationId);
+    }
+
+    @Post('login/mfa/enroll')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Enroll an authenticator during login, when the role requires MFA' })
+    @ApiResponse({ status: 200, type: MfaEnrollmentResponseDto })
+    @ApiResponse({ status: 400, description: 'Expired challenge' })
+    async enrollMfaWithChallenge(@Body() dto: MfaChallengeDto): Promise<MfaEnrollmentResponseDto> {
+        return this.mfaService.enrollWithChallenge(dto.challengeToken);
+    }
+
     @Post('refresh')
     @HttpCode(HttpStatus.OK)
     @ApiOperation({ summary: 'Refresh access token' })
@@ -69,11 +116,12 @@ export class AuthController {
     async refresh(
         @Body() dto: RefreshTokenDto,
         @Req() req: Request,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
     ): Promise<TokensResponseDto> {
         const ipAddress = req.ip || req.headers['x-forwarded-for']?.toString();
         const userAgent = req.headers['user-agent'];
 
-        return this.authService.refresh(dto, userAgent, ipAddress);
+        return this.authService.refresh(dto, userAgent, ipAddress, correlationId);
     }
 
     @Post('logout')
@@ -84,11 +132,115 @@ export class AuthController {
         @Body() body: { refreshToken?: string },
         @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
         @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+        @Headers(INTERNAL_HEADERS.TOKEN_ID) tokenId?: string,
+        @Headers(INTERNAL_HEADERS.TOKEN_EXPIRES_AT) tokenExpiresAt?: string,
     ): Promise<{ message: string }> {
-        await this.authService.logout(userId, body.refreshToken, correlationId);
+        await this.authService.logout(userId, body.refreshToken, correlationId, {
+            id: tokenId,
+            expiresAt: tokenExpiresAt ? Number(tokenExpiresAt) : undefined,
+        });
         return { message: 'Logged out successfully' };
     }
 
+    @Get('mfa')
+    @ApiOperation({ summary: 'MFA status of the current user' })
+    @ApiResponse({ status: 200, type: MfaStatusResponseDto })
+    async getMfaStatus(
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+    ): Promise<MfaStatusResponseDto> {
+        return this.mfaService.getStatus(userId);
+    }
+
+    @Post('mfa/enroll')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Start enrolling an authenticator app' })
+    @ApiResponse({ status: 200, type: MfaEnrollmentResponseDto })
+    @ApiResponse({ status: 409, description: 'MFA already enabled' })
+    async enrollMfa(
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+    ): Promise<MfaEnrollmentResponseDto> {
+        return this.mfaService.enroll(userId);
+    }
+
+    @Post('mfa/enable')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Confirm the enrolled authenticator with a code' })
+    @ApiResponse({ status: 200, type: RecoveryCodesResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid code' })
+    async enableMfa(
+        @Body() dto: MfaCodeDto,
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<RecoveryCodesResponseDto> {
+        const recoveryCodes = await this.mfaService.enable(userId, dto.code, correlationId);
+        return { recoveryCodes };
+    }
+
+    @Post('mfa/recovery-codes')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Replace the recovery codes' })
+    @ApiResponse({ status: 200, type: RecoveryCodesResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid code' })
+    async regenerateRecoveryCodes(
+        @Body() dto: MfaCodeDto,
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+    ): Promise<RecoveryCodesResponseDto> {
+        const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(userId, dto.code);
+        return { recoveryCodes };
+    }
+
+    @Post('mfa/disable')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Turn MFA off' })
+    @ApiResponse({ status: 200 })
+    @ApiResponse({ status: 403, description: 'MFA is required for the role' })
+    async disableMfa(
+        @Body() dto: MfaVerificationDto,
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<{ message: string }> {
+        await this.mfaService.disable(userId, dto, correlationId);
+        return { message: 'MFA disabled' };
+    }
+
+    @Get('sessions')
+    @ApiOperation({ summary: 'List the active sessions of the current user' })
+    @ApiResponse({ status: 200, type: [SessionResponseDto] })
+    async getSessions(
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+        @Headers(INTERNAL_HEADERS.SESSION_ID) sessionId?: string,
+    ): Promise<SessionResponseDto[]> {
+        return this.sessionService.findActive(userId, sessionId);
+    }
+
+    // Declared before sessions/:id so "others" is not taken for a session ID
+    @Delete('sessions/others')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Revoke every session except the current one' })
+    @ApiResponse({ status: 200 })
+    @ApiResponse({ status: 400, description: 'Current session unknown' })
+    async revokeOtherSessions(
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+        @Headers(INTERNAL_HEADERS.SESSION_ID) sessionId?: string,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<{ revoked: number }> {
+        const revoked = await this.sessionService.revokeOthers(userId, sessionId, correlationId);
+        return { revoked };
+    }
+
+    @Delete('sessions/:id')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Revoke a session of the current user' })
+    @ApiResponse({ status: 204 })
+    @ApiResponse({ status: 404, description: 'Session not found' })
+    async revokeSession(
+        @Param('id') id: string,
+        @Headers(INTERNAL_HEADERS.USER_ID) userId: string,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<void> {
+        await this.sessionService.revoke(userId, id, correlationId);
+    }
+
     @Post('forgot-password')
     @HttpCode(HttpStatus.OK)
     @ApiOperation({ summary: 'Request password reset' })
@@ -112,6 +264,29 @@ export class AuthController {
         return this.authService.resetPassword(dto, correlationId);
     }
 
+    @Post('verify-email')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Verify an email address with the token from its link' })
+    @ApiResponse({ status: 200 })
+    @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+    async verifyEmail(
+        @Body() dto: VerifyEmailDto,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<{ message: string }> {
+        return this.emailVerificationService.verify(dto.token, correlationId);
+    }
+
+    @Post('verify-email/resend')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Send a new email verification link' })
+    @ApiResponse({ status: 200 })
+    async resendVerificationEmail(
+        @Body() dto: ResendVerificationDto,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<{ message: string }> {
+        return this.emailVerificationService.resend(dto.email, correlationId);
+    }
+
     @Get('users/:id')
     @ApiOperation({ summary: 'Get user by ID' })
     @ApiResponse({ status: 200, type: UserResponseDto })
@@ -7,19 +7,29 @@ import { AuthController } from './auth.controller';
 import { UserModule } from '../user/user.module';
 import { User, UserSchema } from '../user/schemas/user.schema';
 import { AppConfigService } from '../config';
+import { KeysModule } from '../keys';
+import { RefreshTokenModule } from '../refresh-token';
+import { SessionModule } from '../session';
+import { MfaModule } from '../mfa';
+import { EmailVerificationModule } from '../email-verification';
 
 @Module({
     imports: [
         PassportModule.register({ defaultStrategy: 'jwt' }),
+        // Signing key and algorithm come from SigningKeyService per token
         JwtModule.registerAsync({
             inject: [AppConfigService],
             useFactory: (config: AppConfigService) => ({
-                secret: config.jwt.secret,
                 signOptions: { expiresIn: config.jwt.accessExpiresIn },
             }),
         }),
         MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
         UserModule,
+        KeysModule,
+        RefreshTokenModule,
+        SessionModule,
+        MfaModule,
+        EmailVerificationModule,
     ],
     controllers: [AuthController],
     providers: [AuthService],
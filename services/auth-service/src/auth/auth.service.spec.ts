@@ -0,0 +1,231 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
+import { EventName, UserRole } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { EmailVerificationPolicy } from '../config/config.validation';
+import { EmailVerificationService } from '../email-verification';
+import { SigningKeyService } from '../keys';
+import { MfaService } from '../mfa';
+import { OutboxService } from '../outbox';
+import { RefreshToken, RefreshTokenSchema, RefreshTokenService } from '../refresh-token';
+import { FakeOutbox, InMemoryModel } from '../testing';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { UserService } from '../user/user.service';
+import { AuthService } from './auth.service';
+import { LoginResponseDto } from './dto/auth.dto';
+
+const START = new Date('2026-03-02T09:00:00Z');
+
+describe('AuthService', () => {
+    let service: AuthService;
+    let refreshTokens: RefreshTokenService;
+    let emailVerification: EmailVerificationService;
+    let users: InMemoryModel;
+    let tokens: InMemoryModel;
+    let outbox: FakeOutbox;
+    let jwtService: { sign: jest.Mock };
+    let config: { emailVerification: { policy: EmailVerificationPolicy; expiresIn: string } };
+
+    beforeEach(async () => {
+        jest.useFakeTimers({ now: START });
+        users = new InMemoryModel(UserSchema);
+        tokens = new InMemoryModel(RefreshTokenSchema);
+        outbox = new FakeOutbox();
+        jwtService = { sign: jest.fn().mockReturnValue('access-token') };
+        config = { emailVerification: { policy: EmailVerificationPolicy.None, expiresIn: '24h' } };
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                AuthService,
+                RefreshTokenService,
+                UserService,
+                EmailVerificationService,
+                { provide: getModelToken(User.name), useValue: users },
+                { provide: getModelToken(RefreshToken.name), useValue: tokens },
+                { provide: JwtService, useValue: jwtService },
+                { provide: OutboxService, useValue: outbox },
+                { provide: MfaService, useValue: { createChallenge: async () => null } },
+                {
+                    provide: AppConfigService,
+                    useValue: Object.assign(config, {
+                        bcryptRounds: 4,
+                        jwt: { accessExpiresIn: '15m', refreshExpiresIn: '7d' },
+                    }),
+                },
+                {
+                    provide: SigningKeyService,
+                    useValue: {
+                        signingKey: async () => ({
+                            kid: 'key-1',
+                            algorithm: 'ES256',
+                            privateKey: 'private-key',
+                        }),
+                    },
+                },
+            ],
+        }).compile();
+
+        service = moduleRef.get(AuthService);
+        refreshTokens = moduleRef.get(RefreshTokenService);
+        emailVerification = moduleRef.get(EmailVerificationService);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    async function createUser(overrides: Record<string, unknown> = {}): Promise<string> {
+        const user = await users.create({
+            email: 'patient@example.com',
+            passwordHash: 'hash',
+            firstName: 'Test',
+            lastName: 'User',
+            roles: [UserRole.PATIENT],
+            ...overrides,
+        });
+        return user.id;
+    }
+
+    describe('refresh', () => {
+        let userId: string;
+
+        beforeEach(async () => {
+            userId = await createUser();
+        });
+
+        it('rotates the refresh token within its family', async () => {
+            const login = await refreshTokens.issue(userId);
+
+            const tokensResponse = await service.refresh({ refreshToken: login.token });
+
+            expect(tokensResponse).toMatchObject({ accessToken: 'access-token', expiresIn: 900 });
+            expect(tokensResponse.refreshToken).not.toBe(login.token);
+            expect(jwtService.sign).toHaveBeenCalledWith(
+                expect.objectContaining({ sub: userId, sid: login.familyId }),
+                expect.objectContaining({ keyid: 'key-1', algorithm: 'ES256' }),
+            );
+        });
+
+        it('revokes the whole family and every access token on reuse', async () => {
+            const login = await refreshTokens.issue(userId);
+            const { refreshToken: successor } = await service.refresh({
+                refreshToken: login.token,
+            });
+
+            await expect(
+                service.refresh({ refreshToken: login.token }, 'curl/8', '203.0.113.9', 'corr-1'),
+            ).rejects.toThrow('Refresh token reuse detected, please log in again');
+
+            await expect(service.refresh({ refreshToken: successor })).rejects.toThrow(
+                'Invalid refresh token',
+            );
+            expect(tokens.rows.map((row) => row.revokedReason)).toEqual([
+                'reuse_detected',
+                'reuse_detected',
+            ]);
+            expect(outbox.events).toEqual([
+                {
+                    eventName: EventName.REFRESH_TOKEN_REUSED,
+                    payload: {
+                        userId,
+                        familyId: login.familyId,
+                        userAgent: 'curl/8',
+                        ipAddress: '203.0.113.9',
+                        detectedAt: START.toISOString(),
+                    },
+                    correlationId: 'corr-1',
+                },
+                {
+                    eventName: EventName.TOKENS_REVOKED,
+                    payload: {
+                        userId,
+                        reason: 'refresh_token_reuse',
+                        notBefore: START.toISOString(),
+                        expiresAt: new Date(START.getTime() + 900_000).toISOString(),
+                    },
+                    correlationId: 'corr-1',
+                },
+            ]);
+        });
+
+        it('rejects an expired refresh token', async () => {
+            const login = await refreshTokens.issue(userId);
+            jest.setSystemTime(START.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+            await expect(service.refresh({ refreshToken: login.token })).rejects.toThrow(
+                'Refresh token expired',
+            );
+        });
+
+        it('rejects a refresh for a deactivated account', async () => {
+            const login = await refreshTokens.issue(userId);
+            await users.updateOne({ _id: userId }, { $set: { isActive: false } });
+
+            await expect(service.refresh({ refreshToken: login.token })).rejects.toThrow(
+                UnauthorizedException,
+            );
+        });
+    });
+
+    describe('email verification', () => {
+        let userId: string;
+
+        const login = () =>
+            service.login({ email: 'patient@example.com', password: 'SecurePass123!' });
+
+        // emailVerified claim of the last access token signed
+        const emailVerifiedClaim = () => jwtService.sign.mock.calls.at(-1)[0].emailVerified;
+
+        const verifyEmail = async () => {
+            await emailVerification.request(userId);
+            const [link] = outbox.payloads(EventName.EMAIL_VERIFICATION_REQUESTED);
+            await emailVerification.verify(link.verificationToken);
+        };
+
+        beforeEach(async () => {
+            userId = await createUser({ passwordHash: await bcrypt.hash('SecurePass123!', 4) });
+        });
+
+        it('refuses to log in an unverified user under the login policy', async () => {
+            config.emailVerification.policy = EmailVerificationPolicy.Login;
+
+            await expect(login()).rejects.toThrow(ForbiddenException);
+
+            expect(tokens.rows).toEqual([]);
+        });
+
+        it('logs in a verified user under the login policy', async () => {
+            config.emailVerification.policy = EmailVerificationPolicy.Login;
+            await verifyEmail();
+
+            await expect(login()).resolves.toMatchObject({ accessToken: 'access-token' });
+            expect(emailVerifiedClaim()).toBe(true);
+        });
+
+        it('flags an unverified user in the token under the booking policy', async () => {
+            config.emailVerification.policy = EmailVerificationPolicy.Booking;
+
+            await expect(login()).resolves.toMatchObject({ accessToken: 'access-token' });
+            expect(emailVerifiedClaim()).toBe(false);
+        });
+
+        it('puts the verification into the token issued by the next refresh', async () => {
+            config.emailVerification.policy = EmailVerificationPolicy.Booking;
+            const { refreshToken } = (await login()) as LoginResponseDto;
+
+            await verifyEmail();
+            await service.refresh({ refreshToken });
+
+            expect(emailVerifiedClaim()).toBe(true);
+        });
+
+        it('leaves the claim out without a policy', async () => {
+            await login();
+
+            expect(emailVerifiedClaim()).toBeUndefined();
+        });
+    });
+});
@@ -2,6 +2,7 @@ import {
     Injectable,
     UnauthorizedException,
     BadRequestException,
+    ForbiddenException,
     Logger,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
@@ -12,7 +13,13 @@ import { v4 as uuidv4 } from 'uuid';
 import { User, UserDocument } from '../user/schemas/user.schema';
 import { UserService } from '../user/user.service';
 import { AppConfigService } from '../config';
-import { RabbitMQService } from '../rabbitmq';
+import { OutboxService } from '../outbox';
+import { SigningKeyService } from '../keys';
+import { RefreshToken, RefreshTokenContext, RefreshTokenService } from '../refresh-token';
+import { MfaChallengeResponseDto, MfaLoginDto, MfaService } from '../mfa';
+import { EmailVerificationService } from '../email-verification';
+import { EmailVerificationPolicy } from '../config/config.validation';
+import { parseExpiresIn, revokeAllTokens, revokeToken } from './token-revocation';
 import {
     LoginDto,
     RegisterDto,
@@ -23,7 +30,7 @@ import {
     RegisterResponseDto,
     TokensResponseDto,
 } from './dto/auth.dto';
-import { JwtPayload, EventName, UserRole } from '@careflow/shared';
+import { JwtPayload, EventName, UserRole, TokensRevokedPayload } from '@careflow/shared';
 
 @Injectable()
 export class AuthService {
@@ -34,7 +41,11 @@ export class AuthService {
         private jwtService: JwtService,
         private userService: UserService,
         private config: AppConfigService,
-        private rabbitMQ: RabbitMQService,
+        private outbox: OutboxService,
+        private signingKeys: SigningKeyService,
+        private refreshTokens: RefreshTokenService,
+        private mfa: MfaService,
+        private emailVerification: EmailVerificationService,
     ) { }
 
     async register(dto: RegisterDto, correlationId?: string): Promise<RegisterResponseDto> {
@@ -50,6 +61,8 @@ export class AuthService {
             correlationId,
         );
 
+        await this.emailVerification.request(user.id, correlationId);
+
         return {
             userId: user.id,
             email: user.email,
@@ -57,30 +70,23 @@ export class AuthService {
         };
     }
 
+    /**
+     * Check the password. Users with MFA get a challenge to answer with
+     * loginWithMfa() instead of tokens.
+     */
     async login(
         dto: LoginDto,
         ipAddress?: string,
         userAgent?: string,
         correlationId?: string,
-    ): Promise<LoginResponseDto> {
+    ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
         const user = await this.userService.findByEmail(dto.email);
 
         if (!user) {
             throw new UnauthorizedException('Invalid credentials');
         }
 
-        if (!user.isActive) {
-            throw new UnauthorizedException('Account is deactivated');
-        }
-
-        if (user.lockoutUntil && user.lockoutUntil > new Date()) {
-            const remainingMinutes = Math.ceil(
-                (user.lockoutUntil.getTime() - Date.now()) / 60000,
-            );
-            throw new UnauthorizedException(
-                `Account locked. Try again in ${remainingMinutes} minutes`,
-            );
-        }
+        this.assertCanLogIn(user);
 
         const isPasswordValid = await this.userService.validatePassword(
             dto.password,
@@ -92,99 +98,143 @@ export class AuthService {
             throw new UnauthorizedException('Invalid credentials');
         }
 
-        await this.userService.recordSuccessfulLogin(user._id.toString(), ipAddress);
+        if (
+            this.emailVerification.policy === EmailVerificationPolicy.Login &&
+            !user.isEmailVerified
+        ) {
+            throw new ForbiddenException('Email address not verified');
+        }
 
-        const tokens = await this.generateTokens(user, userAgent, ipAddress);
+        const challenge = await this.mfa.createChallenge(user);
+        if (challenge) {
+            this.logger.log(`MFA challenge issued for: ${user.email}`);
+            return challenge;
+        }
 
-        await this.rabbitMQ.publishEvent(
-            EventName.USER_LOGIN,
-            {
-                userId: user._id.toString(),
-                email: user.email,
-                ipAddress,
-                timestamp: new Date().toISOString(),
-            },
-            correlationId,
-        );
+        return this.completeLogin(user, ipAddress, userAgent, correlationId);
+    }
 
-        this.logger.log(`User logged in: ${user.email}`);
+    /**
+     * Second login step: answer the MFA challenge with an authenticator or
+     * recovery code. Wrong codes count towards the account lockout.
+     */
+    async loginWithMfa(
+        dto: MfaLoginDto,
+        ipAddress?: string,
+        userAgent?: string,
+        correlationId?: string,
+    ): Promise<LoginResponseDto> {
+        const result = await this.mfa.answerChallenge(dto.challengeToken, dto, correlationId);
 
-        return {
-            ...tokens,
-            user: {
-                id: user._id.toString(),
-                email: user.email,
-                firstName: user.firstName,
-                lastName: user.lastName,
-                roles: user.roles,
-            },
-        };
+        if (result.status === 'expired') {
+            throw new UnauthorizedException('MFA challenge expired, please log in again');
+        }
+
+        const user = await this.userModel.findById(result.userId);
+
+        if (!user) {
+            throw new UnauthorizedException('Invalid credentials');
+        }
+
+        this.assertCanLogIn(user);
+
+        if (result.status === 'invalid') {
+            await this.userService.recordFailedLogin(result.userId);
+            throw new UnauthorizedException('Invalid MFA code');
+        }
+
+        const response = await this.completeLogin(user, ipAddress, userAgent, correlationId);
+
+        return { ...response, recoveryCodes: result.recoveryCodes };
     }
 
+    /**
+     * Exchange a refresh token for a new pair. The presented token is rotated out;
+     * presenting it again revokes its whole family and forces a new login.
+     */
     async refresh(
         dto: RefreshTokenDto,
         userAgent?: string,
         ipAddress?: string,
+        correlationId?: string,
     ): Promise<TokensResponseDto> {
-        const user = await this.userModel.findOne({
-            'refreshTokens.token': dto.refreshToken,
-        });
+        const check = await this.refreshTokens.consume(dto.refreshToken);
 
-        if (!user) {
-            throw new UnauthorizedException('Invalid refresh token');
+        if (check.status === 'reused') {
+            await this.revokeReusedFamily(check.token, userAgent, ipAddress, correlationId);
+            throw new UnauthorizedException('Refresh token reuse detected, please log in again');
         }
 
-        const tokenEntry = user.refreshTokens.find(
-            (rt) => rt.token === dto.refreshToken,
-        );
-
-        if (!tokenEntry || tokenEntry.expiresAt < new Date()) {
-            user.refreshTokens = user.refreshTokens.filter(
-                (rt) => rt.token !== dto.refreshToken,
-            );
-            await user.save();
+        if (check.status === 'expired') {
             throw new UnauthorizedException('Refresh token expired');
         }
 
-        if (!user.isActive) {
-            throw new UnauthorizedException('Account is deactivated');
+        if (check.status === 'invalid') {
+            throw new UnauthorizedException('Invalid refresh token');
         }
 
-        user.refreshTokens = user.refreshTokens.filter(
-            (rt) => rt.token !== dto.refreshToken,
-        );
+        const user = await this.userModel.findById(check.token.userId);
 
-        const tokens = await this.generateTokens(user, userAgent, ipAddress);
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('Account is deactivated');
+        }
+
+        const tokens = await this.generateTokens(user, {
+            familyId: check.token.familyId,
+            sessionStartedAt: check.token.sessionStartedAt,
+            userAgent,
+            ipAddress,
+        });
 
         this.logger.debug(`Token refreshed for user: ${user.email}`);
 
         return tokens;
     }
 
+    /**
+     * Logout from one device (refreshToken given) or all of them.
+     * The access token used for the call is revoked; logging out everywhere
+     * revokes every access token issued so far.
+     */
     async logout(
         userId: string,
         refreshToken?: string,
         correlationId?: string,
+        accessToken?: { id?: string; expiresAt?: number },
     ): Promise<void> {
         const user = await this.userModel.findById(userId);
 
         if (!user) return;
 
-        if (refreshToken) {
-            user.refreshTokens = user.refreshTokens.filter(
-                (rt) => rt.token !== refreshToken,
+        let revocation: TokensRevokedPayload | null = null;
+        if (!refreshToken) {
+            revocation = revokeAllTokens(
+                userId,
+                'logout',
+                this.config.jwt.accessExpiresIn,
+                accessToken?.id,
             );
-        } else {
-            user.refreshTokens = [];
+        } else if (accessToken?.id && accessToken.expiresAt) {
+            revocation = revokeToken(userId, 'logout', accessToken.id, accessToken.expiresAt);
         }
 
-        await user.save();
+        await this.outbox.transaction(async () => {
+            if (refreshToken) {
+                await this.refreshTokens.revokeByToken(userId, refreshToken, 'logout');
+            } else {
+                await this.refreshTokens.revokeAll(userId, 'logout');
+            }
+
+            await this.outbox.enqueue(
+                EventName.USER_LOGOUT,
+                { userId: user._id.toString(), email: user.email },
+                correlationId,
+            );
 
-        await this.rabbitMQ.publishEvent(
-            EventName.USER_LOGOUT,
-            { userId: user._id.toString(), email: user.email },
-            correlationId,
-        );
+            if (revocation) {
+                await this.outbox.enqueue(EventName.TOKENS_REVOKED, revocation, correlationId);
+            }
+        });
 
         this.logger.log(`User logged out: ${user.email}`);
     }
@@ -205,18 +255,20 @@ export class AuthService {
 
         user.passwordResetToken = resetToken;
         user.passwordResetExpires = resetExpires;
-        await user.save();
+        await this.outbox.transaction(async () => {
+            await user.save();
 
-        await this.rabbitMQ.publishEvent(
-            EventName.PASSWORD_RESET_REQUESTED,
-            {
-                userId: user._id.toString(),
-                email: user.email,
-                resetToken,
-                expiresAt: resetExpires.toISOString(),
-            },
-            correlationId,
-        );
+            await this.outbox.enqueue(
+                EventName.PASSWORD_RESET_REQUESTED,
+                {
+                    userId: user._id.toString(),
+                    email: user.email,
+                    resetToken,
+                    expiresAt: resetExpires.toISOString(),
+                },
+                correlationId,
+            );
+        });
 
         this.logger.log(`Password reset requested for: ${user.email}`);
 
@@ -239,74 +291,158 @@ export class AuthService {
         user.passwordHash = await bcrypt.hash(dto.newPassword, this.config.bcryptRounds);
         user.passwordResetToken = undefined;
         user.passwordResetExpires = undefined;
-        user.refreshTokens = [];
 
-        await user.save();
+        await this.outbox.transaction(async () => {
+            await user.save();
+            await this.refreshTokens.revokeAll(user._id.toString(), 'password_reset');
+
+            await this.outbox.enqueue(
+                EventName.TOKENS_REVOKED,
+                revokeAllTokens(
+                    user._id.toString(),
+                    'password_reset',
+                    this.config.jwt.accessExpiresIn,
+                ),
+                correlationId,
+            );
+        });
 
         this.logger.log(`Password reset completed for: ${user.email}`);
 
         return { message: 'Password reset successful' };
     }
 
-    private async generateTokens(
-        user: UserDocument,
+    /**
+     * A rotated refresh token came back: either the client or an attacker holds a
+     * stolen copy. The family is revoked, with every access token of the user.
+     */
+    private async revokeReusedFamily(
+        token: RefreshToken,
         userAgent?: string,
         ipAddress?: string,
+        correlationId?: string,
+    ): Promise<void> {
+        await this.outbox.transaction(async () => {
+            await this.refreshTokens.revokeFamily(token.familyId, 'reuse_detected');
+
+            await this.outbox.enqueue(
+                EventName.REFRESH_TOKEN_REUSED,
+                {
+                    userId: token.userId,
+                    familyId: token.familyId,
+                    ipAddress,
+                    userAgent,
+                    detectedAt: new Date().toISOString(),
+                },
+                correlationId,
+            );
+
+            await this.outbox.enqueue(
+                EventName.TOKENS_REVOKED,
+                revokeAllTokens(
+                    token.userId,
+                    'refresh_token_reuse',
+                    this.config.jwt.accessExpiresIn,
+                ),
+                correlationId,
+            );
+        });
+
+        this.logger.warn(
+            `Refresh token reuse for user ${token.userId}: family ${token.familyId} revoked`,
+        );
+    }
+
+    private assertCanLogIn(user: UserDocument): void {
+        if (!user.isActive) {
+            throw new UnauthorizedException('Account is deactivated');
+        }
+
+        if (user.lockoutUntil && user.lockoutUntil > new Date()) {
+            const remainingMinutes = Math.ceil(
+                (user.lockoutUntil.getTime() - Date.now()) / 60000,
+            );
+            throw new UnauthorizedException(
+                `Account locked. Try again in ${remainingMinutes} minutes`,
+            );
+        }
+    }
+
+    private async completeLogin(
+        user: UserDocument,
+        ipAddress?: string,
+        userAgent?: string,
+        correlationId?: string,
+    ): Promise<LoginResponseDto> {
+        const tokens = await this.outbox.transaction(async () => {
+            await this.userService.recordSuccessfulLogin(user._id.toString(), ipAddress);
+
+            const issued = await this.generateTokens(user, { userAgent, ipAddress });
+
+            await this.outbox.enqueue(
+                EventName.USER_LOGIN,
+                {
+                    userId: user._id.toString(),
+                    email: user.email,
+                    ipAddress,
+                    timestamp: new Date().toISOString(),
+                },
+                correlationId,
+            );
+
+            return issued;
+        });
+
+        this.logger.log(`User logged in: ${user.email}`);
+
+        return {
+            ...tokens,
+            user: {
+                id: user._id.toString(),
+                email: user.email,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                roles: user.roles,
+            },
+        };
+    }
+
+    private async generateTokens(
+        user: UserDocument,
+        context: RefreshTokenContext,
     ): Promise<TokensResponseDto> {
+        const refreshToken = await this.refreshTokens.issue(user._id.toString(), context);
+
         const payload: JwtPayload = {
             sub: user._id.toString(),
             email: user.email,
             roles: user.roles,
             permissions: user.permissions,
             departmentId: user.departmentId?.toString(),
+            jti: uuidv4(),
+            sid: refreshToken.familyId,
+            // The gateway enforces the policy from this claim
+            emailVerified:
+                this.emailVerification.policy === EmailVerificationPolicy.None
+                    ? undefined
+                    : user.isEmailVerified,
         };
 
+        const signingKey = await this.signingKeys.signingKey();
         const accessToken = this.jwtService.sign(payload, {
             expiresIn: this.config.jwt.accessExpiresIn,
+            algorithm: signingKey.algorithm,
+            keyid: signingKey.kid,
+            privateKey: signingKey.privateKey,
         });
 
-        const refreshToken = uuidv4();
-
-        const refreshExpiresIn = this.parseExpiresIn(this.config.jwt.refreshExpiresIn);
-        const refreshExpiresAt = new Date(Date.now() + refreshExpiresIn * 1000);
-
-        user.refreshTokens.push({
-            token: refreshToken,
-            expiresAt: refreshExpiresAt,
-            createdAt: new Date(),
-            userAgent,
-            ipAddress,
-        });
-
-        if (user.refreshTokens.length > 5) {
-            user.refreshTokens = user.refreshTokens.slice(-5);
-        }
-
-        await user.save();
-
-        const accessExpiresIn = this.parseExpiresIn(this.config.jwt.accessExpiresIn);
+        const accessExpiresIn = parseExpiresIn(this.config.jwt.accessExpiresIn);
 
         return {
             accessToken,
-            refreshToken,
+            refreshToken: refreshToken.token,
             expiresIn: accessExpiresIn,
             tokenType: 'Bearer',
         };
     }
-
-    private parseExpiresIn(expiresIn: string): number {
-        const match = expiresIn.match(/^(\d+)([smhd])$/);
-        if (!match) return 900;
-
-        const value = parseInt(match[1], 10);
-        const unit = match[2];
-
-        switch (unit) {
-            case 's': return value;
-            case 'm': return value * 60;
-            case 'h': return value * 60 * 60;
-            case 'd': return value * 24 * 60 * 60;
-            default: return 900;
-        }
-    }
 }
\ No newline at end of file
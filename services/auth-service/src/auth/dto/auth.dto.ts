@@ -103,6 +103,12 @@ export class LoginResponseDto extends TokensResponseDto {
         lastName: string;
         roles: string[];
     };
+
+    @ApiPropertyOptional({
+        type: [String],
+        description: 'Only when MFA was enrolled during this login; shown once',
+    })
+    recoveryCodes?: string[];
 }
 
 export class RegisterResponseDto {
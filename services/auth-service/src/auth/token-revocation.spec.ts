@@ -0,0 +1,65 @@
+import { parseExpiresIn, revokeAllTokens, revokeSession, revokeToken } from './token-revocation';
+
+const NOW = new Date('2026-03-02T09:00:00Z');
+
+describe('parseExpiresIn', () => {
+    it.each([
+        ['30s', 30],
+        ['15m', 900],
+        ['12h', 43_200],
+        ['7d', 604_800],
+    ])('reads %s as %d seconds', (expiresIn, seconds) => {
+        expect(parseExpiresIn(expiresIn)).toBe(seconds);
+    });
+
+    it.each(['', '15', '15 m', '1w', 'm15'])('falls back to 900 for "%s"', (expiresIn) => {
+        expect(parseExpiresIn(expiresIn)).toBe(900);
+    });
+});
+
+describe('token revocations', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('revoke every token issued until now for a full access TTL', () => {
+        expect(revokeAllTokens('user-1', 'password_change', '15m')).toEqual({
+            userId: 'user-1',
+            reason: 'password_change',
+            tokenId: undefined,
+            notBefore: NOW.toISOString(),
+            expiresAt: '2026-03-02T09:15:00.000Z',
+        });
+    });
+
+    it('pass the jti of the caller along when revoking everything', () => {
+        expect(revokeAllTokens('user-1', 'logout', '15m', 'token-1')).toMatchObject({
+            tokenId: 'token-1',
+            notBefore: NOW.toISOString(),
+        });
+    });
+
+    it('revoke a single token until its own expiry', () => {
+        const exp = NOW.getTime() / 1000 + 120;
+
+        expect(revokeToken('user-1', 'logout', 'token-1', exp)).toEqual({
+            userId: 'user-1',
+            reason: 'logout',
+            tokenId: 'token-1',
+            expiresAt: '2026-03-02T09:02:00.000Z',
+        });
+    });
+
+    it('revoke a session for a full access TTL', () => {
+        expect(revokeSession('user-1', 'family-1', '15m')).toEqual({
+            userId: 'user-1',
+            reason: 'session_revoked',
+            sessionId: 'family-1',
+            expiresAt: '2026-03-02T09:15:00.000Z',
+        });
+    });
+});
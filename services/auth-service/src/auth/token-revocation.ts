@@ -0,0 +1,75 @@
+import { TokensRevokedPayload } from '@careflow/shared';
+
+/**
+ * "30s", "15m", "12h", "7d" in seconds (900 when unreadable)
+ */
+export function parseExpiresIn(expiresIn: string): number {
+    const match = expiresIn.match(/^(\d+)([smhd])$/);
+    if (!match) return 900;
+
+    const value = parseInt(match[1], 10);
+    const unit = match[2];
+
+    switch (unit) {
+        case 's': return value;
+        case 'm': return value * 60;
+        case 'h': return value * 60 * 60;
+        case 'd': return value * 24 * 60 * 60;
+        default: return 900;
+    }
+}
+
+/**
+ * Revoke every access token issued to the user until now.
+ * The gateway keeps the revocation until the last of them expires.
+ */
+export function revokeAllTokens(
+    userId: string,
+    reason: TokensRevokedPayload['reason'],
+    accessExpiresIn: string,
+    tokenId?: string,
+): TokensRevokedPayload {
+    const now = Date.now();
+
+    return {
+        userId,
+        reason,
+        tokenId,
+        notBefore: new Date(now).toISOString(),
+        expiresAt: new Date(now + parseExpiresIn(accessExpiresIn) * 1000).toISOString(),
+    };
+}
+
+/**
+ * Revoke a single access token, until its own expiry (exp, in seconds)
+ */
+export function revokeToken(
+    userId: string,
+    reason: TokensRevokedPayload['reason'],
+    tokenId: string,
+    tokenExpiresAt: number,
+): TokensRevokedPayload {
+    return {
+        userId,
+        reason,
+        tokenId,
+        expiresAt: new Date(tokenExpiresAt * 1000).toISOString(),
+    };
+}
+
+/**
+ * Revoke every access token issued to one session (sid). Any of them may have
+ * been issued just now, so the gateway keeps the revocation for a full access TTL.
+ */
+export function revokeSession(
+    userId: string,
+    sessionId: string,
+    accessExpiresIn: string,
+): TokensRevokedPayload {
+    return {
+        userId,
+        reason: 'session_revoked',
+        sessionId,
+        expiresAt: new Date(Date.now() + parseExpiresIn(accessExpiresIn) * 1000).toISOString(),
+    };
+}
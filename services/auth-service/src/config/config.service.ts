@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService as NestConfigService } from '@nestjs/config';
-import { Environment } from './config.validation';
+import { UserRole } from '@careflow/shared';
+import { EmailVerificationPolicy, Environment, JwtAlgorithm } from './config.validation';
 
 @Injectable()
 export class AppConfigService {
@@ -28,7 +29,9 @@ export class AppConfigService {
 
     get jwt() {
         return {
-            secret: this.configService.get<string>('JWT_SECRET')!,
+            algorithm: this.configService.get<JwtAlgorithm>('JWT_ALGORITHM') ?? JwtAlgorithm.RS256,
+            keyPassphrase: this.configService.get<string>('JWT_KEY_PASSPHRASE')!,
+            keyRotationDays: this.configService.get<number>('JWT_KEY_ROTATION_DAYS') ?? 30,
             accessExpiresIn: this.configService.get<string>('JWT_ACCESS_EXPIRES_IN')!,
             refreshExpiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN')!,
         };
@@ -58,4 +61,32 @@ export class AppConfigService {
             from: this.configService.get<string>('SMTP_FROM')!,
         };
     }
-}
\ No newline at end of file
+
+    get outboxPollIntervalMs(): number {
+        return this.configService.get<number>('OUTBOX_POLL_INTERVAL_MS') ?? 1000;
+    }
+
+    get mfa() {
+        const requiredRoles =
+            this.configService.get<string>('MFA_REQUIRED_ROLES') ?? 'admin,doctor,nurse';
+
+        return {
+            encryptionKey: this.configService.get<string>('MFA_ENCRYPTION_KEY')!,
+            requiredRoles: requiredRoles
+                .split(',')
+                .map((role) => role.trim())
+                .filter(Boolean) as UserRole[],
+            issuer: this.configService.get<string>('MFA_ISSUER') ?? 'CareFlow',
+            challengeExpiresIn: this.configService.get<string>('MFA_CHALLENGE_EXPIRES_IN') ?? '5m',
+        };
+    }
+
+    get emailVerification() {
+        return {
+            policy:
+                this.configService.get<EmailVerificationPolicy>('EMAIL_VERIFICATION_POLICY') ??
+                EmailVerificationPolicy.None,
+            expiresIn: this.configService.get<string>('EMAIL_VERIFICATION_EXPIRES_IN') ?? '24h',
+        };
+    }
+}
@@ -7,7 +7,10 @@ import {
     validateSync,
     Min,
     Max,
+    MinLength,
+    Matches,
 } from 'class-validator';
+import { UserRole } from '@careflow/shared';
 
 export enum Environment {
     Development = 'development',
@@ -15,6 +18,22 @@ export enum Environment {
     Test = 'test',
 }
 
+export enum JwtAlgorithm {
+    RS256 = 'RS256',
+    ES256 = 'ES256',
+}
+
+// Comma-separated UserRole values; empty means no role requires MFA
+const ROLE = `(${Object.values(UserRole).join('|')})`;
+const ROLE_LIST = new RegExp(`^(\\s*${ROLE}\\s*(,\\s*${ROLE}\\s*)*)?$`);
+
+// What an unverified email address blocks
+export enum EmailVerificationPolicy {
+    None = 'none',
+    Login = 'login',
+    Booking = 'booking',
+}
+
 export class EnvironmentVariables {
     @IsEnum(Environment)
     NODE_ENV: Environment;
@@ -27,8 +46,18 @@ export class EnvironmentVariables {
     @IsString()
     MONGODB_URI: string;
 
+    // Encrypts the signing keys' private halves at rest
     @IsString()
-    JWT_SECRET: string;
+    JWT_KEY_PASSPHRASE: string;
+
+    @IsOptional()
+    @IsEnum(JwtAlgorithm)
+    JWT_ALGORITHM?: JwtAlgorithm;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    JWT_KEY_ROTATION_DAYS?: number;
 
     @IsString()
     JWT_ACCESS_EXPIRES_IN: string;
@@ -66,6 +95,37 @@ export class EnvironmentVariables {
 
     @IsString()
     SMTP_FROM: string;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(100)
+    OUTBOX_POLL_INTERVAL_MS?: number;
+
+    // Encrypts the users' TOTP secrets at rest
+    @IsString()
+    @MinLength(32)
+    MFA_ENCRYPTION_KEY: string;
+
+    // Roles that must use MFA, e.g. "admin,doctor,nurse"
+    @IsOptional()
+    @Matches(ROLE_LIST, { message: 'MFA_REQUIRED_ROLES must be a comma-separated list of roles' })
+    MFA_REQUIRED_ROLES?: string;
+
+    @IsOptional()
+    @IsString()
+    MFA_ISSUER?: string;
+
+    @IsOptional()
+    @IsString()
+    MFA_CHALLENGE_EXPIRES_IN?: string;
+
+    @IsOptional()
+    @IsEnum(EmailVerificationPolicy)
+    EMAIL_VERIFICATION_POLICY?: EmailVerificationPolicy;
+
+    @IsOptional()
+    @IsString()
+    EMAIL_VERIFICATION_EXPIRES_IN?: string;
 }
 
 export function validate(config: Record<string, unknown>) {
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, IsNotEmpty } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+// ==================== Request DTOs ====================
+
+export class VerifyEmailDto {
+    @ApiProperty({ description: 'Token from the verification link' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
+
+export class ResendVerificationDto {
+    @ApiProperty({ example: 'user@careflow.com' })
+    @IsEmail()
+    @IsNotEmpty()
+    @Transform(({ value }) => value?.toLowerCase().trim())
+    email: string;
+}
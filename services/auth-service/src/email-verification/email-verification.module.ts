@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { EmailVerificationService } from './email-verification.service';
+
+@Module({
+    imports: [MongooseModule.forFeature([{ name: User.name, schema: UserSchema }])],
+    providers: [EmailVerificationService],
+    exports: [EmailVerificationService],
+})
+export class EmailVerificationModule { }
\ No newline at end of file
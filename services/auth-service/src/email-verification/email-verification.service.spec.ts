@@ -0,0 +1,175 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { EventName, UserRole } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { EmailVerificationPolicy } from '../config/config.validation';
+import { OutboxService } from '../outbox';
+import { FakeOutbox, InMemoryModel } from '../testing';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { EmailVerificationService } from './email-verification.service';
+
+const START = new Date('2026-03-02T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('EmailVerificationService', () => {
+    let service: EmailVerificationService;
+    let users: InMemoryModel;
+    let outbox: FakeOutbox;
+    let userId: string;
+
+    beforeEach(async () => {
+        jest.useFakeTimers({ now: START });
+        users = new InMemoryModel(UserSchema);
+        outbox = new FakeOutbox();
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                EmailVerificationService,
+                { provide: getModelToken(User.name), useValue: users },
+                { provide: OutboxService, useValue: outbox },
+                {
+                    provide: AppConfigService,
+                    useValue: {
+                        emailVerification: {
+                            policy: EmailVerificationPolicy.Booking,
+                            expiresIn: '24h',
+                        },
+                    },
+                },
+            ],
+        }).compile();
+
+        service = moduleRef.get(EmailVerificationService);
+
+        const user = await users.create({
+            email: 'patient@example.com',
+            passwordHash: 'hash',
+            firstName: 'Test',
+            lastName: 'User',
+            roles: [UserRole.PATIENT],
+        });
+        userId = user.id;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    // The token from the last link emailed
+    const emailedToken = () =>
+        outbox.payloads(EventName.EMAIL_VERIFICATION_REQUESTED).at(-1)!.verificationToken;
+
+    describe('request', () => {
+        it('emails a link valid for EMAIL_VERIFICATION_EXPIRES_IN', async () => {
+            await service.request(userId, 'corr-1');
+
+            expect(outbox.events).toEqual([
+                {
+                    eventName: EventName.EMAIL_VERIFICATION_REQUESTED,
+                    payload: {
+                        userId,
+                        email: 'patient@example.com',
+                        firstName: 'Test',
+                        verificationToken: expect.any(String),
+                        expiresAt: new Date(START.getTime() + DAY_MS).toISOString(),
+                    },
+                    correlationId: 'corr-1',
+                },
+            ]);
+        });
+
+        it('stores only a hash of the token', async () => {
+            await service.request(userId);
+
+            const [row] = users.rows;
+            expect(row.emailVerificationToken).toBe(
+                createHash('sha256').update(emailedToken()).digest('hex'),
+            );
+        });
+
+        it('replaces the previous link', async () => {
+            await service.request(userId);
+            const previous = emailedToken();
+            await service.request(userId);
+
+            await expect(service.verify(previous)).rejects.toThrow(BadRequestException);
+            await expect(service.verify(emailedToken())).resolves.toBeDefined();
+        });
+
+        it('sends nothing for a verified address', async () => {
+            users.rows[0].isEmailVerified = true;
+
+            await service.request(userId);
+
+            expect(outbox.events).toEqual([]);
+        });
+    });
+
+    describe('resend', () => {
+        const answer = { message: 'If the address needs verifying, a new link will be sent' };
+
+        it('sends a new link, matching the address case-insensitively', async () => {
+            await expect(service.resend('Patient@Example.com')).resolves.toEqual(answer);
+
+            expect(outbox.payloads(EventName.EMAIL_VERIFICATION_REQUESTED)).toHaveLength(1);
+        });
+
+        it('answers the same for an unknown address without sending anything', async () => {
+            await expect(service.resend('nobody@example.com')).resolves.toEqual(answer);
+
+            expect(outbox.events).toEqual([]);
+        });
+
+        it('sends nothing to a deactivated account', async () => {
+            users.rows[0].isActive = false;
+
+            await expect(service.resend('patient@example.com')).resolves.toEqual(answer);
+
+            expect(outbox.events).toEqual([]);
+        });
+    });
+
+    describe('verify', () => {
+        beforeEach(async () => {
+            await service.request(userId);
+        });
+
+        it('marks the address verified and tells the client to refresh its token', async () => {
+            await expect(service.verify(emailedToken(), 'corr-2')).resolves.toEqual({
+                message: 'Email address verified; refresh the access token to use it',
+            });
+
+            expect(users.rows[0]).toMatchObject({ isEmailVerified: true });
+            expect(users.rows[0].emailVerificationToken).toBeUndefined();
+            expect(outbox.events.at(-1)).toEqual({
+                eventName: EventName.EMAIL_VERIFIED,
+                payload: { userId, email: 'patient@example.com' },
+                correlationId: 'corr-2',
+            });
+        });
+
+        it('accepts a link once', async () => {
+            const token = emailedToken();
+            await service.verify(token);
+
+            await expect(service.verify(token)).rejects.toThrow(
+                'Invalid or expired verification token',
+            );
+        });
+
+        it('rejects an expired link', async () => {
+            jest.setSystemTime(START.getTime() + DAY_MS);
+
+            await expect(service.verify(emailedToken())).rejects.toThrow(BadRequestException);
+            expect(users.rows[0].isEmailVerified).toBe(false);
+        });
+
+        it('rejects an unknown token', async () => {
+            await expect(service.verify('not-a-token')).rejects.toThrow(BadRequestException);
+
+            expect(outbox.payloads(EventName.EMAIL_VERIFIED)).toEqual([]);
+        });
+    });
+});
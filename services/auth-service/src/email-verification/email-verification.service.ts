@@ -0,0 +1,121 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { EventName } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { EmailVerificationPolicy } from '../config/config.validation';
+import { OutboxService } from '../outbox';
+import { parseExpiresIn } from '../auth/token-revocation';
+import { User, UserDocument } from '../user/schemas/user.schema';
+
+/**
+ * Email address verification.
+ *
+ * Registration sends a verification link: a token is stored on the user (by
+ * hash) and user.email_verification.requested is published for Notification
+ * Service to email. Requesting a new link replaces the previous one.
+ *
+ * EMAIL_VERIFICATION_POLICY decides what an unverified address blocks: nothing,
+ * logging in, or booking appointments (enforced by the gateway through the
+ * emailVerified claim of access tokens).
+ *
+ * Access tokens issued before verifying keep emailVerified: false until the
+ * client refreshes them. Verifying does not issue tokens itself: the link may be
+ * opened on another device, and must not work as a login.
+ */
+@Injectable()
+export class EmailVerificationService {
+    private readonly logger = new Logger(EmailVerificationService.name);
+
+    constructor(
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        private outbox: OutboxService,
+        private config: AppConfigService,
+    ) { }
+
+    get policy(): EmailVerificationPolicy {
+        return this.config.emailVerification.policy;
+    }
+
+    async request(userId: string, correlationId?: string): Promise<void> {
+        const user = await this.userModel.findById(userId);
+
+        if (!user || user.isEmailVerified) {
+            return;
+        }
+
+        const token = randomBytes(32).toString('base64url');
+        const expiresAt = new Date(
+            Date.now() + parseExpiresIn(this.config.emailVerification.expiresIn) * 1000,
+        );
+
+        user.emailVerificationToken = hashToken(token);
+        user.emailVerificationExpires = expiresAt;
+
+        await this.outbox.transaction(async () => {
+            await user.save();
+
+            await this.outbox.enqueue(
+                EventName.EMAIL_VERIFICATION_REQUESTED,
+                {
+                    userId: user._id.toString(),
+                    email: user.email,
+                    firstName: user.firstName,
+                    verificationToken: token,
+                    expiresAt: expiresAt.toISOString(),
+                },
+                correlationId,
+            );
+        });
+
+        this.logger.log(`Email verification requested for: ${user.email}`);
+    }
+
+    /**
+     * Send a new link. Answers the same whether or not the address is known,
+     * so it cannot be used to probe for accounts.
+     */
+    async resend(email: string, correlationId?: string): Promise<{ message: string }> {
+        const user = await this.userModel.findOne({ email: email.toLowerCase(), isActive: true });
+
+        if (user && !user.isEmailVerified) {
+            await this.request(user._id.toString(), correlationId);
+        }
+
+        return { message: 'If the address needs verifying, a new link will be sent' };
+    }
+
+    async verify(token: string, correlationId?: string): Promise<{ message: string }> {
+        const user = await this.userModel.findOne({
+            emailVerificationToken: hashToken(token),
+            emailVerificationExpires: { $gt: new Date() },
+        });
+
+        if (!user) {
+            throw new BadRequestException('Invalid or expired verification token');
+        }
+
+        user.isEmailVerified = true;
+        user.emailVerificationToken = undefined;
+        user.emailVerificationExpires = undefined;
+
+        await this.outbox.transaction(async () => {
+            await user.save();
+
+            await this.outbox.enqueue(
+                EventName.EMAIL_VERIFIED,
+                { userId: user._id.toString(), email: user.email },
+                correlationId,
+            );
+        });
+
+        this.logger.log(`Email verified: ${user.email}`);
+
+        return { message: 'Email address verified; refresh the access token to use it' };
+    }
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,3 @@
+export * from './email-verification.module';
+export * from './email-verification.service';
+export * from './dto/email-verification.dto';
\ No newline at end of file
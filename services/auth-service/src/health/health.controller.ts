@@ -2,15 +2,14 @@ import { Controller, Get } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { InjectConnection } from '@nestjs/mongoose';
 import { Connection } from 'mongoose';
-import { RabbitMQService } from '../rabbitmq';
-import { HealthCheckResponse, HealthCheck } from '@careflow/shared';
+import { HealthCheckResponse, HealthCheck, EventBus } from '@careflow/shared';
 
 @ApiTags('Health')
 @Controller('health')
 export class HealthController {
     constructor(
         @InjectConnection() private mongoConnection: Connection,
-        private rabbitMQ: RabbitMQService,
+        private eventBus: EventBus,
     ) { }
 
     @Get('live')
@@ -50,7 +49,7 @@ export class HealthController {
         if (!mongoReady) overallStatus = 'unhealthy';
 
         // RabbitMQ
-        const rabbitReady = this.rabbitMQ.isConnected();
+        const rabbitReady = this.eventBus.isConnected();
         checks.push({
             name: 'rabbitmq',
             status: rabbitReady ? 'pass' : 'warn',
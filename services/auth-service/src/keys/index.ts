@@ -0,0 +1,3 @@
+export * from './keys.module';
+export * from './signing-key.service';
+export * from './schemas/signing-key.schema';
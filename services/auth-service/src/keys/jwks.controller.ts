@@ -0,0 +1,16 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { SigningKeyService, JsonWebKeySet } from './signing-key.service';
+
+@ApiTags('Authentication')
+@Controller('.well-known')
+export class JwksController {
+    constructor(private signingKeys: SigningKeyService) { }
+
+    @Get('jwks.json')
+    @Header('Cache-Control', 'public, max-age=300')
+    @ApiOperation({ summary: 'Public keys for verifying access tokens (JWKS)' })
+    async jwks(): Promise<JsonWebKeySet> {
+        return this.signingKeys.jwks();
+    }
+}
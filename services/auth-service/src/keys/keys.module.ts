@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SigningKey, SigningKeySchema } from './schemas/signing-key.schema';
+import { SigningKeyService } from './signing-key.service';
+import { JwksController } from './jwks.controller';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([{ name: SigningKey.name, schema: SigningKeySchema }]),
+    ],
+    controllers: [JwksController],
+    providers: [SigningKeyService],
+    exports: [SigningKeyService],
+})
+export class KeysModule { }
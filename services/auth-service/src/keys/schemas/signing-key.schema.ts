@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { JwtAlgorithm } from '../../config/config.validation';
+
+/**
+ * Key pair access tokens are signed with. The newest key past its activation
+ * signs; older ones stay in the JWKS until the tokens they signed have expired.
+ */
+@Schema({
+    collection: 'signing_keys',
+    versionKey: false,
+})
+export class SigningKey {
+    // kid, in the header of every token the key signs
+    @Prop({ type: String, required: true })
+    _id: string;
+
+    @Prop({ type: String, required: true, enum: Object.values(JwtAlgorithm) })
+    algorithm: JwtAlgorithm;
+
+    // SPKI PEM
+    @Prop({ required: true })
+    publicKey: string;
+
+    // PKCS#8 PEM, encrypted with JWT_KEY_PASSPHRASE
+    @Prop({ required: true })
+    privateKey: string;
+
+    @Prop({ required: true, default: () => new Date() })
+    createdAt: Date;
+
+    // Signs from then on, published in the JWKS before; null for keys that signed right away
+    @Prop({ type: Date, default: null })
+    activatesAt: Date | null;
+
+    // A newer key takes over signing at this time
+    @Prop({ type: Date, default: null })
+    retiredAt: Date | null;
+
+    // Every token signed with the key has expired: dropped from the JWKS, then deleted
+    @Prop({ type: Date, default: null })
+    expiresAt: Date | null;
+}
+
+export type SigningKeyDocument = SigningKey & Document<string>;
+
+export const SigningKeySchema = SchemaFactory.createForClass(SigningKey);
+
+SigningKeySchema.index({ retiredAt: 1, createdAt: -1 });
+SigningKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,166 @@
+import { JwtAlgorithm } from '../config/config.validation';
+import { AppConfigService } from '../config';
+import { InMemoryModel } from '../testing';
+import { SigningKeySchema } from './schemas/signing-key.schema';
+import { SigningKeyService } from './signing-key.service';
+
+const START = new Date('2026-03-02T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The gateway refetches the JWKS for an unknown kid at most this often
+const GATEWAY_REFETCH_INTERVAL_MS = 30_000;
+
+describe('SigningKeyService', () => {
+    let keys: InMemoryModel;
+    let instances: SigningKeyService[];
+    let refresh: jest.SpyInstance;
+
+    // An Auth Service instance, sharing the keys collection with the others
+    const startInstance = (algorithm = JwtAlgorithm.ES256) => {
+        const config = {
+            jwt: {
+                algorithm,
+                keyPassphrase: 'test-key-passphrase',
+                keyRotationDays: 30,
+                accessExpiresIn: '15m',
+            },
+        } as unknown as AppConfigService;
+
+        const instance = new SigningKeyService(keys as never, config);
+        instance.onApplicationBootstrap();
+        instances.push(instance);
+        return instance;
+    };
+
+    const kids = async (instance: SigningKeyService) =>
+        (await instance.jwks()).keys.map((key) => key.kid);
+
+    // Key checks in flight, e.g. generating a key pair, have finished
+    const settle = () => Promise.allSettled(refresh.mock.results.map((result) => result.value));
+
+    // Let the instances' periodic key checks run
+    const advance = async (ms: number) => {
+        await jest.advanceTimersByTimeAsync(ms);
+        await settle();
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: START });
+        keys = new InMemoryModel(SigningKeySchema);
+        instances = [];
+        refresh = jest.spyOn(SigningKeyService.prototype as any, 'refresh');
+    });
+
+    afterEach(async () => {
+        await settle();
+        instances.forEach((instance) => instance.onModuleDestroy());
+        refresh.mockRestore();
+        jest.useRealTimers();
+    });
+
+    it('signs with the first key right away and publishes it', async () => {
+        const instance = startInstance();
+
+        const key = await instance.signingKey();
+
+        expect(key.algorithm).toBe(JwtAlgorithm.ES256);
+        await expect(kids(instance)).resolves.toEqual([key.kid]);
+    });
+
+    describe('rotation', () => {
+        let instance: SigningKeyService;
+        let oldKid: string;
+        let newKid: string;
+
+        beforeEach(async () => {
+            instance = startInstance();
+            oldKid = (await instance.signingKey()).kid;
+
+            // Rotation is due at the first check 30 days on
+            jest.setSystemTime(START.getTime() + 30 * DAY_MS);
+            await advance(60_000);
+
+            const published = await kids(instance);
+            expect(published).toHaveLength(2);
+            newKid = published[0];
+        });
+
+        it('publishes the new key before it signs', async () => {
+            expect(newKid).not.toBe(oldKid);
+            await expect(instance.signingKey()).resolves.toMatchObject({ kid: oldKid });
+        });
+
+        it('keeps signing with the old key for longer than the gateway refetch interval', async () => {
+            const [pending] = keys.rows.filter((row) => row._id === newKid);
+            const rotatedAt = Date.now();
+
+            expect(pending.activatesAt.getTime() - rotatedAt).toBeGreaterThanOrEqual(
+                GATEWAY_REFETCH_INTERVAL_MS,
+            );
+
+            await advance(GATEWAY_REFETCH_INTERVAL_MS);
+            await expect(instance.signingKey()).resolves.toMatchObject({ kid: oldKid });
+        });
+
+        it('signs with the new key once activated', async () => {
+            await advance(60_000);
+
+            await expect(instance.signingKey()).resolves.toMatchObject({ kid: newKid });
+        });
+
+        it('is picked up by instances starting meanwhile only once activated', async () => {
+            const other = startInstance();
+            await expect(other.signingKey()).resolves.toMatchObject({ kid: oldKid });
+
+            await advance(60_000);
+            await expect(other.signingKey()).resolves.toMatchObject({ kid: newKid });
+            expect(keys.rows).toHaveLength(2);
+        });
+
+        it('keeps the old key published until the tokens it signed have expired', async () => {
+            const activatesAt = keys.rows.find((row) => row._id === newKid)!.activatesAt;
+
+            // Access TTL plus two check intervals for instances still signing with it
+            jest.setSystemTime(activatesAt.getTime() + 15 * 60_000 + 2 * 60_000 - 1);
+            await expect(kids(instance)).resolves.toEqual([newKid, oldKid]);
+
+            jest.setSystemTime(activatesAt.getTime() + 15 * 60_000 + 2 * 60_000);
+            await expect(kids(instance)).resolves.toEqual([newKid]);
+        });
+    });
+
+    it('rotates when the algorithm changes', async () => {
+        const previous = startInstance(JwtAlgorithm.ES256);
+        const es256 = await previous.signingKey();
+        previous.onModuleDestroy();
+
+        // Redeployed with JWT_ALGORITHM=RS256 a day later
+        jest.setSystemTime(START.getTime() + DAY_MS);
+        const instance = startInstance(JwtAlgorithm.RS256);
+        await expect(instance.signingKey()).resolves.toMatchObject({
+            kid: es256.kid,
+            algorithm: JwtAlgorithm.ES256,
+        });
+
+        await advance(60_000);
+        await expect(instance.signingKey()).resolves.toMatchObject({
+            algorithm: JwtAlgorithm.RS256,
+        });
+    });
+
+    it('settles on one key when two instances rotate at once', async () => {
+        const first = startInstance();
+        const second = startInstance();
+        await Promise.all([first.signingKey(), second.signingKey()]);
+
+        jest.setSystemTime(START.getTime() + 30 * DAY_MS);
+        await advance(120_000);
+
+        const [signedByFirst, signedBySecond] = await Promise.all([
+            first.signingKey(),
+            second.signingKey(),
+        ]);
+        expect(signedByFirst.kid).toBe(signedBySecond.kid);
+        await expect(kids(first)).resolves.toContain(signedByFirst.kid);
+    });
+});
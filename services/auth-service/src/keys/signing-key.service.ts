@@ -0,0 +1,201 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createPrivateKey, createPublicKey, generateKeyPair, JsonWebKey, KeyObject } from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { AppConfigService } from '../config';
+import { JwtAlgorithm } from '../config/config.validation';
+import { parseExpiresIn } from '../auth/token-revocation';
+import { SigningKey, SigningKeyDocument } from './schemas/signing-key.schema';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+// How often each instance picks up keys rotated elsewhere and checks the rotation schedule
+const KEY_CHECK_INTERVAL_MS = 60_000;
+
+// A new key is published this long before it signs. The gateway refetches the JWKS for an
+// unknown kid at most every 30 seconds, so by then every gateway can know the key.
+const KEY_PUBLISH_LEAD_MS = 60_000;
+
+export interface ActiveSigningKey {
+    kid: string;
+    algorithm: JwtAlgorithm;
+    privateKey: KeyObject;
+}
+
+export interface JsonWebKeySet {
+    keys: Array<JsonWebKey & { kid: string; alg: JwtAlgorithm; use: 'sig' }>;
+}
+
+/**
+ * Manages the key pairs access tokens are signed with.
+ *
+ * A new key is generated when there is none, when the newest one is older than
+ * JWT_KEY_ROTATION_DAYS or when JWT_ALGORITHM changed. It is published in the JWKS
+ * a minute before it starts signing, so no gateway meets a kid it cannot fetch
+ * yet. The key it replaces signs until then and stays in the JWKS until the
+ * tokens it signed have expired, so the gateway accepts both during the overlap.
+ * Keys live in MongoDB, shared by all instances; private keys are stored
+ * encrypted with JWT_KEY_PASSPHRASE.
+ */
+@Injectable()
+export class SigningKeyService implements OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = new Logger(SigningKeyService.name);
+    private active?: ActiveSigningKey;
+    private timer?: NodeJS.Timeout;
+    private refreshing?: Promise<ActiveSigningKey>;
+
+    constructor(
+        @InjectModel(SigningKey.name) private keyModel: Model<SigningKeyDocument>,
+        private config: AppConfigService,
+    ) { }
+
+    onApplicationBootstrap() {
+        const check = () =>
+            this.refresh().catch((error) => this.logger.error('Signing key check failed', error));
+
+        void check();
+        this.timer = setInterval(() => void check(), KEY_CHECK_INTERVAL_MS);
+    }
+
+    onModuleDestroy() {
+        clearInterval(this.timer);
+    }
+
+    async signingKey(): Promise<ActiveSigningKey> {
+        return this.active ?? this.refresh();
+    }
+
+    /**
+     * Public keys of every key whose tokens may still be valid
+     */
+    async jwks(): Promise<JsonWebKeySet> {
+        const keys = await this.keyModel
+            .find({ $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] })
+            .sort({ createdAt: -1 })
+            .lean();
+
+        return {
+            keys: keys.map((key) => ({
+                ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+                kid: key._id,
+                alg: key.algorithm,
+                use: 'sig',
+            })),
+        };
+    }
+
+    // Load the key to sign with, rotating first when it is due
+    private async refresh(): Promise<ActiveSigningKey> {
+        this.refreshing ??= this.loadActiveKey().finally(() => {
+            this.refreshing = undefined;
+        });
+        return this.refreshing;
+    }
+
+    private async loadActiveKey(): Promise<ActiveSigningKey> {
+        const { algorithm, keyRotationDays } = this.config.jwt;
+
+        const newest = await this.keyModel
+            .findOne({ retiredAt: null })
+            .sort({ createdAt: -1 })
+            .lean<SigningKey>();
+
+        const rotationDue =
+            !newest ||
+            newest.algorithm !== algorithm ||
+            Date.now() - newest.createdAt.getTime() >= keyRotationDays * 24 * 60 * 60 * 1000;
+
+        if (rotationDue) {
+            // Without a key to sign with meanwhile, the new one has to sign right away
+            const current = await this.findSigningKey();
+            await this.rotate(current ? KEY_PUBLISH_LEAD_MS : 0);
+        }
+
+        const key = await this.findSigningKey();
+        if (!key) {
+            throw new Error('No signing key available');
+        }
+
+        this.active = {
+            kid: key._id,
+            algorithm: key.algorithm,
+            privateKey: createPrivateKey({
+                key: key.privateKey,
+                format: 'pem',
+                passphrase: this.config.jwt.keyPassphrase,
+            }),
+        };
+        return this.active;
+    }
+
+    // Newest key that has started signing
+    private async findSigningKey(): Promise<SigningKey | null> {
+        return this.keyModel
+            .findOne({ $or: [{ activatesAt: null }, { activatesAt: { $lte: new Date() } }] })
+            .sort({ createdAt: -1 })
+            .lean<SigningKey>();
+    }
+
+    /**
+     * Generate a key that signs after `activateInMs` and retire the older ones
+     * then. Two instances rotating at once both create a key; the newest signs
+     * and the other is retired like any old key.
+     */
+    private async rotate(activateInMs: number): Promise<void> {
+        const { algorithm, accessExpiresIn } = this.config.jwt;
+        const { publicKey, privateKey } = await this.generate(algorithm);
+
+        const activatesAt = new Date(Date.now() + activateInMs);
+        const key = await this.keyModel.create({
+            _id: uuidv4(),
+            algorithm,
+            publicKey,
+            privateKey,
+            activatesAt,
+        });
+
+        // Instances still signing with a retired key pick up the new one within a check interval
+        const expiresAt = new Date(
+            activatesAt.getTime() +
+                parseExpiresIn(accessExpiresIn) * 1000 +
+                2 * KEY_CHECK_INTERVAL_MS,
+        );
+        await this.keyModel.updateMany(
+            { createdAt: { $lt: key.createdAt }, retiredAt: null },
+            { $set: { retiredAt: activatesAt, expiresAt } },
+        );
+
+        this.logger.log(
+            `Signing key rotated: ${key._id} (${algorithm}), ` +
+            `signing from ${activatesAt.toISOString()}`,
+        );
+    }
+
+    private async generate(
+        algorithm: JwtAlgorithm,
+    ): Promise<{ publicKey: string; privateKey: string }> {
+        const publicKeyEncoding = { type: 'spki', format: 'pem' } as const;
+        const privateKeyEncoding = {
+            type: 'pkcs8',
+            format: 'pem',
+            cipher: 'aes-256-cbc',
+            passphrase: this.config.jwt.keyPassphrase,
+        } as const;
+
+        if (algorithm === JwtAlgorithm.ES256) {
+            return generateKeyPairAsync('ec', {
+                namedCurve: 'P-256',
+                publicKeyEncoding,
+                privateKeyEncoding,
+            });
+        }
+
+        return generateKeyPairAsync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding,
+            privateKeyEncoding,
+        });
+    }
+}
@@ -1,9 +1,13 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import * as mongoose from 'mongoose';
 import { AppModule } from './app.module';
 import { AppConfigService } from './config';
 
+// Queries inside connection.transaction() join its session without passing it around
+mongoose.set('transactionAsyncLocalStorage', true);
+
 async function bootstrap() {
     const logger = new Logger('Bootstrap');
 
@@ -0,0 +1,13 @@
+export const CLOCK = Symbol('CLOCK');
+
+/**
+ * Source of the current time for MFA checks. Bound to the CLOCK token so tests
+ * can pin TOTP steps and challenge expiry to a fixed instant.
+ */
+export interface Clock {
+    now(): Date;
+}
+
+export const systemClock: Clock = {
+    now: () => new Date(),
+};
@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, Matches, ValidateIf } from 'class-validator';
+
+const TOTP_CODE_REGEX = /^\d{6}$/;
+
+// ==================== Request DTOs ====================
+
+export class MfaCodeDto {
+    @ApiProperty({ example: '123456', description: 'Code from the authenticator app' })
+    @Matches(TOTP_CODE_REGEX, { message: 'code must be 6 digits' })
+    code: string;
+}
+
+// An authenticator code, or a recovery code when the authenticator is unavailable
+export class MfaVerificationDto {
+    @ApiPropertyOptional({ example: '123456' })
+    @ValidateIf((dto) => !dto.recoveryCode)
+    @Matches(TOTP_CODE_REGEX, { message: 'code must be 6 digits' })
+    code?: string;
+
+    @ApiPropertyOptional({ example: 'k7m2p-x9rtq' })
+    @ValidateIf((dto) => !dto.code)
+    @IsString()
+    @IsNotEmpty()
+    recoveryCode?: string;
+}
+
+export class MfaChallengeDto {
+    @ApiProperty({ description: 'challengeToken returned by POST /auth/login' })
+    @IsString()
+    @IsNotEmpty()
+    challengeToken: string;
+}
+
+export class MfaLoginDto extends MfaVerificationDto {
+    @ApiProperty({ description: 'challengeToken returned by POST /auth/login' })
+    @IsString()
+    @IsNotEmpty()
+    challengeToken: string;
+}
+
+// ==================== Response DTOs ====================
+
+export class MfaChallengeResponseDto {
+    @ApiProperty({ example: true })
+    mfaRequired: true;
+
+    @ApiProperty({ description: 'The role requires MFA: enroll an authenticator first' })
+    enrollmentRequired: boolean;
+
+    @ApiProperty()
+    challengeToken: string;
+
+    @ApiProperty({ description: 'Seconds until the challenge expires' })
+    expiresIn: number;
+}
+
+export class MfaEnrollmentResponseDto {
+    @ApiProperty({ description: 'Base32 TOTP secret, for manual entry' })
+    secret: string;
+
+    @ApiProperty({ description: 'otpauth:// URI to render as a QR code' })
+    otpauthUri: string;
+}
+
+export class MfaStatusResponseDto {
+    @ApiProperty()
+    enabled: boolean;
+
+    @ApiProperty({ description: 'The user\'s role requires MFA' })
+    required: boolean;
+
+    @ApiProperty()
+    recoveryCodesRemaining: number;
+}
+
+export class RecoveryCodesResponseDto {
+    @ApiProperty({ type: [String], description: 'Shown once; each works a single time' })
+    recoveryCodes: string[];
+}
@@ -0,0 +1,6 @@
+export * from './mfa.module';
+export * from './mfa.service';
+export * from './clock';
+export * from './dto/mfa.dto';
+export * from './schemas/mfa-credential.schema';
+export * from './schemas/mfa-challenge.schema';
\ No newline at end of file
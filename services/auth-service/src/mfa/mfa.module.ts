@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { MfaCredential, MfaCredentialSchema } from './schemas/mfa-credential.schema';
+import { MfaChallenge, MfaChallengeSchema } from './schemas/mfa-challenge.schema';
+import { CLOCK, systemClock } from './clock';
+import { MfaService } from './mfa.service';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            { name: MfaCredential.name, schema: MfaCredentialSchema },
+            { name: MfaChallenge.name, schema: MfaChallengeSchema },
+            { name: User.name, schema: UserSchema },
+        ]),
+    ],
+    providers: [MfaService, { provide: CLOCK, useValue: systemClock }],
+    exports: [MfaService],
+})
+export class MfaModule { }
\ No newline at end of file
@@ -0,0 +1,402 @@
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { EventName, UserRole } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { OutboxService } from '../outbox';
+import { FakeOutbox, InMemoryModel } from '../testing';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { CLOCK } from './clock';
+import { MfaService } from './mfa.service';
+import { MfaChallenge, MfaChallengeSchema } from './schemas/mfa-challenge.schema';
+import { MfaCredential, MfaCredentialSchema } from './schemas/mfa-credential.schema';
+import { totpCode, totpStep } from './totp';
+
+const START = new Date('2026-03-02T09:00:10Z');
+
+describe('MfaService', () => {
+    let service: MfaService;
+    let credentials: InMemoryModel;
+    let challenges: InMemoryModel;
+    let users: InMemoryModel;
+    let outbox: FakeOutbox;
+    let now: Date;
+
+    const advance = (seconds: number) => {
+        now = new Date(now.getTime() + seconds * 1000);
+    };
+    const currentCode = (secret: string) => totpCode(secret, totpStep(now));
+
+    beforeEach(async () => {
+        credentials = new InMemoryModel(MfaCredentialSchema);
+        challenges = new InMemoryModel(MfaChallengeSchema);
+        users = new InMemoryModel(UserSchema);
+        outbox = new FakeOutbox();
+        now = START;
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                MfaService,
+                { provide: getModelToken(MfaCredential.name), useValue: credentials },
+                { provide: getModelToken(MfaChallenge.name), useValue: challenges },
+                { provide: getModelToken(User.name), useValue: users },
+                { provide: CLOCK, useValue: { now: () => now } },
+                { provide: OutboxService, useValue: outbox },
+                {
+                    provide: AppConfigService,
+                    useValue: {
+                        mfa: {
+                            encryptionKey: 'test-encryption-key',
+                            requiredRoles: [UserRole.DOCTOR],
+                            issuer: 'CareFlow',
+                            challengeExpiresIn: '5m',
+                        },
+                    },
+                },
+            ],
+        }).compile();
+
+        service = moduleRef.get(MfaService);
+    });
+
+    async function createUser(email: string, roles: UserRole[]): Promise<string> {
+        const user = await users.create({
+            email,
+            passwordHash: 'hash',
+            firstName: 'Test',
+            lastName: 'User',
+            roles,
+        });
+        return user.id;
+    }
+
+    async function enableMfa(userId: string) {
+        const { secret } = await service.enroll(userId);
+        const recoveryCodes = await service.enable(userId, currentCode(secret));
+        return { secret, recoveryCodes };
+    }
+
+    async function challenge(userId: string) {
+        const result = await service.createChallenge(await users.findById(userId));
+        return result!;
+    }
+
+    describe('TOTP codes', () => {
+        let userId: string;
+        let secret: string;
+
+        beforeEach(async () => {
+            userId = await createUser('patient@example.com', [UserRole.PATIENT]);
+            ({ secret } = await enableMfa(userId));
+        });
+
+        it('rejects the enrollment code replayed in the same step', async () => {
+            const { challengeToken } = await challenge(userId);
+
+            await expect(
+                service.answerChallenge(challengeToken, { code: currentCode(secret) }),
+            ).resolves.toEqual({ status: 'invalid', userId });
+        });
+
+        it('accepts a code once per step', async () => {
+            advance(30);
+            const code = currentCode(secret);
+
+            await expect(service.regenerateRecoveryCodes(userId, code)).resolves.toHaveLength(10);
+            await expect(service.regenerateRecoveryCodes(userId, code)).rejects.toThrow(
+                BadRequestException,
+            );
+        });
+
+        it('accepts a replayed code only once when answered concurrently', async () => {
+            advance(30);
+            const first = await challenge(userId);
+            const second = await challenge(userId);
+            const code = currentCode(secret);
+
+            const results = await Promise.all([
+                service.answerChallenge(first.challengeToken, { code }),
+                service.answerChallenge(second.challengeToken, { code }),
+            ]);
+
+            expect(results.map((result) => result.status).sort()).toEqual(['invalid', 'valid']);
+        });
+
+        it('rejects an older code inside the drift window once a newer one was used', async () => {
+            advance(60);
+            const previous = totpCode(secret, totpStep(now) - 1);
+            await service.regenerateRecoveryCodes(userId, currentCode(secret));
+
+            await expect(service.regenerateRecoveryCodes(userId, previous)).rejects.toThrow(
+                'Invalid MFA code',
+            );
+        });
+
+        it('accepts a code from the previous step to allow for clock drift', async () => {
+            advance(60);
+            const previous = totpCode(secret, totpStep(now) - 1);
+
+            await expect(service.regenerateRecoveryCodes(userId, previous)).resolves.toHaveLength(
+                10,
+            );
+        });
+    });
+
+    describe('recovery codes', () => {
+        let userId: string;
+        let secret: string;
+        let recoveryCodes: string[];
+
+        beforeEach(async () => {
+            userId = await createUser('patient@example.com', [UserRole.PATIENT]);
+            ({ secret, recoveryCodes } = await enableMfa(userId));
+        });
+
+        it('are single use', async () => {
+            const [recoveryCode] = recoveryCodes;
+
+            const first = await challenge(userId);
+            await expect(
+                service.answerChallenge(first.challengeToken, { recoveryCode }),
+            ).resolves.toEqual({ status: 'valid', userId });
+
+            const second = await challenge(userId);
+            await expect(
+                service.answerChallenge(second.challengeToken, { recoveryCode }),
+            ).resolves.toEqual({ status: 'invalid', userId });
+
+            await expect(service.getStatus(userId)).resolves.toMatchObject({
+                recoveryCodesRemaining: 9,
+            });
+        });
+
+        it('ignore case and separators', async () => {
+            const { challengeToken } = await challenge(userId);
+            const typed = recoveryCodes[0].toUpperCase().replace('-', ' ');
+
+            await expect(
+                service.answerChallenge(challengeToken, { recoveryCode: typed }),
+            ).resolves.toMatchObject({ status: 'valid' });
+        });
+
+        it('stop working once regenerated', async () => {
+            advance(30);
+            await service.regenerateRecoveryCodes(userId, currentCode(secret));
+
+            const { challengeToken } = await challenge(userId);
+            await expect(
+                service.answerChallenge(challengeToken, { recoveryCode: recoveryCodes[0] }),
+            ).resolves.toMatchObject({ status: 'invalid' });
+        });
+    });
+
+    describe('login challenges', () => {
+        let userId: string;
+        let secret: string;
+
+        beforeEach(async () => {
+            userId = await createUser('patient@example.com', [UserRole.PATIENT]);
+        });
+
+        it('are not issued when MFA does not apply', async () => {
+            await expect(service.createChallenge(await users.findById(userId))).resolves.toBeNull();
+        });
+
+        describe('with MFA enabled', () => {
+            beforeEach(async () => {
+                ({ secret } = await enableMfa(userId));
+                advance(30);
+            });
+
+            it('are issued without enrollment', async () => {
+                await expect(challenge(userId)).resolves.toMatchObject({
+                    mfaRequired: true,
+                    enrollmentRequired: false,
+                    expiresIn: 300,
+                });
+            });
+
+            it('can be answered only once', async () => {
+                const { challengeToken } = await challenge(userId);
+
+                await expect(
+                    service.answerChallenge(challengeToken, { code: currentCode(secret) }),
+                ).resolves.toMatchObject({ status: 'valid' });
+
+                advance(30);
+                await expect(
+                    service.answerChallenge(challengeToken, { code: currentCode(secret) }),
+                ).resolves.toEqual({ status: 'expired' });
+            });
+
+            it('expire after MFA_CHALLENGE_EXPIRES_IN', async () => {
+                const { challengeToken } = await challenge(userId);
+                advance(300);
+
+                await expect(
+                    service.answerChallenge(challengeToken, { code: currentCode(secret) }),
+                ).resolves.toEqual({ status: 'expired' });
+            });
+
+            it('are still valid just before expiring', async () => {
+                const { challengeToken } = await challenge(userId);
+                advance(299);
+
+                await expect(
+                    service.answerChallenge(challengeToken, { code: currentCode(secret) }),
+                ).resolves.toMatchObject({ status: 'valid' });
+            });
+
+            it('are dropped after five wrong codes', async () => {
+                const { challengeToken } = await challenge(userId);
+
+                for (let attempt = 0; attempt < 5; attempt++) {
+                    await expect(
+                        service.answerChallenge(challengeToken, { code: '000000' }),
+                    ).resolves.toEqual({ status: 'invalid', userId });
+                }
+
+                await expect(
+                    service.answerChallenge(challengeToken, { code: currentCode(secret) }),
+                ).resolves.toEqual({ status: 'expired' });
+            });
+
+            it('are unknown for a token that was never issued', async () => {
+                await expect(
+                    service.answerChallenge('not-a-challenge', { code: currentCode(secret) }),
+                ).resolves.toEqual({ status: 'expired' });
+            });
+        });
+    });
+
+    describe('required roles', () => {
+        let doctorId: string;
+
+        beforeEach(async () => {
+            doctorId = await createUser('doctor@example.com', [UserRole.DOCTOR]);
+        });
+
+        it('apply to users holding any of the roles', () => {
+            expect(service.isRequiredFor([UserRole.PATIENT, UserRole.DOCTOR])).toBe(true);
+            expect(service.isRequiredFor([UserRole.PATIENT])).toBe(false);
+        });
+
+        it('enroll through the login challenge', async () => {
+            const { challengeToken, enrollmentRequired } = await challenge(doctorId);
+            expect(enrollmentRequired).toBe(true);
+
+            const { secret } = await service.enrollWithChallenge(challengeToken);
+            const result = await service.answerChallenge(
+                challengeToken,
+                { code: currentCode(secret) },
+                'corr-1',
+            );
+
+            expect(result).toMatchObject({ status: 'valid', userId: doctorId });
+            expect(result.status === 'valid' && result.recoveryCodes).toHaveLength(10);
+            await expect(service.getStatus(doctorId)).resolves.toEqual({
+                enabled: true,
+                required: true,
+                recoveryCodesRemaining: 10,
+            });
+            expect(outbox.events).toEqual([
+                {
+                    eventName: EventName.MFA_ENABLED,
+                    payload: { userId: doctorId, email: 'doctor@example.com' },
+                    correlationId: 'corr-1',
+                },
+            ]);
+        });
+
+        it('do not enable MFA on a wrong enrollment code', async () => {
+            const { challengeToken } = await challenge(doctorId);
+            await service.enrollWithChallenge(challengeToken);
+
+            await expect(
+                service.answerChallenge(challengeToken, { code: '000000' }),
+            ).resolves.toEqual({ status: 'invalid', userId: doctorId });
+            await expect(service.getStatus(doctorId)).resolves.toMatchObject({ enabled: false });
+        });
+
+        it('stop enrollment once the challenge expired', async () => {
+            const { challengeToken } = await challenge(doctorId);
+            advance(300);
+
+            await expect(service.enrollWithChallenge(challengeToken)).rejects.toThrow(
+                BadRequestException,
+            );
+        });
+
+        it('prevent disabling MFA', async () => {
+            const { secret } = await enableMfa(doctorId);
+            advance(30);
+
+            await expect(
+                service.disable(doctorId, { code: currentCode(secret) }),
+            ).rejects.toThrow(ForbiddenException);
+            expect(credentials.rows).toHaveLength(1);
+        });
+
+        it('do not prevent other users from disabling MFA', async () => {
+            const patientId = await createUser('patient@example.com', [UserRole.PATIENT]);
+            const { secret } = await enableMfa(patientId);
+            advance(30);
+
+            await service.disable(patientId, { code: currentCode(secret) }, 'corr-2');
+
+            expect(credentials.rows).toHaveLength(0);
+            expect(outbox.payloads(EventName.MFA_DISABLED)).toEqual([
+                { userId: patientId, email: 'patient@example.com', reason: 'user' },
+            ]);
+        });
+    });
+
+    describe('reset', () => {
+        let doctorId: string;
+
+        beforeEach(async () => {
+            doctorId = await createUser('doctor@example.com', [UserRole.DOCTOR]);
+        });
+
+        it('removes the authenticator and open challenges', async () => {
+            await enableMfa(doctorId);
+            const { challengeToken } = await challenge(doctorId);
+
+            await service.reset(doctorId, 'admin-1', 'corr-3');
+
+            expect(credentials.rows).toHaveLength(0);
+            expect(challenges.rows).toHaveLength(0);
+            expect(outbox.events).toContainEqual({
+                eventName: EventName.MFA_DISABLED,
+                payload: {
+                    userId: doctorId,
+                    email: 'doctor@example.com',
+                    reason: 'admin_reset',
+                    actorId: 'admin-1',
+                },
+                correlationId: 'corr-3',
+            });
+            await expect(
+                service.answerChallenge(challengeToken, { code: '000000' }),
+            ).resolves.toEqual({ status: 'expired' });
+        });
+
+        it('makes a required user enroll again at the next login', async () => {
+            await enableMfa(doctorId);
+            await service.reset(doctorId, 'admin-1');
+
+            await expect(challenge(doctorId)).resolves.toMatchObject({ enrollmentRequired: true });
+        });
+
+        it('fails when MFA is not set up', async () => {
+            await expect(service.reset(doctorId, 'admin-1')).rejects.toThrow(NotFoundException);
+            expect(outbox.events).toHaveLength(0);
+        });
+
+        it('fails for an unknown user', async () => {
+            await expect(service.reset('65f000000000000000000000')).rejects.toThrow(
+                NotFoundException,
+            );
+        });
+    });
+});
@@ -0,0 +1,413 @@
+import {
+    ConflictException,
+    ForbiddenException,
+    BadRequestException,
+    Inject,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { EventName, UserRole } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { OutboxService } from '../outbox';
+import { parseExpiresIn } from '../auth/token-revocation';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import { CLOCK, Clock } from './clock';
+import { MfaCredential, MfaCredentialDocument } from './schemas/mfa-credential.schema';
+import { MfaChallenge, MfaChallengeDocument } from './schemas/mfa-challenge.schema';
+import { generateTotpSecret, matchTotp, otpauthUri } from './totp';
+import {
+    decryptTotpSecret,
+    encryptTotpSecret,
+    generateRecoveryCodes,
+    hashRecoveryCode,
+} from './mfa-secrets';
+import {
+    MfaChallengeResponseDto,
+    MfaEnrollmentResponseDto,
+    MfaStatusResponseDto,
+    MfaVerificationDto,
+} from './dto/mfa.dto';
+
+// Wrong codes accepted per challenge before the user has to enter the password again
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+/**
+ * Outcome of answering a login challenge:
+ * - valid:   the code checked out; recoveryCodes when it also completed enrollment
+ * - invalid: wrong code, the challenge stays open for another attempt
+ * - expired: unknown, expired or out of attempts
+ */
+export type MfaChallengeResult =
+    | { status: 'valid'; userId: string; recoveryCodes?: string[] }
+    | { status: 'invalid'; userId: string }
+    | { status: 'expired' };
+
+/**
+ * TOTP multi-factor authentication.
+ *
+ * Users enroll an authenticator app and confirm it with a first code, which
+ * yields one-time recovery codes. Once enabled, or when MFA_REQUIRED_ROLES
+ * includes one of the user's roles, login returns a challenge that has to be
+ * answered with a code before tokens are issued; a required user without an
+ * authenticator enrolls through the challenge.
+ */
+@Injectable()
+export class MfaService {
+    private readonly logger = new Logger(MfaService.name);
+
+    constructor(
+        @InjectModel(MfaCredential.name) private credentialModel: Model<MfaCredentialDocument>,
+        @InjectModel(MfaChallenge.name) private challengeModel: Model<MfaChallengeDocument>,
+        @InjectModel(User.name) private userModel: Model<UserDocument>,
+        @Inject(CLOCK) private clock: Clock,
+        private outbox: OutboxService,
+        private config: AppConfigService,
+    ) { }
+
+    isRequiredFor(roles: UserRole[]): boolean {
+        return roles.some((role) => this.config.mfa.requiredRoles.includes(role));
+    }
+
+    async getStatus(userId: string): Promise<MfaStatusResponseDto> {
+        const user = await this.findUser(userId);
+        const credential = await this.credentialModel.findById(userId).lean<MfaCredential>();
+
+        return {
+            enabled: !!credential?.enabledAt,
+            required: this.isRequiredFor(user.roles),
+            recoveryCodesRemaining: credential?.enabledAt ? credential.recoveryCodes.length : 0,
+        };
+    }
+
+    /**
+     * Challenge to answer before tokens are issued, or null when MFA does not
+     * apply to the user
+     */
+    async createChallenge(user: UserDocument): Promise<MfaChallengeResponseDto | null> {
+        const userId = user._id.toString();
+        const enabled = await this.isEnabled(userId);
+
+        if (!enabled && !this.isRequiredFor(user.roles)) {
+            return null;
+        }
+
+        const challengeToken = randomBytes(32).toString('base64url');
+        const expiresIn = parseExpiresIn(this.config.mfa.challengeExpiresIn);
+
+        await this.challengeModel.create({
+            _id: hashToken(challengeToken),
+            userId,
+            enrollmentRequired: !enabled,
+            expiresAt: new Date(this.clock.now().getTime() + expiresIn * 1000),
+        });
+
+        return { mfaRequired: true, enrollmentRequired: !enabled, challengeToken, expiresIn };
+    }
+
+    /**
+     * Answer a login challenge. When the user has no authenticator enabled yet,
+     * a valid code confirms the one enrolled with the challenge.
+     */
+    async answerChallenge(
+        challengeToken: string,
+        verification: MfaVerificationDto,
+        correlationId?: string,
+    ): Promise<MfaChallengeResult> {
+        const challenge = await this.challengeModel
+            .findOneAndUpdate(
+                {
+                    _id: hashToken(challengeToken),
+                    expiresAt: { $gt: this.clock.now() },
+                    attempts: { $lt: MAX_CHALLENGE_ATTEMPTS },
+                },
+                { $inc: { attempts: 1 } },
+                { new: true },
+            )
+            .lean<MfaChallenge>();
+
+        if (!challenge) {
+            return { status: 'expired' };
+        }
+
+        const { userId } = challenge;
+        const credential = await this.credentialModel.findById(userId).lean<MfaCredential>();
+
+        let recoveryCodes: string[] | null = null;
+        let valid = false;
+
+        if (credential?.enabledAt) {
+            valid = await this.verify(credential, verification);
+        } else if (credential && verification.code) {
+            // Enrolled with this challenge: the first valid code enables MFA
+            recoveryCodes = await this.confirmEnrollment(
+                credential,
+                verification.code,
+                correlationId,
+            );
+            valid = recoveryCodes !== null;
+        }
+
+        if (!valid) {
+            return { status: 'invalid', userId };
+        }
+
+        await this.challengeModel.deleteOne({ _id: challenge._id });
+        return { status: 'valid', userId, recoveryCodes: recoveryCodes ?? undefined };
+    }
+
+    /**
+     * Start enrolling an authenticator from a login challenge, for users whose
+     * role requires MFA
+     */
+    async enrollWithChallenge(challengeToken: string): Promise<MfaEnrollmentResponseDto> {
+        const challenge = await this.challengeModel
+            .findOne({
+                _id: hashToken(challengeToken),
+                expiresAt: { $gt: this.clock.now() },
+                attempts: { $lt: MAX_CHALLENGE_ATTEMPTS },
+            })
+            .lean<MfaChallenge>();
+
+        if (!challenge) {
+            throw new BadRequestException('MFA challenge expired, please log in again');
+        }
+
+        return this.enroll(challenge.userId);
+    }
+
+    /**
+     * New TOTP secret, pending until confirmed with a code. Enrolling again
+     * before confirming replaces the pending secret.
+     */
+    async enroll(userId: string): Promise<MfaEnrollmentResponseDto> {
+        const user = await this.findUser(userId);
+
+        if (await this.isEnabled(userId)) {
+            throw new ConflictException('MFA is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+
+        await this.credentialModel.updateOne(
+            { _id: userId },
+            {
+                $set: {
+                    secret: encryptTotpSecret(secret, this.config.mfa.encryptionKey),
+                    enabledAt: null,
+                    recoveryCodes: [],
+                    lastUsedStep: null,
+                },
+            },
+            { upsert: true },
+        );
+
+        return { secret, otpauthUri: otpauthUri(secret, user.email, this.config.mfa.issuer) };
+    }
+
+    /**
+     * Confirm the pending authenticator with a code from it. Returns the
+     * recovery codes, shown to the user this one time.
+     */
+    async enable(userId: string, code: string, correlationId?: string): Promise<string[]> {
+        const credential = await this.credentialModel.findById(userId).lean<MfaCredential>();
+
+        if (!credential) {
+            throw new BadRequestException('No authenticator enrolled');
+        }
+        if (credential.enabledAt) {
+            throw new ConflictException('MFA is already enabled');
+        }
+
+        const recoveryCodes = await this.confirmEnrollment(credential, code, correlationId);
+        if (!recoveryCodes) {
+            throw new BadRequestException('Invalid MFA code');
+        }
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Replace the recovery codes, e.g. when running low. The old ones stop working.
+     */
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+        const credential = await this.findEnabledCredential(userId);
+
+        if (!(await this.verify(credential, { code }))) {
+            throw new BadRequestException('Invalid MFA code');
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await this.credentialModel.updateOne(
+            { _id: userId },
+            { $set: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) } },
+        );
+
+        return recoveryCodes;
+    }
+
+    async disable(
+        userId: string,
+        verification: MfaVerificationDto,
+        correlationId?: string,
+    ): Promise<void> {
+        const user = await this.findUser(userId);
+
+        if (this.isRequiredFor(user.roles)) {
+            throw new ForbiddenException('MFA is required for your role');
+        }
+
+        const credential = await this.findEnabledCredential(userId);
+
+        if (!(await this.verify(credential, verification))) {
+            throw new BadRequestException('Invalid MFA code');
+        }
+
+        await this.outbox.transaction(async () => {
+            await this.credentialModel.deleteOne({ _id: userId });
+            await this.outbox.enqueue(
+                EventName.MFA_DISABLED,
+                { userId, email: user.email, reason: 'user' },
+                correlationId,
+            );
+        });
+
+        this.logger.log(`MFA disabled by user: ${user.email}`);
+    }
+
+    /**
+     * Admin reset, e.g. after a lost device. The user enrolls again, at the next
+     * login when the role requires MFA.
+     */
+    async reset(userId: string, actorId?: string, correlationId?: string): Promise<void> {
+        const user = await this.findUser(userId);
+
+        await this.outbox.transaction(async () => {
+            const { deletedCount } = await this.credentialModel.deleteOne({ _id: userId });
+            if (!deletedCount) {
+                throw new NotFoundException('MFA is not set up for this user');
+            }
+
+            await this.challengeModel.deleteMany({ userId });
+            await this.outbox.enqueue(
+                EventName.MFA_DISABLED,
+                { userId, email: user.email, reason: 'admin_reset', actorId },
+                correlationId,
+            );
+        });
+
+        this.logger.log(`MFA reset for user ${user.email} by ${actorId ?? 'unknown'}`);
+    }
+
+    private async confirmEnrollment(
+        credential: MfaCredential,
+        code: string,
+        correlationId?: string,
+    ): Promise<string[] | null> {
+        const secret = decryptTotpSecret(credential.secret, this.config.mfa.encryptionKey);
+        const step = matchTotp(secret, code, this.clock.now());
+
+        if (step === null) {
+            return null;
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        const user = await this.findUser(credential._id);
+
+        await this.outbox.transaction(async () => {
+            await this.credentialModel.updateOne(
+                { _id: credential._id },
+                {
+                    $set: {
+                        enabledAt: this.clock.now(),
+                        lastUsedStep: step,
+                        recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+                    },
+                },
+            );
+            await this.outbox.enqueue(
+                EventName.MFA_ENABLED,
+                { userId: credential._id, email: user.email },
+                correlationId,
+            );
+        });
+
+        this.logger.log(`MFA enabled for user: ${user.email}`);
+        return recoveryCodes;
+    }
+
+    /**
+     * Check an authenticator code, at most once per TOTP step, or spend a recovery code
+     */
+    private async verify(
+        credential: MfaCredential,
+        verification: MfaVerificationDto,
+    ): Promise<boolean> {
+        if (verification.code) {
+            const secret = decryptTotpSecret(credential.secret, this.config.mfa.encryptionKey);
+            const step = matchTotp(secret, verification.code, this.clock.now());
+
+            if (step === null) {
+                return false;
+            }
+
+            // Conditional on the last step: a code replayed concurrently is accepted once
+            const { modifiedCount } = await this.credentialModel.updateOne(
+                {
+                    _id: credential._id,
+                    $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }],
+                },
+                { $set: { lastUsedStep: step } },
+            );
+            return modifiedCount === 1;
+        }
+
+        if (verification.recoveryCode) {
+            const hash = hashRecoveryCode(verification.recoveryCode);
+            const { modifiedCount } = await this.credentialModel.updateOne(
+                { _id: credential._id, recoveryCodes: hash },
+                { $pull: { recoveryCodes: hash } },
+            );
+
+            if (modifiedCount === 1) {
+                this.logger.warn(`Recovery code used by user ${credential._id}`);
+            }
+            return modifiedCount === 1;
+        }
+
+        return false;
+    }
+
+    private async isEnabled(userId: string): Promise<boolean> {
+        return !!(await this.credentialModel.exists({ _id: userId, enabledAt: { $ne: null } }));
+    }
+
+    private async findEnabledCredential(userId: string): Promise<MfaCredential> {
+        const credential = await this.credentialModel
+            .findOne({ _id: userId, enabledAt: { $ne: null } })
+            .lean<MfaCredential>();
+
+        if (!credential) {
+            throw new BadRequestException('MFA is not enabled');
+        }
+
+        return credential;
+    }
+
+    private async findUser(userId: string): Promise<UserDocument> {
+        const user = await this.userModel.findById(userId);
+
+        if (!user) {
+            throw new NotFoundException(`User not found: ${userId}`);
+        }
+
+        return user;
+    }
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Second login step, handed out once the password checked out. The token is
+ * opaque (not a JWT) so it can never pass for an access token, and is stored
+ * by hash only.
+ */
+@Schema({
+    collection: 'mfa_challenges',
+    versionKey: false,
+})
+export class MfaChallenge {
+    // sha256 of the challenge token
+    @Prop({ type: String, required: true })
+    _id: string;
+
+    @Prop({ required: true })
+    userId: string;
+
+    // The user's role requires MFA but no authenticator is enabled yet
+    @Prop({ required: true })
+    enrollmentRequired: boolean;
+
+    // Wrong codes entered; the challenge is dropped after too many
+    @Prop({ default: 0 })
+    attempts: number;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+}
+
+export type MfaChallengeDocument = MfaChallenge & Document<string>;
+
+export const MfaChallengeSchema = SchemaFactory.createForClass(MfaChallenge);
+
+MfaChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * A user's TOTP authenticator. Created unconfirmed on enrollment and enabled
+ * once the user proves the app produces valid codes.
+ */
+@Schema({
+    collection: 'mfa_credentials',
+    versionKey: false,
+    timestamps: true,
+})
+export class MfaCredential {
+    // The user's ID: one authenticator per user
+    @Prop({ type: String, required: true })
+    _id: string;
+
+    // Base32 TOTP secret, encrypted with MFA_ENCRYPTION_KEY
+    @Prop({ required: true })
+    secret: string;
+
+    @Prop({ type: Date, default: null })
+    enabledAt: Date | null;
+
+    // sha256 of the recovery codes not used yet
+    @Prop({ type: [String], default: [] })
+    recoveryCodes: string[];
+
+    // TOTP step of the last accepted code, so a code cannot be replayed
+    @Prop({ type: Number, default: null })
+    lastUsedStep: number | null;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type MfaCredentialDocument = MfaCredential & Document<string>;
+
+export const MfaCredentialSchema = SchemaFactory.createForClass(MfaCredential);
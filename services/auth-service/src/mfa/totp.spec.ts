@@ -0,0 +1,68 @@
+import { matchTotp, otpauthUri, totpCode, totpStep } from './totp';
+
+// RFC 6238 appendix B, SHA-1 seed "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe('totpCode', () => {
+    // The RFC lists 8 digits; authenticator apps use the last 6
+    it.each([
+        [59, '287082'],
+        [1111111109, '081804'],
+        [1111111111, '050471'],
+        [1234567890, '005924'],
+        [2000000000, '279037'],
+        [20000000000, '353130'],
+    ])('matches the RFC 6238 test vector at T=%d', (seconds, expected) => {
+        expect(totpCode(RFC_SECRET, totpStep(at(seconds)))).toBe(expected);
+    });
+});
+
+describe('matchTotp', () => {
+    const now = at(1111111111);
+    const step = totpStep(now);
+
+    it('returns the step of the current code', () => {
+        expect(matchTotp(RFC_SECRET, '050471', now)).toBe(step);
+    });
+
+    it('allows one step of drift either way', () => {
+        expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+        expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+        expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+        expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull();
+    });
+
+    it('honours a custom window', () => {
+        expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now, 2)).toBe(step - 2);
+        expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now, 0)).toBeNull();
+    });
+
+    it('ignores whitespace in the code', () => {
+        expect(matchTotp(RFC_SECRET, '050 471', now)).toBe(step);
+    });
+
+    it.each(['', '50471', '0504711', '05047a'])('rejects malformed code "%s"', (code) => {
+        expect(matchTotp(RFC_SECRET, code, now)).toBeNull();
+    });
+});
+
+describe('otpauthUri', () => {
+    it('encodes the label and parameters authenticator apps expect', () => {
+        const uri = new URL(otpauthUri(RFC_SECRET, 'jane@example.com', 'CareFlow'));
+
+        expect(`${uri.protocol}//${uri.host}`).toBe('otpauth://totp');
+        expect(decodeURIComponent(uri.pathname)).toBe('/CareFlow:jane@example.com');
+        expect(Object.fromEntries(uri.searchParams)).toEqual({
+            secret: RFC_SECRET,
+            issuer: 'CareFlow',
+            algorithm: 'SHA1',
+            digits: '6',
+            period: '30',
+        });
+    });
+});
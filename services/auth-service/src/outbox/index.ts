@@ -0,0 +1,4 @@
+export * from './outbox.module';
+export * from './outbox.service';
+export * from './outbox-relay.service';
+export * from './schemas/outbox-event.schema';
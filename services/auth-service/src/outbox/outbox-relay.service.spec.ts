@@ -0,0 +1,154 @@
+import { Registry } from 'prom-client';
+import { BaseEvent, EventBus } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { MetricsService } from '../metrics/metrics.service';
+import { InMemoryModel } from '../testing';
+import { OutboxEventSchema } from './schemas/outbox-event.schema';
+import { OutboxRelayService } from './outbox-relay.service';
+
+const START = new Date('2026-03-02T09:00:00Z');
+
+describe('OutboxRelayService', () => {
+    let relay: OutboxRelayService;
+    let outbox: InMemoryModel;
+    let publishEvent: jest.Mock;
+
+    const published = () =>
+        publishEvent.mock.calls.map(([event]: [BaseEvent<unknown>]) => event.eventId);
+
+    const row = (eventId: string) => outbox.rows.find((candidate) => candidate._id === eventId)!;
+
+    // Stored a second apart, so creation order is unambiguous
+    const store = async (...eventIds: string[]) => {
+        for (const eventId of eventIds) {
+            const event = { eventId, eventName: 'user.registered', payload: {} };
+            await outbox.create({ _id: eventId, eventName: event.eventName, event });
+            jest.advanceTimersByTime(1000);
+        }
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: START });
+        outbox = new InMemoryModel(OutboxEventSchema);
+        publishEvent = jest.fn().mockResolvedValue(undefined);
+
+        relay = new OutboxRelayService(
+            outbox as never,
+            { publishEvent } as unknown as EventBus,
+            { outboxPollIntervalMs: 1000 } as AppConfigService,
+            { registry: new Registry() } as MetricsService,
+        );
+    });
+
+    afterEach(() => {
+        relay.onModuleDestroy();
+        jest.useRealTimers();
+    });
+
+    it('publishes pending events oldest first', async () => {
+        await store('event-1', 'event-2', 'event-3');
+
+        await relay.relay();
+
+        expect(published()).toEqual(['event-1', 'event-2', 'event-3']);
+    });
+
+    it('marks an event published once the broker confirms', async () => {
+        await store('event-1');
+
+        await relay.relay();
+
+        expect(row('event-1')).toMatchObject({
+            publishedAt: new Date(Date.now()),
+            attempts: 1,
+            lastError: null,
+            lockedUntil: null,
+        });
+    });
+
+    it('does not publish an event twice', async () => {
+        await store('event-1');
+
+        await relay.relay();
+        await relay.relay();
+
+        expect(published()).toEqual(['event-1']);
+    });
+
+    describe('when a publish fails', () => {
+        beforeEach(async () => {
+            await store('event-1', 'event-2', 'event-3');
+            publishEvent.mockImplementation(async (event: BaseEvent<unknown>) => {
+                if (event.eventId === 'event-2') {
+                    throw new Error('Broker unavailable');
+                }
+            });
+
+            await relay.relay();
+        });
+
+        it('stops, so later events wait for it', async () => {
+            expect(published()).toEqual(['event-1', 'event-2']);
+            expect(row('event-3').publishedAt).toBeNull();
+        });
+
+        it('records the attempt and releases the event', async () => {
+            expect(row('event-2')).toMatchObject({
+                publishedAt: null,
+                attempts: 1,
+                lastError: 'Broker unavailable',
+                lockedUntil: null,
+            });
+        });
+
+        it('retries it first on the next pass', async () => {
+            publishEvent.mockClear().mockResolvedValue(undefined);
+
+            await relay.relay();
+
+            expect(published()).toEqual(['event-2', 'event-3']);
+            expect(row('event-2').attempts).toBe(2);
+        });
+    });
+
+    it('skips an event another instance has claimed until its lease ends', async () => {
+        await store('event-1', 'event-2');
+        row('event-1').lockedUntil = new Date(Date.now() + 30_000);
+
+        await relay.relay();
+        expect(published()).toEqual(['event-2']);
+
+        jest.advanceTimersByTime(30_000);
+        await relay.relay();
+        expect(published()).toEqual(['event-2', 'event-1']);
+    });
+
+    it('runs one pass at a time', async () => {
+        await store('event-1', 'event-2');
+        let confirm!: () => void;
+        const publishing = new Promise<void>((started) =>
+            publishEvent.mockImplementationOnce(() => {
+                started();
+                return new Promise<void>((resolve) => (confirm = resolve));
+            }),
+        );
+
+        const first = relay.relay();
+        await publishing;
+        await relay.relay();
+        expect(published()).toEqual(['event-1']);
+
+        confirm();
+        await first;
+        expect(published()).toEqual(['event-1', 'event-2']);
+    });
+
+    it('polls once started', async () => {
+        relay.onApplicationBootstrap();
+        await store('event-1');
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(published()).toEqual(['event-1']);
+    });
+});
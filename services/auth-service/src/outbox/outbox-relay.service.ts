@@ -0,0 +1,155 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Counter, Gauge, Histogram } from 'prom-client';
+import { MetricsService } from '../metrics/metrics.service';
+import { AppConfigService } from '../config';
+import { OutboxEvent, OutboxEventDocument } from './schemas/outbox-event.schema';
+import { EventBus } from '@careflow/shared';
+
+// How long a claimed event stays reserved for the relay that claimed it
+const CLAIM_LEASE_MS = 30_000;
+
+/**
+ * Publishes committed outbox events oldest first and marks them published once the
+ * broker confirms. Each event is claimed with a short lease, so several instances can
+ * relay side by side. A failed publish ends the pass and is retried on the next poll;
+ * consumers dedupe by eventId, so an event published twice is harmless.
+ */
+@Injectable()
+export class OutboxRelayService implements OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = new Logger(OutboxRelayService.name);
+    private timer?: NodeJS.Timeout;
+    private relaying = false;
+
+    private readonly published: Counter<'event_name'>;
+    private readonly failures: Counter<'event_name'>;
+    private readonly publishLag: Histogram;
+
+    constructor(
+        @InjectModel(OutboxEvent.name) private outboxModel: Model<OutboxEventDocument>,
+        private eventBus: EventBus,
+        private config: AppConfigService,
+        metrics: MetricsService,
+    ) {
+        const registers = [metrics.registry];
+        const outbox = this.outboxModel;
+
+        this.published = new Counter({
+            name: 'careflow_outbox_published_total',
+            help: 'Outbox events published and confirmed by the broker',
+            labelNames: ['event_name'],
+            registers,
+        });
+        this.failures = new Counter({
+            name: 'careflow_outbox_publish_failures_total',
+            help: 'Failed attempts to publish an outbox event',
+            labelNames: ['event_name'],
+            registers,
+        });
+        this.publishLag = new Histogram({
+            name: 'careflow_outbox_publish_lag_seconds',
+            help: 'Time from writing an outbox event to its broker confirm',
+            buckets: [0.05, 0.1, 0.5, 1, 2, 5, 15, 60, 300],
+            registers,
+        });
+        new Gauge({
+            name: 'careflow_outbox_pending_events',
+            help: 'Outbox events not yet published',
+            registers,
+            async collect() {
+                this.set(await outbox.countDocuments({ publishedAt: null }));
+            },
+        });
+        new Gauge({
+            name: 'careflow_outbox_oldest_pending_age_seconds',
+            help: 'Age of the oldest unpublished outbox event (0 when none)',
+            registers,
+            async collect() {
+                const oldest = await outbox
+                    .findOne({ publishedAt: null }, { createdAt: 1 })
+                    .sort({ createdAt: 1 })
+                    .lean();
+                this.set(oldest ? (Date.now() - oldest.createdAt.getTime()) / 1000 : 0);
+            },
+        });
+    }
+
+    onApplicationBootstrap() {
+        this.timer = setInterval(() => void this.relay(), this.config.outboxPollIntervalMs);
+    }
+
+    onModuleDestroy() {
+        clearInterval(this.timer);
+    }
+
+    // Drain the outbox until it is empty or a publish fails
+    async relay(): Promise<void> {
+        if (this.relaying) {
+            return;
+        }
+
+        this.relaying = true;
+        try {
+            let more = true;
+            while (more) {
+                more = await this.relayNext();
+            }
+        } catch (error) {
+            this.logger.error('Outbox relay failed', error);
+        } finally {
+            this.relaying = false;
+        }
+    }
+
+    // Returns true when an event was published, i.e. more may be waiting
+    private async relayNext(): Promise<boolean> {
+        const now = new Date();
+
+        const row = await this.outboxModel
+            .findOneAndUpdate(
+                {
+                    publishedAt: null,
+                    $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+                },
+                { $set: { lockedUntil: new Date(now.getTime() + CLAIM_LEASE_MS) } },
+                { sort: { createdAt: 1 }, new: true },
+            )
+            .lean();
+
+        if (!row) {
+            return false;
+        }
+
+        try {
+            await this.eventBus.publishEvent(row.event);
+        } catch (error) {
+            this.failures.inc({ event_name: row.eventName });
+            await this.outboxModel.updateOne(
+                { _id: row._id },
+                {
+                    $inc: { attempts: 1 },
+                    $set: {
+                        lastError: error instanceof Error ? error.message : String(error),
+                        lockedUntil: null,
+                    },
+                },
+            );
+            return false;
+        }
+
+        const publishedAt = new Date();
+        await this.outboxModel.updateOne(
+            { _id: row._id },
+            {
+                $inc: { attempts: 1 },
+                $set: { publishedAt, lockedUntil: null, lastError: null },
+            },
+        );
+
+        this.published.inc({ event_name: row.eventName });
+        this.publishLag.observe((publishedAt.getTime() - row.createdAt.getTime()) / 1000);
+
+        return true;
+    }
+}
@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OutboxEvent, OutboxEventSchema } from './schemas/outbox-event.schema';
+import { OutboxService } from './outbox.service';
+import { OutboxRelayService } from './outbox-relay.service';
+
+@Global()
+@Module({
+    imports: [
+        MongooseModule.forFeature([{ name: OutboxEvent.name, schema: OutboxEventSchema }]),
+    ],
+    providers: [OutboxService, OutboxRelayService],
+    exports: [OutboxService],
+})
+export class OutboxModule { }
@@ -0,0 +1,92 @@
+import { EventBus, EventName, EventValidationError } from '@careflow/shared';
+import { InMemoryModel } from '../testing';
+import { OutboxEventSchema } from './schemas/outbox-event.schema';
+import { OutboxService } from './outbox.service';
+
+describe('OutboxService', () => {
+    let service: OutboxService;
+    let outbox: InMemoryModel;
+    let hello: jest.Mock;
+    let transaction: jest.Mock;
+
+    beforeEach(() => {
+        outbox = new InMemoryModel(OutboxEventSchema);
+        hello = jest.fn().mockResolvedValue({ setName: 'rs0' });
+        transaction = jest.fn((fn: () => Promise<unknown>) => fn());
+
+        const connection = { db: { admin: () => ({ command: hello }) }, transaction };
+        const eventBus = new EventBus(
+            { url: 'amqp://localhost:5672', serviceName: 'auth-service' },
+            {} as never,
+            {} as never,
+            {} as never,
+        );
+        service = new OutboxService(connection as never, outbox as never, eventBus);
+    });
+
+    describe('enqueue', () => {
+        const payload = {
+            userId: 'user-1',
+            reason: 'logout' as const,
+            expiresAt: '2026-03-02T09:15:00.000Z',
+        };
+
+        it('stores the event envelope under its eventId, pending', async () => {
+            const event = await service.enqueue(EventName.TOKENS_REVOKED, payload, 'corr-1');
+
+            expect(event).toMatchObject({ source: 'auth-service', correlationId: 'corr-1' });
+            expect(outbox.rows).toEqual([
+                expect.objectContaining({
+                    _id: event.eventId,
+                    eventName: EventName.TOKENS_REVOKED,
+                    event,
+                    attempts: 0,
+                    publishedAt: null,
+                }),
+            ]);
+        });
+
+        it('stores nothing for a payload that does not match the schema', async () => {
+            await expect(
+                service.enqueue(EventName.TOKENS_REVOKED, {} as never),
+            ).rejects.toThrow(EventValidationError);
+
+            expect(outbox.rows).toEqual([]);
+        });
+    });
+
+    describe('transaction', () => {
+        it('runs in a MongoDB transaction on a replica set', async () => {
+            await expect(service.transaction(async () => 'done')).resolves.toBe('done');
+
+            expect(transaction).toHaveBeenCalledTimes(1);
+        });
+
+        it('runs as plain writes on a standalone server', async () => {
+            hello.mockResolvedValue({ isWritablePrimary: true });
+
+            await expect(service.transaction(async () => 'done')).resolves.toBe('done');
+
+            expect(transaction).not.toHaveBeenCalled();
+        });
+
+        it('asks the server once', async () => {
+            await service.transaction(async () => undefined);
+            await service.transaction(async () => undefined);
+
+            expect(hello).toHaveBeenCalledTimes(1);
+        });
+
+        it('asks again after the server could not be reached', async () => {
+            hello.mockRejectedValueOnce(new Error('connection refused'));
+
+            await expect(service.transaction(async () => undefined)).rejects.toThrow(
+                'connection refused',
+            );
+            await service.transaction(async () => undefined);
+
+            expect(hello).toHaveBeenCalledTimes(2);
+            expect(transaction).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import { OutboxEvent, OutboxEventDocument } from './schemas/outbox-event.schema';
+import { EventBus, EventName, EventOf, EventPayloadMap } from '@careflow/shared';
+
+/**
+ * Writes events to the outbox as part of the caller's transaction.
+ * They are published by OutboxRelayService once the transaction has committed, so an
+ * event exists exactly when the change it describes does.
+ */
+@Injectable()
+export class OutboxService {
+    private readonly logger = new Logger(OutboxService.name);
+    private transactionsSupported?: Promise<boolean>;
+
+    constructor(
+        @InjectConnection() private connection: Connection,
+        @InjectModel(OutboxEvent.name) private outboxModel: Model<OutboxEventDocument>,
+        private eventBus: EventBus,
+    ) { }
+
+    /**
+     * Run `fn` in a MongoDB transaction. Every query inside it, enqueue() included,
+     * joins the session on its own (transactionAsyncLocalStorage, enabled in main.ts).
+     *
+     * A standalone server has no transactions: `fn` then runs as plain writes. The event
+     * is still stored before the request returns, but a crash between the change and
+     * its event can lose it, so production runs MongoDB as a replica set.
+     */
+    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+        if (!(await this.supportsTransactions())) {
+            return fn();
+        }
+
+        return this.connection.transaction(() => fn());
+    }
+
+    async enqueue<E extends EventName>(
+        eventName: E,
+        payload: EventPayloadMap[E],
+        correlationId?: string,
+    ): Promise<EventOf<E>> {
+        const event = this.eventBus.createEvent(eventName, payload, correlationId);
+
+        await this.outboxModel.create({ _id: event.eventId, eventName, event });
+
+        return event;
+    }
+
+    private supportsTransactions(): Promise<boolean> {
+        this.transactionsSupported ??= this.connection
+            .db!.admin()
+            .command({ hello: 1 })
+            .then((hello) => {
+                const supported = Boolean(hello.setName) || hello.msg === 'isdbgrid';
+                if (!supported) {
+                    this.logger.warn(
+                        'MongoDB is standalone: outbox events are not written atomically ' +
+                        'with the changes they describe',
+                    );
+                }
+                return supported;
+            })
+            .catch((error) => {
+                // Ask again next time instead of caching the failure
+                this.transactionsSupported = undefined;
+                throw error;
+            });
+
+        return this.transactionsSupported;
+    }
+}
@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { BaseEvent } from '@careflow/shared';
+
+/**
+ * Transactional outbox: events written in the same transaction as the change they
+ * describe, published to RabbitMQ afterwards by OutboxRelayService.
+ */
+@Schema({
+    collection: 'outbox_events',
+    versionKey: false,
+    minimize: false,
+})
+export class OutboxEvent {
+    // eventId of the envelope
+    @Prop({ type: String, required: true })
+    _id: string;
+
+    @Prop({ required: true })
+    eventName: string;
+
+    // Full BaseEvent envelope, published as is
+    @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+    event: BaseEvent<unknown>;
+
+    @Prop({ default: 0 })
+    attempts: number;
+
+    @Prop({ type: String, default: null })
+    lastError: string | null;
+
+    // Claimed by a relay until this time; lets several instances relay side by side
+    @Prop({ type: Date, default: null })
+    lockedUntil: Date | null;
+
+    @Prop({ required: true, default: () => new Date() })
+    createdAt: Date;
+
+    @Prop({ type: Date, default: null })
+    publishedAt: Date | null;
+}
+
+export type OutboxEventDocument = OutboxEvent & Document<string>;
+
+export const OutboxEventSchema = SchemaFactory.createForClass(OutboxEvent);
+
+OutboxEventSchema.index({ publishedAt: 1, createdAt: 1 });
+
+// Published events are kept a week for troubleshooting; pending ones never expire
+OutboxEventSchema.index({ publishedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
@@ -1,9 +0,0 @@
-import { Global, Module } from '@nestjs/common';
-import { RabbitMQService } from './rabbitmq.service';
-
-@Global()
-@Module({
-    providers: [RabbitMQService],
-    exports: [RabbitMQService],
-})
-export class RabbitMQModule { }
\ No newline at end of file
@@ -0,0 +1,3 @@
+export * from './refresh-token.module';
+export * from './refresh-token.service';
+export * from './schemas/refresh-token.schema';
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RefreshToken, RefreshTokenSchema } from './schemas/refresh-token.schema';
+import { RefreshTokenService } from './refresh-token.service';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([{ name: RefreshToken.name, schema: RefreshTokenSchema }]),
+    ],
+    providers: [RefreshTokenService],
+    exports: [RefreshTokenService],
+})
+export class RefreshTokenModule { }
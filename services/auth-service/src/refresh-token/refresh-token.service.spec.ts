@@ -0,0 +1,216 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { AppConfigService } from '../config';
+import { InMemoryModel } from '../testing';
+import { IssuedRefreshToken, RefreshTokenService } from './refresh-token.service';
+import { RefreshToken, RefreshTokenSchema } from './schemas/refresh-token.schema';
+
+const START = new Date('2026-03-02T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RefreshTokenService', () => {
+    let service: RefreshTokenService;
+    let tokens: InMemoryModel;
+
+    const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+    beforeEach(async () => {
+        jest.useFakeTimers({ now: START });
+        tokens = new InMemoryModel(RefreshTokenSchema);
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                RefreshTokenService,
+                { provide: getModelToken(RefreshToken.name), useValue: tokens },
+                { provide: AppConfigService, useValue: { jwt: { refreshExpiresIn: '7d' } } },
+            ],
+        }).compile();
+
+        service = moduleRef.get(RefreshTokenService);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('consume', () => {
+        it('rotates a current token out', async () => {
+            const issued = await service.issue('user-1');
+
+            const check = await service.consume(issued.token);
+
+            expect(check).toMatchObject({
+                status: 'valid',
+                token: { userId: 'user-1', familyId: issued.familyId, rotatedAt: START },
+            });
+        });
+
+        it('reports a rotated token presented again as reused', async () => {
+            const issued = await service.issue('user-1');
+            await service.consume(issued.token);
+
+            await expect(service.consume(issued.token)).resolves.toMatchObject({
+                status: 'reused',
+                token: { familyId: issued.familyId },
+            });
+        });
+
+        it('lets only one of two concurrent presentations through', async () => {
+            const issued = await service.issue('user-1');
+
+            const checks = await Promise.all([
+                service.consume(issued.token),
+                service.consume(issued.token),
+            ]);
+
+            expect(checks.map((check) => check.status).sort()).toEqual(['reused', 'valid']);
+        });
+
+        it('reports a token past its expiry as expired', async () => {
+            const issued = await service.issue('user-1');
+            advance(7 * DAY_MS);
+
+            await expect(service.consume(issued.token)).resolves.toEqual({ status: 'expired' });
+        });
+
+        it('accepts a token just before its expiry', async () => {
+            const issued = await service.issue('user-1');
+            advance(7 * DAY_MS - 1);
+
+            await expect(service.consume(issued.token)).resolves.toMatchObject({
+                status: 'valid',
+            });
+        });
+
+        it('reports an unknown token as invalid', async () => {
+            await expect(service.consume('not-a-token')).resolves.toEqual({ status: 'invalid' });
+        });
+
+        it('reports a revoked token as invalid', async () => {
+            const issued = await service.issue('user-1');
+            await service.revokeFamily(issued.familyId, 'logout');
+
+            await expect(service.consume(issued.token)).resolves.toEqual({ status: 'invalid' });
+        });
+
+        it('stores tokens by hash only', async () => {
+            const issued = await service.issue('user-1');
+
+            expect(tokens.rows[0]._id).toMatch(/^[0-9a-f]{64}$/);
+            expect(JSON.stringify(tokens.rows)).not.toContain(issued.token);
+        });
+    });
+
+    describe('families', () => {
+        it('continue across refreshes, keeping the login time', async () => {
+            const login = await service.issue('user-1');
+            const check = await service.consume(login.token);
+            if (check.status !== 'valid') throw new Error(`Unexpected ${check.status}`);
+            advance(60_000);
+
+            const successor = await service.issue('user-1', {
+                familyId: login.familyId,
+                sessionStartedAt: check.token.sessionStartedAt,
+            });
+
+            expect(successor.familyId).toBe(login.familyId);
+            await expect(service.findActive('user-1')).resolves.toEqual([
+                expect.objectContaining({ familyId: login.familyId, sessionStartedAt: START }),
+            ]);
+        });
+
+        it('are revoked as a whole once reuse is detected', async () => {
+            const login = await service.issue('user-1');
+            await service.consume(login.token);
+            const successor = await service.issue('user-1', { familyId: login.familyId });
+            const otherDevice = await service.issue('user-1');
+
+            const check = await service.consume(login.token);
+            expect(check.status).toBe('reused');
+            await service.revokeFamily(login.familyId, 'reuse_detected');
+
+            // The party holding the successor has to log in again too
+            await expect(service.consume(successor.token)).resolves.toEqual({
+                status: 'invalid',
+            });
+            expect(
+                tokens.rows
+                    .filter((row) => row.familyId === login.familyId)
+                    .map((row) => row.revokedReason),
+            ).toEqual(['reuse_detected', 'reuse_detected']);
+            await expect(service.consume(otherDevice.token)).resolves.toMatchObject({
+                status: 'valid',
+            });
+        });
+
+        it('are limited to five per user, revoking the least recently refreshed', async () => {
+            const logins: IssuedRefreshToken[] = [];
+            for (let i = 0; i < 5; i++) {
+                logins.push(await service.issue('user-1'));
+                advance(1000);
+            }
+
+            // Refreshing the first login makes the second the least recently refreshed
+            await service.consume(logins[0].token);
+            const refreshed = await service.issue('user-1', { familyId: logins[0].familyId });
+            advance(1000);
+
+            const sixth = await service.issue('user-1');
+
+            const active = await service.findActive('user-1');
+            expect(active.map((token) => token.familyId).sort()).toEqual(
+                [refreshed, ...logins.slice(2), sixth].map((token) => token.familyId).sort(),
+            );
+            const evicted = tokens.rows.find((row) => row.familyId === logins[1].familyId);
+            expect(evicted).toMatchObject({ revokedReason: 'session_limit' });
+        });
+
+        it('of other users do not count towards the limit', async () => {
+            for (let i = 0; i < 5; i++) {
+                await service.issue('user-1');
+                advance(1000);
+            }
+
+            await service.issue('user-2');
+
+            await expect(service.findActive('user-1')).resolves.toHaveLength(5);
+        });
+
+        it('are revoked by token for the owning user only', async () => {
+            const issued = await service.issue('user-1');
+
+            await expect(service.revokeByToken('user-2', issued.token, 'logout')).resolves.toBe(
+                false,
+            );
+            await expect(service.revokeByToken('user-1', issued.token, 'logout')).resolves.toBe(
+                true,
+            );
+            await expect(service.findActive('user-1')).resolves.toEqual([]);
+        });
+    });
+
+    describe('findActive', () => {
+        it('lists the current token of each live family, newest first', async () => {
+            const first = await service.issue('user-1');
+            advance(1000);
+            const second = await service.issue('user-1');
+            advance(1000);
+            const revoked = await service.issue('user-1');
+            await service.revokeFamily(revoked.familyId, 'logout');
+
+            const active = await service.findActive('user-1');
+
+            expect(active.map((token) => token.familyId)).toEqual([
+                second.familyId,
+                first.familyId,
+            ]);
+        });
+
+        it('leaves out expired families', async () => {
+            await service.issue('user-1');
+            advance(7 * DAY_MS);
+
+            await expect(service.findActive('user-1')).resolves.toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AppConfigService } from '../config';
+import { parseExpiresIn } from '../auth/token-revocation';
+import {
+    RefreshToken,
+    RefreshTokenDocument,
+    RefreshTokenRevocationReason,
+} from './schemas/refresh-token.schema';
+
+// Logins kept per user; starting another revokes the least recently refreshed
+const MAX_ACTIVE_FAMILIES = 5;
+
+export interface IssuedRefreshToken {
+    token: string;
+    familyId: string;
+    expiresAt: Date;
+}
+
+export interface RefreshTokenContext {
+    familyId?: string; // Continue this family (refresh), otherwise start one (login)
+    sessionStartedAt?: Date; // The family's login time, when continuing it
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+/**
+ * Outcome of presenting a refresh token:
+ * - valid:   it was current and is now rotated; issue its successor
+ * - reused:  it had been rotated before, so two parties hold the family
+ * - expired / invalid: unknown, revoked or past its expiry
+ */
+export type RefreshTokenCheck =
+    | { status: 'valid'; token: RefreshToken }
+    | { status: 'reused'; token: RefreshToken }
+    | { status: 'expired' }
+    | { status: 'invalid' };
+
+@Injectable()
+export class RefreshTokenService {
+    constructor(
+        @InjectModel(RefreshToken.name) private tokenModel: Model<RefreshTokenDocument>,
+        private config: AppConfigService,
+    ) { }
+
+    async issue(userId: string, context: RefreshTokenContext = {}): Promise<IssuedRefreshToken> {
+        const token = randomBytes(32).toString('base64url');
+        const familyId = context.familyId ?? uuidv4();
+        const expiresAt = new Date(
+            Date.now() + parseExpiresIn(this.config.jwt.refreshExpiresIn) * 1000,
+        );
+
+        await this.tokenModel.create({
+            _id: hashToken(token),
+            userId,
+            familyId,
+            expiresAt,
+            sessionStartedAt: context.sessionStartedAt ?? new Date(),
+            userAgent: context.userAgent,
+            ipAddress: context.ipAddress,
+        });
+
+        if (!context.familyId) {
+            await this.revokeOldestFamilies(userId);
+        }
+
+        return { token, familyId, expiresAt };
+    }
+
+    /**
+     * Rotate the token out. Only one caller can consume a token; a second
+     * presentation, even a concurrent one, is reported as reuse.
+     */
+    async consume(token: string): Promise<RefreshTokenCheck> {
+        const now = new Date();
+        const hash = hashToken(token);
+
+        const consumed = await this.tokenModel
+            .findOneAndUpdate(
+                { _id: hash, rotatedAt: null, revokedAt: null, expiresAt: { $gt: now } },
+                { $set: { rotatedAt: now } },
+                { new: true },
+            )
+            .lean<RefreshToken>();
+
+        if (consumed) {
+            return { status: 'valid', token: consumed };
+        }
+
+        const existing = await this.tokenModel.findById(hash).lean<RefreshToken>();
+
+        if (!existing || existing.revokedAt) {
+            return { status: 'invalid' };
+        }
+        if (existing.rotatedAt) {
+            return { status: 'reused', token: existing };
+        }
+        return { status: 'expired' };
+    }
+
+    /**
+     * Revoke the family the user's token belongs to (logout from one device).
+     * Returns false when the token is unknown.
+     */
+    async revokeByToken(
+        userId: string,
+        token: string,
+        reason: RefreshTokenRevocationReason,
+    ): Promise<boolean> {
+        const existing = await this.tokenModel
+            .findOne({ _id: hashToken(token), userId })
+            .lean<RefreshToken>();
+
+        if (!existing) {
+            return false;
+        }
+
+        await this.revokeFamily(existing.familyId, reason);
+        return true;
+    }
+
+    /**
+     * Current token of each of the user's active families, newest first
+     */
+    async findActive(userId: string): Promise<RefreshToken[]> {
+        return this.tokenModel
+            .find({ userId, rotatedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } })
+            .sort({ createdAt: -1 })
+            .lean<RefreshToken[]>();
+    }
+
+    /**
+     * Revoke one of the user's active families. Returns false when the user has
+     * no such family or it has ended already.
+     */
+    async revokeUserFamily(
+        userId: string,
+        familyId: string,
+        reason: RefreshTokenRevocationReason,
+    ): Promise<boolean> {
+        const active = await this.tokenModel.exists({
+            userId,
+            familyId,
+            rotatedAt: null,
+            revokedAt: null,
+            expiresAt: { $gt: new Date() },
+        });
+
+        if (!active) {
+            return false;
+        }
+
+        await this.revokeFamily(familyId, reason);
+        return true;
+    }
+
+    async revokeFamily(familyId: string, reason: RefreshTokenRevocationReason): Promise<void> {
+        await this.tokenModel.updateMany(
+            { familyId, revokedAt: null },
+            { $set: { revokedAt: new Date(), revokedReason: reason } },
+        );
+    }
+
+    async revokeAll(userId: string, reason: RefreshTokenRevocationReason): Promise<void> {
+        await this.tokenModel.updateMany(
+            { userId, revokedAt: null },
+            { $set: { revokedAt: new Date(), revokedReason: reason } },
+        );
+    }
+
+    private async revokeOldestFamilies(userId: string): Promise<void> {
+        const surplus = await this.tokenModel
+            .find(
+                { userId, rotatedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } },
+                { familyId: 1 },
+            )
+            .sort({ createdAt: -1 })
+            .skip(MAX_ACTIVE_FAMILIES)
+            .lean<Pick<RefreshToken, 'familyId'>[]>();
+
+        for (const { familyId } of surplus) {
+            await this.revokeFamily(familyId, 'session_limit');
+        }
+    }
+}
+
+// Refresh tokens are 256 random bits, so a fast unsalted hash is enough
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type RefreshTokenRevocationReason =
+    | 'logout'
+    | 'password_change'
+    | 'password_reset'
+    | 'deactivated'
+    | 'reuse_detected'
+    | 'session_limit'
+    | 'session_revoked';
+
+/**
+ * Refresh tokens, stored by hash only. Every login starts a token family; each
+ * refresh rotates the presented token into a new one of the same family. Rotated
+ * tokens are kept until they expire so presenting one again is recognized as reuse.
+ */
+@Schema({
+    collection: 'refresh_tokens',
+    versionKey: false,
+})
+export class RefreshToken {
+    // sha256 of the token; the token itself is only ever sent to the client
+    @Prop({ type: String, required: true })
+    _id: string;
+
+    @Prop({ required: true })
+    userId: string;
+
+    // The login the token descends from; the session id carried in access tokens (sid)
+    @Prop({ required: true })
+    familyId: string;
+
+    // When the family's login happened, copied along on rotation
+    @Prop({ type: Date })
+    sessionStartedAt?: Date;
+
+    @Prop({ required: true })
+    expiresAt: Date;
+
+    @Prop({ required: true, default: () => new Date() })
+    createdAt: Date;
+
+    // Exchanged for a newer token of the family
+    @Prop({ type: Date, default: null })
+    rotatedAt: Date | null;
+
+    @Prop({ type: Date, default: null })
+    revokedAt: Date | null;
+
+    @Prop({ type: String, default: null })
+    revokedReason: RefreshTokenRevocationReason | null;
+
+    @Prop()
+    userAgent?: string;
+
+    @Prop()
+    ipAddress?: string;
+}
+
+export type RefreshTokenDocument = RefreshToken & Document<string>;
+
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
+
+RefreshTokenSchema.index({ familyId: 1 });
+RefreshTokenSchema.index({ userId: 1, rotatedAt: 1, revokedAt: 1 });
+
+// Rotated and revoked tokens are only needed until they would have expired
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
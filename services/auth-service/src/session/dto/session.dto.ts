@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// ==================== Response DTOs ====================
+
+export class SessionResponseDto {
+    @ApiProperty({ description: 'Session ID (sid claim of its access tokens)' })
+    id: string;
+
+    @ApiPropertyOptional()
+    userAgent?: string;
+
+    @ApiPropertyOptional()
+    ipAddress?: string;
+
+    @ApiProperty({ description: 'Login time' })
+    startedAt: Date;
+
+    @ApiProperty({ description: 'Last login or token refresh' })
+    lastActiveAt: Date;
+
+    @ApiProperty({ description: 'When the session ends unless refreshed' })
+    expiresAt: Date;
+
+    @ApiProperty({ description: 'The session the request was made with' })
+    current: boolean;
+}
@@ -0,0 +1,3 @@
+export * from './session.module';
+export * from './session.service';
+export * from './dto/session.dto';
\ No newline at end of file
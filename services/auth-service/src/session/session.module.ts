@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { RefreshTokenModule } from '../refresh-token';
+import { SessionService } from './session.service';
+
+@Module({
+    imports: [RefreshTokenModule],
+    providers: [SessionService],
+    exports: [SessionService],
+})
+export class SessionModule { }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { EventName } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { OutboxService } from '../outbox';
+import {
+    IssuedRefreshToken,
+    RefreshToken,
+    RefreshTokenSchema,
+    RefreshTokenService,
+} from '../refresh-token';
+import { FakeOutbox, InMemoryModel } from '../testing';
+import { SessionService } from './session.service';
+
+const START = new Date('2026-03-02T09:00:00Z');
+
+describe('SessionService', () => {
+    let service: SessionService;
+    let refreshTokens: RefreshTokenService;
+    let outbox: FakeOutbox;
+    let laptop: IssuedRefreshToken;
+    let phone: IssuedRefreshToken;
+    let tablet: IssuedRefreshToken;
+
+    const sessionRevoked = (sessionId: string, correlationId?: string) => ({
+        eventName: EventName.TOKENS_REVOKED,
+        payload: {
+            userId: 'user-1',
+            reason: 'session_revoked',
+            sessionId,
+            expiresAt: new Date(START.getTime() + 900_000).toISOString(),
+        },
+        correlationId,
+    });
+
+    beforeEach(async () => {
+        jest.useFakeTimers({ now: START });
+        outbox = new FakeOutbox();
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                SessionService,
+                RefreshTokenService,
+                {
+                    provide: getModelToken(RefreshToken.name),
+                    useValue: new InMemoryModel(RefreshTokenSchema),
+                },
+                { provide: OutboxService, useValue: outbox },
+                {
+                    provide: AppConfigService,
+                    useValue: { jwt: { accessExpiresIn: '15m', refreshExpiresIn: '7d' } },
+                },
+            ],
+        }).compile();
+
+        service = moduleRef.get(SessionService);
+        refreshTokens = moduleRef.get(RefreshTokenService);
+
+        laptop = await refreshTokens.issue('user-1', { userAgent: 'Firefox' });
+        phone = await refreshTokens.issue('user-1', { userAgent: 'CareFlow iOS' });
+        tablet = await refreshTokens.issue('user-1', { userAgent: 'Safari' });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    const activeSessions = async () =>
+        (await service.findActive('user-1')).map((session) => session.id).sort();
+
+    describe('findActive', () => {
+        it('marks the session making the request', async () => {
+            const sessions = await service.findActive('user-1', phone.familyId);
+
+            expect(sessions.filter((session) => session.current)).toEqual([
+                expect.objectContaining({ id: phone.familyId, userAgent: 'CareFlow iOS' }),
+            ]);
+        });
+
+        it('lists a session once, however often it was refreshed', async () => {
+            await refreshTokens.consume(laptop.token);
+            await refreshTokens.issue('user-1', { familyId: laptop.familyId });
+
+            await expect(service.findActive('user-1')).resolves.toHaveLength(3);
+        });
+    });
+
+    describe('revoke', () => {
+        it('ends the session and revokes its access tokens', async () => {
+            await service.revoke('user-1', phone.familyId, 'corr-1');
+
+            await expect(activeSessions()).resolves.toEqual(
+                [laptop.familyId, tablet.familyId].sort(),
+            );
+            expect(outbox.events).toEqual([sessionRevoked(phone.familyId, 'corr-1')]);
+        });
+
+        it('refuses a session of another user', async () => {
+            await expect(service.revoke('user-2', phone.familyId)).rejects.toThrow(
+                NotFoundException,
+            );
+
+            await expect(activeSessions()).resolves.toHaveLength(3);
+            expect(outbox.events).toEqual([]);
+        });
+
+        it('refuses a session that has ended already', async () => {
+            await service.revoke('user-1', phone.familyId);
+
+            await expect(service.revoke('user-1', phone.familyId)).rejects.toThrow(
+                `Session not found: ${phone.familyId}`,
+            );
+            expect(outbox.events).toHaveLength(1);
+        });
+
+        it('refuses an expired session', async () => {
+            jest.setSystemTime(START.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+            await expect(service.revoke('user-1', phone.familyId)).rejects.toThrow(
+                NotFoundException,
+            );
+            expect(outbox.events).toEqual([]);
+        });
+    });
+
+    describe('revokeOthers', () => {
+        it('keeps the current session and revokes every other one', async () => {
+            await expect(service.revokeOthers('user-1', laptop.familyId, 'corr-2')).resolves.toBe(
+                2,
+            );
+
+            await expect(activeSessions()).resolves.toEqual([laptop.familyId]);
+            expect(outbox.events).toEqual(
+                expect.arrayContaining([
+                    sessionRevoked(phone.familyId, 'corr-2'),
+                    sessionRevoked(tablet.familyId, 'corr-2'),
+                ]),
+            );
+            expect(outbox.events).toHaveLength(2);
+        });
+
+        it('revokes nothing when the current session is the only one', async () => {
+            await service.revokeOthers('user-1', laptop.familyId);
+
+            await expect(service.revokeOthers('user-1', laptop.familyId)).resolves.toBe(0);
+            expect(outbox.events).toHaveLength(2);
+        });
+
+        it('leaves other users alone', async () => {
+            const other = await refreshTokens.issue('user-2');
+
+            await service.revokeOthers('user-1', laptop.familyId);
+
+            await expect(service.findActive('user-2')).resolves.toEqual([
+                expect.objectContaining({ id: other.familyId }),
+            ]);
+        });
+
+        it('refuses a token without a session', async () => {
+            await expect(service.revokeOthers('user-1', undefined)).rejects.toThrow(
+                BadRequestException,
+            );
+
+            await expect(activeSessions()).resolves.toHaveLength(3);
+        });
+    });
+});
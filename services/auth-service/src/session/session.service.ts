@@ -0,0 +1,99 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { EventName } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { OutboxService } from '../outbox';
+import { RefreshToken, RefreshTokenService } from '../refresh-token';
+import { revokeSession } from '../auth/token-revocation';
+import { SessionResponseDto } from './dto/session.dto';
+
+/**
+ * A session is one login on one device: a refresh token family, whose id is
+ * carried as sid in the access tokens issued to it. Revoking a session ends the
+ * family and has the gateway reject its access tokens and drop its WebSockets.
+ */
+@Injectable()
+export class SessionService {
+    private readonly logger = new Logger(SessionService.name);
+
+    constructor(
+        private refreshTokens: RefreshTokenService,
+        private outbox: OutboxService,
+        private config: AppConfigService,
+    ) { }
+
+    async findActive(userId: string, currentSessionId?: string): Promise<SessionResponseDto[]> {
+        const tokens = await this.refreshTokens.findActive(userId);
+        return tokens.map((token) => this.toResponse(token, currentSessionId));
+    }
+
+    async revoke(userId: string, sessionId: string, correlationId?: string): Promise<void> {
+        await this.outbox.transaction(async () => {
+            const revoked = await this.refreshTokens.revokeUserFamily(
+                userId,
+                sessionId,
+                'session_revoked',
+            );
+
+            if (!revoked) {
+                throw new NotFoundException(`Session not found: ${sessionId}`);
+            }
+
+            await this.enqueueRevocation(userId, sessionId, correlationId);
+        });
+
+        this.logger.log(`Session ${sessionId} of user ${userId} revoked`);
+    }
+
+    /**
+     * Revoke every session of the user except the one making the request.
+     * Returns the number of sessions revoked.
+     */
+    async revokeOthers(
+        userId: string,
+        currentSessionId: string | undefined,
+        correlationId?: string,
+    ): Promise<number> {
+        // Tokens issued before sessions existed carry no sid
+        if (!currentSessionId) {
+            throw new BadRequestException('Current session unknown, please log in again');
+        }
+
+        const others = (await this.refreshTokens.findActive(userId)).filter(
+            (token) => token.familyId !== currentSessionId,
+        );
+
+        await this.outbox.transaction(async () => {
+            for (const { familyId } of others) {
+                await this.refreshTokens.revokeFamily(familyId, 'session_revoked');
+                await this.enqueueRevocation(userId, familyId, correlationId);
+            }
+        });
+
+        this.logger.log(`${others.length} other session(s) of user ${userId} revoked`);
+        return others.length;
+    }
+
+    private async enqueueRevocation(
+        userId: string,
+        sessionId: string,
+        correlationId?: string,
+    ): Promise<void> {
+        await this.outbox.enqueue(
+            EventName.TOKENS_REVOKED,
+            revokeSession(userId, sessionId, this.config.jwt.accessExpiresIn),
+            correlationId,
+        );
+    }
+
+    private toResponse(token: RefreshToken, currentSessionId?: string): SessionResponseDto {
+        return {
+            id: token.familyId,
+            userAgent: token.userAgent,
+            ipAddress: token.ipAddress,
+            startedAt: token.sessionStartedAt ?? token.createdAt,
+            lastActiveAt: token.createdAt,
+            expiresAt: token.expiresAt,
+            current: token.familyId === currentSessionId,
+        };
+    }
+}
@@ -0,0 +1,35 @@
+import { EventName, EventPayloadMap } from '@careflow/shared';
+
+export interface EnqueuedEvent<E extends EventName = EventName> {
+    eventName: E;
+    payload: EventPayloadMap[E];
+    correlationId?: string;
+}
+
+/**
+ * Stand-in for OutboxService in specs: transactions run as plain calls, like
+ * on a standalone MongoDB, and enqueued events are collected instead of stored
+ */
+export class FakeOutbox {
+    readonly events: EnqueuedEvent[] = [];
+
+    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+        return fn();
+    }
+
+    async enqueue<E extends EventName>(
+        eventName: E,
+        payload: EventPayloadMap[E],
+        correlationId?: string,
+    ): Promise<EnqueuedEvent<E>> {
+        const event = { eventName, payload, correlationId };
+        this.events.push(event);
+        return event;
+    }
+
+    payloads<E extends EventName>(eventName: E): EventPayloadMap[E][] {
+        return this.events
+            .filter((event) => event.eventName === eventName)
+            .map((event) => event.payload as EventPayloadMap[E]);
+    }
+}
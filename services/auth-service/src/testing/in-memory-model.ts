@@ -0,0 +1,340 @@
+import { Mongoose, Schema, Types } from 'mongoose';
+import { Query, update } from 'mingo';
+
+type Row = Record<string, any>;
+type Filter = Record<string, any>;
+type Modifier = Record<string, any>;
+type SortSpec = Record<string, 1 | -1>;
+
+interface QueryOptions {
+    sort?: SortSpec;
+    skip?: number;
+    limit?: number;
+    lean?: boolean;
+}
+
+interface UpdateOptions {
+    upsert?: boolean;
+}
+
+interface FindAndUpdateOptions extends UpdateOptions {
+    new?: boolean;
+    sort?: SortSpec;
+}
+
+/**
+ * Query returned by the model methods. Like a Mongoose query it runs when
+ * awaited, so sort, skip, limit and lean can be chained first.
+ */
+export class InMemoryQuery<T> implements PromiseLike<T> {
+    private readonly options: QueryOptions = {};
+
+    constructor(private readonly run: (options: QueryOptions) => T) { }
+
+    sort(sort: SortSpec): this {
+        this.options.sort = sort;
+        return this;
+    }
+
+    skip(skip: number): this {
+        this.options.skip = skip;
+        return this;
+    }
+
+    limit(limit: number): this {
+        this.options.limit = limit;
+        return this;
+    }
+
+    select(): this {
+        return this;
+    }
+
+    lean<R = T>(): InMemoryQuery<R> {
+        this.options.lean = true;
+        return this as unknown as InMemoryQuery<R>;
+    }
+
+    exec(): Promise<T> {
+        return Promise.resolve().then(() => this.run(this.options));
+    }
+
+    then<R1 = T, R2 = never>(
+        onfulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+    ): Promise<R1 | R2> {
+        return this.exec().then(onfulfilled, onrejected);
+    }
+}
+
+/**
+ * Stand-in for a Mongoose model in specs, provided under getModelToken().
+ *
+ * Rows get the schema's defaults and timestamps; filters and update operators
+ * are evaluated by mingo, so conditional updates match or miss as they would
+ * in MongoDB. ObjectIds are stored as hex strings. Non-lean results are real
+ * documents of the schema (virtuals, toObject) whose save() writes back here.
+ * Only the parts of the model API the services use are covered.
+ */
+export class InMemoryModel {
+    readonly rows: Row[] = [];
+    private readonly model;
+    private readonly timestamps: boolean;
+
+    constructor(schema: Schema) {
+        this.model = new Mongoose().model('InMemory', schema);
+        this.timestamps = !!schema.get('timestamps');
+    }
+
+    async create(data: Row): Promise<any> {
+        const row = this.build(data);
+        this.rows.push(row);
+        return this.hydrate(row);
+    }
+
+    find(filter: Filter = {}): InMemoryQuery<any[]> {
+        return new InMemoryQuery((options) =>
+            this.match(filter, options).map((row) => this.output(row, options.lean)),
+        );
+    }
+
+    findOne(filter: Filter = {}): InMemoryQuery<any> {
+        return new InMemoryQuery((options) => {
+            const [row] = this.match(filter, { ...options, limit: 1 });
+            return row ? this.output(row, options.lean) : null;
+        });
+    }
+
+    findById(id: unknown): InMemoryQuery<any> {
+        return this.findOne({ _id: id });
+    }
+
+    exists(filter: Filter): InMemoryQuery<{ _id: unknown } | null> {
+        return new InMemoryQuery(() => {
+            const [row] = this.match(filter, { limit: 1 });
+            return row ? { _id: row._id } : null;
+        });
+    }
+
+    countDocuments(filter: Filter = {}): InMemoryQuery<number> {
+        return new InMemoryQuery(() => this.match(filter).length);
+    }
+
+    findOneAndUpdate(
+        filter: Filter,
+        modifier: Modifier,
+        options: FindAndUpdateOptions = {},
+    ): InMemoryQuery<any> {
+        return new InMemoryQuery((queryOptions) => {
+            const [row] = this.match(filter, { sort: options.sort, limit: 1 });
+
+            if (!row) {
+                if (!options.upsert) {
+                    return null;
+                }
+                const inserted = this.upsert(filter, modifier);
+                return options.new ? this.output(inserted, queryOptions.lean) : null;
+            }
+
+            const before = structuredClone(row);
+            this.apply(row, modifier);
+            return this.output(options.new ? row : before, queryOptions.lean);
+        });
+    }
+
+    findByIdAndUpdate(
+        id: unknown,
+        modifier: Modifier,
+        options: FindAndUpdateOptions = {},
+    ): InMemoryQuery<any> {
+        return this.findOneAndUpdate({ _id: id }, modifier, options);
+    }
+
+    updateOne(filter: Filter, modifier: Modifier, options: UpdateOptions = {}) {
+        return new InMemoryQuery(() => {
+            const [row] = this.match(filter, { limit: 1 });
+
+            if (!row) {
+                if (options.upsert) {
+                    const inserted = this.upsert(filter, modifier);
+                    return updateResult(0, 0, inserted._id);
+                }
+                return updateResult(0, 0);
+            }
+
+            return updateResult(1, this.apply(row, modifier) ? 1 : 0);
+        });
+    }
+
+    updateMany(filter: Filter, modifier: Modifier) {
+        return new InMemoryQuery(() => {
+            const rows = this.match(filter);
+            const modified = rows.filter((row) => this.apply(row, modifier)).length;
+            return updateResult(rows.length, modified);
+        });
+    }
+
+    deleteOne(filter: Filter) {
+        return new InMemoryQuery(() => ({
+            acknowledged: true,
+            deletedCount: this.remove(filter, 1),
+        }));
+    }
+
+    deleteMany(filter: Filter = {}) {
+        return new InMemoryQuery(() => ({
+            acknowledged: true,
+            deletedCount: this.remove(filter),
+        }));
+    }
+
+    /**
+     * Stored rows matching the filter, in insertion order unless sorted
+     */
+    private match(filter: Filter, options: QueryOptions = {}): Row[] {
+        const query = new Query(normalize(filter));
+        let rows = this.rows.filter((row) => query.test(row));
+
+        if (options.sort) {
+            rows = [...rows].sort(compareBy(options.sort));
+        }
+
+        const skip = options.skip ?? 0;
+        return rows.slice(skip, options.limit ? skip + options.limit : undefined);
+    }
+
+    /**
+     * Apply update operators in place; true when the row changed
+     */
+    private apply(row: Row, modifier: Modifier): boolean {
+        const operators = Object.keys(modifier).some((key) => key.startsWith('$'))
+            ? modifier
+            : { $set: modifier };
+        const changed = update(row, normalize(operators)).length > 0;
+
+        if (changed && this.timestamps) {
+            row.updatedAt = new Date();
+        }
+        return changed;
+    }
+
+    private upsert(filter: Filter, modifier: Modifier): Row {
+        // Equality conditions seed the new row, as in MongoDB
+        const seed: Row = {};
+        for (const [key, value] of Object.entries(normalize(filter))) {
+            if (!key.startsWith('$') && !isOperatorObject(value)) {
+                seed[key] = value;
+            }
+        }
+
+        const { $setOnInsert: onInsert, ...rest } = modifier;
+        Object.assign(seed, normalize(onInsert));
+        this.apply(seed, rest);
+
+        const row = this.build(seed);
+        this.rows.push(row);
+        return row;
+    }
+
+    private remove(filter: Filter, limit?: number): number {
+        const doomed = new Set(this.match(filter, { limit }));
+        const before = this.rows.length;
+
+        for (let i = this.rows.length - 1; i >= 0; i--) {
+            if (doomed.has(this.rows[i])) {
+                this.rows.splice(i, 1);
+            }
+        }
+        return before - this.rows.length;
+    }
+
+    private build(data: Row): Row {
+        const row = normalize(new this.model(data).toObject({ transform: false }));
+
+        if (this.timestamps) {
+            const now = new Date();
+            row.createdAt ??= now;
+            row.updatedAt ??= now;
+        }
+        return row;
+    }
+
+    private output(row: Row, lean?: boolean): any {
+        return lean ? structuredClone(row) : this.hydrate(row);
+    }
+
+    private hydrate(row: Row): any {
+        const doc = this.model.hydrate(structuredClone(row));
+
+        Object.defineProperty(doc, 'save', {
+            value: async () => {
+                const saved = normalize(doc.toObject({ transform: false }));
+                if (this.timestamps) {
+                    saved.updatedAt = new Date();
+                }
+
+                const index = this.rows.findIndex((stored) => stored._id === saved._id);
+                if (index === -1) {
+                    this.rows.push(saved);
+                } else {
+                    this.rows[index] = saved;
+                }
+                return doc;
+            },
+        });
+
+        return doc;
+    }
+}
+
+function updateResult(matchedCount: number, modifiedCount: number, upsertedId?: unknown) {
+    return {
+        acknowledged: true,
+        matchedCount,
+        modifiedCount,
+        upsertedCount: upsertedId === undefined ? 0 : 1,
+        upsertedId: upsertedId ?? null,
+    };
+}
+
+function compareBy(sort: SortSpec): (a: Row, b: Row) => number {
+    return (a, b) => {
+        for (const [key, direction] of Object.entries(sort)) {
+            const left = a[key] instanceof Date ? a[key].getTime() : a[key];
+            const right = b[key] instanceof Date ? b[key].getTime() : b[key];
+
+            if (left !== right) {
+                // null sorts first ascending, as in MongoDB
+                if (left == null) return -direction;
+                if (right == null) return direction;
+                return left < right ? -direction : direction;
+            }
+        }
+        return 0;
+    };
+}
+
+function isOperatorObject(value: unknown): boolean {
+    return isPlainObject(value) && Object.keys(value).some((key) => key.startsWith('$'));
+}
+
+function isPlainObject(value: unknown): value is Row {
+    return Object.prototype.toString.call(value) === '[object Object]' &&
+        !(value instanceof Types.ObjectId);
+}
+
+// ObjectIds to hex strings, everywhere in a filter, update or row
+function normalize<T>(value: T): T {
+    if (value instanceof Types.ObjectId) {
+        return value.toHexString() as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(normalize) as T;
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, entry]) => [key, normalize(entry)]),
+        ) as T;
+    }
+    return value;
+}
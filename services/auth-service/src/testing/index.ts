@@ -0,0 +1,2 @@
+export * from './fake-outbox';
+export * from './in-memory-model';
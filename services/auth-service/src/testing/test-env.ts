@@ -0,0 +1,24 @@
+/**
+ * Environment for specs, loaded through jest's setupFiles. Importing the config
+ * module validates the environment, and every service imports it; specs
+ * provide their own AppConfigService values, so these only have to be valid.
+ */
+const TEST_ENV: Record<string, string> = {
+    PORT: '3001',
+    MONGODB_URI: 'mongodb://localhost:27017/careflow_auth_test',
+    JWT_KEY_PASSPHRASE: 'test-key-passphrase',
+    JWT_ACCESS_EXPIRES_IN: '15m',
+    JWT_REFRESH_EXPIRES_IN: '7d',
+    BCRYPT_ROUNDS: '4',
+    RABBITMQ_URL: 'amqp://localhost:5672',
+    LOGIN_RATE_LIMIT_TTL: '60',
+    LOGIN_RATE_LIMIT_MAX: '5',
+    SMTP_HOST: 'localhost',
+    SMTP_PORT: '1025',
+    SMTP_FROM: 'noreply@careflow.test',
+    MFA_ENCRYPTION_KEY: 'test-mfa-encryption-key-32-characters',
+};
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+    process.env[key] ??= value;
+}
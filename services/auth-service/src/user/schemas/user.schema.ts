@@ -54,6 +54,7 @@ export class User {
     @Prop({ default: false })
     isEmailVerified: boolean;
 
+    // sha256 of the token in the verification link
     @Prop()
     emailVerificationToken?: string;
 
@@ -78,26 +79,6 @@ export class User {
     @Prop()
     lastLoginIp?: string;
 
-    @Prop({
-        type: [
-            {
-                token: String,
-                expiresAt: Date,
-                createdAt: { type: Date, default: Date.now },
-                userAgent: String,
-                ipAddress: String,
-            },
-        ],
-        default: [],
-    })
-    refreshTokens: {
-        token: string;
-        expiresAt: Date;
-        createdAt: Date;
-        userAgent?: string;
-        ipAddress?: string;
-    }[];
-
     createdAt: Date;
     updatedAt: Date;
 }
@@ -109,7 +90,7 @@ export const UserSchema = SchemaFactory.createForClass(User);
 // Indexes
 UserSchema.index({ email: 1, isActive: 1 });
 UserSchema.index({ roles: 1 });
-UserSchema.index({ 'refreshTokens.token': 1 });
+UserSchema.index({ emailVerificationToken: 1 }, { sparse: true });
 
 // Virtual fields
 UserSchema.virtual('id').get(function () {
@@ -127,18 +108,8 @@ UserSchema.set('toJSON', {
         delete ret._id;
         delete ret.__v;
         delete ret.passwordHash;
-        delete ret.refreshTokens;
         delete ret.passwordResetToken;
         delete ret.emailVerificationToken;
         return ret;
     },
-});
-
-// Clean expired refresh tokens on save
-UserSchema.pre('save', function (next) {
-    if (this.refreshTokens && this.refreshTokens.length > 0) {
-        const now = new Date();
-        this.refreshTokens = this.refreshTokens.filter((rt) => rt.expiresAt > now);
-    }
-    next();
 });
\ No newline at end of file
@@ -21,12 +21,18 @@ import {
     UserResponseDto,
     UserListResponseDto,
 } from './dto/user.dto';
+import { SessionService, SessionResponseDto } from '../session';
+import { MfaService } from '../mfa';
 import { UserRole, INTERNAL_HEADERS } from '@careflow/shared';
 
 @ApiTags('Users')
 @Controller('users')
 export class UserController {
-    constructor(private userService: UserService) { }
+    constructor(
+        private userService: UserService,
+        private sessionService: SessionService,
+        private mfaService: MfaService,
+    ) { }
 
     @Post()
     @ApiOperation({ summary: 'Create a new user' })
@@ -83,8 +89,9 @@ export class UserController {
     async changePassword(
         @Param('id') id: string,
         @Body() dto: ChangePasswordDto,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
     ): Promise<{ message: string }> {
-        await this.userService.changePassword(id, dto);
+        await this.userService.changePassword(id, dto, correlationId);
         return { message: 'Password changed successfully' };
     }
 
@@ -99,6 +106,41 @@ export class UserController {
         return this.userService.updateRoles(id, dto.roles, correlationId);
     }
 
+    @Get(':id/sessions')
+    @ApiOperation({ summary: 'List the active sessions of a user' })
+    @ApiResponse({ status: 200, type: [SessionResponseDto] })
+    @ApiResponse({ status: 404, description: 'User not found' })
+    async findSessions(@Param('id') id: string): Promise<SessionResponseDto[]> {
+        await this.userService.findById(id);
+        return this.sessionService.findActive(id);
+    }
+
+    @Delete(':id/sessions/:sessionId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Revoke a session of a user' })
+    @ApiResponse({ status: 204 })
+    @ApiResponse({ status: 404, description: 'Session not found' })
+    async revokeSession(
+        @Param('id') id: string,
+        @Param('sessionId') sessionId: string,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<void> {
+        await this.sessionService.revoke(id, sessionId, correlationId);
+    }
+
+    @Delete(':id/mfa')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Reset MFA of a user (lost device)' })
+    @ApiResponse({ status: 204 })
+    @ApiResponse({ status: 404, description: 'User not found or MFA not set up' })
+    async resetMfa(
+        @Param('id') id: string,
+        @Headers(INTERNAL_HEADERS.USER_ID) actorId?: string,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<void> {
+        await this.mfaService.reset(id, actorId, correlationId);
+    }
+
     @Delete(':id')
     @HttpCode(HttpStatus.NO_CONTENT)
     @ApiOperation({ summary: 'Deactivate user' })
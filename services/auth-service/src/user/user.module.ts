@@ -3,10 +3,16 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { User, UserSchema } from './schemas/user.schema';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
+import { RefreshTokenModule } from '../refresh-token';
+import { SessionModule } from '../session';
+import { MfaModule } from '../mfa';
 
 @Module({
     imports: [
         MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+        RefreshTokenModule,
+        SessionModule,
+        MfaModule,
     ],
     controllers: [UserController],
     providers: [UserService],
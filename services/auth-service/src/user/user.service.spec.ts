@@ -0,0 +1,126 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
+import { EventName, UserRole } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { OutboxService } from '../outbox';
+import { RefreshToken, RefreshTokenSchema, RefreshTokenService } from '../refresh-token';
+import { FakeOutbox, InMemoryModel } from '../testing';
+import { User, UserSchema } from './schemas/user.schema';
+import { UserService } from './user.service';
+
+const START = new Date('2026-03-02T09:00:00Z');
+
+describe('UserService', () => {
+    let service: UserService;
+    let refreshTokens: RefreshTokenService;
+    let users: InMemoryModel;
+    let tokens: InMemoryModel;
+    let outbox: FakeOutbox;
+    let userId: string;
+
+    beforeEach(async () => {
+        jest.useFakeTimers({ now: START });
+        users = new InMemoryModel(UserSchema);
+        tokens = new InMemoryModel(RefreshTokenSchema);
+        outbox = new FakeOutbox();
+
+        const moduleRef = await Test.createTestingModule({
+            providers: [
+                UserService,
+                RefreshTokenService,
+                { provide: getModelToken(User.name), useValue: users },
+                { provide: getModelToken(RefreshToken.name), useValue: tokens },
+                { provide: OutboxService, useValue: outbox },
+                {
+                    provide: AppConfigService,
+                    useValue: {
+                        bcryptRounds: 4,
+                        jwt: { accessExpiresIn: '15m', refreshExpiresIn: '7d' },
+                    },
+                },
+            ],
+        }).compile();
+
+        service = moduleRef.get(UserService);
+        refreshTokens = moduleRef.get(RefreshTokenService);
+
+        const user = await users.create({
+            email: 'patient@example.com',
+            passwordHash: await bcrypt.hash('OldSecurePass123!', 4),
+            firstName: 'Test',
+            lastName: 'User',
+            roles: [UserRole.PATIENT],
+        });
+        userId = user.id;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('changePassword', () => {
+        it('ends every login and revokes the access tokens issued so far', async () => {
+            await refreshTokens.issue(userId);
+            await refreshTokens.issue(userId);
+
+            await service.changePassword(
+                userId,
+                { currentPassword: 'OldSecurePass123!', newPassword: 'NewSecurePass456!' },
+                'corr-1',
+            );
+
+            await expect(refreshTokens.findActive(userId)).resolves.toEqual([]);
+            expect(tokens.rows.map((row) => row.revokedReason)).toEqual([
+                'password_change',
+                'password_change',
+            ]);
+            expect(outbox.events).toEqual([
+                {
+                    eventName: EventName.TOKENS_REVOKED,
+                    payload: {
+                        userId,
+                        reason: 'password_change',
+                        notBefore: START.toISOString(),
+                        expiresAt: new Date(START.getTime() + 900_000).toISOString(),
+                    },
+                    correlationId: 'corr-1',
+                },
+            ]);
+        });
+
+        it('stores the new password', async () => {
+            await service.changePassword(userId, {
+                currentPassword: 'OldSecurePass123!',
+                newPassword: 'NewSecurePass456!',
+            });
+
+            const [row] = users.rows;
+            await expect(bcrypt.compare('NewSecurePass456!', row.passwordHash)).resolves.toBe(true);
+        });
+
+        it('rejects a wrong current password without revoking anything', async () => {
+            await refreshTokens.issue(userId);
+
+            await expect(
+                service.changePassword(userId, {
+                    currentPassword: 'WrongPass123!',
+                    newPassword: 'NewSecurePass456!',
+                }),
+            ).rejects.toThrow(BadRequestException);
+
+            await expect(refreshTokens.findActive(userId)).resolves.toHaveLength(1);
+            expect(outbox.events).toHaveLength(0);
+        });
+
+        it('rejects reusing the current password', async () => {
+            await expect(
+                service.changePassword(userId, {
+                    currentPassword: 'OldSecurePass123!',
+                    newPassword: 'OldSecurePass123!',
+                }),
+            ).rejects.toThrow('New password must be different');
+        });
+    });
+});
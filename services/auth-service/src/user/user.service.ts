@@ -4,6 +4,7 @@ import {
     ConflictException,
     BadRequestException,
     Logger,
+    OnApplicationBootstrap,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
@@ -16,8 +17,10 @@ import {
     UserResponseDto,
 } from './dto/user.dto';
 import { AppConfigService } from '../config';
-import { RabbitMQService } from '../rabbitmq';
-import { EventName, UserRole, Permission, UserCreatedPayload } from '@careflow/shared';
+import { OutboxService } from '../outbox';
+import { revokeAllTokens } from '../auth/token-revocation';
+import { RefreshTokenService } from '../refresh-token';
+import { EventName, UserRole, Permission } from '@careflow/shared';
 
 const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     [UserRole.ADMIN]: [
@@ -54,15 +57,28 @@ const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
 };
 
 @Injectable()
-export class UserService {
+export class UserService implements OnApplicationBootstrap {
     private readonly logger = new Logger(UserService.name);
 
     constructor(
         @InjectModel(User.name) private userModel: Model<UserDocument>,
         private config: AppConfigService,
-        private rabbitMQ: RabbitMQService,
+        private outbox: OutboxService,
+        private refreshTokens: RefreshTokenService,
     ) { }
 
+    // Refresh tokens used to be stored raw on the user; they live hashed in refresh_tokens now
+    async onApplicationBootstrap() {
+        const { modifiedCount } = await this.userModel.collection.updateMany(
+            { refreshTokens: { $exists: true } },
+            { $unset: { refreshTokens: '' } },
+        );
+
+        if (modifiedCount > 0) {
+            this.logger.log(`Dropped legacy refresh tokens of ${modifiedCount} user(s)`);
+        }
+    }
+
     async create(dto: CreateUserDto, correlationId?: string): Promise<UserResponseDto> {
         const existingUser = await this.userModel.findOne({
             email: dto.email.toLowerCase(),
@@ -89,22 +105,24 @@ export class UserService {
             isEmailVerified: false,
         });
 
-        await user.save();
+        await this.outbox.transaction(async () => {
+            await user.save();
+
+            await this.outbox.enqueue(
+                EventName.USER_CREATED,
+                {
+                    userId: user._id.toString(),
+                    email: user.email,
+                    firstName: user.firstName,
+                    lastName: user.lastName,
+                    role: roles[0],
+                },
+                correlationId,
+            );
+        });
 
         this.logger.log(`User created: ${user.email} [${user._id}]`);
 
-        await this.rabbitMQ.publishEvent<UserCreatedPayload>(
-            EventName.USER_CREATED,
-            {
-                userId: user._id.toString(),
-                email: user.email,
-                firstName: user.firstName,
-                lastName: user.lastName,
-                role: roles[0],
-            },
-            correlationId,
-        );
-
         return UserResponseDto.fromDocument(user);
     }
 
@@ -195,20 +213,26 @@ export class UserService {
             user.permissions = this.calculatePermissions(dto.roles);
         }
 
-        await user.save();
+        await this.outbox.transaction(async () => {
+            await user.save();
 
-        this.logger.log(`User updated: ${user.email} [${user._id}]`);
+            await this.outbox.enqueue(
+                EventName.USER_UPDATED,
+                { userId: user._id.toString(), email: user.email, changes: Object.keys(dto) },
+                correlationId,
+            );
+        });
 
-        await this.rabbitMQ.publishEvent(
-            EventName.USER_UPDATED,
-            { userId: user._id.toString(), email: user.email, changes: Object.keys(dto) },
-            correlationId,
-        );
+        this.logger.log(`User updated: ${user.email} [${user._id}]`);
 
         return UserResponseDto.fromDocument(user);
     }
 
-    async changePassword(id: string, dto: ChangePasswordDto): Promise<void> {
+    async changePassword(
+        id: string,
+        dto: ChangePasswordDto,
+        correlationId?: string,
+    ): Promise<void> {
         const user = await this.findDocumentById(id);
 
         const isPasswordValid = await bcrypt.compare(dto.currentPassword, user.passwordHash);
@@ -224,9 +248,21 @@ export class UserService {
         }
 
         user.passwordHash = await bcrypt.hash(dto.newPassword, this.config.bcryptRounds);
-        user.refreshTokens = [];
 
-        await user.save();
+        await this.outbox.transaction(async () => {
+            await user.save();
+            await this.refreshTokens.revokeAll(user._id.toString(), 'password_change');
+
+            await this.outbox.enqueue(
+                EventName.TOKENS_REVOKED,
+                revokeAllTokens(
+                    user._id.toString(),
+                    'password_change',
+                    this.config.jwt.accessExpiresIn,
+                ),
+                correlationId,
+            );
+        });
 
         this.logger.log(`Password changed for user: ${user.email}`);
     }
@@ -237,16 +273,22 @@ export class UserService {
         user.roles = roles;
         user.permissions = this.calculatePermissions(roles);
 
-        await user.save();
+        await this.outbox.transaction(async () => {
+            await user.save();
+
+            await this.outbox.enqueue(
+                EventName.USER_UPDATED,
+                {
+                    userId: user._id.toString(),
+                    email: user.email,
+                    changes: ['roles', 'permissions'],
+                },
+                correlationId,
+            );
+        });
 
         this.logger.log(`Roles updated for user: ${user.email} -> ${roles.join(', ')}`);
 
-        await this.rabbitMQ.publishEvent(
-            EventName.USER_UPDATED,
-            { userId: user._id.toString(), email: user.email, changes: ['roles', 'permissions'] },
-            correlationId,
-        );
-
         return UserResponseDto.fromDocument(user);
     }
 
@@ -254,17 +296,29 @@ export class UserService {
         const user = await this.findDocumentById(id);
 
         user.isActive = false;
-        user.refreshTokens = [];
 
-        await user.save();
+        await this.outbox.transaction(async () => {
+            await user.save();
+            await this.refreshTokens.revokeAll(user._id.toString(), 'deactivated');
+
+            await this.outbox.enqueue(
+                EventName.USER_DELETED,
+                { userId: user._id.toString(), email: user.email },
+                correlationId,
+            );
+
+            await this.outbox.enqueue(
+                EventName.TOKENS_REVOKED,
+                revokeAllTokens(
+                    user._id.toString(),
+                    'deactivated',
+                    this.config.jwt.accessExpiresIn,
+                ),
+                correlationId,
+            );
+        });
 
         this.logger.log(`User deactivated: ${user.email}`);
-
-        await this.rabbitMQ.publishEvent(
-            EventName.USER_DELETED,
-            { userId: user._id.toString(), email: user.email },
-            correlationId,
-        );
     }
 
     private calculatePermissions(roles: UserRole[]): Permission[] {
@@ -0,0 +1,3 @@
+import 'dotenv/config';
+
+export const databaseUrl = process.env.DATABASE_URL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "last_event_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "processed_webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payment_intent_id" TEXT,
+    "event_created_at" TIMESTAMP(3) NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "processed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "processed_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "processed_webhook_events_payment_intent_id_idx" ON "processed_webhook_events"("payment_intent_id");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "LineItemKind" AS ENUM ('SERVICE', 'DISCOUNT', 'INSURANCE_ADJUSTMENT', 'TAX');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "breakdown" JSONB;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "appointment_type" TEXT,
+ADD COLUMN     "duration_minutes" INTEGER,
+ADD COLUMN     "insurance_adjustment" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "scheduled_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "invoice_line_items" ADD COLUMN     "kind" "LineItemKind" NOT NULL DEFAULT 'SERVICE',
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "year" INTEGER NOT NULL,
+    "last_value" INTEGER NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("year")
+);
@@ -0,0 +1,48 @@
+import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import { EventBusModule, RABBITMQ_CONFIG } from '@careflow/shared';
+
+import { AppConfigModule, AppConfigService } from './config';
+import { PrismaModule } from './prisma';
+import { AppointmentModule } from './appointment/appointment.module';
+import { PaymentModule } from './payment/payment.module';
+import { InvoiceModule } from './invoice/invoice.module';
+import { WebhookModule } from './webhook/webhook.module';
+import { ReportModule } from './report/report.module';
+import { HealthModule } from './health/health.module';
+import { HttpExceptionFilter } from './common/filters';
+
+@Module({
+    imports: [
+        // Configuration
+        AppConfigModule,
+
+        // Database
+        PrismaModule,
+
+        // Message Queue
+        EventBusModule.forRootAsync({
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => ({
+                url: config.rabbitmqUrl,
+                serviceName: 'billing-service',
+                queue: RABBITMQ_CONFIG.QUEUES.BILLING_EVENTS,
+            }),
+        }),
+
+        // Feature modules
+        AppointmentModule,
+        PaymentModule,
+        InvoiceModule,
+        WebhookModule,
+        ReportModule,
+        HealthModule,
+    ],
+    providers: [
+        {
+            provide: APP_FILTER,
+            useClass: HttpExceptionFilter,
+        },
+    ],
+})
+export class AppModule { }
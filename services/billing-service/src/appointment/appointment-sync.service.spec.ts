@@ -0,0 +1,192 @@
+import { BadRequestException } from '@nestjs/common';
+import { EventBus, EventName, UserContext, UserRole } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { FakePaymentOutcome } from '../config/config.validation';
+import { InvoiceService } from '../invoice/invoice.service';
+import { FakePaymentProvider } from '../payment-provider';
+import { PaymentService } from '../payment/payment.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppointmentSyncService } from './appointment-sync.service';
+
+interface BillableAppointmentRow {
+    id: string;
+    patientId: string;
+    doctorId: string;
+    scheduledAt: Date;
+    durationMinutes: number;
+    type: string;
+    status: string;
+}
+
+/**
+ * The billable_appointments and payments queries a checkout runs, on arrays
+ */
+class FakeBillingPrisma {
+    readonly appointments: BillableAppointmentRow[] = [];
+    readonly payments: Record<string, any>[] = [];
+
+    readonly billableAppointment = {
+        upsert: async ({ where, create, update }: any) => {
+            const row = this.appointment(where.id);
+            if (row) {
+                return Object.assign(row, update);
+            }
+            this.appointments.push({ ...create });
+            return create;
+        },
+        updateMany: async ({ where, data }: any) => {
+            const row = this.appointment(where.id);
+            Object.assign(row ?? {}, data);
+            return { count: row ? 1 : 0 };
+        },
+        findUnique: async ({ where }: any) => this.appointment(where.id) ?? null,
+    };
+
+    readonly payment = {
+        findFirst: async ({ where }: any) =>
+            this.payments.find(
+                (payment) =>
+                    payment.appointmentId === where.appointmentId &&
+                    where.status.in.includes(payment.status),
+            ) ?? null,
+        create: async ({ data }: any) => {
+            const id = `payment-${this.payments.length + 1}`;
+            const payment = { id, status: 'PENDING', ...data };
+            this.payments.push(payment);
+            return payment;
+        },
+    };
+
+    appointment(id: string): BillableAppointmentRow | undefined {
+        return this.appointments.find((row) => row.id === id);
+    }
+}
+
+describe('AppointmentSyncService', () => {
+    let sync: AppointmentSyncService;
+    let payments: PaymentService;
+    let prisma: FakeBillingPrisma;
+    let eventBus: EventBus;
+    let published: jest.SpyInstance;
+
+    const patient: UserContext = {
+        userId: 'patient-1',
+        email: 'patient@example.com',
+        roles: [UserRole.PATIENT],
+        permissions: [],
+    };
+
+    const appointment = {
+        appointmentId: 'appt-1',
+        patientId: 'patient-1',
+        doctorId: 'doctor-1',
+        scheduledAt: '2026-03-02T09:00:00.000Z',
+    };
+
+    const checkout = () => payments.createPaymentIntent({ appointmentId: 'appt-1' }, patient);
+
+    beforeEach(async () => {
+        prisma = new FakeBillingPrisma();
+        // A real bus, so the events fed to the sync match the published schemas
+        eventBus = new EventBus(
+            { url: 'amqp://localhost:5672', serviceName: 'billing-service' },
+            {} as never,
+            {} as never,
+            {} as never,
+        );
+        published = jest.spyOn(eventBus, 'publishEvent').mockResolvedValue(undefined);
+
+        sync = new AppointmentSyncService(prisma as unknown as PrismaService);
+        payments = new PaymentService(
+            prisma as unknown as PrismaService,
+            eventBus,
+            {
+                consultationFee: 5000,
+                invoiceTaxRate: 0,
+                defaultCurrency: 'usd',
+            } as AppConfigService,
+            {} as InvoiceService,
+            new FakePaymentProvider({
+                outcome: FakePaymentOutcome.Manual,
+                delayMs: 0,
+                webhookSecret: 'whsec_test',
+                webhookToleranceSeconds: 300,
+            }),
+        );
+
+        await sync.handleCreated(
+            eventBus.createEvent(EventName.APPOINTMENT_CREATED, {
+                ...appointment,
+                durationMinutes: 30,
+                type: 'consultation',
+                status: 'requested',
+            }),
+        );
+    });
+
+    it('refuses checkout for a request', async () => {
+        await expect(checkout()).rejects.toThrow(BadRequestException);
+        await expect(checkout()).rejects.toThrow('not awaiting payment (status: requested)');
+    });
+
+    it('lets a request be paid for once it moves to pending_payment', async () => {
+        await sync.handleStatusChanged(
+            eventBus.createEvent(EventName.APPOINTMENT_AWAITING_PAYMENT, {
+                ...appointment,
+                previousStatus: 'requested',
+                status: 'pending_payment',
+                holdExpiresAt: '2026-03-02T08:40:00.000Z',
+            }),
+        );
+
+        await expect(checkout()).resolves.toMatchObject({
+            appointmentId: 'appt-1',
+            amount: 5000,
+            currency: 'usd',
+            status: 'PENDING',
+        });
+        expect(published).toHaveBeenCalledWith(
+            expect.objectContaining({
+                eventName: EventName.PAYMENT_PENDING,
+                payload: expect.objectContaining({ appointmentId: 'appt-1', amount: 5000 }),
+            }),
+        );
+    });
+
+    it('refuses checkout once the appointment is cancelled', async () => {
+        await sync.handleStatusChanged(
+            eventBus.createEvent(EventName.APPOINTMENT_CANCELLED, {
+                ...appointment,
+                previousStatus: 'requested',
+                status: 'cancelled',
+                reason: 'Feeling fine',
+            }),
+        );
+
+        await expect(checkout()).rejects.toThrow('not awaiting payment (status: cancelled)');
+    });
+
+    it('marks a paid appointment confirmed', async () => {
+        await sync.handleConfirmed(
+            eventBus.createEvent(EventName.APPOINTMENT_CONFIRMED, {
+                ...appointment,
+                paymentId: 'payment-1',
+            }),
+        );
+
+        expect(prisma.appointment('appt-1')?.status).toBe('confirmed');
+    });
+
+    it('ignores a status change for an appointment it never saw', async () => {
+        await sync.handleStatusChanged(
+            eventBus.createEvent(EventName.APPOINTMENT_COMPLETED, {
+                ...appointment,
+                appointmentId: 'appt-2',
+                previousStatus: 'in_progress',
+                status: 'completed',
+            }),
+        );
+
+        expect(prisma.appointments.map((row) => row.id)).toEqual(['appt-1']);
+    });
+});
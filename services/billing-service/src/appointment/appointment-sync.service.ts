@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventName, EventOf, OnEvent } from '@careflow/shared';
+
+// Lifecycle events that carry the status the appointment moved to
+const STATUS_CHANGES = [
+    EventName.APPOINTMENT_AWAITING_PAYMENT,
+    EventName.APPOINTMENT_CHECKED_IN,
+    EventName.APPOINTMENT_STARTED,
+    EventName.APPOINTMENT_RESCHEDULED,
+    EventName.APPOINTMENT_CANCELLED,
+    EventName.APPOINTMENT_COMPLETED,
+    EventName.APPOINTMENT_NO_SHOW,
+] as const;
+
+/**
+ * Keeps billable_appointments in step with Appointment Service.
+ * Billing only needs who is paying, for what and whether the slot is still awaiting payment.
+ */
+@Injectable()
+export class AppointmentSyncService {
+    private readonly logger = new Logger(AppointmentSyncService.name);
+
+    constructor(private prisma: PrismaService) { }
+
+    @OnEvent(EventName.APPOINTMENT_CREATED)
+    async handleCreated(event: EventOf<EventName.APPOINTMENT_CREATED>): Promise<void> {
+        const { payload } = event;
+
+        const data = {
+            patientId: payload.patientId,
+            doctorId: payload.doctorId,
+            scheduledAt: new Date(payload.scheduledAt),
+            durationMinutes: payload.durationMinutes,
+            type: payload.type,
+            status: payload.status,
+        };
+
+        await this.prisma.billableAppointment.upsert({
+            where: { id: payload.appointmentId },
+            create: { id: payload.appointmentId, ...data },
+            update: data,
+        });
+
+        this.logger.log(`Appointment synced: ${payload.appointmentId} (${payload.status})`);
+    }
+
+    // Confirmation carries no status field
+    @OnEvent(EventName.APPOINTMENT_CONFIRMED)
+    async handleConfirmed(event: EventOf<EventName.APPOINTMENT_CONFIRMED>): Promise<void> {
+        await this.setStatus(event.payload.appointmentId, 'confirmed');
+    }
+
+    @OnEvent(...STATUS_CHANGES)
+    async handleStatusChanged(event: EventOf<(typeof STATUS_CHANGES)[number]>): Promise<void> {
+        await this.setStatus(event.payload.appointmentId, event.payload.status);
+    }
+
+    private async setStatus(appointmentId: string, status: string): Promise<void> {
+        const { count } = await this.prisma.billableAppointment.updateMany({
+            where: { id: appointmentId },
+            data: { status },
+        });
+
+        if (!count) {
+            this.logger.debug(`Unknown appointment ${appointmentId}, skipping`);
+        }
+    }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { AppointmentSyncService } from './appointment-sync.service';
+
+@Module({
+    providers: [AppointmentSyncService],
+    exports: [AppointmentSyncService],
+})
+export class AppointmentModule { }
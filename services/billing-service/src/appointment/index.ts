@@ -0,0 +1,2 @@
+export * from './appointment.module';
+export * from './appointment-sync.service';
@@ -0,0 +1,33 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { INTERNAL_HEADERS, Permission, UserContext, UserRole } from '@careflow/shared';
+
+/**
+ * Rebuild the caller's UserContext from the headers the Gateway injects.
+ * Usage: @CurrentUser() user: UserContext
+ */
+export const CurrentUser = createParamDecorator(
+    (_data: unknown, ctx: ExecutionContext): UserContext => {
+        const request = ctx.switchToHttp().getRequest<Request>();
+        const header = (name: string) => request.headers[name] as string | undefined;
+
+        return {
+            userId: header(INTERNAL_HEADERS.USER_ID) || '',
+            email: header(INTERNAL_HEADERS.USER_EMAIL) || '',
+            roles: parseList<UserRole>(header(INTERNAL_HEADERS.USER_ROLES)),
+            permissions: parseList<Permission>(header(INTERNAL_HEADERS.USER_PERMISSIONS)),
+            departmentId: header(INTERNAL_HEADERS.DEPARTMENT_ID),
+        };
+    },
+);
+
+function parseList<T>(value?: string): T[] {
+    if (!value) return [];
+
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
@@ -0,0 +1 @@
+export * from './current-user.decorator';
@@ -0,0 +1,100 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService as NestConfigService } from '@nestjs/config';
+import { Environment, FakePaymentOutcome, PaymentProviderName } from './config.validation';
+
+export interface Letterhead {
+    name: string;
+    addressLines: string[];
+    phone?: string;
+    email?: string;
+    taxId?: string;
+    logoPath?: string;
+    footer?: string;
+}
+
+@Injectable()
+export class AppConfigService {
+    constructor(private configService: NestConfigService) { }
+
+    get nodeEnv(): Environment {
+        return this.configService.get<Environment>('NODE_ENV')!;
+    }
+
+    get isDevelopment(): boolean {
+        return this.nodeEnv === Environment.Development;
+    }
+
+    get isProduction(): boolean {
+        return this.nodeEnv === Environment.Production;
+    }
+
+    get port(): number {
+        return this.configService.get<number>('PORT')!;
+    }
+
+    get databaseUrl(): string {
+        return this.configService.get<string>('DATABASE_URL')!;
+    }
+
+    get rabbitmqUrl(): string {
+        return this.configService.get<string>('RABBITMQ_URL')!;
+    }
+
+    get paymentProvider(): PaymentProviderName {
+        return (
+            this.configService.get<PaymentProviderName>('PAYMENT_PROVIDER') ??
+            PaymentProviderName.Fake
+        );
+    }
+
+    get defaultCurrency(): string {
+        return this.configService.get<string>('DEFAULT_CURRENCY') ?? 'usd';
+    }
+
+    // Amounts are in the smallest currency unit (cents)
+    get consultationFee(): number {
+        return this.configService.get<number>('CONSULTATION_FEE') ?? 5000;
+    }
+
+    get webhookSecret(): string {
+        return this.configService.get<string>('PAYMENT_WEBHOOK_SECRET')!;
+    }
+
+    // How old a signed webhook may be before it is rejected as a replay
+    get webhookToleranceSeconds(): number {
+        return this.configService.get<number>('PAYMENT_WEBHOOK_TOLERANCE_SECONDS') ?? 300;
+    }
+
+    get invoiceTaxRate(): number {
+        return this.configService.get<number>('INVOICE_TAX_RATE') ?? 0;
+    }
+
+    get invoiceNumberPrefix(): string {
+        return this.configService.get<string>('INVOICE_NUMBER_PREFIX') ?? 'INV';
+    }
+
+    get letterhead(): Letterhead {
+        const address = this.configService.get<string>('INVOICE_HOSPITAL_ADDRESS');
+
+        return {
+            name: this.configService.get<string>('INVOICE_HOSPITAL_NAME') ?? 'CareFlow Hospital',
+            addressLines: address ? address.split('|').map((line) => line.trim()) : [],
+            phone: this.configService.get<string>('INVOICE_HOSPITAL_PHONE'),
+            email: this.configService.get<string>('INVOICE_HOSPITAL_EMAIL'),
+            taxId: this.configService.get<string>('INVOICE_HOSPITAL_TAX_ID'),
+            logoPath: this.configService.get<string>('INVOICE_LOGO_PATH'),
+            footer: this.configService.get<string>('INVOICE_FOOTER'),
+        };
+    }
+
+    get fakePaymentOutcome(): FakePaymentOutcome {
+        return (
+            this.configService.get<FakePaymentOutcome>('FAKE_PAYMENT_OUTCOME') ??
+            FakePaymentOutcome.Succeed
+        );
+    }
+
+    get fakePaymentDelayMs(): number {
+        return this.configService.get<number>('FAKE_PAYMENT_DELAY_MS') ?? 2000;
+    }
+}
@@ -0,0 +1,139 @@
+import { plainToInstance } from 'class-transformer';
+import {
+    IsEnum,
+    IsNumber,
+    IsOptional,
+    IsString,
+    validateSync,
+    Min,
+    Max,
+} from 'class-validator';
+
+export enum Environment {
+    Development = 'development',
+    Production = 'production',
+    Test = 'test',
+}
+
+export enum PaymentProviderName {
+    Fake = 'fake',
+}
+
+// What the fake provider does with a new payment intent
+export enum FakePaymentOutcome {
+    Succeed = 'succeed',
+    Fail = 'fail',
+    Manual = 'manual', // wait for a webhook to be posted by hand
+}
+
+export class EnvironmentVariables {
+    @IsEnum(Environment)
+    NODE_ENV: Environment;
+
+    @IsNumber()
+    @Min(1)
+    @Max(65535)
+    PORT: number;
+
+    @IsString()
+    DATABASE_URL: string;
+
+    @IsString()
+    RABBITMQ_URL: string;
+
+    @IsOptional()
+    @IsEnum(PaymentProviderName)
+    PAYMENT_PROVIDER?: PaymentProviderName;
+
+    @IsOptional()
+    @IsString()
+    DEFAULT_CURRENCY?: string;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    CONSULTATION_FEE?: number;
+
+    // Shared secret for stripe-signature HMACs on incoming webhooks
+    @IsString()
+    PAYMENT_WEBHOOK_SECRET: string;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    PAYMENT_WEBHOOK_TOLERANCE_SECONDS?: number;
+
+    // Invoices: tax rate in percent and number prefix (INV-2026-000001)
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    INVOICE_TAX_RATE?: number;
+
+    @IsOptional()
+    @IsString()
+    INVOICE_NUMBER_PREFIX?: string;
+
+    // Letterhead printed on invoice PDFs
+    @IsOptional()
+    @IsString()
+    INVOICE_HOSPITAL_NAME?: string;
+
+    @IsOptional()
+    @IsString()
+    INVOICE_HOSPITAL_ADDRESS?: string; // lines separated by "|"
+
+    @IsOptional()
+    @IsString()
+    INVOICE_HOSPITAL_PHONE?: string;
+
+    @IsOptional()
+    @IsString()
+    INVOICE_HOSPITAL_EMAIL?: string;
+
+    @IsOptional()
+    @IsString()
+    INVOICE_HOSPITAL_TAX_ID?: string;
+
+    @IsOptional()
+    @IsString()
+    INVOICE_LOGO_PATH?: string;
+
+    @IsOptional()
+    @IsString()
+    INVOICE_FOOTER?: string;
+
+    @IsOptional()
+    @IsEnum(FakePaymentOutcome)
+    FAKE_PAYMENT_OUTCOME?: FakePaymentOutcome;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    FAKE_PAYMENT_DELAY_MS?: number;
+}
+
+export function validate(config: Record<string, unknown>) {
+    const validatedConfig = plainToInstance(EnvironmentVariables, config, {
+        enableImplicitConversion: true,
+    });
+
+    const errors = validateSync(validatedConfig, {
+        skipMissingProperties: false,
+    });
+
+    if (errors.length > 0) {
+        const errorMessages = errors
+            .map((err) => {
+                const constraints = err.constraints
+                    ? Object.values(err.constraints).join(', ')
+                    : 'Unknown error';
+                return `${err.property}: ${constraints}`;
+            })
+            .join('\n');
+
+        throw new Error(`Billing Service config validation failed:\n${errorMessages}`);
+    }
+
+    return validatedConfig;
+}
\ No newline at end of file
@@ -0,0 +1,3 @@
+export * from './config.module';
+export * from './config.service';
+export * from './config.validation';
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { Module } from '@nestjs/common';
+import { HealthController } from './health.controller';
+
+@Module({
+    controllers: [HealthController],
+})
+export class HealthModule { }
\ No newline at end of file
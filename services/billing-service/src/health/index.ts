@@ -0,0 +1,2 @@
+export * from './health.module';
+export * from './health.controller';
\ No newline at end of file
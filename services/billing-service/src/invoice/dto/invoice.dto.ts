@@ -0,0 +1,164 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsEnum } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { LineItemKind } from '../pricing';
+
+export enum InvoiceStatus {
+    ISSUED = 'ISSUED',
+    PAID = 'PAID',
+    VOID = 'VOID',
+    REFUNDED = 'REFUNDED',
+}
+
+// ==================== Request DTOs ====================
+
+export class InvoiceQueryDto {
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number;
+
+    @ApiPropertyOptional({ enum: InvoiceStatus })
+    @IsEnum(InvoiceStatus)
+    @IsOptional()
+    status?: InvoiceStatus;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    patientId?: string;
+}
+
+// ==================== Response DTOs ====================
+
+export class InvoiceLineItemResponseDto {
+    @ApiProperty({ enum: LineItemKind })
+    kind: LineItemKind;
+
+    @ApiProperty()
+    description: string;
+
+    @ApiProperty()
+    quantity: number;
+
+    @ApiProperty({ description: 'Unit price in cents' })
+    unitAmount: number;
+
+    @ApiProperty({ description: 'Line total in cents; negative for deductions' })
+    amount: number;
+
+    static fromEntity(item: any): InvoiceLineItemResponseDto {
+        return {
+            kind: item.kind,
+            description: item.description,
+            quantity: item.quantity,
+            unitAmount: item.unitAmount,
+            amount: item.amount,
+        };
+    }
+}
+
+export class InvoiceResponseDto {
+    @ApiProperty()
+    id: string;
+
+    @ApiProperty({ example: 'INV-2026-000042' })
+    invoiceNumber: string;
+
+    @ApiProperty()
+    appointmentId: string;
+
+    @ApiProperty()
+    patientId: string;
+
+    @ApiPropertyOptional()
+    paymentId?: string;
+
+    @ApiProperty({ enum: InvoiceStatus })
+    status: InvoiceStatus;
+
+    @ApiPropertyOptional({ example: 'follow_up' })
+    appointmentType?: string;
+
+    @ApiPropertyOptional()
+    durationMinutes?: number;
+
+    @ApiPropertyOptional()
+    scheduledAt?: Date;
+
+    @ApiProperty({ description: 'Amounts are in cents' })
+    subtotal: number;
+
+    @ApiProperty()
+    discount: number;
+
+    @ApiProperty()
+    insuranceAdjustment: number;
+
+    @ApiProperty()
+    tax: number;
+
+    @ApiProperty()
+    total: number;
+
+    @ApiProperty()
+    currency: string;
+
+    @ApiProperty({ type: [InvoiceLineItemResponseDto] })
+    lineItems: InvoiceLineItemResponseDto[];
+
+    @ApiProperty()
+    issuedAt: Date;
+
+    @ApiPropertyOptional()
+    paidAt?: Date;
+
+    @ApiProperty()
+    createdAt: Date;
+
+    static fromEntity(invoice: any): InvoiceResponseDto {
+        return {
+            id: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            appointmentId: invoice.appointmentId,
+            patientId: invoice.patientId,
+            paymentId: invoice.paymentId ?? undefined,
+            status: invoice.status,
+            appointmentType: invoice.appointmentType ?? undefined,
+            durationMinutes: invoice.durationMinutes ?? undefined,
+            scheduledAt: invoice.scheduledAt ?? undefined,
+            subtotal: invoice.subtotal,
+            discount: invoice.discount,
+            insuranceAdjustment: invoice.insuranceAdjustment,
+            tax: invoice.tax,
+            total: invoice.total,
+            currency: invoice.currency,
+            lineItems: (invoice.lineItems || []).map(InvoiceLineItemResponseDto.fromEntity),
+            issuedAt: invoice.issuedAt,
+            paidAt: invoice.paidAt ?? undefined,
+            createdAt: invoice.createdAt,
+        };
+    }
+}
+
+export class InvoiceListResponseDto {
+    @ApiProperty({ type: [InvoiceResponseDto] })
+    invoices: InvoiceResponseDto[];
+
+    @ApiProperty()
+    total: number;
+
+    @ApiProperty()
+    page: number;
+
+    @ApiProperty()
+    limit: number;
+
+    @ApiProperty()
+    totalPages: number;
+}
@@ -0,0 +1,6 @@
+export * from './invoice.module';
+export * from './invoice.service';
+export * from './invoice.controller';
+export * from './invoice-pdf.service';
+export * from './pricing';
+export * from './dto/invoice.dto';
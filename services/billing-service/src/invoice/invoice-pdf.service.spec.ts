@@ -0,0 +1,142 @@
+import { inflateSync } from 'zlib';
+import { AppConfigService } from '../config';
+import { LineItemKind } from './pricing';
+import { InvoiceResponseDto, InvoiceStatus } from './dto/invoice.dto';
+import { InvoicePdfService } from './invoice-pdf.service';
+
+const invoice: InvoiceResponseDto = {
+    id: 'invoice-1',
+    invoiceNumber: 'INV-2026-000042',
+    appointmentId: 'appt-1',
+    patientId: 'patient-1',
+    paymentId: 'payment-1',
+    status: InvoiceStatus.PAID,
+    appointmentType: 'consultation',
+    durationMinutes: 60,
+    scheduledAt: new Date('2026-03-02T09:00:00Z'),
+    subtotal: 20000,
+    discount: 2000,
+    insuranceAdjustment: 5000,
+    tax: 1073,
+    total: 14073,
+    currency: 'usd',
+    lineItems: [
+        {
+            kind: LineItemKind.SERVICE,
+            description: 'Consultation visit (60 min)',
+            quantity: 2,
+            unitAmount: 10000,
+            amount: 20000,
+        },
+        {
+            kind: LineItemKind.DISCOUNT,
+            description: 'Discount: Loyalty',
+            quantity: 1,
+            unitAmount: -2000,
+            amount: -2000,
+        },
+    ],
+    issuedAt: new Date('2026-03-02T10:00:00Z'),
+    paidAt: new Date('2026-03-02T10:00:00Z'),
+    createdAt: new Date('2026-03-02T10:00:00Z'),
+};
+
+/**
+ * The text drawn on the PDF, one entry per text operation. Content streams are
+ * deflated, and PDFKit writes each run as hex strings split at kerning adjustments.
+ */
+async function renderedText(doc: PDFKit.PDFDocument): Promise<string[]> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of doc) {
+        chunks.push(chunk as Buffer);
+    }
+    const pdf = Buffer.concat(chunks).toString('latin1');
+
+    const text: string[] = [];
+    for (const [, stream] of pdf.matchAll(/stream\n([\s\S]*?)\nendstream/g)) {
+        let content: string;
+        try {
+            content = inflateSync(Buffer.from(stream, 'latin1')).toString('latin1');
+        } catch {
+            continue; // not a deflated stream (fonts, metadata)
+        }
+
+        for (const [, run] of content.matchAll(/\[(.*?)\] TJ/g)) {
+            const hex = [...run.matchAll(/<([0-9a-f]*)>/g)].map(([, part]) => part).join('');
+            text.push(Buffer.from(hex, 'hex').toString('latin1'));
+        }
+    }
+    return text;
+}
+
+describe('InvoicePdfService', () => {
+    const service = new InvoicePdfService({
+        letterhead: {
+            name: 'CareFlow Hospital',
+            addressLines: ['1 Main Street', 'Springfield'],
+            phone: '+1 555 0100',
+        },
+    } as AppConfigService);
+
+    it('renders the letterhead and invoice details', async () => {
+        const text = await renderedText(service.render(invoice));
+
+        expect(text).toEqual(
+            expect.arrayContaining([
+                'CareFlow Hospital',
+                '1 Main Street',
+                'INVOICE',
+                'INV-2026-000042',
+                'Issued 2026-03-02',
+                'PAID',
+                'Patient patient-1',
+                '2026-03-02 09:00 UTC',
+            ]),
+        );
+    });
+
+    it('lists every line item with quantity, unit price and amount', async () => {
+        const text = await renderedText(service.render(invoice));
+
+        // Description, qty, unit price, amount
+        const row = (description: string) =>
+            text.slice(text.indexOf(description), text.indexOf(description) + 4);
+
+        expect(row('Consultation visit (60 min)')).toEqual([
+            'Consultation visit (60 min)',
+            '2',
+            '$100.00',
+            '$200.00',
+        ]);
+        expect(row('Discount: Loyalty')).toEqual(['Discount: Loyalty', '1', '-$20.00', '-$20.00']);
+    });
+
+    it('renders the totals', async () => {
+        const text = await renderedText(service.render(invoice));
+
+        const totals = text.slice(text.indexOf('Subtotal'));
+
+        expect(totals).toEqual([
+            'Subtotal',
+            '$200.00',
+            'Discount',
+            '-$20.00',
+            'Insurance adjustment',
+            '-$50.00',
+            'Tax',
+            '$10.73',
+            'Total (USD)',
+            '$140.73',
+            'Amount paid',
+            '$140.73',
+        ]);
+    });
+
+    it('shows the refund on a refunded invoice', async () => {
+        const text = await renderedText(
+            service.render({ ...invoice, status: InvoiceStatus.REFUNDED }),
+        );
+
+        expect(text.slice(-2)).toEqual(['Refunded', '-$140.73']);
+    });
+});
@@ -0,0 +1,236 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { existsSync } from 'fs';
+import * as PDFDocument from 'pdfkit';
+import { AppConfigService } from '../config';
+import { InvoiceResponseDto, InvoiceStatus } from './dto/invoice.dto';
+
+const MARGIN = 50;
+const PAGE_WIDTH = 612; // US Letter, points
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Table columns: description | qty | unit price | amount
+const COLUMNS = { description: MARGIN, qty: 330, unit: 380, amount: 470 };
+const NUMERIC_WIDTH = PAGE_WIDTH - MARGIN - COLUMNS.amount;
+
+/**
+ * Renders an invoice as a PDF stream: letterhead, billing details, line items, totals.
+ * The document is piped as it is written, nothing is buffered to disk.
+ */
+@Injectable()
+export class InvoicePdfService {
+    private readonly logger = new Logger(InvoicePdfService.name);
+
+    constructor(private config: AppConfigService) { }
+
+    render(invoice: InvoiceResponseDto): PDFKit.PDFDocument {
+        const doc = new PDFDocument({
+            size: 'LETTER',
+            margin: MARGIN,
+            info: {
+                Title: `Invoice ${invoice.invoiceNumber}`,
+                Author: this.config.letterhead.name,
+            },
+        });
+
+        const money = (cents: number) =>
+            new Intl.NumberFormat('en-US', {
+                style: 'currency',
+                currency: invoice.currency.toUpperCase(),
+            }).format(cents / 100);
+
+        this.drawLetterhead(doc, invoice);
+        this.drawDetails(doc, invoice);
+        this.drawLineItems(doc, invoice, money);
+        this.drawTotals(doc, invoice, money);
+        this.drawFooter(doc);
+
+        doc.end();
+
+        return doc;
+    }
+
+    private drawLetterhead(doc: PDFKit.PDFDocument, invoice: InvoiceResponseDto): void {
+        const letterhead = this.config.letterhead;
+        let textX = MARGIN;
+
+        if (letterhead.logoPath) {
+            if (existsSync(letterhead.logoPath)) {
+                doc.image(letterhead.logoPath, MARGIN, MARGIN, { fit: [60, 60] });
+                textX += 75;
+            } else {
+                this.logger.warn(`Invoice logo not found: ${letterhead.logoPath}`);
+            }
+        }
+
+        doc.font('Helvetica-Bold').fontSize(16).text(letterhead.name, textX, MARGIN);
+        doc.font('Helvetica').fontSize(9).fillColor('#444444');
+
+        const contact = [
+            ...letterhead.addressLines,
+            [letterhead.phone, letterhead.email].filter(Boolean).join('  ·  '),
+            letterhead.taxId ? `Tax ID: ${letterhead.taxId}` : '',
+        ].filter(Boolean);
+
+        for (const line of contact) {
+            doc.text(line, textX);
+        }
+
+        // Right-hand block
+        doc.fillColor('#000000')
+            .font('Helvetica-Bold')
+            .fontSize(20)
+            .text('INVOICE', MARGIN, MARGIN, { width: CONTENT_WIDTH, align: 'right' });
+
+        doc.font('Helvetica').fontSize(10);
+        doc.text(invoice.invoiceNumber, { width: CONTENT_WIDTH, align: 'right' });
+        doc.text(`Issued ${formatDate(invoice.issuedAt)}`, {
+            width: CONTENT_WIDTH,
+            align: 'right',
+        });
+
+        doc.font('Helvetica-Bold')
+            .fillColor(invoice.status === InvoiceStatus.PAID ? '#1a7f37' : '#9a6700')
+            .text(invoice.status, { width: CONTENT_WIDTH, align: 'right' })
+            .fillColor('#000000');
+
+        doc.y = Math.max(doc.y, MARGIN + 80);
+        this.rule(doc);
+    }
+
+    private drawDetails(doc: PDFKit.PDFDocument, invoice: InvoiceResponseDto): void {
+        const top = doc.y + 10;
+
+        doc.font('Helvetica-Bold').fontSize(10).text('Billed to', MARGIN, top);
+        doc.font('Helvetica').text(`Patient ${invoice.patientId}`);
+
+        doc.font('Helvetica-Bold').text('Appointment', 320, top);
+        doc.font('Helvetica').text(invoice.appointmentId, 320);
+
+        if (invoice.scheduledAt) {
+            doc.text(formatDate(invoice.scheduledAt, true), 320);
+        }
+
+        if (invoice.paidAt) {
+            doc.text(`Paid ${formatDate(invoice.paidAt)}`, 320);
+        }
+
+        doc.moveDown(1.5);
+    }
+
+    private drawLineItems(
+        doc: PDFKit.PDFDocument,
+        invoice: InvoiceResponseDto,
+        money: (cents: number) => string,
+    ): void {
+        doc.font('Helvetica-Bold').fontSize(10);
+        this.row(doc, ['Description', 'Qty', 'Unit price', 'Amount']);
+        this.rule(doc);
+
+        doc.font('Helvetica');
+
+        for (const item of invoice.lineItems) {
+            this.row(doc, [
+                item.description,
+                String(item.quantity),
+                money(item.unitAmount),
+                money(item.amount),
+            ]);
+        }
+
+        this.rule(doc);
+    }
+
+    private drawTotals(
+        doc: PDFKit.PDFDocument,
+        invoice: InvoiceResponseDto,
+        money: (cents: number) => string,
+    ): void {
+        const lines: [string, number][] = [['Subtotal', invoice.subtotal]];
+
+        if (invoice.discount) {
+            lines.push(['Discount', -invoice.discount]);
+        }
+
+        if (invoice.insuranceAdjustment) {
+            lines.push(['Insurance adjustment', -invoice.insuranceAdjustment]);
+        }
+
+        if (invoice.tax) {
+            lines.push(['Tax', invoice.tax]);
+        }
+
+        doc.fontSize(10);
+
+        for (const [label, amount] of lines) {
+            this.totalRow(doc, label, money(amount));
+        }
+
+        doc.font('Helvetica-Bold').fontSize(12);
+        this.totalRow(doc, `Total (${invoice.currency.toUpperCase()})`, money(invoice.total));
+        doc.font('Helvetica').fontSize(10);
+
+        if (invoice.status === InvoiceStatus.PAID || invoice.status === InvoiceStatus.REFUNDED) {
+            this.totalRow(doc, 'Amount paid', money(invoice.total));
+        }
+
+        if (invoice.status === InvoiceStatus.REFUNDED) {
+            this.totalRow(doc, 'Refunded', money(-invoice.total));
+        }
+    }
+
+    private drawFooter(doc: PDFKit.PDFDocument): void {
+        const footer = this.config.letterhead.footer;
+
+        if (!footer) {
+            return;
+        }
+
+        doc.fontSize(8)
+            .fillColor('#666666')
+            .text(footer, MARGIN, doc.page.height - MARGIN - 20, {
+                width: CONTENT_WIDTH,
+                align: 'center',
+                lineBreak: false,
+            });
+    }
+
+    private row(doc: PDFKit.PDFDocument, [description, qty, unit, amount]: string[]): void {
+        const y = doc.y;
+
+        doc.text(description, COLUMNS.description, y, { width: COLUMNS.qty - MARGIN - 10 });
+        const bottom = doc.y;
+
+        doc.text(qty, COLUMNS.qty, y, { width: 40, align: 'right' });
+        doc.text(unit, COLUMNS.unit, y, { width: 80, align: 'right' });
+        doc.text(amount, COLUMNS.amount, y, { width: NUMERIC_WIDTH, align: 'right' });
+
+        // Descriptions may wrap; continue below the tallest cell
+        doc.x = MARGIN;
+        doc.y = Math.max(bottom, doc.y) + 4;
+    }
+
+    private totalRow(doc: PDFKit.PDFDocument, label: string, value: string): void {
+        const y = doc.y;
+
+        doc.text(label, COLUMNS.unit - 80, y, { width: 160, align: 'right' });
+        doc.text(value, COLUMNS.amount, y, { width: NUMERIC_WIDTH, align: 'right' });
+
+        doc.x = MARGIN;
+        doc.y += 2;
+    }
+
+    private rule(doc: PDFKit.PDFDocument): void {
+        doc.moveTo(MARGIN, doc.y + 2)
+            .lineTo(PAGE_WIDTH - MARGIN, doc.y + 2)
+            .strokeColor('#cccccc')
+            .stroke();
+        doc.y += 8;
+    }
+}
+
+function formatDate(date: Date | string, withTime = false): string {
+    const value = new Date(date);
+    const day = value.toISOString().slice(0, 10);
+
+    return withTime ? `${day} ${value.toISOString().slice(11, 16)} UTC` : day;
+}
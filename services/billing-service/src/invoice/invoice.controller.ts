@@ -0,0 +1,74 @@
+import { Controller, Get, Param, Query, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiProduces } from '@nestjs/swagger';
+import { InvoiceService } from './invoice.service';
+import { InvoicePdfService } from './invoice-pdf.service';
+import {
+    InvoiceQueryDto,
+    InvoiceResponseDto,
+    InvoiceListResponseDto,
+    InvoiceStatus,
+} from './dto/invoice.dto';
+import { CurrentUser } from '../common/decorators';
+import { UserContext } from '@careflow/shared';
+
+@ApiTags('Invoices')
+@Controller('billing/invoices')
+export class InvoiceController {
+    constructor(
+        private invoiceService: InvoiceService,
+        private invoicePdfService: InvoicePdfService,
+    ) { }
+
+    @Get()
+    @ApiOperation({ summary: 'List invoices' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'status', required: false, enum: InvoiceStatus })
+    @ApiQuery({ name: 'patientId', required: false, type: String })
+    @ApiResponse({ status: 200, type: InvoiceListResponseDto })
+    async findAll(@Query() query: InvoiceQueryDto): Promise<InvoiceListResponseDto> {
+        return this.invoiceService.findAll(query);
+    }
+
+    @Get('user/:userId')
+    @ApiOperation({ summary: 'Get invoices of a patient' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'status', required: false, enum: InvoiceStatus })
+    @ApiResponse({ status: 200, type: InvoiceListResponseDto })
+    async findByUser(
+        @Param('userId') userId: string,
+        @Query() query: InvoiceQueryDto,
+        @CurrentUser() user: UserContext,
+    ): Promise<InvoiceListResponseDto> {
+        return this.invoiceService.findByUser(userId, query, user);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get invoice by ID' })
+    @ApiResponse({ status: 200, type: InvoiceResponseDto })
+    @ApiResponse({ status: 404, description: 'Invoice not found' })
+    async findById(
+        @Param('id') id: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<InvoiceResponseDto> {
+        return this.invoiceService.findById(id, user);
+    }
+
+    @Get(':id/pdf')
+    @ApiOperation({ summary: 'Download invoice as PDF' })
+    @ApiProduces('application/pdf')
+    @ApiResponse({ status: 200, description: 'PDF document' })
+    @ApiResponse({ status: 404, description: 'Invoice not found' })
+    async downloadPdf(
+        @Param('id') id: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<StreamableFile> {
+        const invoice = await this.invoiceService.findById(id, user);
+
+        return new StreamableFile(this.invoicePdfService.render(invoice), {
+            type: 'application/pdf',
+            disposition: `inline; filename="${invoice.invoiceNumber}.pdf"`,
+        });
+    }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { InvoiceService } from './invoice.service';
+import { InvoiceController } from './invoice.controller';
+import { InvoicePdfService } from './invoice-pdf.service';
+
+@Module({
+    controllers: [InvoiceController],
+    providers: [InvoiceService, InvoicePdfService],
+    exports: [InvoiceService],
+})
+export class InvoiceModule { }
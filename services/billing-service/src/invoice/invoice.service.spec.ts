@@ -0,0 +1,164 @@
+import { EventBus } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { PrismaService } from '../prisma/prisma.service';
+import { InvoiceService } from './invoice.service';
+
+/**
+ * invoice_sequences and invoices for transactions running side by side. As in
+ * Postgres, the upsert locks the year's counter row until its transaction ends,
+ * and a rolled-back transaction undoes its increment.
+ */
+class FakeInvoicePrisma {
+    readonly sequences = new Map<number, number>();
+    readonly invoices: Record<string, any>[] = [];
+
+    // Payments whose invoice insert fails, rolling their transaction back
+    readonly failing = new Set<string>();
+
+    private readonly rowLocks = new Map<number, Promise<void>>();
+
+    async $transaction<T>(fn: (tx: any) => Promise<T>): Promise<T> {
+        const undo: (() => void)[] = [];
+        const unlock: (() => void)[] = [];
+
+        const tx = {
+            billableAppointment: { findUnique: async () => null },
+            invoiceSequence: {
+                upsert: async ({ where: { year }, create, update }: any) => {
+                    await this.lockRow(year, unlock);
+
+                    const previous = this.sequences.get(year);
+                    const lastValue =
+                        previous === undefined
+                            ? create.lastValue
+                            : previous + update.lastValue.increment;
+                    this.sequences.set(year, lastValue);
+                    undo.push(() =>
+                        previous === undefined
+                            ? this.sequences.delete(year)
+                            : this.sequences.set(year, previous),
+                    );
+
+                    return { year, lastValue };
+                },
+            },
+            invoice: {
+                create: async ({ data }: any) => {
+                    // Give the other transactions a turn while this one holds the row
+                    await new Promise((resolve) => setImmediate(resolve));
+
+                    if (this.failing.has(data.paymentId)) {
+                        throw new Error(`Insert failed for ${data.paymentId}`);
+                    }
+
+                    const invoice = {
+                        id: `invoice-${this.invoices.length + 1}`,
+                        ...data,
+                        lineItems: data.lineItems.create,
+                        createdAt: new Date(),
+                    };
+                    this.invoices.push(invoice);
+                    undo.push(() => this.invoices.splice(this.invoices.indexOf(invoice), 1));
+                    return invoice;
+                },
+            },
+        };
+
+        try {
+            return await fn(tx);
+        } catch (error) {
+            undo.reverse().forEach((step) => step());
+            throw error;
+        } finally {
+            unlock.forEach((release) => release());
+        }
+    }
+
+    private async lockRow(year: number, unlock: (() => void)[]): Promise<void> {
+        while (this.rowLocks.has(year)) {
+            await this.rowLocks.get(year);
+        }
+
+        let release!: () => void;
+        this.rowLocks.set(year, new Promise<void>((resolve) => (release = resolve)));
+        unlock.push(() => {
+            this.rowLocks.delete(year);
+            release();
+        });
+    }
+}
+
+describe('InvoiceService', () => {
+    let service: InvoiceService;
+    let prisma: FakeInvoicePrisma;
+
+    const payment = (id: string, paidAt = new Date('2026-03-02T10:00:00Z')) => ({
+        id,
+        appointmentId: `appt-${id}`,
+        patientId: 'patient-1',
+        amount: 5000,
+        currency: 'usd',
+        paidAt,
+    });
+
+    const invoice = (id: string, paidAt?: Date) =>
+        prisma.$transaction((tx) => service.createForPayment(tx, payment(id, paidAt)));
+
+    const numbers = () => prisma.invoices.map((row) => row.invoiceNumber).sort();
+
+    beforeEach(() => {
+        prisma = new FakeInvoicePrisma();
+        service = new InvoiceService(
+            prisma as unknown as PrismaService,
+            {} as EventBus,
+            { invoiceNumberPrefix: 'INV' } as AppConfigService,
+        );
+    });
+
+    describe('invoice numbers', () => {
+        it('numbers concurrent invoices distinctly and without gaps', async () => {
+            await Promise.all(['p1', 'p2', 'p3', 'p4', 'p5'].map((id) => invoice(id)));
+
+            expect(numbers()).toEqual([
+                'INV-2026-000001',
+                'INV-2026-000002',
+                'INV-2026-000003',
+                'INV-2026-000004',
+                'INV-2026-000005',
+            ]);
+        });
+
+        it('hands the number of a rolled-back invoice to the next one', async () => {
+            prisma.failing.add('p1');
+
+            const results = await Promise.allSettled([invoice('p1'), invoice('p2')]);
+
+            expect(results.map((result) => result.status)).toEqual(['rejected', 'fulfilled']);
+            expect(numbers()).toEqual(['INV-2026-000001']);
+
+            await invoice('p3');
+
+            expect(numbers()).toEqual(['INV-2026-000001', 'INV-2026-000002']);
+        });
+
+        it('starts again at 1 each year, from the payment date', async () => {
+            await invoice('p1', new Date('2026-12-31T23:59:00Z'));
+            await invoice('p2', new Date('2027-01-01T00:01:00Z'));
+
+            expect(numbers()).toEqual(['INV-2026-000001', 'INV-2027-000001']);
+        });
+    });
+
+    it('bills a payment without a breakdown as a single visit', async () => {
+        const issued = await invoice('p1');
+
+        expect(issued).toMatchObject({
+            invoiceNumber: 'INV-2026-000001',
+            paymentId: 'p1',
+            status: 'PAID',
+            subtotal: 5000,
+            total: 5000,
+            lineItems: [expect.objectContaining({ quantity: 1, amount: 5000 })],
+        });
+    });
+});
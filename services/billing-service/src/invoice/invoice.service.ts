@@ -0,0 +1,204 @@
+import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppConfigService } from '../config';
+import { Pricing, priceConsultation } from './pricing';
+import {
+    InvoiceQueryDto,
+    InvoiceResponseDto,
+    InvoiceListResponseDto,
+    InvoiceStatus,
+} from './dto/invoice.dto';
+import { EventBus, EventName, UserContext, UserRole } from '@careflow/shared';
+
+interface PaidPayment {
+    id: string;
+    appointmentId: string;
+    patientId: string;
+    amount: number;
+    currency: string;
+    paidAt: Date;
+    breakdown?: unknown;
+}
+
+const LINE_ITEMS = { lineItems: { orderBy: { position: 'asc' as const } } };
+
+@Injectable()
+export class InvoiceService {
+    private readonly logger = new Logger(InvoiceService.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private eventBus: EventBus,
+        private config: AppConfigService,
+    ) { }
+
+    /**
+     * Issues the (already paid) invoice for a successful payment.
+     * Runs inside the caller's transaction so payment and invoice commit together.
+     */
+    async createForPayment(
+        tx: Prisma.TransactionClient,
+        payment: PaidPayment,
+    ): Promise<InvoiceResponseDto> {
+        const appointment = await tx.billableAppointment.findUnique({
+            where: { id: payment.appointmentId },
+        });
+
+        // Payments priced before line items existed are billed as a single visit
+        const pricing =
+            (payment.breakdown as Pricing | undefined) ??
+            priceConsultation({
+                fee: payment.amount,
+                appointmentType: appointment?.type,
+                durationMinutes: appointment?.durationMinutes,
+                taxRatePercent: 0,
+            });
+
+        const invoice = await tx.invoice.create({
+            data: {
+                invoiceNumber: await this.nextInvoiceNumber(tx, payment.paidAt),
+                appointmentId: payment.appointmentId,
+                patientId: payment.patientId,
+                paymentId: payment.id,
+                status: InvoiceStatus.PAID,
+                appointmentType: appointment?.type,
+                durationMinutes: appointment?.durationMinutes,
+                scheduledAt: appointment?.scheduledAt,
+                subtotal: pricing.subtotal,
+                discount: pricing.discount,
+                insuranceAdjustment: pricing.insuranceAdjustment,
+                tax: pricing.tax,
+                total: pricing.total,
+                currency: payment.currency,
+                issuedAt: payment.paidAt,
+                paidAt: payment.paidAt,
+                lineItems: {
+                    create: pricing.lineItems.map((item, position) => ({ ...item, position })),
+                },
+            },
+            include: LINE_ITEMS,
+        });
+
+        this.logger.log(`Invoice issued: ${invoice.invoiceNumber} for payment ${payment.id}`);
+
+        return InvoiceResponseDto.fromEntity(invoice);
+    }
+
+    async publishGenerated(invoice: InvoiceResponseDto, correlationId?: string): Promise<void> {
+        await this.eventBus.publish(
+            EventName.INVOICE_GENERATED,
+            {
+                invoiceId: invoice.id,
+                invoiceNumber: invoice.invoiceNumber,
+                paymentId: invoice.paymentId!,
+                appointmentId: invoice.appointmentId,
+                patientId: invoice.patientId,
+                total: invoice.total,
+                currency: invoice.currency,
+            },
+            correlationId,
+        );
+    }
+
+    async markRefunded(tx: Prisma.TransactionClient, paymentId: string): Promise<void> {
+        await tx.invoice.updateMany({
+            where: { paymentId },
+            data: { status: InvoiceStatus.REFUNDED },
+        });
+    }
+
+    async findAll(query: InvoiceQueryDto): Promise<InvoiceListResponseDto> {
+        const where: any = {};
+
+        if (query.status) {
+            where.status = query.status;
+        }
+
+        if (query.patientId) {
+            where.patientId = query.patientId;
+        }
+
+        return this.paginate(where, query);
+    }
+
+    async findByUser(
+        userId: string,
+        query: InvoiceQueryDto,
+        user: UserContext,
+    ): Promise<InvoiceListResponseDto> {
+        if (this.isPatient(user) && userId !== user.userId) {
+            throw new ForbiddenException('You can only view your own invoices');
+        }
+
+        const where: any = { patientId: userId };
+
+        if (query.status) {
+            where.status = query.status;
+        }
+
+        return this.paginate(where, query);
+    }
+
+    async findById(id: string, user: UserContext): Promise<InvoiceResponseDto> {
+        const invoice = await this.prisma.invoice.findUnique({
+            where: { id },
+            include: LINE_ITEMS,
+        });
+
+        if (!invoice) {
+            throw new NotFoundException(`Invoice not found: ${id}`);
+        }
+
+        if (this.isPatient(user) && invoice.patientId !== user.userId) {
+            throw new ForbiddenException('You do not have access to this invoice');
+        }
+
+        return InvoiceResponseDto.fromEntity(invoice);
+    }
+
+    private async paginate(where: any, query: InvoiceQueryDto): Promise<InvoiceListResponseDto> {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+        const skip = (page - 1) * limit;
+
+        const [invoices, total] = await Promise.all([
+            this.prisma.invoice.findMany({
+                where,
+                skip,
+                take: limit,
+                include: LINE_ITEMS,
+                orderBy: { issuedAt: 'desc' },
+            }),
+            this.prisma.invoice.count({ where }),
+        ]);
+
+        return {
+            invoices: invoices.map(InvoiceResponseDto.fromEntity),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * <prefix>-<year>-<6 digit counter>. The counter row stays locked until the
+     * invoice commits, so numbers are gapless and a rolled-back invoice frees its number.
+     */
+    private async nextInvoiceNumber(tx: Prisma.TransactionClient, issuedAt: Date): Promise<string> {
+        const year = issuedAt.getUTCFullYear();
+
+        const { lastValue } = await tx.invoiceSequence.upsert({
+            where: { year },
+            create: { year, lastValue: 1 },
+            update: { lastValue: { increment: 1 } },
+        });
+
+        return `${this.config.invoiceNumberPrefix}-${year}-${String(lastValue).padStart(6, '0')}`;
+    }
+
+    private isPatient(user: UserContext): boolean {
+        return user.roles.length > 0 && user.roles.every((r) => r === UserRole.PATIENT);
+    }
+}
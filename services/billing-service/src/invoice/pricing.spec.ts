@@ -0,0 +1,79 @@
+import { LineItemKind, describeVisit, priceConsultation } from './pricing';
+
+describe('pricing', () => {
+    it('bills the fee alone when there is nothing to deduct or tax', () => {
+        const pricing = priceConsultation({
+            fee: 5000,
+            appointmentType: 'follow_up',
+            durationMinutes: 30,
+            taxRatePercent: 0,
+        });
+
+        expect(pricing).toMatchObject({ subtotal: 5000, discount: 0, tax: 0, total: 5000 });
+        expect(pricing.lineItems).toEqual([
+            {
+                kind: LineItemKind.SERVICE,
+                description: 'Follow up visit (30 min)',
+                quantity: 1,
+                unitAmount: 5000,
+                amount: 5000,
+            },
+        ]);
+    });
+
+    it('applies discount, then insurance, then tax on the remainder', () => {
+        const pricing = priceConsultation({
+            fee: 10000,
+            taxRatePercent: 8.25,
+            discount: { amount: 1000, reason: 'Loyalty' },
+            insurance: { amount: 5000, provider: 'Acme Health' },
+        });
+
+        // taxable 4000 -> tax 330
+        expect(pricing).toMatchObject({
+            subtotal: 10000,
+            discount: 1000,
+            insuranceAdjustment: 5000,
+            tax: 330,
+            total: 4330,
+        });
+        expect(pricing.lineItems.map((item) => [item.kind, item.amount])).toEqual([
+            [LineItemKind.SERVICE, 10000],
+            [LineItemKind.DISCOUNT, -1000],
+            [LineItemKind.INSURANCE_ADJUSTMENT, -5000],
+            [LineItemKind.TAX, 330],
+        ]);
+        expect(pricing.lineItems[2].description).toBe('Insurance adjustment - Acme Health');
+    });
+
+    it('line items always add up to the total', () => {
+        const pricing = priceConsultation({
+            fee: 7777,
+            taxRatePercent: 13,
+            discount: { amount: 333 },
+            insurance: { amount: 1234 },
+        });
+
+        const sum = pricing.lineItems.reduce((total, item) => total + item.amount, 0);
+        expect(sum).toBe(pricing.total);
+    });
+
+    it('caps deductions so the total never goes negative', () => {
+        const pricing = priceConsultation({
+            fee: 5000,
+            taxRatePercent: 10,
+            discount: { amount: 3000 },
+            insurance: { amount: 9000 },
+        });
+
+        expect(pricing).toMatchObject({ discount: 3000, insuranceAdjustment: 2000, total: 0 });
+        expect(pricing.lineItems.some((item) => item.kind === LineItemKind.TAX)).toBe(false);
+    });
+
+    it('describes visits without a known type', () => {
+        expect(describeVisit({})).toBe('Consultation visit');
+        expect(describeVisit({ appointmentType: 'telemedicine', durationMinutes: 15 })).toBe(
+            'Telemedicine visit (15 min)',
+        );
+    });
+});
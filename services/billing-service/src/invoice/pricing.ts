@@ -0,0 +1,99 @@
+// Amounts are integers in cents. Deductions are stored as negative line amounts.
+
+export enum LineItemKind {
+    SERVICE = 'SERVICE',
+    DISCOUNT = 'DISCOUNT',
+    INSURANCE_ADJUSTMENT = 'INSURANCE_ADJUSTMENT',
+    TAX = 'TAX',
+}
+
+export interface PricingInput {
+    fee: number;
+    appointmentType?: string;
+    durationMinutes?: number;
+    taxRatePercent: number;
+    discount?: { amount: number; reason?: string };
+    insurance?: { amount: number; provider?: string };
+}
+
+export interface PricedLineItem {
+    kind: LineItemKind;
+    description: string;
+    quantity: number;
+    unitAmount: number;
+    amount: number;
+}
+
+export interface Pricing {
+    lineItems: PricedLineItem[];
+    subtotal: number;
+    discount: number;
+    insuranceAdjustment: number;
+    tax: number;
+    total: number;
+}
+
+/**
+ * Prices one visit: fee, then discount, then insurance, then tax on what is left.
+ * Deductions are capped so the total never goes below zero.
+ */
+export function priceConsultation(input: PricingInput): Pricing {
+    const subtotal = input.fee;
+    const discount = Math.min(Math.max(input.discount?.amount ?? 0, 0), subtotal);
+    const insuranceAdjustment = Math.min(
+        Math.max(input.insurance?.amount ?? 0, 0),
+        subtotal - discount,
+    );
+    const taxable = subtotal - discount - insuranceAdjustment;
+    const tax = Math.round((taxable * input.taxRatePercent) / 100);
+
+    const lineItems: PricedLineItem[] = [
+        line(LineItemKind.SERVICE, describeVisit(input), subtotal),
+    ];
+
+    if (discount) {
+        lineItems.push(
+            line(LineItemKind.DISCOUNT, `Discount${suffix(input.discount?.reason)}`, -discount),
+        );
+    }
+
+    if (insuranceAdjustment) {
+        lineItems.push(
+            line(
+                LineItemKind.INSURANCE_ADJUSTMENT,
+                `Insurance adjustment${suffix(input.insurance?.provider)}`,
+                -insuranceAdjustment,
+            ),
+        );
+    }
+
+    if (tax) {
+        lineItems.push(line(LineItemKind.TAX, `Tax (${input.taxRatePercent}%)`, tax));
+    }
+
+    return {
+        lineItems,
+        subtotal,
+        discount,
+        insuranceAdjustment,
+        tax,
+        total: taxable + tax,
+    };
+}
+
+export function describeVisit(input: { appointmentType?: string; durationMinutes?: number }): string {
+    const type = input.appointmentType
+        ? input.appointmentType.charAt(0).toUpperCase() +
+          input.appointmentType.slice(1).replace(/_/g, ' ')
+        : 'Consultation';
+
+    return input.durationMinutes ? `${type} visit (${input.durationMinutes} min)` : `${type} visit`;
+}
+
+function line(kind: LineItemKind, description: string, amount: number): PricedLineItem {
+    return { kind, description, quantity: 1, unitAmount: amount, amount };
+}
+
+function suffix(detail?: string): string {
+    return detail ? ` - ${detail}` : '';
+}
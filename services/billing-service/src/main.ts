@@ -0,0 +1,67 @@
+import { NestFactory } from '@nestjs/core';
+import { ValidationPipe, Logger } from '@nestjs/common';
+import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { AppModule } from './app.module';
+import { AppConfigService } from './config';
+
+async function bootstrap() {
+    const logger = new Logger('Bootstrap');
+
+    const app = await NestFactory.create(AppModule, {
+        // Keep the raw request body for webhook signature verification
+        rawBody: true,
+        logger: ['error', 'warn', 'log', 'debug', 'verbose'],
+    });
+
+    const config = app.get(AppConfigService);
+
+    // Validation
+    app.useGlobalPipes(
+        new ValidationPipe({
+            whitelist: true,
+            forbidNonWhitelisted: true,
+            transform: true,
+            transformOptions: {
+                enableImplicitConversion: true,
+            },
+        }),
+    );
+
+    // CORS
+    app.enableCors({
+        origin: '*',
+        methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+    });
+
+    // Swagger
+    if (!config.isProduction) {
+        const swaggerConfig = new DocumentBuilder()
+            .setTitle('CareFlow Billing Service')
+            .setDescription('Payments, invoices, refunds and revenue reporting')
+            .setVersion('1.0.0')
+            .addTag('Payments')
+            .addTag('Invoices')
+            .addTag('Webhooks')
+            .addTag('Reports')
+            .addTag('Health')
+            .build();
+
+        const document = SwaggerModule.createDocument(app, swaggerConfig);
+        SwaggerModule.setup('docs', app, document);
+
+        logger.log(`Swagger: http://localhost:${config.port}/docs`);
+    }
+
+    // Shutdown hooks
+    app.enableShutdownHooks();
+
+    // Start
+    await app.listen(config.port);
+
+    logger.log(`💳 Billing Service running on http://localhost:${config.port}`);
+}
+
+bootstrap().catch((err) => {
+    console.error('Failed to start Billing Service:', err);
+    process.exit(1);
+});
\ No newline at end of file
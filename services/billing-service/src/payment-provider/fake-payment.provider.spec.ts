@@ -0,0 +1,125 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { FakePaymentOutcome } from '../config/config.validation';
+import { FakePaymentProvider } from './fake-payment.provider';
+import {
+    ProviderEvent,
+    ProviderEventType,
+    ProviderPaymentStatus,
+} from './payment-provider.interface';
+import { signWebhookPayload } from './webhook-signature';
+
+const params = { amount: 5000, currency: 'usd', metadata: { appointmentId: 'appt-1' } };
+const secret = 'whsec_test';
+
+function sign(body: string): string {
+    return signWebhookPayload(body, secret, Math.floor(Date.now() / 1000));
+}
+
+describe('FakePaymentProvider', () => {
+    let events: ProviderEvent[];
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        events = [];
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    function create(outcome: FakePaymentOutcome): FakePaymentProvider {
+        const provider = new FakePaymentProvider({
+            outcome,
+            delayMs: 1000,
+            webhookSecret: secret,
+            webhookToleranceSeconds: 300,
+        });
+        provider.onEvent(async (event) => {
+            events.push(event);
+        });
+        return provider;
+    }
+
+    it('settles a new intent as succeeded after the delay', async () => {
+        const provider = create(FakePaymentOutcome.Succeed);
+        const intent = await provider.createPaymentIntent(params);
+
+        expect(intent.status).toBe(ProviderPaymentStatus.REQUIRES_PAYMENT);
+        expect(intent.clientSecret).toContain(`${intent.id}_secret_`);
+        expect(events).toHaveLength(0);
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(events).toHaveLength(1);
+        expect(events[0].type).toBe(ProviderEventType.PAYMENT_SUCCEEDED);
+        expect(events[0].paymentIntent).toMatchObject({ id: intent.id, amount: 5000 });
+        expect((await provider.retrievePaymentIntent(intent.id)).status).toBe(
+            ProviderPaymentStatus.SUCCEEDED,
+        );
+    });
+
+    it('reports a failure with a reason when configured to fail', async () => {
+        const provider = create(FakePaymentOutcome.Fail);
+        await provider.createPaymentIntent(params);
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(events[0].type).toBe(ProviderEventType.PAYMENT_FAILED);
+        expect(events[0].paymentIntent.failureReason).toBeDefined();
+    });
+
+    it('waits for a hand-posted webhook in manual mode', async () => {
+        const provider = create(FakePaymentOutcome.Manual);
+        const intent = await provider.createPaymentIntent(params);
+
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(events).toHaveLength(0);
+
+        const body = JSON.stringify({
+            type: ProviderEventType.PAYMENT_SUCCEEDED,
+            paymentIntent: { id: intent.id },
+        });
+        const event = provider.parseWebhook(body, sign(body));
+
+        expect(event.paymentIntent).toMatchObject({ id: intent.id, amount: 5000 });
+        expect((await provider.retrievePaymentIntent(intent.id)).status).toBe(
+            ProviderPaymentStatus.SUCCEEDED,
+        );
+    });
+
+    it('rejects unsigned or malformed webhook payloads', () => {
+        const provider = create(FakePaymentOutcome.Manual);
+        const body = '{"type":"x","paymentIntent":{"id":"pi_1"}}';
+
+        expect(() => provider.parseWebhook(body)).toThrow('Missing stripe-signature header');
+        expect(() => provider.parseWebhook('not json', sign('not json'))).toThrow(
+            BadRequestException,
+        );
+        expect(() => provider.parseWebhook('{"type":"x"}', sign('{"type":"x"}'))).toThrow(
+            BadRequestException,
+        );
+    });
+
+    it('only refunds succeeded intents', async () => {
+        const provider = create(FakePaymentOutcome.Manual);
+        const intent = await provider.createPaymentIntent(params);
+
+        await expect(
+            provider.refund({ paymentIntentId: intent.id, amount: 100, reason: 'test' }),
+        ).rejects.toThrow(BadRequestException);
+
+        await expect(
+            provider.refund({ paymentIntentId: 'pi_missing', amount: 100, reason: 'test' }),
+        ).rejects.toThrow(NotFoundException);
+    });
+
+    it('drops pending settlements on shutdown', async () => {
+        const provider = create(FakePaymentOutcome.Succeed);
+        await provider.createPaymentIntent(params);
+
+        provider.onModuleDestroy();
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(events).toHaveLength(0);
+    });
+});
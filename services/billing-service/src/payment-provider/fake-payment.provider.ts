@@ -0,0 +1,178 @@
+import { BadRequestException, Logger, NotFoundException, OnModuleDestroy } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { FakePaymentOutcome } from '../config/config.validation';
+import {
+    CreatePaymentIntentParams,
+    PaymentProvider,
+    ProviderEvent,
+    ProviderEventType,
+    ProviderPaymentIntent,
+    ProviderPaymentStatus,
+    ProviderRefund,
+    RefundParams,
+} from './payment-provider.interface';
+import { verifyWebhookSignature } from './webhook-signature';
+
+const EVENT_STATUS: Record<string, ProviderPaymentStatus> = {
+    [ProviderEventType.PAYMENT_CREATED]: ProviderPaymentStatus.REQUIRES_PAYMENT,
+    [ProviderEventType.PAYMENT_SUCCEEDED]: ProviderPaymentStatus.SUCCEEDED,
+    [ProviderEventType.PAYMENT_FAILED]: ProviderPaymentStatus.FAILED,
+};
+
+export interface FakePaymentProviderOptions {
+    outcome: FakePaymentOutcome;
+    delayMs: number;
+    webhookSecret: string;
+    webhookToleranceSeconds: number;
+}
+
+/**
+ * In-process stand-in for a real payment provider, for offline development and tests.
+ *
+ * Intents live in memory. Unless the outcome is 'manual', each new intent settles
+ * by itself after delayMs and the result is pushed to the onEvent listener, the same
+ * way a webhook would arrive. In 'manual' mode post a webhook by hand, e.g.
+ * { "type": "payment_intent.succeeded", "paymentIntent": { "id": "pi_fake_..." } }
+ * signed like Stripe does (see webhook-signature.ts).
+ */
+export class FakePaymentProvider implements PaymentProvider, OnModuleDestroy {
+    readonly name = 'fake';
+
+    private readonly logger = new Logger(FakePaymentProvider.name);
+    private readonly intents = new Map<string, ProviderPaymentIntent>();
+    private readonly timers = new Set<NodeJS.Timeout>();
+    private listener?: (event: ProviderEvent) => Promise<void>;
+
+    constructor(private options: FakePaymentProviderOptions) { }
+
+    onModuleDestroy() {
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    onEvent(listener: (event: ProviderEvent) => Promise<void>): void {
+        this.listener = listener;
+    }
+
+    async createPaymentIntent(params: CreatePaymentIntentParams): Promise<ProviderPaymentIntent> {
+        const id = `pi_fake_${uuidv4().replace(/-/g, '')}`;
+
+        const intent: ProviderPaymentIntent = {
+            id,
+            clientSecret: `${id}_secret_${randomBytes(12).toString('hex')}`,
+            amount: params.amount,
+            currency: params.currency,
+            status: ProviderPaymentStatus.REQUIRES_PAYMENT,
+            metadata: { ...params.metadata },
+        };
+
+        this.intents.set(id, intent);
+
+        if (this.options.outcome !== FakePaymentOutcome.Manual) {
+            this.scheduleSettlement(id);
+        }
+
+        return { ...intent };
+    }
+
+    async retrievePaymentIntent(id: string): Promise<ProviderPaymentIntent> {
+        const intent = this.intents.get(id);
+
+        if (!intent) {
+            throw new NotFoundException(`Payment intent not found: ${id}`);
+        }
+
+        return { ...intent };
+    }
+
+    async refund(params: RefundParams): Promise<ProviderRefund> {
+        const intent = await this.retrievePaymentIntent(params.paymentIntentId);
+
+        if (intent.status !== ProviderPaymentStatus.SUCCEEDED) {
+            throw new BadRequestException(`Payment intent ${intent.id} has not succeeded`);
+        }
+
+        return {
+            id: `re_fake_${uuidv4().replace(/-/g, '')}`,
+            paymentIntentId: intent.id,
+            amount: params.amount,
+        };
+    }
+
+    parseWebhook(payload: Buffer | string, signature?: string): ProviderEvent {
+        verifyWebhookSignature(payload, signature, {
+            secret: this.options.webhookSecret,
+            toleranceSeconds: this.options.webhookToleranceSeconds,
+        });
+
+        let body: any;
+
+        try {
+            body = JSON.parse(payload.toString());
+        } catch {
+            throw new BadRequestException('Webhook payload is not valid JSON');
+        }
+
+        const intentId = body?.paymentIntent?.id;
+
+        if (typeof body?.type !== 'string' || typeof intentId !== 'string') {
+            throw new BadRequestException('Webhook payload needs type and paymentIntent.id');
+        }
+
+        // Hand-posted events only name the intent; fill in the rest from memory
+        const known = this.intents.get(intentId);
+        const status = EVENT_STATUS[body.type];
+
+        if (known && status) {
+            known.status = status;
+        }
+
+        return {
+            id: body.id ?? `evt_fake_${uuidv4().replace(/-/g, '')}`,
+            type: body.type,
+            created: body.created ?? Math.floor(Date.now() / 1000),
+            paymentIntent: { ...known, ...body.paymentIntent },
+        };
+    }
+
+    private scheduleSettlement(id: string): void {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            void this.settle(id);
+        }, this.options.delayMs);
+
+        this.timers.add(timer);
+    }
+
+    private async settle(id: string): Promise<void> {
+        const intent = this.intents.get(id);
+
+        if (!intent || intent.status !== ProviderPaymentStatus.REQUIRES_PAYMENT) {
+            return;
+        }
+
+        const succeed = this.options.outcome === FakePaymentOutcome.Succeed;
+
+        intent.status = succeed ? ProviderPaymentStatus.SUCCEEDED : ProviderPaymentStatus.FAILED;
+        intent.failureReason = succeed ? undefined : 'Your card was declined (fake provider)';
+
+        const event: ProviderEvent = {
+            id: `evt_fake_${uuidv4().replace(/-/g, '')}`,
+            type: succeed ? ProviderEventType.PAYMENT_SUCCEEDED : ProviderEventType.PAYMENT_FAILED,
+            created: Math.floor(Date.now() / 1000),
+            paymentIntent: { ...intent },
+        };
+
+        if (!this.listener) {
+            this.logger.warn(`No listener for ${event.type} on ${id}, event dropped`);
+            return;
+        }
+
+        try {
+            await this.listener(event);
+        } catch (error) {
+            this.logger.error(`Failed to deliver ${event.type} for ${id}`, error);
+        }
+    }
+}
@@ -0,0 +1,4 @@
+export * from './payment-provider.module';
+export * from './payment-provider.interface';
+export * from './fake-payment.provider';
+export * from './webhook-signature';
@@ -0,0 +1,72 @@
+export const PAYMENT_PROVIDER = Symbol('PAYMENT_PROVIDER');
+
+// Provider-side state of a payment intent, modelled on Stripe's
+export enum ProviderPaymentStatus {
+    REQUIRES_PAYMENT = 'requires_payment_method',
+    PROCESSING = 'processing',
+    SUCCEEDED = 'succeeded',
+    FAILED = 'failed',
+}
+
+// Event types we act on; names follow Stripe so a real provider maps 1:1
+export enum ProviderEventType {
+    PAYMENT_CREATED = 'payment_intent.created',
+    PAYMENT_SUCCEEDED = 'payment_intent.succeeded',
+    PAYMENT_FAILED = 'payment_intent.payment_failed',
+    CHARGE_REFUNDED = 'charge.refunded',
+}
+
+export interface ProviderPaymentIntent {
+    id: string;
+    clientSecret: string | null;
+    amount: number;
+    currency: string;
+    status: ProviderPaymentStatus;
+    failureReason?: string;
+    metadata: Record<string, string>;
+}
+
+export interface ProviderRefund {
+    id: string;
+    paymentIntentId: string;
+    amount: number;
+}
+
+export interface ProviderEvent {
+    id: string;
+    type: ProviderEventType | string;
+    created: number; // unix seconds
+    paymentIntent: ProviderPaymentIntent;
+}
+
+export interface CreatePaymentIntentParams {
+    amount: number;
+    currency: string;
+    metadata: Record<string, string>;
+}
+
+export interface RefundParams {
+    paymentIntentId: string;
+    amount: number;
+    reason: string;
+}
+
+/**
+ * Everything Billing needs from a payment provider.
+ * Bound to PAYMENT_PROVIDER; the implementation is picked by PAYMENT_PROVIDER in config.
+ */
+export interface PaymentProvider {
+    readonly name: string;
+
+    createPaymentIntent(params: CreatePaymentIntentParams): Promise<ProviderPaymentIntent>;
+
+    retrievePaymentIntent(id: string): Promise<ProviderPaymentIntent>;
+
+    refund(params: RefundParams): Promise<ProviderRefund>;
+
+    // Turns an incoming webhook request into a provider event
+    parseWebhook(payload: Buffer | string, signature?: string): ProviderEvent;
+
+    // Providers that settle payments in-process push their events here instead of over HTTP
+    onEvent?(listener: (event: ProviderEvent) => Promise<void>): void;
+}
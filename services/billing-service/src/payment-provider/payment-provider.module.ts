@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { AppConfigService, PaymentProviderName } from '../config';
+import { PAYMENT_PROVIDER, PaymentProvider } from './payment-provider.interface';
+import { FakePaymentProvider } from './fake-payment.provider';
+
+@Module({
+    providers: [
+        {
+            provide: PAYMENT_PROVIDER,
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService): PaymentProvider => {
+                switch (config.paymentProvider) {
+                    case PaymentProviderName.Fake:
+                    default:
+                        return new FakePaymentProvider({
+                            outcome: config.fakePaymentOutcome,
+                            delayMs: config.fakePaymentDelayMs,
+                            webhookSecret: config.webhookSecret,
+                            webhookToleranceSeconds: config.webhookToleranceSeconds,
+                        });
+                }
+            },
+        },
+    ],
+    exports: [PAYMENT_PROVIDER],
+})
+export class PaymentProviderModule { }
@@ -0,0 +1,65 @@
+import { BadRequestException } from '@nestjs/common';
+import { signWebhookPayload, verifyWebhookSignature } from './webhook-signature';
+
+const secret = 'whsec_test';
+const payload = '{"id":"evt_1","type":"payment_intent.succeeded"}';
+const now = 1_800_000_000;
+const options = { secret, toleranceSeconds: 300, now };
+
+describe('webhook-signature', () => {
+    it('accepts a payload signed with the shared secret', () => {
+        const header = signWebhookPayload(payload, secret, now - 10);
+
+        expect(verifyWebhookSignature(payload, header, options)).toBe(now - 10);
+        expect(verifyWebhookSignature(Buffer.from(payload), header, options)).toBe(now - 10);
+    });
+
+    it('rejects a payload that changed after signing', () => {
+        const header = signWebhookPayload(payload, secret, now);
+        // Same JSON, different bytes - why the gateway must forward the raw body
+        const reformatted = JSON.stringify(JSON.parse(payload), null, 2);
+
+        expect(() => verifyWebhookSignature(reformatted, header, options)).toThrow(
+            'Webhook signature does not match payload',
+        );
+    });
+
+    it('rejects a signature made with another secret', () => {
+        const header = signWebhookPayload(payload, 'whsec_other', now);
+
+        expect(() => verifyWebhookSignature(payload, header, options)).toThrow(
+            BadRequestException,
+        );
+    });
+
+    it('rejects timestamps outside the tolerance window either way', () => {
+        const old = signWebhookPayload(payload, secret, now - 301);
+        const future = signWebhookPayload(payload, secret, now + 301);
+
+        expect(() => verifyWebhookSignature(payload, old, options)).toThrow(
+            'Webhook timestamp is outside the tolerance window',
+        );
+        expect(() => verifyWebhookSignature(payload, future, options)).toThrow(
+            'Webhook timestamp is outside the tolerance window',
+        );
+    });
+
+    it('accepts any matching v1 while secrets are rolled', () => {
+        const valid = signWebhookPayload(payload, secret, now).split(',')[1];
+        const header = `t=${now},v1=${'0'.repeat(64)},${valid}`;
+
+        expect(verifyWebhookSignature(payload, header, options)).toBe(now);
+    });
+
+    it('rejects missing or malformed headers', () => {
+        expect(() => verifyWebhookSignature(payload, undefined, options)).toThrow(
+            'Missing stripe-signature header',
+        );
+        expect(() => verifyWebhookSignature(payload, 'v1=abc', options)).toThrow(
+            'Malformed stripe-signature header',
+        );
+        expect(() => verifyWebhookSignature(payload, `t=${now}`, options)).toThrow(
+            'Malformed stripe-signature header',
+        );
+    });
+});
@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Stripe's scheme: header "t=<unix seconds>,v1=<hex hmac-sha256 of `${t}.${payload}`>"
+// More than one v1 may be present while a secret is being rolled.
+
+export interface VerifyOptions {
+    secret: string;
+    toleranceSeconds: number;
+    now?: number; // unix seconds, for tests
+}
+
+export function signWebhookPayload(
+    payload: Buffer | string,
+    secret: string,
+    timestamp: number,
+): string {
+    return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Throws unless the header carries a v1 signature of this exact payload that was
+ * made within toleranceSeconds of now. Returns the signed timestamp.
+ */
+export function verifyWebhookSignature(
+    payload: Buffer | string,
+    header: string | undefined,
+    options: VerifyOptions,
+): number {
+    if (!header) {
+        throw new BadRequestException('Missing stripe-signature header');
+    }
+
+    let timestamp = NaN;
+    const signatures: string[] = [];
+
+    for (const part of header.split(',')) {
+        const [key, value] = part.trim().split('=', 2);
+
+        if (key === 't') {
+            timestamp = Number(value);
+        } else if (key === 'v1' && value) {
+            signatures.push(value);
+        }
+    }
+
+    if (!Number.isInteger(timestamp) || !signatures.length) {
+        throw new BadRequestException('Malformed stripe-signature header');
+    }
+
+    const now = options.now ?? Math.floor(Date.now() / 1000);
+
+    if (Math.abs(now - timestamp) > options.toleranceSeconds) {
+        throw new BadRequestException('Webhook timestamp is outside the tolerance window');
+    }
+
+    const expected = Buffer.from(computeSignature(payload, options.secret, timestamp), 'hex');
+
+    const matches = signatures.some((signature) => {
+        const given = Buffer.from(signature, 'hex');
+        return given.length === expected.length && timingSafeEqual(given, expected);
+    });
+
+    if (!matches) {
+        throw new BadRequestException('Webhook signature does not match payload');
+    }
+
+    return timestamp;
+}
+
+function computeSignature(payload: Buffer | string, secret: string, timestamp: number): string {
+    return createHmac('sha256', secret)
+        .update(`${timestamp}.`)
+        .update(payload)
+        .digest('hex');
+}
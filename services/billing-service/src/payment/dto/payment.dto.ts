@@ -0,0 +1,254 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+    IsString,
+    IsNotEmpty,
+    IsOptional,
+    IsEnum,
+    IsInt,
+    Min,
+    MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export enum PaymentStatus {
+    PENDING = 'PENDING',
+    SUCCEEDED = 'SUCCEEDED',
+    FAILED = 'FAILED',
+    PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+    REFUNDED = 'REFUNDED',
+}
+
+// ==================== Request DTOs ====================
+
+export class CreatePaymentIntentDto {
+    @ApiProperty({ description: 'Appointment being paid for' })
+    @IsString()
+    @IsNotEmpty()
+    appointmentId: string;
+
+    @ApiPropertyOptional({
+        description: 'Amount in cents; staff only, defaults to the consultation fee',
+        example: 5000,
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(50)
+    amount?: number;
+
+    @ApiPropertyOptional({ description: 'Discount in cents; staff only', example: 500 })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    discount?: number;
+
+    @ApiPropertyOptional({ example: 'Returning patient' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(200)
+    discountReason?: string;
+
+    @ApiPropertyOptional({ description: 'Amount covered by insurance, in cents; staff only' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    insuranceAdjustment?: number;
+
+    @ApiPropertyOptional({ example: 'Blue Cross' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(200)
+    insuranceProvider?: string;
+}
+
+export class RefundPaymentDto {
+    @ApiPropertyOptional({ description: 'Amount in cents; defaults to the remaining balance' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    amount?: number;
+
+    @ApiProperty({ example: 'Appointment cancelled by clinic' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string;
+}
+
+export class PaymentQueryDto {
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number;
+
+    @ApiPropertyOptional({ enum: PaymentStatus })
+    @IsEnum(PaymentStatus)
+    @IsOptional()
+    status?: PaymentStatus;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    patientId?: string;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    appointmentId?: string;
+}
+
+// ==================== Response DTOs ====================
+
+export class PaymentIntentResponseDto {
+    @ApiProperty()
+    paymentId: string;
+
+    @ApiProperty()
+    appointmentId: string;
+
+    @ApiProperty({ description: 'Payment intent ID at the provider' })
+    providerPaymentId: string;
+
+    @ApiPropertyOptional({ description: 'Handed to the client to complete payment' })
+    clientSecret?: string;
+
+    @ApiProperty()
+    provider: string;
+
+    @ApiProperty({ description: 'Amount in cents' })
+    amount: number;
+
+    @ApiProperty()
+    currency: string;
+
+    @ApiProperty({ enum: PaymentStatus })
+    status: PaymentStatus;
+
+    static fromEntity(payment: any): PaymentIntentResponseDto {
+        return {
+            paymentId: payment.id,
+            appointmentId: payment.appointmentId,
+            providerPaymentId: payment.providerPaymentId,
+            clientSecret: payment.clientSecret ?? undefined,
+            provider: payment.provider,
+            amount: payment.amount,
+            currency: payment.currency,
+            status: payment.status,
+        };
+    }
+}
+
+export class RefundResponseDto {
+    @ApiProperty()
+    id: string;
+
+    @ApiProperty({ description: 'Amount in cents' })
+    amount: number;
+
+    @ApiProperty()
+    reason: string;
+
+    @ApiProperty()
+    providerRefundId: string;
+
+    @ApiPropertyOptional()
+    createdBy?: string;
+
+    @ApiProperty()
+    createdAt: Date;
+
+    static fromEntity(refund: any): RefundResponseDto {
+        return {
+            id: refund.id,
+            amount: refund.amount,
+            reason: refund.reason,
+            providerRefundId: refund.providerRefundId,
+            createdBy: refund.createdBy ?? undefined,
+            createdAt: refund.createdAt,
+        };
+    }
+}
+
+export class PaymentResponseDto {
+    @ApiProperty()
+    id: string;
+
+    @ApiProperty()
+    appointmentId: string;
+
+    @ApiProperty()
+    patientId: string;
+
+    @ApiProperty({ description: 'Amount in cents' })
+    amount: number;
+
+    @ApiProperty()
+    currency: string;
+
+    @ApiProperty({ description: 'Refunded so far, in cents' })
+    refundedAmount: number;
+
+    @ApiProperty({ enum: PaymentStatus })
+    status: PaymentStatus;
+
+    @ApiProperty()
+    provider: string;
+
+    @ApiProperty()
+    providerPaymentId: string;
+
+    @ApiPropertyOptional()
+    failureReason?: string;
+
+    @ApiPropertyOptional()
+    paidAt?: Date;
+
+    @ApiPropertyOptional({ type: [RefundResponseDto] })
+    refunds?: RefundResponseDto[];
+
+    @ApiProperty()
+    createdAt: Date;
+
+    @ApiProperty()
+    updatedAt: Date;
+
+    static fromEntity(payment: any): PaymentResponseDto {
+        return {
+            id: payment.id,
+            appointmentId: payment.appointmentId,
+            patientId: payment.patientId,
+            amount: payment.amount,
+            currency: payment.currency,
+            refundedAmount: payment.refundedAmount,
+            status: payment.status,
+            provider: payment.provider,
+            providerPaymentId: payment.providerPaymentId,
+            failureReason: payment.failureReason ?? undefined,
+            paidAt: payment.paidAt ?? undefined,
+            refunds: payment.refunds?.map(RefundResponseDto.fromEntity),
+            createdAt: payment.createdAt,
+            updatedAt: payment.updatedAt,
+        };
+    }
+}
+
+export class PaymentListResponseDto {
+    @ApiProperty({ type: [PaymentResponseDto] })
+    payments: PaymentResponseDto[];
+
+    @ApiProperty()
+    total: number;
+
+    @ApiProperty()
+    page: number;
+
+    @ApiProperty()
+    limit: number;
+
+    @ApiProperty()
+    totalPages: number;
+}
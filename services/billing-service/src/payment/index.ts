@@ -0,0 +1,4 @@
+export * from './payment.module';
+export * from './payment.service';
+export * from './payment.controller';
+export * from './dto/payment.dto';
@@ -0,0 +1,84 @@
+import { PaymentStatus } from './dto/payment.dto';
+import { ProviderEventType } from '../payment-provider/payment-provider.interface';
+import { decideProviderEvent } from './payment-state-machine';
+
+const t0 = new Date('2026-10-19T10:00:00Z');
+const t1 = new Date('2026-10-19T10:00:05Z');
+
+function payment(status: PaymentStatus, lastEventAt: Date | null = null) {
+    return { status, lastEventAt };
+}
+
+describe('payment-state-machine', () => {
+    it('moves a pending payment to succeeded or failed', () => {
+        expect(
+            decideProviderEvent(payment(PaymentStatus.PENDING), {
+                type: ProviderEventType.PAYMENT_SUCCEEDED,
+                createdAt: t0,
+            }),
+        ).toEqual({ apply: true, status: PaymentStatus.SUCCEEDED });
+
+        expect(
+            decideProviderEvent(payment(PaymentStatus.PENDING), {
+                type: ProviderEventType.PAYMENT_FAILED,
+                createdAt: t0,
+            }),
+        ).toEqual({ apply: true, status: PaymentStatus.FAILED });
+    });
+
+    it('never lets a late payment_intent.created overwrite succeeded', () => {
+        const decision = decideProviderEvent(payment(PaymentStatus.SUCCEEDED, t1), {
+            type: ProviderEventType.PAYMENT_CREATED,
+            createdAt: t0,
+        });
+
+        expect(decision.apply).toBe(false);
+    });
+
+    it('ignores a failure delivered after success', () => {
+        const decision = decideProviderEvent(payment(PaymentStatus.SUCCEEDED, t0), {
+            type: ProviderEventType.PAYMENT_FAILED,
+            createdAt: t1,
+        });
+
+        expect(decision.apply).toBe(false);
+    });
+
+    it('lets a retried card succeed after a failure, even if delivered late', () => {
+        expect(
+            decideProviderEvent(payment(PaymentStatus.FAILED, t1), {
+                type: ProviderEventType.PAYMENT_SUCCEEDED,
+                createdAt: t0,
+            }),
+        ).toEqual({ apply: true, status: PaymentStatus.SUCCEEDED });
+    });
+
+    it('treats a repeat of the current status as a no-op', () => {
+        const decision = decideProviderEvent(payment(PaymentStatus.FAILED, t0), {
+            type: ProviderEventType.PAYMENT_FAILED,
+            createdAt: t1,
+        });
+
+        expect(decision).toEqual({ apply: false, reason: 'already FAILED' });
+    });
+
+    it('leaves refunded payments alone', () => {
+        for (const status of [PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED]) {
+            expect(
+                decideProviderEvent(payment(status, t0), {
+                    type: ProviderEventType.PAYMENT_SUCCEEDED,
+                    createdAt: t1,
+                }).apply,
+            ).toBe(false);
+        }
+    });
+
+    it('skips event types it does not handle', () => {
+        expect(
+            decideProviderEvent(payment(PaymentStatus.SUCCEEDED), {
+                type: ProviderEventType.CHARGE_REFUNDED,
+                createdAt: t1,
+            }),
+        ).toEqual({ apply: false, reason: 'unhandled event type charge.refunded' });
+    });
+});
@@ -0,0 +1,59 @@
+import { PaymentStatus } from './dto/payment.dto';
+import { ProviderEventType } from '../payment-provider/payment-provider.interface';
+
+// Status each provider event moves a payment to
+export const EVENT_STATUS: Partial<Record<string, PaymentStatus>> = {
+    [ProviderEventType.PAYMENT_CREATED]: PaymentStatus.PENDING,
+    [ProviderEventType.PAYMENT_FAILED]: PaymentStatus.FAILED,
+    [ProviderEventType.PAYMENT_SUCCEEDED]: PaymentStatus.SUCCEEDED,
+};
+
+// Provider-driven progress; a payment never moves back down this ladder.
+// A failure can still be followed by success (the patient retried the card). By then
+// Appointment Service has released the booking on payment.failed, so PaymentService refunds it.
+const RANK: Record<PaymentStatus, number> = {
+    [PaymentStatus.PENDING]: 0,
+    [PaymentStatus.FAILED]: 1,
+    [PaymentStatus.SUCCEEDED]: 2,
+    // Refunds are ours to make, provider events cannot move these
+    [PaymentStatus.PARTIALLY_REFUNDED]: 3,
+    [PaymentStatus.REFUNDED]: 3,
+};
+
+export type EventDecision =
+    | { apply: true; status: PaymentStatus }
+    | { apply: false; reason: string };
+
+/**
+ * Decides whether a provider event may change a payment, given that events can
+ * arrive late, twice or out of order (e.g. payment_intent.created after succeeded).
+ */
+export function decideProviderEvent(
+    payment: { status: PaymentStatus; lastEventAt: Date | null },
+    event: { type: string; createdAt: Date },
+): EventDecision {
+    const target = EVENT_STATUS[event.type];
+
+    if (!target) {
+        return { apply: false, reason: `unhandled event type ${event.type}` };
+    }
+
+    if (RANK[target] < RANK[payment.status]) {
+        return { apply: false, reason: `stale: ${payment.status} outranks ${target}` };
+    }
+
+    if (target === payment.status) {
+        return { apply: false, reason: `already ${target}` };
+    }
+
+    // Success is final whenever it happened; anything else must be newer than what we have
+    if (
+        target !== PaymentStatus.SUCCEEDED &&
+        payment.lastEventAt &&
+        event.createdAt < payment.lastEventAt
+    ) {
+        return { apply: false, reason: 'older than the last applied event' };
+    }
+
+    return { apply: true, status: target };
+}
@@ -0,0 +1,109 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Param,
+    Query,
+    HttpCode,
+    HttpStatus,
+    Headers,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { PaymentService } from './payment.service';
+import {
+    CreatePaymentIntentDto,
+    RefundPaymentDto,
+    PaymentQueryDto,
+    PaymentIntentResponseDto,
+    PaymentResponseDto,
+    PaymentListResponseDto,
+    PaymentStatus,
+} from './dto/payment.dto';
+import { CurrentUser } from '../common/decorators';
+import { INTERNAL_HEADERS, UserContext } from '@careflow/shared';
+
+@ApiTags('Payments')
+@Controller('billing')
+export class PaymentController {
+    constructor(private paymentService: PaymentService) { }
+
+    // ==================== Payment Intents ====================
+
+    @Post('payment-intents')
+    @ApiOperation({ summary: 'Create payment intent for appointment' })
+    @ApiResponse({ status: 201, type: PaymentIntentResponseDto })
+    @ApiResponse({ status: 400, description: 'Appointment is not awaiting payment' })
+    @ApiResponse({ status: 409, description: 'Appointment has already been paid' })
+    async createPaymentIntent(
+        @Body() dto: CreatePaymentIntentDto,
+        @CurrentUser() user: UserContext,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<PaymentIntentResponseDto> {
+        return this.paymentService.createPaymentIntent(dto, user, correlationId);
+    }
+
+    @Get('payment-intents/:id')
+    @ApiOperation({ summary: 'Get payment intent status (payment or provider intent ID)' })
+    @ApiResponse({ status: 200, type: PaymentIntentResponseDto })
+    @ApiResponse({ status: 404, description: 'Payment intent not found' })
+    async getPaymentIntent(
+        @Param('id') id: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<PaymentIntentResponseDto> {
+        return this.paymentService.getPaymentIntent(id, user);
+    }
+
+    // ==================== Payments ====================
+
+    @Get('payments')
+    @ApiOperation({ summary: 'List payment transactions' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'status', required: false, enum: PaymentStatus })
+    @ApiQuery({ name: 'patientId', required: false, type: String })
+    @ApiQuery({ name: 'appointmentId', required: false, type: String })
+    @ApiResponse({ status: 200, type: PaymentListResponseDto })
+    async findAll(@Query() query: PaymentQueryDto): Promise<PaymentListResponseDto> {
+        return this.paymentService.findAll(query);
+    }
+
+    @Get('payments/user/:userId')
+    @ApiOperation({ summary: 'Get payment history of a patient' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'status', required: false, enum: PaymentStatus })
+    @ApiResponse({ status: 200, type: PaymentListResponseDto })
+    async findByUser(
+        @Param('userId') userId: string,
+        @Query() query: PaymentQueryDto,
+        @CurrentUser() user: UserContext,
+    ): Promise<PaymentListResponseDto> {
+        return this.paymentService.findByUser(userId, query, user);
+    }
+
+    @Get('payments/:id')
+    @ApiOperation({ summary: 'Get payment details with refunds' })
+    @ApiResponse({ status: 200, type: PaymentResponseDto })
+    @ApiResponse({ status: 404, description: 'Payment not found' })
+    async findById(
+        @Param('id') id: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<PaymentResponseDto> {
+        return this.paymentService.findById(id, user);
+    }
+
+    @Post('payments/:id/refund')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Refund a payment in full or in part' })
+    @ApiResponse({ status: 200, type: PaymentResponseDto })
+    @ApiResponse({ status: 400, description: 'Payment cannot be refunded' })
+    async refund(
+        @Param('id') id: string,
+        @Body() dto: RefundPaymentDto,
+        @CurrentUser() user: UserContext,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<PaymentResponseDto> {
+        return this.paymentService.refund(id, dto, user, correlationId);
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { PaymentController } from './payment.controller';
+import { InvoiceModule } from '../invoice/invoice.module';
+import { PaymentProviderModule } from '../payment-provider';
+
+@Module({
+    imports: [InvoiceModule, PaymentProviderModule],
+    controllers: [PaymentController],
+    providers: [PaymentService],
+    exports: [PaymentService],
+})
+export class PaymentModule { }
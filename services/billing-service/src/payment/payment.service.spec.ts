@@ -0,0 +1,202 @@
+import { EventBus, EventName } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { FakePaymentOutcome } from '../config/config.validation';
+import { InvoiceService } from '../invoice/invoice.service';
+import { FakePaymentProvider, ProviderEventType } from '../payment-provider';
+import { signWebhookPayload } from '../payment-provider/webhook-signature';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentStatus } from './dto/payment.dto';
+import { PaymentService } from './payment.service';
+
+const SECRET = 'whsec_test';
+
+/**
+ * The payments and refunds queries a provider event and a refund run, on arrays.
+ * Transactions run as plain calls.
+ */
+class FakePaymentPrisma {
+    readonly payments: Record<string, any>[] = [];
+    readonly refunds: Record<string, any>[] = [];
+
+    readonly payment = {
+        findUnique: async ({ where }: any) =>
+            this.payments.find(
+                (payment) =>
+                    payment.id === where.id ||
+                    payment.providerPaymentId === where.providerPaymentId,
+            ) ?? null,
+        updateMany: async ({ where, data }: any) => {
+            const matches = this.payments.filter(
+                (payment) => payment.id === where.id && payment.status === where.status,
+            );
+            matches.forEach((payment) => Object.assign(payment, data));
+            return { count: matches.length };
+        },
+        update: async ({ where, data }: any) => {
+            const payment = this.payments.find((candidate) => candidate.id === where.id)!;
+            return Object.assign(payment, data);
+        },
+    };
+
+    readonly refund = {
+        create: async ({ data }: any) => {
+            const refund = { id: `refund-${this.refunds.length + 1}`, ...data };
+            this.refunds.push(refund);
+            return refund;
+        },
+    };
+
+    async $transaction<T>(fn: (tx: this) => Promise<T>): Promise<T> {
+        return fn(this);
+    }
+}
+
+describe('PaymentService', () => {
+    let service: PaymentService;
+    let prisma: FakePaymentPrisma;
+    let provider: FakePaymentProvider;
+    let invoiceService: Record<'createForPayment' | 'publishGenerated' | 'markRefunded', jest.Mock>;
+    let eventBus: EventBus;
+    let intentId: string;
+
+    const payment = () => prisma.payments[0];
+
+    const published = (eventName: EventName) =>
+        (eventBus.publishEvent as jest.Mock).mock.calls
+            .map(([event]) => event)
+            .filter((event) => event.eventName === eventName)
+            .map((event) => event.payload);
+
+    // Delivered the way a webhook is: signed, parsed and applied in one transaction
+    const deliver = async (type: ProviderEventType, created: number, failureReason?: string) => {
+        const body = JSON.stringify({
+            type,
+            created,
+            paymentIntent: { id: intentId, failureReason },
+        });
+        const event = provider.parseWebhook(body, signWebhookPayload(body, SECRET, created));
+
+        const outcome = await prisma.$transaction((tx) =>
+            service.applyProviderEvent(tx as never, event),
+        );
+        if (outcome.applied) {
+            await service.publishOutcome(outcome);
+        }
+        return outcome;
+    };
+
+    beforeEach(async () => {
+        jest.useFakeTimers({ now: new Date('2026-03-02T09:00:00Z') });
+        prisma = new FakePaymentPrisma();
+        provider = new FakePaymentProvider({
+            outcome: FakePaymentOutcome.Manual,
+            delayMs: 0,
+            webhookSecret: SECRET,
+            webhookToleranceSeconds: 300,
+        });
+        invoiceService = {
+            createForPayment: jest.fn().mockResolvedValue(undefined),
+            publishGenerated: jest.fn(),
+            markRefunded: jest.fn(),
+        };
+        // A real bus, so published payloads are checked against the event schemas
+        eventBus = new EventBus(
+            { url: 'amqp://localhost:5672', serviceName: 'billing-service' },
+            {} as never,
+            {} as never,
+            {} as never,
+        );
+        jest.spyOn(eventBus, 'publishEvent').mockResolvedValue(undefined);
+
+        service = new PaymentService(
+            prisma as unknown as PrismaService,
+            eventBus,
+            {} as AppConfigService,
+            invoiceService as unknown as InvoiceService,
+            provider,
+        );
+
+        const intent = await provider.createPaymentIntent({
+            amount: 5000,
+            currency: 'usd',
+            metadata: { appointmentId: 'appt-1' },
+        });
+        intentId = intent.id;
+        prisma.payments.push({
+            id: 'payment-1',
+            appointmentId: 'appt-1',
+            patientId: 'patient-1',
+            amount: 5000,
+            currency: 'usd',
+            provider: 'fake',
+            providerPaymentId: intentId,
+            status: PaymentStatus.PENDING,
+            refundedAmount: 0,
+            failureReason: null,
+            paidAt: null,
+            lastEventAt: null,
+        });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    const now = () => Math.floor(Date.now() / 1000);
+
+    it('invoices a successful payment and announces it', async () => {
+        await deliver(ProviderEventType.PAYMENT_SUCCEEDED, now());
+
+        expect(payment().status).toBe(PaymentStatus.SUCCEEDED);
+        expect(invoiceService.createForPayment).toHaveBeenCalledTimes(1);
+        expect(published(EventName.PAYMENT_COMPLETED)).toEqual([
+            expect.objectContaining({ paymentId: 'payment-1', appointmentId: 'appt-1' }),
+        ]);
+    });
+
+    it('announces a failure with its reason', async () => {
+        await deliver(ProviderEventType.PAYMENT_FAILED, now(), 'Card declined');
+
+        expect(payment()).toMatchObject({
+            status: PaymentStatus.FAILED,
+            failureReason: 'Card declined',
+        });
+        expect(published(EventName.PAYMENT_FAILED)).toEqual([
+            {
+                paymentId: 'payment-1',
+                appointmentId: 'appt-1',
+                patientId: 'patient-1',
+                reason: 'Card declined',
+            },
+        ]);
+    });
+
+    describe('a success after a failure', () => {
+        beforeEach(async () => {
+            await deliver(ProviderEventType.PAYMENT_FAILED, now(), 'Card declined');
+            await deliver(ProviderEventType.PAYMENT_SUCCEEDED, now() + 60);
+        });
+
+        it('is refunded in full, since the booking was released', async () => {
+            expect(payment()).toMatchObject({
+                status: PaymentStatus.REFUNDED,
+                refundedAmount: 5000,
+            });
+            expect(prisma.refunds).toEqual([
+                expect.objectContaining({
+                    paymentId: 'payment-1',
+                    amount: 5000,
+                    reason: 'Paid after failing, once the booking had been released',
+                }),
+            ]);
+            expect(published(EventName.PAYMENT_REFUNDED)).toEqual([
+                expect.objectContaining({ amount: 5000, totalRefunded: 5000, fullyRefunded: true }),
+            ]);
+        });
+
+        it('is neither invoiced nor announced as completed', async () => {
+            expect(invoiceService.createForPayment).not.toHaveBeenCalled();
+            expect(published(EventName.PAYMENT_COMPLETED)).toEqual([]);
+        });
+    });
+});
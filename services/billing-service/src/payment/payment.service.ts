@@ -0,0 +1,492 @@
+import {
+    Injectable,
+    Inject,
+    NotFoundException,
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    Logger,
+} from '@nestjs/common';
+import { Payment, Prisma } from '../../generated/prisma';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppConfigService } from '../config';
+import { InvoiceService } from '../invoice/invoice.service';
+import { InvoiceResponseDto } from '../invoice/dto/invoice.dto';
+import { priceConsultation } from '../invoice/pricing';
+import { PAYMENT_PROVIDER, PaymentProvider, ProviderEvent } from '../payment-provider';
+import { decideProviderEvent } from './payment-state-machine';
+import {
+    CreatePaymentIntentDto,
+    RefundPaymentDto,
+    PaymentQueryDto,
+    PaymentIntentResponseDto,
+    PaymentResponseDto,
+    PaymentListResponseDto,
+    PaymentStatus,
+} from './dto/payment.dto';
+import {
+    EventName,
+    UserContext,
+    UserRole,
+    EventBus,
+} from '@careflow/shared';
+
+const AWAITING_PAYMENT = 'pending_payment';
+
+const AFTER_FAILURE_REFUND_REASON = 'Paid after failing, once the booking had been released';
+
+export type ProviderEventOutcome =
+    | { applied: false; reason: string }
+    | { applied: true; payment: Payment; invoice?: InvoiceResponseDto; afterFailure?: boolean };
+
+@Injectable()
+export class PaymentService {
+    private readonly logger = new Logger(PaymentService.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private eventBus: EventBus,
+        private config: AppConfigService,
+        private invoiceService: InvoiceService,
+        @Inject(PAYMENT_PROVIDER) private provider: PaymentProvider,
+    ) { }
+
+    async createPaymentIntent(
+        dto: CreatePaymentIntentDto,
+        user: UserContext,
+        correlationId?: string,
+    ): Promise<PaymentIntentResponseDto> {
+        const appointment = await this.prisma.billableAppointment.findUnique({
+            where: { id: dto.appointmentId },
+        });
+
+        if (!appointment) {
+            throw new NotFoundException(`Appointment not found: ${dto.appointmentId}`);
+        }
+
+        if (this.isPatient(user) && appointment.patientId !== user.userId) {
+            throw new ForbiddenException('You can only pay for your own appointments');
+        }
+
+        if (appointment.status !== AWAITING_PAYMENT) {
+            throw new BadRequestException(
+                `Appointment ${appointment.id} is not awaiting payment (status: ${appointment.status})`,
+            );
+        }
+
+        const existing = await this.prisma.payment.findFirst({
+            where: {
+                appointmentId: appointment.id,
+                status: { in: [PaymentStatus.PENDING, PaymentStatus.SUCCEEDED] },
+            },
+        });
+
+        if (existing?.status === PaymentStatus.SUCCEEDED) {
+            throw new ConflictException('Appointment has already been paid');
+        }
+
+        // Retrying checkout reuses the open intent instead of charging twice
+        if (existing) {
+            return PaymentIntentResponseDto.fromEntity(existing);
+        }
+
+        // Price overrides, discounts and insurance are for staff; patients pay the standard fee
+        const staff = !this.isPatient(user);
+        const pricing = priceConsultation({
+            fee: staff && dto.amount !== undefined ? dto.amount : this.config.consultationFee,
+            appointmentType: appointment.type,
+            durationMinutes: appointment.durationMinutes,
+            taxRatePercent: this.config.invoiceTaxRate,
+            discount: staff && dto.discount
+                ? { amount: dto.discount, reason: dto.discountReason }
+                : undefined,
+            insurance: staff && dto.insuranceAdjustment
+                ? { amount: dto.insuranceAdjustment, provider: dto.insuranceProvider }
+                : undefined,
+        });
+
+        if (pricing.total <= 0) {
+            throw new BadRequestException('Nothing left to charge after discount and insurance');
+        }
+
+        const amount = pricing.total;
+        const currency = this.config.defaultCurrency;
+
+        const intent = await this.provider.createPaymentIntent({
+            amount,
+            currency,
+            metadata: { appointmentId: appointment.id, patientId: appointment.patientId },
+        });
+
+        const payment = await this.prisma.payment.create({
+            data: {
+                appointmentId: appointment.id,
+                patientId: appointment.patientId,
+                amount,
+                currency,
+                provider: this.provider.name,
+                providerPaymentId: intent.id,
+                clientSecret: intent.clientSecret,
+                breakdown: pricing as unknown as Prisma.InputJsonValue,
+            },
+        });
+
+        this.logger.log(`Payment intent created: ${intent.id} for appointment ${appointment.id}`);
+
+        await this.eventBus.publish(
+            EventName.PAYMENT_PENDING,
+            {
+                paymentId: payment.id,
+                appointmentId: payment.appointmentId,
+                patientId: payment.patientId,
+                amount: payment.amount,
+                currency: payment.currency,
+            },
+            correlationId,
+        );
+
+        return PaymentIntentResponseDto.fromEntity(payment);
+    }
+
+    async getPaymentIntent(id: string, user: UserContext): Promise<PaymentIntentResponseDto> {
+        // Accept either our payment ID or the provider's intent ID
+        const payment = await this.prisma.payment.findFirst({
+            where: { OR: [{ id }, { providerPaymentId: id }] },
+        });
+
+        if (!payment) {
+            throw new NotFoundException(`Payment intent not found: ${id}`);
+        }
+
+        this.assertCanAccess(payment, user);
+
+        return PaymentIntentResponseDto.fromEntity(payment);
+    }
+
+    async findAll(query: PaymentQueryDto): Promise<PaymentListResponseDto> {
+        const where: any = {};
+
+        if (query.status) {
+            where.status = query.status;
+        }
+
+        if (query.patientId) {
+            where.patientId = query.patientId;
+        }
+
+        if (query.appointmentId) {
+            where.appointmentId = query.appointmentId;
+        }
+
+        return this.paginate(where, query);
+    }
+
+    async findByUser(
+        userId: string,
+        query: PaymentQueryDto,
+        user: UserContext,
+    ): Promise<PaymentListResponseDto> {
+        if (this.isPatient(user) && userId !== user.userId) {
+            throw new ForbiddenException('You can only view your own payments');
+        }
+
+        const where: any = { patientId: userId };
+
+        if (query.status) {
+            where.status = query.status;
+        }
+
+        return this.paginate(where, query);
+    }
+
+    async findById(id: string, user: UserContext): Promise<PaymentResponseDto> {
+        const payment = await this.prisma.payment.findUnique({
+            where: { id },
+            include: { refunds: { orderBy: { createdAt: 'asc' } } },
+        });
+
+        if (!payment) {
+            throw new NotFoundException(`Payment not found: ${id}`);
+        }
+
+        this.assertCanAccess(payment, user);
+
+        return PaymentResponseDto.fromEntity(payment);
+    }
+
+    async refund(
+        id: string,
+        dto: RefundPaymentDto,
+        user: UserContext,
+        correlationId?: string,
+    ): Promise<PaymentResponseDto> {
+        const payment = await this.prisma.payment.findUnique({ where: { id } });
+
+        if (!payment) {
+            throw new NotFoundException(`Payment not found: ${id}`);
+        }
+
+        if (
+            payment.status !== PaymentStatus.SUCCEEDED &&
+            payment.status !== PaymentStatus.PARTIALLY_REFUNDED
+        ) {
+            throw new BadRequestException(`Cannot refund a payment with status ${payment.status}`);
+        }
+
+        const remaining = payment.amount - payment.refundedAmount;
+        const amount = dto.amount ?? remaining;
+
+        if (amount > remaining) {
+            throw new BadRequestException(
+                `Refund of ${amount} exceeds the refundable balance of ${remaining}`,
+            );
+        }
+
+        const updated = await this.refundPayment(
+            payment,
+            amount,
+            dto.reason,
+            user.userId,
+            correlationId,
+        );
+
+        return PaymentResponseDto.fromEntity(updated);
+    }
+
+    private async refundPayment(
+        payment: Payment,
+        amount: number,
+        reason: string,
+        createdBy: string | undefined,
+        correlationId?: string,
+    ) {
+        const providerRefund = await this.provider.refund({
+            paymentIntentId: payment.providerPaymentId,
+            amount,
+            reason,
+        });
+
+        const totalRefunded = payment.refundedAmount + amount;
+        const fullyRefunded = totalRefunded === payment.amount;
+
+        const [refund, updated] = await this.prisma.$transaction(async (tx) => {
+            const created = await tx.refund.create({
+                data: {
+                    paymentId: payment.id,
+                    amount,
+                    reason,
+                    providerRefundId: providerRefund.id,
+                    createdBy,
+                },
+            });
+
+            const saved = await tx.payment.update({
+                where: { id: payment.id },
+                data: {
+                    refundedAmount: totalRefunded,
+                    status: fullyRefunded
+                        ? PaymentStatus.REFUNDED
+                        : PaymentStatus.PARTIALLY_REFUNDED,
+                },
+                include: { refunds: { orderBy: { createdAt: 'asc' } } },
+            });
+
+            if (fullyRefunded) {
+                await this.invoiceService.markRefunded(tx, payment.id);
+            }
+
+            return [created, saved] as const;
+        });
+
+        this.logger.log(`Refunded ${amount} ${payment.currency} on payment ${payment.id}`);
+
+        await this.eventBus.publish(
+            EventName.PAYMENT_REFUNDED,
+            {
+                paymentId: payment.id,
+                appointmentId: payment.appointmentId,
+                patientId: payment.patientId,
+                refundId: refund.id,
+                amount,
+                currency: payment.currency,
+                totalRefunded,
+                fullyRefunded,
+                reason,
+            },
+            correlationId,
+        );
+
+        return updated;
+    }
+
+    /**
+     * Applies a provider event to its payment inside the webhook transaction.
+     * Returns what changed so the caller can publish after commit, or the reason it was skipped.
+     */
+    async applyProviderEvent(
+        tx: Prisma.TransactionClient,
+        event: ProviderEvent,
+    ): Promise<ProviderEventOutcome> {
+        const payment = await tx.payment.findUnique({
+            where: { providerPaymentId: event.paymentIntent.id },
+        });
+
+        if (!payment) {
+            // Possibly our own insert has not committed yet; make the provider retry
+            throw new NotFoundException(`No payment for provider intent ${event.paymentIntent.id}`);
+        }
+
+        const createdAt = new Date(event.created * 1000);
+        const decision = decideProviderEvent(payment, { type: event.type, createdAt });
+
+        if (!decision.apply) {
+            return { applied: false, reason: decision.reason };
+        }
+
+        const succeeded = decision.status === PaymentStatus.SUCCEEDED;
+        // Appointment Service released the booking on payment.failed; the patient retried the card
+        const afterFailure = succeeded && payment.status === PaymentStatus.FAILED;
+        const paidAt = succeeded ? createdAt : null;
+        const failureReason = succeeded
+            ? null
+            : event.paymentIntent.failureReason || 'Payment failed';
+
+        // Guard on the status we decided from so a concurrent delivery cannot apply twice
+        const { count } = await tx.payment.updateMany({
+            where: { id: payment.id, status: payment.status },
+            data: {
+                status: decision.status,
+                lastEventAt: createdAt,
+                paidAt,
+                failureReason,
+            },
+        });
+
+        if (!count) {
+            throw new ConflictException(`Payment ${payment.id} changed concurrently`);
+        }
+
+        const updated: Payment = {
+            ...payment,
+            status: decision.status,
+            paidAt,
+            failureReason,
+            lastEventAt: createdAt,
+        };
+
+        if (!succeeded) {
+            return { applied: true, payment: updated };
+        }
+
+        // Nothing to invoice: publishOutcome refunds it instead
+        if (afterFailure) {
+            return { applied: true, payment: updated, afterFailure };
+        }
+
+        const invoice = await this.invoiceService.createForPayment(tx, {
+            ...updated,
+            paidAt: createdAt,
+        });
+
+        return { applied: true, payment: updated, invoice };
+    }
+
+    async publishOutcome(
+        outcome: Extract<ProviderEventOutcome, { applied: true }>,
+        correlationId?: string,
+    ): Promise<void> {
+        const { payment, invoice } = outcome;
+
+        if (outcome.afterFailure) {
+            await this.refundAfterFailure(payment, correlationId);
+            return;
+        }
+
+        if (payment.status === PaymentStatus.FAILED) {
+            this.logger.warn(`Payment failed: ${payment.id} (${payment.failureReason})`);
+
+            await this.eventBus.publish(
+                EventName.PAYMENT_FAILED,
+                {
+                    paymentId: payment.id,
+                    appointmentId: payment.appointmentId,
+                    patientId: payment.patientId,
+                    reason: payment.failureReason ?? undefined,
+                },
+                correlationId,
+            );
+            return;
+        }
+
+        this.logger.log(`Payment succeeded: ${payment.id} (${payment.providerPaymentId})`);
+
+        await this.eventBus.publish(
+            EventName.PAYMENT_COMPLETED,
+            {
+                paymentId: payment.id,
+                appointmentId: payment.appointmentId,
+                patientId: payment.patientId,
+                amount: payment.amount,
+                currency: payment.currency,
+                stripePaymentIntentId: payment.providerPaymentId,
+            },
+            correlationId,
+        );
+
+        if (invoice) {
+            await this.invoiceService.publishGenerated(invoice, correlationId);
+        }
+    }
+
+    // The money came in for a booking that no longer exists, so it goes straight back
+    private async refundAfterFailure(payment: Payment, correlationId?: string): Promise<void> {
+        this.logger.warn(`Payment ${payment.id} succeeded after it had failed, refunding it`);
+
+        try {
+            await this.refundPayment(
+                payment,
+                payment.amount,
+                AFTER_FAILURE_REFUND_REASON,
+                undefined,
+                correlationId,
+            );
+        } catch (error) {
+            // The provider event is recorded as applied, so it will not come round again
+            this.logger.error(`Refunding payment ${payment.id} failed, it needs a refund`, error);
+        }
+    }
+
+    private async paginate(where: any, query: PaymentQueryDto): Promise<PaymentListResponseDto> {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+        const skip = (page - 1) * limit;
+
+        const [payments, total] = await Promise.all([
+            this.prisma.payment.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: 'desc' },
+            }),
+            this.prisma.payment.count({ where }),
+        ]);
+
+        return {
+            payments: payments.map(PaymentResponseDto.fromEntity),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    private assertCanAccess(payment: { patientId: string }, user: UserContext): void {
+        if (this.isPatient(user) && payment.patientId !== user.userId) {
+            throw new ForbiddenException('You do not have access to this payment');
+        }
+    }
+
+    private isPatient(user: UserContext): boolean {
+        return user.roles.length > 0 && user.roles.every((r) => r === UserRole.PATIENT);
+    }
+}
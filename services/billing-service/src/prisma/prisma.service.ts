@@ -0,0 +1,34 @@
+import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
+import { PrismaClient } from '../../generated/prisma';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { Pool } from 'pg';
+
+@Injectable()
+export class PrismaService extends PrismaClient implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(PrismaService.name);
+
+    constructor() {
+        const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+        const adapter = new PrismaPg(pool);
+        super({ adapter });
+    }
+
+    async onModuleInit() {
+        await this.$connect();
+        this.logger.log('Connected to PostgreSQL database');
+    }
+
+    async onModuleDestroy() {
+        await this.$disconnect();
+        this.logger.log('Disconnected from PostgreSQL database');
+    }
+
+    async healthCheck(): Promise<boolean> {
+        try {
+            await this.$queryRaw`SELECT 1`;
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsNotEmpty, IsOptional, IsEnum, IsString } from 'class-validator';
+import { PaymentResponseDto } from '../../payment/dto/payment.dto';
+
+export enum ReportGroupBy {
+    DAY = 'day',
+    WEEK = 'week',
+    MONTH = 'month',
+}
+
+// ==================== Request DTOs ====================
+
+export class RevenueReportQueryDto {
+    @ApiProperty({ example: '2026-01-01' })
+    @IsDateString()
+    @IsNotEmpty()
+    startDate: string;
+
+    @ApiProperty({ example: '2026-01-31', description: 'Inclusive' })
+    @IsDateString()
+    @IsNotEmpty()
+    endDate: string;
+
+    @ApiPropertyOptional({ enum: ReportGroupBy, default: ReportGroupBy.DAY })
+    @IsEnum(ReportGroupBy)
+    @IsOptional()
+    groupBy?: ReportGroupBy;
+
+    @ApiPropertyOptional({ description: 'Defaults to the service currency' })
+    @IsString()
+    @IsOptional()
+    currency?: string;
+}
+
+// ==================== Response DTOs ====================
+
+export class RevenueBucketDto {
+    @ApiProperty({ description: 'Start of the period' })
+    period: Date;
+
+    @ApiProperty()
+    payments: number;
+
+    @ApiProperty({ description: 'Collected, in cents' })
+    gross: number;
+
+    @ApiProperty({ description: 'Refunded, in cents' })
+    refunded: number;
+
+    @ApiProperty({ description: 'gross - refunded, in cents' })
+    net: number;
+}
+
+export class RevenueReportResponseDto {
+    @ApiProperty()
+    startDate: string;
+
+    @ApiProperty()
+    endDate: string;
+
+    @ApiProperty({ enum: ReportGroupBy })
+    groupBy: ReportGroupBy;
+
+    @ApiProperty()
+    currency: string;
+
+    @ApiProperty({ type: RevenueBucketDto, description: 'Totals over the whole range' })
+    totals: Omit<RevenueBucketDto, 'period'>;
+
+    @ApiProperty({ type: [RevenueBucketDto] })
+    periods: RevenueBucketDto[];
+}
+
+export class OutstandingReportResponseDto {
+    @ApiProperty({ description: 'Number of payments still pending' })
+    count: number;
+
+    @ApiProperty({ description: 'Pending amount per currency, in cents' })
+    totals: Record<string, number>;
+
+    @ApiProperty({ type: [PaymentResponseDto], description: 'Oldest first' })
+    payments: PaymentResponseDto[];
+}
@@ -0,0 +1,4 @@
+export * from './report.module';
+export * from './report.service';
+export * from './report.controller';
+export * from './dto/report.dto';
@@ -0,0 +1,33 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { ReportService } from './report.service';
+import {
+    RevenueReportQueryDto,
+    RevenueReportResponseDto,
+    OutstandingReportResponseDto,
+    ReportGroupBy,
+} from './dto/report.dto';
+
+@ApiTags('Reports')
+@Controller('billing/reports')
+export class ReportController {
+    constructor(private reportService: ReportService) { }
+
+    @Get('revenue')
+    @ApiOperation({ summary: 'Revenue collected per period, net of refunds' })
+    @ApiQuery({ name: 'startDate', required: true, type: String })
+    @ApiQuery({ name: 'endDate', required: true, type: String })
+    @ApiQuery({ name: 'groupBy', required: false, enum: ReportGroupBy })
+    @ApiQuery({ name: 'currency', required: false, type: String })
+    @ApiResponse({ status: 200, type: RevenueReportResponseDto })
+    async getRevenue(@Query() query: RevenueReportQueryDto): Promise<RevenueReportResponseDto> {
+        return this.reportService.getRevenue(query);
+    }
+
+    @Get('outstanding')
+    @ApiOperation({ summary: 'Payments started but not yet settled' })
+    @ApiResponse({ status: 200, type: OutstandingReportResponseDto })
+    async getOutstanding(): Promise<OutstandingReportResponseDto> {
+        return this.reportService.getOutstanding();
+    }
+}
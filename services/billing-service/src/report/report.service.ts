@@ -0,0 +1,116 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppConfigService } from '../config';
+import { PaymentResponseDto, PaymentStatus } from '../payment/dto/payment.dto';
+import {
+    RevenueReportQueryDto,
+    RevenueReportResponseDto,
+    OutstandingReportResponseDto,
+    ReportGroupBy,
+} from './dto/report.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OUTSTANDING_LIMIT = 100;
+
+interface RevenueRow {
+    period: Date;
+    payments: bigint;
+    gross: bigint;
+    refunded: bigint;
+}
+
+@Injectable()
+export class ReportService {
+    constructor(
+        private prisma: PrismaService,
+        private config: AppConfigService,
+    ) { }
+
+    async getRevenue(query: RevenueReportQueryDto): Promise<RevenueReportResponseDto> {
+        const start = new Date(query.startDate);
+        // endDate is inclusive of the whole day
+        const end = new Date(new Date(query.endDate).getTime() + DAY_MS);
+
+        if (end <= start) {
+            throw new BadRequestException('endDate must not be before startDate');
+        }
+
+        const groupBy = query.groupBy || ReportGroupBy.DAY;
+        const currency = query.currency || this.config.defaultCurrency;
+
+        const rows = await this.prisma.$queryRaw<RevenueRow[]>`
+            SELECT date_trunc(${groupBy}, paid_at) AS period,
+                   COUNT(*) AS payments,
+                   COALESCE(SUM(amount), 0) AS gross,
+                   COALESCE(SUM(refunded_amount), 0) AS refunded
+            FROM payments
+            WHERE paid_at >= ${start}
+              AND paid_at < ${end}
+              AND currency = ${currency}
+              AND status::text IN (
+                  ${PaymentStatus.SUCCEEDED},
+                  ${PaymentStatus.PARTIALLY_REFUNDED},
+                  ${PaymentStatus.REFUNDED}
+              )
+            GROUP BY 1
+            ORDER BY 1`;
+
+        const periods = rows.map((row) => {
+            const gross = Number(row.gross);
+            const refunded = Number(row.refunded);
+
+            return {
+                period: row.period,
+                payments: Number(row.payments),
+                gross,
+                refunded,
+                net: gross - refunded,
+            };
+        });
+
+        const totals = periods.reduce(
+            (sum, p) => ({
+                payments: sum.payments + p.payments,
+                gross: sum.gross + p.gross,
+                refunded: sum.refunded + p.refunded,
+                net: sum.net + p.net,
+            }),
+            { payments: 0, gross: 0, refunded: 0, net: 0 },
+        );
+
+        return {
+            startDate: query.startDate,
+            endDate: query.endDate,
+            groupBy,
+            currency,
+            totals,
+            periods,
+        };
+    }
+
+    async getOutstanding(): Promise<OutstandingReportResponseDto> {
+        const where = { status: PaymentStatus.PENDING };
+
+        const [payments, count, byCurrency] = await Promise.all([
+            this.prisma.payment.findMany({
+                where,
+                take: OUTSTANDING_LIMIT,
+                orderBy: { createdAt: 'asc' },
+            }),
+            this.prisma.payment.count({ where }),
+            this.prisma.payment.groupBy({
+                by: ['currency'],
+                where,
+                _sum: { amount: true },
+            }),
+        ]);
+
+        return {
+            count,
+            totals: Object.fromEntries(
+                byCurrency.map((group) => [group.currency, group._sum.amount ?? 0]),
+            ),
+            payments: payments.map(PaymentResponseDto.fromEntity),
+        };
+    }
+}
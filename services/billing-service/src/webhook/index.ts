@@ -0,0 +1,3 @@
+export * from './webhook.module';
+export * from './webhook.service';
+export * from './webhook.controller';
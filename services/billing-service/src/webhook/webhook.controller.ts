@@ -0,0 +1,38 @@
+import {
+    Controller,
+    Post,
+    Req,
+    Headers,
+    HttpCode,
+    HttpStatus,
+    RawBodyRequest,
+    BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { WebhookService } from './webhook.service';
+import { INTERNAL_HEADERS } from '@careflow/shared';
+
+@ApiTags('Webhooks')
+@Controller('billing/webhooks')
+export class WebhookController {
+    constructor(private webhookService: WebhookService) { }
+
+    @Post('stripe')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Receive payment provider webhook events' })
+    @ApiResponse({ status: 200, description: 'Event accepted' })
+    @ApiResponse({ status: 400, description: 'Bad signature, stale timestamp or malformed event' })
+    async handleStripeWebhook(
+        @Req() request: RawBodyRequest<Request>,
+        @Headers('stripe-signature') signature?: string,
+        @Headers(INTERNAL_HEADERS.CORRELATION_ID) correlationId?: string,
+    ): Promise<{ received: boolean }> {
+        // Signatures cover the exact bytes sent, so never fall back to the parsed body
+        if (!request.rawBody) {
+            throw new BadRequestException('Webhook body is missing');
+        }
+
+        return this.webhookService.handleWebhook(request.rawBody, signature, correlationId);
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { WebhookController } from './webhook.controller';
+import { PaymentModule } from '../payment/payment.module';
+import { PaymentProviderModule } from '../payment-provider';
+
+@Module({
+    imports: [PaymentModule, PaymentProviderModule],
+    controllers: [WebhookController],
+    providers: [WebhookService],
+})
+export class WebhookModule { }
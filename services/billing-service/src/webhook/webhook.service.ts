@@ -0,0 +1,82 @@
+import { Injectable, Inject, OnModuleInit, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentService } from '../payment/payment.service';
+import { PAYMENT_PROVIDER, PaymentProvider, ProviderEvent } from '../payment-provider';
+
+@Injectable()
+export class WebhookService implements OnModuleInit {
+    private readonly logger = new Logger(WebhookService.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private paymentService: PaymentService,
+        @Inject(PAYMENT_PROVIDER) private provider: PaymentProvider,
+    ) { }
+
+    onModuleInit() {
+        // In-process providers (the fake) deliver through the same path as HTTP webhooks
+        this.provider.onEvent?.((event) => this.processEvent(event));
+    }
+
+    async handleWebhook(
+        payload: Buffer | string,
+        signature?: string,
+        correlationId?: string,
+    ): Promise<{ received: boolean }> {
+        // Verifies the signature and its age before anything is trusted
+        const event = this.provider.parseWebhook(payload, signature);
+
+        await this.processEvent(event, correlationId);
+
+        return { received: true };
+    }
+
+    /**
+     * Each event is applied at most once: the ledger row and the payment change
+     * commit together, so a replay or retried delivery finds the row and stops.
+     */
+    async processEvent(event: ProviderEvent, correlationId?: string): Promise<void> {
+        const outcome = await this.prisma.$transaction(async (tx) => {
+            const { count } = await tx.processedWebhookEvent.createMany({
+                data: [
+                    {
+                        id: event.id,
+                        provider: this.provider.name,
+                        type: event.type,
+                        paymentIntentId: event.paymentIntent.id,
+                        eventCreatedAt: new Date(event.created * 1000),
+                        outcome: 'processing',
+                    },
+                ],
+                skipDuplicates: true,
+            });
+
+            if (!count) {
+                return null;
+            }
+
+            const result = await this.paymentService.applyProviderEvent(tx, event);
+
+            await tx.processedWebhookEvent.update({
+                where: { id: event.id },
+                data: { outcome: result.applied ? 'applied' : `ignored: ${result.reason}` },
+            });
+
+            return result;
+        });
+
+        if (!outcome) {
+            this.logger.log(`Webhook ${event.type} [${event.id}] already processed, skipping`);
+            return;
+        }
+
+        if (!outcome.applied) {
+            this.logger.log(`Webhook ${event.type} [${event.id}] ignored: ${outcome.reason}`);
+            return;
+        }
+
+        this.logger.log(`Webhook ${event.type} [${event.id}] applied to ${event.paymentIntent.id}`);
+
+        await this.paymentService.publishOutcome(outcome, correlationId);
+    }
+}
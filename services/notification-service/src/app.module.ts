@@ -0,0 +1,51 @@
+import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import { MongooseModule } from '@nestjs/mongoose';
+import { EventBusModule, RABBITMQ_CONFIG } from '@careflow/shared';
+
+import { AppConfigModule, AppConfigService } from './config';
+import { NotificationModule } from './notification/notification.module';
+import { HealthModule } from './health/health.module';
+import { HttpExceptionFilter } from './common/filters';
+
+@Module({
+    imports: [
+        // Configuration
+        AppConfigModule,
+
+        // MongoDB
+        MongooseModule.forRootAsync({
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => ({
+                uri: config.mongodbUri,
+                retryWrites: true,
+                w: 'majority',
+                maxPoolSize: 10,
+                minPoolSize: 2,
+                serverSelectionTimeoutMS: 5000,
+                socketTimeoutMS: 45000,
+            }),
+        }),
+
+        // RabbitMQ
+        EventBusModule.forRootAsync({
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => ({
+                url: config.rabbitmqUrl,
+                serviceName: 'notification-service',
+                queue: RABBITMQ_CONFIG.QUEUES.NOTIFICATION_EVENTS,
+            }),
+        }),
+
+        // Feature modules
+        NotificationModule,
+        HealthModule,
+    ],
+    providers: [
+        {
+            provide: APP_FILTER,
+            useClass: HttpExceptionFilter,
+        },
+    ],
+})
+export class AppModule { }
@@ -0,0 +1 @@
+export * from './http-exception.filter';
\ No newline at end of file
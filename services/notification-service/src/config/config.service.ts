@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService as NestConfigService } from '@nestjs/config';
+import { Environment, MailTransportName } from './config.validation';
+
+@Injectable()
+export class AppConfigService {
+    constructor(private configService: NestConfigService) { }
+
+    get nodeEnv(): Environment {
+        return this.configService.get<Environment>('NODE_ENV')!;
+    }
+
+    get isDevelopment(): boolean {
+        return this.nodeEnv === Environment.Development;
+    }
+
+    get isProduction(): boolean {
+        return this.nodeEnv === Environment.Production;
+    }
+
+    get port(): number {
+        return this.configService.get<number>('PORT')!;
+    }
+
+    get mongodbUri(): string {
+        return this.configService.get<string>('MONGODB_URI')!;
+    }
+
+    get rabbitmqUrl(): string {
+        return this.configService.get<string>('RABBITMQ_URL')!;
+    }
+
+    get mailTransport(): MailTransportName {
+        return (
+            this.configService.get<MailTransportName>('MAIL_TRANSPORT') || MailTransportName.Smtp
+        );
+    }
+
+    // Defaults point at MailHog from infrastructure/docker
+    get smtp() {
+        return {
+            host: this.configService.get<string>('SMTP_HOST') || 'localhost',
+            port: this.configService.get<number>('SMTP_PORT') || 1025,
+            user: this.configService.get<string>('SMTP_USER'),
+            pass: this.configService.get<string>('SMTP_PASS'),
+            from:
+                this.configService.get<string>('SMTP_FROM') ||
+                'CareFlow <no-reply@careflow.local>',
+        };
+    }
+
+    // Page of the web app that posts the token from its query string to /auth/verify-email
+    get emailVerificationUrl(): string {
+        return (
+            this.configService.get<string>('EMAIL_VERIFICATION_URL') ||
+            'http://localhost:3000/verify-email'
+        );
+    }
+}
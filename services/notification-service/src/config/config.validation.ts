@@ -0,0 +1,91 @@
+import { plainToInstance } from 'class-transformer';
+import {
+    IsEnum,
+    IsNumber,
+    IsOptional,
+    IsString,
+    validateSync,
+    Min,
+    Max,
+} from 'class-validator';
+
+export enum Environment {
+    Development = 'development',
+    Production = 'production',
+    Test = 'test',
+}
+
+// Where outgoing email goes
+export enum MailTransportName {
+    Smtp = 'smtp', // real SMTP server (MailHog in development)
+    Memory = 'memory', // kept in process, for tests and offline work
+}
+
+export class EnvironmentVariables {
+    @IsEnum(Environment)
+    NODE_ENV: Environment;
+
+    @IsNumber()
+    @Min(1)
+    @Max(65535)
+    PORT: number;
+
+    @IsString()
+    MONGODB_URI: string;
+
+    @IsString()
+    RABBITMQ_URL: string;
+
+    @IsOptional()
+    @IsEnum(MailTransportName)
+    MAIL_TRANSPORT?: MailTransportName;
+
+    @IsOptional()
+    @IsString()
+    SMTP_HOST?: string;
+
+    @IsOptional()
+    @IsNumber()
+    SMTP_PORT?: number;
+
+    @IsOptional()
+    @IsString()
+    SMTP_USER?: string;
+
+    @IsOptional()
+    @IsString()
+    SMTP_PASS?: string;
+
+    @IsOptional()
+    @IsString()
+    SMTP_FROM?: string;
+
+    @IsOptional()
+    @IsString()
+    EMAIL_VERIFICATION_URL?: string;
+}
+
+export function validate(config: Record<string, unknown>) {
+    const validatedConfig = plainToInstance(EnvironmentVariables, config, {
+        enableImplicitConversion: true,
+    });
+
+    const errors = validateSync(validatedConfig, {
+        skipMissingProperties: false,
+    });
+
+    if (errors.length > 0) {
+        const errorMessages = errors
+            .map((err) => {
+                const constraints = err.constraints
+                    ? Object.values(err.constraints).join(', ')
+                    : 'Unknown error';
+                return `${err.property}: ${constraints}`;
+            })
+            .join('\n');
+
+        throw new Error(`Notification Service config validation failed:\n${errorMessages}`);
+    }
+
+    return validatedConfig;
+}
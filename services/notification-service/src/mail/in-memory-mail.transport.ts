@@ -0,0 +1,37 @@
+import { Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { MailMessage, MailReceipt, MailTransport } from './mail-transport.interface';
+
+export interface SentMail extends MailMessage {
+    messageId: string;
+    sentAt: Date;
+}
+
+/**
+ * Keeps every message in memory instead of sending it, for tests and offline
+ * development. Inspect `sent` to see what would have gone out.
+ */
+export class InMemoryMailTransport implements MailTransport {
+    readonly name = 'memory';
+
+    readonly sent: SentMail[] = [];
+
+    private readonly logger = new Logger(InMemoryMailTransport.name);
+
+    async send(message: MailMessage): Promise<MailReceipt> {
+        const mail: SentMail = {
+            ...message,
+            messageId: `<${uuidv4()}@memory>`,
+            sentAt: new Date(),
+        };
+        this.sent.push(mail);
+
+        this.logger.debug(`Mail ${mail.messageId} kept in memory for ${message.to}`);
+
+        return { messageId: mail.messageId };
+    }
+
+    clear(): void {
+        this.sent.length = 0;
+    }
+}
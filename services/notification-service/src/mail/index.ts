@@ -0,0 +1,4 @@
+export * from './mail.module';
+export * from './mail-transport.interface';
+export * from './smtp-mail.transport';
+export * from './in-memory-mail.transport';
@@ -0,0 +1,35 @@
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface MailReceipt {
+    messageId: string;
+}
+
+/**
+ * A delivery that fails the same way however often it is tried, e.g. a recipient the
+ * server refused. Anything else a transport throws counts as transient and is retried.
+ */
+export class PermanentDeliveryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermanentDeliveryError';
+    }
+}
+
+/**
+ * Anything that can deliver an email. Bound to the MAIL_TRANSPORT token so the
+ * dispatcher never knows whether mail goes to SMTP or stays in memory.
+ */
+export interface MailTransport {
+    readonly name: string;
+
+    // Rejects when the message could not be handed over; with PermanentDeliveryError
+    // when trying again cannot help
+    send(message: MailMessage): Promise<MailReceipt>;
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { AppConfigService, MailTransportName } from '../config';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { SmtpMailTransport } from './smtp-mail.transport';
+import { InMemoryMailTransport } from './in-memory-mail.transport';
+
+@Module({
+    providers: [
+        {
+            provide: MAIL_TRANSPORT,
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService): MailTransport => {
+                switch (config.mailTransport) {
+                    case MailTransportName.Memory:
+                        return new InMemoryMailTransport();
+                    case MailTransportName.Smtp:
+                    default:
+                        return new SmtpMailTransport(config.smtp);
+                }
+            },
+        },
+    ],
+    exports: [MAIL_TRANSPORT],
+})
+export class MailModule { }
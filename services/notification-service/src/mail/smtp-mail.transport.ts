@@ -0,0 +1,65 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import * as nodemailer from 'nodemailer';
+import {
+    MailMessage,
+    MailReceipt,
+    MailTransport,
+    PermanentDeliveryError,
+} from './mail-transport.interface';
+
+// SMTP reply codes: 4xx is a temporary failure, 5xx a permanent one
+const PERMANENT_REPLY = 500;
+
+export interface SmtpMailTransportOptions {
+    host: string;
+    port: number;
+    user?: string;
+    pass?: string;
+    from: string;
+}
+
+/**
+ * Sends through any SMTP server. In development that is MailHog
+ * (infrastructure/docker), which accepts everything without auth.
+ */
+export class SmtpMailTransport implements MailTransport, OnModuleDestroy {
+    readonly name = 'smtp';
+
+    private readonly logger = new Logger(SmtpMailTransport.name);
+    private readonly transporter: nodemailer.Transporter;
+
+    constructor(private options: SmtpMailTransportOptions) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.port === 465,
+            auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+        });
+    }
+
+    onModuleDestroy() {
+        this.transporter.close();
+    }
+
+    async send(message: MailMessage): Promise<MailReceipt> {
+        let info: { messageId: string };
+        try {
+            info = await this.transporter.sendMail({
+                from: this.options.from,
+                to: message.to,
+                subject: message.subject,
+                text: message.text,
+                html: message.html,
+            });
+        } catch (error: any) {
+            if (error?.responseCode >= PERMANENT_REPLY) {
+                throw new PermanentDeliveryError(error.message);
+            }
+            throw error;
+        }
+
+        this.logger.debug(`Mail ${info.messageId} sent to ${message.to}`);
+
+        return { messageId: info.messageId };
+    }
+}
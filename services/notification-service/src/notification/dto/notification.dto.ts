@@ -0,0 +1,135 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { NotificationChannel, NotificationStatus } from '../schemas/notification.schema';
+
+// ==================== Request DTOs ====================
+
+export class NotificationQueryDto {
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number;
+
+    @ApiPropertyOptional({ enum: NotificationChannel })
+    @IsEnum(NotificationChannel)
+    @IsOptional()
+    channel?: NotificationChannel;
+
+    @ApiPropertyOptional({ enum: NotificationStatus })
+    @IsEnum(NotificationStatus)
+    @IsOptional()
+    status?: NotificationStatus;
+
+    @ApiPropertyOptional()
+    @IsString()
+    @IsOptional()
+    recipientId?: string;
+}
+
+export class InboxQueryDto {
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    page?: number;
+
+    @ApiPropertyOptional({ default: 20 })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value, 10))
+    limit?: number;
+
+    @ApiPropertyOptional({ description: 'Only unread notifications' })
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true')
+    @IsBoolean()
+    unreadOnly?: boolean;
+}
+
+// ==================== Response DTOs ====================
+
+export class NotificationResponseDto {
+    @ApiProperty()
+    id: string;
+
+    @ApiProperty()
+    recipientId: string;
+
+    @ApiPropertyOptional()
+    recipientEmail?: string;
+
+    @ApiProperty({ enum: NotificationChannel })
+    channel: NotificationChannel;
+
+    @ApiProperty({ example: 'appointment-confirmed' })
+    template: string;
+
+    @ApiPropertyOptional()
+    title?: string;
+
+    @ApiPropertyOptional()
+    body?: string;
+
+    @ApiProperty({ enum: NotificationStatus })
+    status: NotificationStatus;
+
+    @ApiPropertyOptional()
+    failureReason?: string;
+
+    @ApiPropertyOptional()
+    sentAt?: Date;
+
+    @ApiPropertyOptional()
+    readAt?: Date;
+
+    @ApiProperty()
+    createdAt: Date;
+
+    static fromDocument(notification: any): NotificationResponseDto {
+        return {
+            id: notification._id?.toString() || notification.id,
+            recipientId: notification.recipientId,
+            recipientEmail: notification.recipientEmail,
+            channel: notification.channel,
+            template: notification.template,
+            title: notification.title,
+            body: notification.body,
+            status: notification.status,
+            failureReason: notification.failureReason,
+            sentAt: notification.sentAt,
+            readAt: notification.readAt,
+            createdAt: notification.createdAt,
+        };
+    }
+}
+
+export class NotificationListResponseDto {
+    @ApiProperty({ type: [NotificationResponseDto] })
+    notifications: NotificationResponseDto[];
+
+    @ApiProperty()
+    total: number;
+
+    @ApiProperty()
+    page: number;
+
+    @ApiProperty()
+    limit: number;
+
+    @ApiProperty()
+    totalPages: number;
+}
+
+export class InboxResponseDto extends NotificationListResponseDto {
+    @ApiProperty()
+    unreadCount: number;
+}
+
+export class MarkAllReadResponseDto {
+    @ApiProperty()
+    updated: number;
+}
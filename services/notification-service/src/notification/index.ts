@@ -0,0 +1,6 @@
+export * from './notification.module';
+export * from './notification.service';
+export * from './notification-dispatch.service';
+export * from './notification.controller';
+export * from './schemas/notification.schema';
+export * from './dto/notification.dto';
@@ -0,0 +1,264 @@
+import {
+    BaseEvent,
+    EventBus,
+    EventDelivery,
+    EventName,
+    NotificationSendPayload,
+} from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { InMemoryMailTransport } from '../mail/in-memory-mail.transport';
+import { PermanentDeliveryError } from '../mail/mail-transport.interface';
+import { NotificationDispatchService } from './notification-dispatch.service';
+import {
+    Notification,
+    NotificationChannel,
+    NotificationDocument,
+    NotificationStatus,
+} from './schemas/notification.schema';
+
+const FIRST_ATTEMPT: EventDelivery = { retryCount: 0, finalAttempt: false };
+const LAST_ATTEMPT: EventDelivery = { retryCount: 5, finalAttempt: true };
+
+/**
+ * The notifications collection as the dispatcher uses it: create with the unique
+ * eventId index, findOne by eventId, and save() on the returned document
+ */
+class FakeNotificationModel {
+    readonly records: NotificationDocument[] = [];
+
+    async create(fields: Partial<Notification>): Promise<NotificationDocument> {
+        if (this.records.some((record) => record.eventId === fields.eventId)) {
+            throw Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+        }
+
+        const record = {
+            ...fields,
+            id: `notification-${this.records.length + 1}`,
+            status: NotificationStatus.PENDING,
+            save: async () => record,
+        } as unknown as NotificationDocument;
+        this.records.push(record);
+        return record;
+    }
+
+    async findOne({ eventId }: { eventId: string }): Promise<NotificationDocument | null> {
+        return this.records.find((record) => record.eventId === eventId) ?? null;
+    }
+}
+
+describe('NotificationDispatchService', () => {
+    let dispatch: NotificationDispatchService;
+    let model: FakeNotificationModel;
+    let mail: InMemoryMailTransport;
+    let eventBus: EventBus;
+
+    const published = (eventName: EventName) =>
+        (eventBus.publishEvent as jest.Mock).mock.calls
+            .map(([event]) => event)
+            .filter((event) => event.eventName === eventName)
+            .map((event) => event.payload);
+
+    const sendEvent = (
+        payload: Partial<NotificationSendPayload> = {},
+    ): BaseEvent<NotificationSendPayload> =>
+        eventBus.createEvent(EventName.NOTIFICATION_SEND, {
+            recipientId: 'user-1',
+            recipientEmail: 'ada@example.com',
+            type: 'email',
+            template: 'welcome',
+            data: { firstName: 'Ada' },
+            ...payload,
+        });
+
+    const record = () => model.records[0];
+
+    beforeEach(() => {
+        model = new FakeNotificationModel();
+        mail = new InMemoryMailTransport();
+        // A real bus, so the sent and failed events are checked against their schemas
+        eventBus = new EventBus(
+            { url: 'amqp://localhost:5672', serviceName: 'notification-service' },
+            {} as never,
+            {} as never,
+            {} as never,
+        );
+        jest.spyOn(eventBus, 'publishEvent').mockResolvedValue(undefined);
+
+        dispatch = new NotificationDispatchService(
+            model as never,
+            mail,
+            eventBus,
+            { emailVerificationUrl: 'https://app.careflow.com/verify-email' } as AppConfigService,
+        );
+    });
+
+    describe('email', () => {
+        it('mails the rendered template and announces it', async () => {
+            await dispatch.handle(sendEvent(), FIRST_ATTEMPT);
+
+            expect(mail.sent).toEqual([
+                expect.objectContaining({
+                    to: 'ada@example.com',
+                    subject: 'Welcome to CareFlow',
+                    text: expect.stringContaining('Hi Ada,'),
+                }),
+            ]);
+            expect(record()).toMatchObject({
+                status: NotificationStatus.SENT,
+                title: 'Welcome to CareFlow',
+                messageId: mail.sent[0].messageId,
+            });
+            expect(published(EventName.NOTIFICATION_SENT)).toEqual([
+                {
+                    notificationId: 'notification-1',
+                    recipientId: 'user-1',
+                    channel: 'email',
+                    template: 'welcome',
+                    title: 'Welcome to CareFlow',
+                },
+            ]);
+        });
+
+        it('sends an email verification link', async () => {
+            await dispatch.handleEmailVerification(
+                eventBus.createEvent(EventName.EMAIL_VERIFICATION_REQUESTED, {
+                    userId: 'user-1',
+                    email: 'ada@example.com',
+                    firstName: 'Ada',
+                    verificationToken: 'token-1',
+                    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+                }),
+                FIRST_ATTEMPT,
+            );
+
+            expect(mail.sent[0].text).toContain(
+                'https://app.careflow.com/verify-email?token=token-1',
+            );
+        });
+    });
+
+    describe('in_app', () => {
+        it('stores the message for the inbox without mailing it', async () => {
+            await dispatch.handle(
+                sendEvent({ type: 'in_app', recipientEmail: '' }),
+                FIRST_ATTEMPT,
+            );
+
+            expect(mail.sent).toEqual([]);
+            expect(record()).toMatchObject({
+                channel: 'in_app',
+                status: NotificationStatus.SENT,
+                title: 'Welcome to CareFlow',
+                body: expect.stringContaining('Hi Ada,'),
+            });
+            expect(published(EventName.NOTIFICATION_SENT)).toHaveLength(1);
+        });
+    });
+
+    describe('redelivery', () => {
+        it('sends an event only once', async () => {
+            const event = sendEvent();
+
+            await dispatch.handle(event, FIRST_ATTEMPT);
+            await dispatch.handle(event, FIRST_ATTEMPT);
+
+            expect(model.records).toHaveLength(1);
+            expect(mail.sent).toHaveLength(1);
+            expect(published(EventName.NOTIFICATION_SENT)).toHaveLength(1);
+        });
+
+        it('resumes a notification left pending by a crash mid-send', async () => {
+            const event = sendEvent();
+            await model.create({
+                recipientId: 'user-1',
+                recipientEmail: 'ada@example.com',
+                channel: NotificationChannel.EMAIL,
+                template: 'welcome',
+                eventId: event.eventId,
+            });
+
+            await dispatch.handle(event, FIRST_ATTEMPT);
+
+            expect(model.records).toHaveLength(1);
+            expect(record().status).toBe(NotificationStatus.SENT);
+            expect(mail.sent).toHaveLength(1);
+        });
+    });
+
+    describe('failures', () => {
+        const mailServerDown = () =>
+            jest.spyOn(mail, 'send').mockRejectedValueOnce(new Error('Connection timeout'));
+
+        it('leaves a transient failure pending and throws it for the bus to retry', async () => {
+            mailServerDown();
+            const event = sendEvent();
+
+            await expect(dispatch.handle(event, FIRST_ATTEMPT)).rejects.toThrow(
+                'Connection timeout',
+            );
+            expect(record().status).toBe(NotificationStatus.PENDING);
+            expect(published(EventName.NOTIFICATION_FAILED)).toEqual([]);
+
+            await dispatch.handle(event, { retryCount: 1, finalAttempt: false });
+
+            expect(record().status).toBe(NotificationStatus.SENT);
+            expect(mail.sent).toHaveLength(1);
+        });
+
+        it('gives up on a transient failure once the retries are spent', async () => {
+            mailServerDown();
+
+            await dispatch.handle(sendEvent(), LAST_ATTEMPT);
+
+            expect(record()).toMatchObject({
+                status: NotificationStatus.FAILED,
+                failureReason: 'Connection timeout',
+            });
+            expect(published(EventName.NOTIFICATION_FAILED)).toEqual([
+                {
+                    notificationId: 'notification-1',
+                    recipientId: 'user-1',
+                    channel: 'email',
+                    template: 'welcome',
+                    reason: 'Connection timeout',
+                },
+            ]);
+        });
+
+        it.each([
+            [
+                'a recipient the mail server refused',
+                { template: 'welcome' },
+                new PermanentDeliveryError('550 Mailbox unavailable'),
+                '550 Mailbox unavailable',
+            ],
+            [
+                'an unknown template',
+                { template: 'no-such-template' },
+                undefined,
+                'Unknown template: no-such-template',
+            ],
+            [
+                'an email without an address',
+                { recipientEmail: '' },
+                undefined,
+                'recipientEmail is required for email notifications',
+            ],
+        ])('fails %s at once', async (_, payload, sendError, reason) => {
+            if (sendError) {
+                jest.spyOn(mail, 'send').mockRejectedValueOnce(sendError);
+            }
+
+            await dispatch.handle(sendEvent(payload), FIRST_ATTEMPT);
+
+            expect(record()).toMatchObject({
+                status: NotificationStatus.FAILED,
+                failureReason: reason,
+            });
+            expect(published(EventName.NOTIFICATION_FAILED)).toEqual([
+                expect.objectContaining({ notificationId: 'notification-1', reason }),
+            ]);
+            expect(published(EventName.NOTIFICATION_SENT)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,208 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+    MAIL_TRANSPORT,
+    MailTransport,
+    PermanentDeliveryError,
+} from '../mail/mail-transport.interface';
+import { TemplateRenderError } from '../template/template-renderer';
+import { renderNotification } from '../template/templates';
+import { AppConfigService } from '../config';
+import {
+    Notification,
+    NotificationChannel,
+    NotificationDocument,
+    NotificationStatus,
+} from './schemas/notification.schema';
+import { verificationEmail } from './verification-email';
+import {
+    BaseEvent,
+    EventDelivery,
+    EventName,
+    EmailVerificationRequestedPayload,
+    NotificationSendPayload,
+    OnEvent,
+    EventBus,
+} from '@careflow/shared';
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Turns notification.send events into delivered notifications.
+ *
+ * Each event is recorded first (keyed by eventId, so redeliveries are skipped),
+ * then rendered and sent on its channel. The outcome is stored on the record and
+ * published as notification.sent / notification.failed. A transient failure (the mail
+ * server is down) is thrown so the event bus retries it, with the record left pending;
+ * a permanent one (unknown template, refused recipient) or the last retry's failure is
+ * final: the record is marked failed with its reason and the event is acked.
+ *
+ * Auth Service's user.email_verification.requested is dispatched the same way,
+ * as an email-verification email.
+ */
+@Injectable()
+export class NotificationDispatchService {
+    private readonly logger = new Logger(NotificationDispatchService.name);
+
+    constructor(
+        @InjectModel(Notification.name) private notificationModel: Model<NotificationDocument>,
+        @Inject(MAIL_TRANSPORT) private mailTransport: MailTransport,
+        private eventBus: EventBus,
+        private config: AppConfigService,
+    ) { }
+
+    @OnEvent(EventName.NOTIFICATION_SEND)
+    async handle(
+        event: BaseEvent<NotificationSendPayload>,
+        delivery: EventDelivery,
+    ): Promise<void> {
+        const notification = await this.record(event);
+        if (!notification) {
+            return;
+        }
+
+        try {
+            await this.deliver(notification, event.payload);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+
+            if (!isPermanent(error) && !delivery.finalAttempt) {
+                this.logger.warn(
+                    `Notification ${notification.id} (${notification.template} via ` +
+                    `${notification.channel}) failed, will retry: ${reason}`,
+                );
+                throw error;
+            }
+
+            notification.status = NotificationStatus.FAILED;
+            notification.failureReason = reason;
+            await notification.save();
+
+            this.logger.warn(
+                `Notification ${notification.id} (${notification.template} via ` +
+                `${notification.channel}) failed: ${reason}`,
+            );
+
+            await this.eventBus.publish(
+                EventName.NOTIFICATION_FAILED,
+                { ...this.describe(notification), reason },
+                event.correlationId,
+            );
+            return;
+        }
+
+        this.logger.log(
+            `Notification ${notification.id} sent to ${notification.recipientId} ` +
+            `(${notification.template} via ${notification.channel})`,
+        );
+
+        await this.eventBus.publish(
+            EventName.NOTIFICATION_SENT,
+            { ...this.describe(notification), title: notification.title || '' },
+            event.correlationId,
+        );
+    }
+
+    @OnEvent(EventName.EMAIL_VERIFICATION_REQUESTED)
+    async handleEmailVerification(
+        event: BaseEvent<EmailVerificationRequestedPayload>,
+        delivery: EventDelivery,
+    ): Promise<void> {
+        await this.handle(
+            {
+                ...event,
+                payload: verificationEmail(event, this.config.emailVerificationUrl),
+            },
+            delivery,
+        );
+    }
+
+    /**
+     * Store the pending notification. Returns null when this event was already
+     * handled; a record left pending by a crash mid-send is picked up again.
+     */
+    private async record(
+        event: BaseEvent<NotificationSendPayload>,
+    ): Promise<NotificationDocument | null> {
+        const { payload } = event;
+
+        try {
+            return await this.notificationModel.create({
+                recipientId: payload.recipientId,
+                recipientEmail: payload.recipientEmail || undefined,
+                channel: payload.type,
+                template: payload.template,
+                eventId: event.eventId,
+                correlationId: event.correlationId,
+            });
+        } catch (error: any) {
+            if (error?.code !== DUPLICATE_KEY) {
+                throw error;
+            }
+
+            const existing = await this.notificationModel.findOne({ eventId: event.eventId });
+            if (existing?.status === NotificationStatus.PENDING) {
+                return existing;
+            }
+
+            this.logger.debug(`Event ${event.eventId} already handled, skipping`);
+            return null;
+        }
+    }
+
+    private async deliver(
+        notification: NotificationDocument,
+        payload: NotificationSendPayload,
+    ): Promise<void> {
+        const rendered = renderNotification(payload.template, payload.data || {});
+        notification.title = rendered.subject;
+
+        switch (notification.channel) {
+            case NotificationChannel.IN_APP:
+                // Stored is delivered: the inbox is read from this collection
+                notification.body = rendered.text;
+                break;
+
+            case NotificationChannel.EMAIL: {
+                if (!notification.recipientEmail) {
+                    throw new PermanentDeliveryError(
+                        'recipientEmail is required for email notifications',
+                    );
+                }
+
+                const receipt = await this.mailTransport.send({
+                    to: notification.recipientEmail,
+                    subject: rendered.subject,
+                    text: rendered.text,
+                    html: rendered.html,
+                });
+                notification.messageId = receipt.messageId;
+                break;
+            }
+
+            default:
+                throw new PermanentDeliveryError(
+                    `Channel ${notification.channel} is not supported`,
+                );
+        }
+
+        notification.status = NotificationStatus.SENT;
+        notification.sentAt = new Date();
+        await notification.save();
+    }
+
+    private describe(notification: NotificationDocument) {
+        return {
+            notificationId: notification.id as string,
+            recipientId: notification.recipientId,
+            channel: notification.channel,
+            template: notification.template,
+        };
+    }
+}
+
+// Failures that a retry would only repeat
+function isPermanent(error: unknown): boolean {
+    return error instanceof PermanentDeliveryError || error instanceof TemplateRenderError;
+}
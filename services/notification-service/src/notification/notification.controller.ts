@@ -0,0 +1,67 @@
+import { Controller, Get, Patch, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { NotificationService } from './notification.service';
+import {
+    NotificationQueryDto,
+    InboxQueryDto,
+    NotificationResponseDto,
+    NotificationListResponseDto,
+    InboxResponseDto,
+    MarkAllReadResponseDto,
+} from './dto/notification.dto';
+import { NotificationChannel, NotificationStatus } from './schemas/notification.schema';
+import { CurrentUser } from '../common/decorators';
+import { UserContext } from '@careflow/shared';
+
+@ApiTags('Notifications')
+@Controller('notifications')
+export class NotificationController {
+    constructor(private notificationService: NotificationService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Delivery log across all channels' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'channel', required: false, enum: NotificationChannel })
+    @ApiQuery({ name: 'status', required: false, enum: NotificationStatus })
+    @ApiQuery({ name: 'recipientId', required: false, type: String })
+    @ApiResponse({ status: 200, type: NotificationListResponseDto })
+    async findAll(@Query() query: NotificationQueryDto): Promise<NotificationListResponseDto> {
+        return this.notificationService.findAll(query);
+    }
+
+    @Get('user/:userId')
+    @ApiOperation({ summary: 'In-app notifications of a user, newest first' })
+    @ApiQuery({ name: 'page', required: false, type: Number })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'unreadOnly', required: false, type: Boolean })
+    @ApiResponse({ status: 200, type: InboxResponseDto })
+    async getInbox(
+        @Param('userId') userId: string,
+        @Query() query: InboxQueryDto,
+        @CurrentUser() user: UserContext,
+    ): Promise<InboxResponseDto> {
+        return this.notificationService.getInbox(userId, query, user);
+    }
+
+    @Patch('user/:userId/read-all')
+    @ApiOperation({ summary: 'Mark every in-app notification of a user as read' })
+    @ApiResponse({ status: 200, type: MarkAllReadResponseDto })
+    async markAllRead(
+        @Param('userId') userId: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<MarkAllReadResponseDto> {
+        return this.notificationService.markAllRead(userId, user);
+    }
+
+    @Patch(':id/read')
+    @ApiOperation({ summary: 'Mark an in-app notification as read' })
+    @ApiResponse({ status: 200, type: NotificationResponseDto })
+    @ApiResponse({ status: 404, description: 'Notification not found' })
+    async markRead(
+        @Param('id') id: string,
+        @CurrentUser() user: UserContext,
+    ): Promise<NotificationResponseDto> {
+        return this.notificationService.markRead(id, user);
+    }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Notification, NotificationSchema } from './schemas/notification.schema';
+import { NotificationService } from './notification.service';
+import { NotificationDispatchService } from './notification-dispatch.service';
+import { NotificationController } from './notification.controller';
+import { MailModule } from '../mail/mail.module';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([{ name: Notification.name, schema: NotificationSchema }]),
+        MailModule,
+    ],
+    controllers: [NotificationController],
+    providers: [NotificationService, NotificationDispatchService],
+    exports: [NotificationService],
+})
+export class NotificationModule { }
@@ -0,0 +1,128 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+    Notification,
+    NotificationChannel,
+    NotificationDocument,
+} from './schemas/notification.schema';
+import {
+    NotificationQueryDto,
+    InboxQueryDto,
+    NotificationResponseDto,
+    NotificationListResponseDto,
+    InboxResponseDto,
+    MarkAllReadResponseDto,
+} from './dto/notification.dto';
+import { UserContext, UserRole } from '@careflow/shared';
+
+@Injectable()
+export class NotificationService {
+    constructor(
+        @InjectModel(Notification.name) private notificationModel: Model<NotificationDocument>,
+    ) { }
+
+    // Delivery log across all channels (admin)
+    async findAll(query: NotificationQueryDto): Promise<NotificationListResponseDto> {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+        const filter: any = {};
+
+        if (query.channel) filter.channel = query.channel;
+        if (query.status) filter.status = query.status;
+        if (query.recipientId) filter.recipientId = query.recipientId;
+
+        const [notifications, total] = await Promise.all([
+            this.notificationModel
+                .find(filter)
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            this.notificationModel.countDocuments(filter),
+        ]);
+
+        return {
+            notifications: notifications.map(NotificationResponseDto.fromDocument),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    // In-app inbox of one user
+    async getInbox(
+        userId: string,
+        query: InboxQueryDto,
+        user: UserContext,
+    ): Promise<InboxResponseDto> {
+        this.assertOwnInbox(userId, user);
+
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+        const inbox = { recipientId: userId, channel: NotificationChannel.IN_APP };
+        const filter: any = query.unreadOnly ? { ...inbox, readAt: null } : inbox;
+
+        const [notifications, total, unreadCount] = await Promise.all([
+            this.notificationModel
+                .find(filter)
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            this.notificationModel.countDocuments(filter),
+            this.notificationModel.countDocuments({ ...inbox, readAt: null }),
+        ]);
+
+        return {
+            notifications: notifications.map(NotificationResponseDto.fromDocument),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+            unreadCount,
+        };
+    }
+
+    async markRead(id: string, user: UserContext): Promise<NotificationResponseDto> {
+        if (!Types.ObjectId.isValid(id)) {
+            throw new NotFoundException('Notification not found');
+        }
+
+        const notification = await this.notificationModel.findOne({
+            _id: id,
+            channel: NotificationChannel.IN_APP,
+        });
+
+        if (!notification) {
+            throw new NotFoundException('Notification not found');
+        }
+
+        if (notification.recipientId !== user.userId) {
+            throw new ForbiddenException('You can only read your own notifications');
+        }
+
+        if (!notification.readAt) {
+            notification.readAt = new Date();
+            await notification.save();
+        }
+
+        return NotificationResponseDto.fromDocument(notification);
+    }
+
+    async markAllRead(userId: string, user: UserContext): Promise<MarkAllReadResponseDto> {
+        this.assertOwnInbox(userId, user);
+
+        const result = await this.notificationModel.updateMany(
+            { recipientId: userId, channel: NotificationChannel.IN_APP, readAt: null },
+            { $set: { readAt: new Date() } },
+        );
+
+        return { updated: result.modifiedCount };
+    }
+
+    private assertOwnInbox(userId: string, user: UserContext): void {
+        if (user.userId !== userId && !user.roles.includes(UserRole.ADMIN)) {
+            throw new ForbiddenException('You can only access your own notifications');
+        }
+    }
+}
@@ -0,0 +1,84 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum NotificationChannel {
+    EMAIL = 'email',
+    IN_APP = 'in_app',
+    PUSH = 'push',
+}
+
+export enum NotificationStatus {
+    PENDING = 'pending',
+    SENT = 'sent',
+    FAILED = 'failed',
+}
+
+/**
+ * One row per notification.send event: the in-app inbox for in_app messages and
+ * the delivery log for every channel.
+ */
+@Schema({
+    timestamps: true,
+    collection: 'notifications',
+})
+export class Notification {
+    _id: Types.ObjectId;
+
+    @Prop({ required: true, index: true })
+    recipientId: string;
+
+    @Prop({ lowercase: true, trim: true })
+    recipientEmail?: string;
+
+    @Prop({ type: String, enum: Object.values(NotificationChannel), required: true })
+    channel: NotificationChannel;
+
+    @Prop({ required: true })
+    template: string;
+
+    // Rendered subject; the in-app title
+    @Prop()
+    title?: string;
+
+    // Rendered text, kept for in-app messages only (emails may carry reset links)
+    @Prop()
+    body?: string;
+
+    @Prop({
+        type: String,
+        enum: Object.values(NotificationStatus),
+        default: NotificationStatus.PENDING,
+        index: true,
+    })
+    status: NotificationStatus;
+
+    @Prop()
+    failureReason?: string;
+
+    // Transport message ID for emails
+    @Prop()
+    messageId?: string;
+
+    @Prop()
+    sentAt?: Date;
+
+    @Prop()
+    readAt?: Date;
+
+    // The notification.send event this came from; a redelivered event is not sent twice
+    @Prop({ required: true, unique: true })
+    eventId: string;
+
+    @Prop()
+    correlationId?: string;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type NotificationDocument = Notification & Document;
+
+export const NotificationSchema = SchemaFactory.createForClass(Notification);
+
+// Inbox: newest first per user
+NotificationSchema.index({ recipientId: 1, channel: 1, createdAt: -1 });
@@ -0,0 +1,51 @@
+import { BaseEvent, EmailVerificationRequestedPayload, EventName } from '@careflow/shared';
+import { verificationEmail } from './verification-email';
+
+function event(expiresAt: string): BaseEvent<EmailVerificationRequestedPayload> {
+    return {
+        eventId: 'evt-1',
+        eventName: EventName.EMAIL_VERIFICATION_REQUESTED,
+        timestamp: '2026-10-19T12:00:00.000Z',
+        correlationId: 'corr-1',
+        source: 'auth-service',
+        version: '1.0.0',
+        payload: {
+            userId: 'u1',
+            email: 'ada@example.com',
+            firstName: 'Ada',
+            verificationToken: 'abc/+=',
+            expiresAt,
+        },
+    };
+}
+
+describe('verificationEmail', () => {
+    it('emails the user a link carrying the token', () => {
+        const payload = verificationEmail(
+            event('2026-10-20T12:00:00.000Z'),
+            'https://app.careflow.com/verify-email',
+        );
+
+        expect(payload).toEqual({
+            recipientId: 'u1',
+            recipientEmail: 'ada@example.com',
+            type: 'email',
+            template: 'email-verification',
+            data: {
+                firstName: 'Ada',
+                verifyUrl: 'https://app.careflow.com/verify-email?token=abc%2F%2B%3D',
+                expiresIn: '24 hours',
+            },
+        });
+    });
+
+    it('states the expiry in the largest fitting unit', () => {
+        const expiresIn = (expiresAt: string) =>
+            verificationEmail(event(expiresAt), 'http://localhost/verify').data.expiresIn;
+
+        expect(expiresIn('2026-10-26T12:00:00.000Z')).toBe('7 days');
+        expect(expiresIn('2026-10-19T13:30:00.000Z')).toBe('1 hour');
+        expect(expiresIn('2026-10-19T12:45:00.000Z')).toBe('45 minutes');
+        expect(expiresIn('2026-10-19T11:00:00.000Z')).toBeUndefined();
+    });
+});
@@ -0,0 +1,52 @@
+import {
+    BaseEvent,
+    EmailVerificationRequestedPayload,
+    NotificationSendPayload,
+} from '@careflow/shared';
+
+/**
+ * The email-verification notification for a user.email_verification.requested
+ * event. The link expiry is stated relative to when the event was published.
+ */
+export function verificationEmail(
+    event: BaseEvent<EmailVerificationRequestedPayload>,
+    verifyUrl: string,
+): NotificationSendPayload {
+    const { userId, email, firstName, verificationToken, expiresAt } = event.payload;
+    const url = new URL(verifyUrl);
+    url.searchParams.set('token', verificationToken);
+
+    return {
+        recipientId: userId,
+        recipientEmail: email,
+        type: 'email',
+        template: 'email-verification',
+        data: {
+            firstName,
+            verifyUrl: url.toString(),
+            expiresIn: describeDuration(
+                new Date(expiresAt).getTime() - new Date(event.timestamp).getTime(),
+            ),
+        },
+    };
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// In whole days when longer than a day and exact, e.g. "7 days", otherwise hours or minutes;
+// undefined leaves the template's fallback
+function describeDuration(ms: number): string | undefined {
+    const minutes = Math.floor(ms / 60_000);
+
+    if (minutes > MINUTES_PER_DAY && minutes % MINUTES_PER_DAY === 0) {
+        return plural(minutes / MINUTES_PER_DAY, 'day');
+    }
+    if (minutes >= 60) {
+        return plural(Math.floor(minutes / 60), 'hour');
+    }
+    return minutes > 0 ? plural(minutes, 'minute') : undefined;
+}
+
+function plural(value: number, unit: string): string {
+    return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Minimal placeholder rendering for notification templates.
+ *
+ *   {{ firstName }}               value from data, dotted paths allowed ({{ doctor.name }})
+ *   {{ reason | not specified }}  fallback used when the value is missing
+ *
+ * A placeholder without a fallback and without a value is an error: a half-filled
+ * message ("Dear ,") is worse than a failed one.
+ */
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g;
+
+export class TemplateRenderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateRenderError';
+    }
+}
+
+export function renderTemplate(
+    source: string,
+    data: Record<string, unknown>,
+    escape: (value: string) => string = (value) => value,
+): string {
+    const missing: string[] = [];
+
+    const output = source.replace(PLACEHOLDER, (_match, path: string, fallback?: string) => {
+        const value = lookup(data, path);
+
+        if (value === undefined || value === null || value === '') {
+            if (fallback === undefined) {
+                missing.push(path);
+                return '';
+            }
+            return escape(fallback);
+        }
+
+        return escape(value instanceof Date ? value.toISOString() : String(value));
+    });
+
+    if (missing.length) {
+        throw new TemplateRenderError(`Missing template variables: ${missing.join(', ')}`);
+    }
+
+    return output;
+}
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function lookup(data: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>((current, key) => {
+        if (current === null || typeof current !== 'object') {
+            return undefined;
+        }
+        return (current as Record<string, unknown>)[key];
+    }, data);
+}
@@ -0,0 +1,65 @@
+import { TemplateRenderError, renderTemplate } from './template-renderer';
+import { TEMPLATES, renderNotification } from './templates';
+
+describe('renderTemplate', () => {
+    it('fills placeholders, including dotted paths', () => {
+        const output = renderTemplate('Dr. {{ doctor.lastName }} sees {{name}} at {{ time }}', {
+            name: 'Ada',
+            time: '09:30',
+            doctor: { lastName: 'House' },
+        });
+
+        expect(output).toBe('Dr. House sees Ada at 09:30');
+    });
+
+    it('uses the fallback when a value is missing', () => {
+        expect(renderTemplate('Reason: {{ reason | not specified }}', {})).toBe(
+            'Reason: not specified',
+        );
+        expect(renderTemplate('Reason: {{ reason | not specified }}', { reason: 'ill' })).toBe(
+            'Reason: ill',
+        );
+    });
+
+    it('rejects missing variables without a fallback, listing all of them', () => {
+        expect(() => renderTemplate('{{ a }} {{ b }} {{ c }}', { b: 1 })).toThrow(
+            new TemplateRenderError('Missing template variables: a, c'),
+        );
+    });
+
+    it('escapes values but not the template itself', () => {
+        const output = renderTemplate(
+            '<b>{{ name }}</b>',
+            { name: '<script>"x"</script>' },
+            (v) => v.replace(/</g, '&lt;'),
+        );
+
+        expect(output).toBe('<b>&lt;script>"x"&lt;/script></b>');
+    });
+});
+
+describe('renderNotification', () => {
+    it('renders subject, text and paragraph html', () => {
+        const rendered = renderNotification('appointment-cancelled', {
+            firstName: 'Ada <3',
+            scheduledAt: '2026-10-20 09:30',
+        });
+
+        expect(rendered.subject).toBe('Your appointment was cancelled');
+        expect(rendered.text).toContain('Hi Ada <3,\n\nYour appointment on 2026-10-20 09:30');
+        expect(rendered.text).toContain('Reason: not specified.');
+        expect(rendered.html.startsWith('<p>Hi Ada &lt;3,</p>\n<p>Your appointment')).toBe(true);
+    });
+
+    it('rejects unknown templates', () => {
+        expect(() => renderNotification('nope', {})).toThrow('Unknown template: nope');
+    });
+
+    it('keeps every built-in template renderable', () => {
+        const data = new Proxy({}, { get: () => 'x' }) as Record<string, unknown>;
+
+        for (const name of Object.keys(TEMPLATES)) {
+            expect(() => renderNotification(name, data)).not.toThrow();
+        }
+    });
+});
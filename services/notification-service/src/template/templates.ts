@@ -0,0 +1,96 @@
+import { TemplateRenderError, escapeHtml, renderTemplate } from './template-renderer';
+
+export interface NotificationTemplate {
+    subject: string;
+    // Plain text; used for in-app messages and as the text part of emails
+    text: string;
+}
+
+export interface RenderedNotification {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+// Template name (NotificationSendPayload.template) -> content
+export const TEMPLATES: Record<string, NotificationTemplate> = {
+    welcome: {
+        subject: 'Welcome to CareFlow',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'Your CareFlow account is ready. You can now book appointments, ' +
+            'pay for visits and follow your care online.',
+    },
+    'email-verification': {
+        subject: 'Verify your email address',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'Please confirm your email address by opening the link below:\n' +
+            '{{ verifyUrl }}\n\n' +
+            'The link expires in {{ expiresIn | 24 hours }}.',
+    },
+    'password-reset': {
+        subject: 'Reset your CareFlow password',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'We received a request to reset your password. Open the link below to choose ' +
+            'a new one:\n{{ resetUrl }}\n\n' +
+            'If you did not ask for this, you can ignore this message.',
+    },
+    'appointment-confirmed': {
+        subject: 'Your appointment is confirmed',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'Your appointment on {{ scheduledAt }} is confirmed. ' +
+            'Please arrive 10 minutes early to check in.',
+    },
+    'appointment-cancelled': {
+        subject: 'Your appointment was cancelled',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'Your appointment on {{ scheduledAt }} was cancelled. ' +
+            'Reason: {{ reason | not specified }}.',
+    },
+    'appointment-reminder': {
+        subject: 'Appointment reminder',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'This is a reminder of your appointment on {{ scheduledAt }}.',
+    },
+    'payment-received': {
+        subject: 'Payment received',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'We received your payment of {{ amount }}. ' +
+            'Your invoice number is {{ invoiceNumber }}.',
+    },
+    'payment-failed': {
+        subject: 'Payment failed',
+        text:
+            'Hi {{ firstName }},\n\n' +
+            'Your payment could not be completed ({{ reason | declined }}). ' +
+            'Please try again to keep your appointment.',
+    },
+};
+
+export function renderNotification(
+    name: string,
+    data: Record<string, unknown>,
+): RenderedNotification {
+    const template = TEMPLATES[name];
+
+    if (!template) {
+        throw new TemplateRenderError(`Unknown template: ${name}`);
+    }
+
+    return {
+        subject: renderTemplate(template.subject, data),
+        text: renderTemplate(template.text, data),
+        // Each blank-line separated block becomes a paragraph
+        html: template.text
+            .split(/\n{2,}/)
+            .map((block) => renderTemplate(block, data, escapeHtml).replace(/\n/g, '<br>'))
+            .map((paragraph) => `<p>${paragraph}</p>`)
+            .join('\n'),
+    };
+}
@@ -0,0 +1,14 @@
+/**
+ * Environment for specs, loaded through jest's setupFiles. Importing the config
+ * module validates the environment, and the dispatcher imports it; specs
+ * provide their own AppConfigService values, so these only have to be valid.
+ */
+const TEST_ENV: Record<string, string> = {
+    PORT: '3005',
+    MONGODB_URI: 'mongodb://localhost:27017/careflow_notification_test',
+    RABBITMQ_URL: 'amqp://localhost:5672',
+};
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+    process.env[key] ??= value;
+}
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "processed_events" (
+    "event_id" TEXT NOT NULL,
+    "event_name" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "processed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "processed_events_pkey" PRIMARY KEY ("event_id")
+);
@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
 import { APP_FILTER } from '@nestjs/core';
+import { EventBusModule, RABBITMQ_CONFIG } from '@careflow/shared';
 
-import { AppConfigModule } from './config';
+import { AppConfigModule, AppConfigService } from './config';
 import { PrismaModule } from './prisma';
-import { RabbitMQModule } from './rabbitmq';
+import { OutboxModule } from './outbox';
+import { MetricsModule } from './metrics';
 import { PatientModule } from './patient/patient.module';
 import { MedicalRecordModule } from './medical-record/medical-record.module';
 import { HealthModule } from './health/health.module';
@@ -18,7 +20,19 @@ import { HttpExceptionFilter } from './common/filters';
         PrismaModule,
 
         // Message Queue
-        RabbitMQModule,
+        EventBusModule.forRootAsync({
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => ({
+                url: config.rabbitmqUrl,
+                serviceName: 'patient-service',
+                queue: RABBITMQ_CONFIG.QUEUES.PATIENT_EVENTS,
+                retry: config.retryPolicy,
+            }),
+        }),
+        OutboxModule,
+
+        // Observability
+        MetricsModule,
 
         // Feature modules
         PatientModule,
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService as NestConfigService } from '@nestjs/config';
 import { Environment } from './config.validation';
+import { RetryPolicy } from '@careflow/shared';
 
 @Injectable()
 export class AppConfigService {
@@ -37,4 +38,19 @@ export class AppConfigService {
     get uploadDir(): string {
         return this.configService.get<string>('UPLOAD_DIR')!;
     }
-}
\ No newline at end of file
+
+    get retryPolicy(): RetryPolicy {
+        return {
+            maxRetries: this.configService.get<number>('CONSUMER_MAX_RETRIES') ?? 5,
+            baseDelayMs: this.configService.get<number>('CONSUMER_RETRY_BASE_DELAY_MS') ?? 1000,
+            maxDelayMs: this.configService.get<number>('CONSUMER_RETRY_MAX_DELAY_MS') ?? 60_000,
+        };
+    }
+
+    get outbox(): { pollIntervalMs: number; batchSize: number } {
+        return {
+            pollIntervalMs: this.configService.get<number>('OUTBOX_POLL_INTERVAL_MS') ?? 1000,
+            batchSize: this.configService.get<number>('OUTBOX_BATCH_SIZE') ?? 100,
+        };
+    }
+}
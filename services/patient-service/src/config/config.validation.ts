@@ -2,6 +2,7 @@ import { plainToInstance } from 'class-transformer';
 import {
     IsEnum,
     IsNumber,
+    IsOptional,
     IsString,
     validateSync,
     Min,
@@ -34,6 +35,33 @@ export class EnvironmentVariables {
 
     @IsString()
     UPLOAD_DIR: string;
+
+    // Consumer retries: CONSUMER_RETRY_BASE_DELAY_MS doubled per retry, capped at the max
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    CONSUMER_MAX_RETRIES?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(100)
+    CONSUMER_RETRY_BASE_DELAY_MS?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(100)
+    CONSUMER_RETRY_MAX_DELAY_MS?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(100)
+    OUTBOX_POLL_INTERVAL_MS?: number;
+
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    @Max(1000)
+    OUTBOX_BATCH_SIZE?: number;
 }
 
 export function validate(config: Record<string, unknown>) {
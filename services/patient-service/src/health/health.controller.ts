@@ -1,15 +1,14 @@
 import { Controller, Get } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { PrismaService } from '../prisma/prisma.service';
-import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
-import { HealthCheckResponse, HealthCheck } from '@careflow/shared';
+import { HealthCheckResponse, HealthCheck, EventBus } from '@careflow/shared';
 
 @ApiTags('Health')
 @Controller('health')
 export class HealthController {
     constructor(
         private prisma: PrismaService,
-        private rabbitMQ: RabbitMQService,
+        private eventBus: EventBus,
     ) { }
 
     @Get('live')
@@ -49,7 +48,7 @@ export class HealthController {
         if (!dbReady) overallStatus = 'unhealthy';
 
         // RabbitMQ
-        const rabbitReady = this.rabbitMQ.isConnected();
+        const rabbitReady = this.eventBus.isConnected();
         checks.push({
             name: 'rabbitmq',
             status: rabbitReady ? 'pass' : 'warn',
@@ -4,7 +4,7 @@ import {
     Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
+import { OutboxService } from '../outbox/outbox.service';
 import {
     CreateMedicalRecordDto,
     UpdateMedicalRecordDto,
@@ -20,7 +20,7 @@ export class MedicalRecordService {
 
     constructor(
         private prisma: PrismaService,
-        private rabbitMQ: RabbitMQService,
+        private outbox: OutboxService,
     ) { }
 
     async create(
@@ -37,34 +37,38 @@ export class MedicalRecordService {
             throw new NotFoundException(`Patient not found: ${patientId}`);
         }
 
-        const record = await this.prisma.medicalRecord.create({
-            data: {
-                patientId,
-                type: dto.type,
-                title: dto.title,
-                description: dto.description,
-                data: dto.data,
-                providerId: dto.providerId,
-                providerName: dto.providerName,
-                recordDate: new Date(dto.recordDate),
-                isConfidential: dto.isConfidential || false,
-            },
+        const record = await this.prisma.$transaction(async (tx) => {
+            const created = await tx.medicalRecord.create({
+                data: {
+                    patientId,
+                    type: dto.type,
+                    title: dto.title,
+                    description: dto.description,
+                    data: dto.data,
+                    providerId: dto.providerId,
+                    providerName: dto.providerName,
+                    recordDate: new Date(dto.recordDate),
+                    isConfidential: dto.isConfidential || false,
+                },
+            });
+
+            await this.outbox.enqueue(
+                tx,
+                EventName.MEDICAL_RECORD_UPLOADED,
+                {
+                    recordId: created.id,
+                    patientId: created.patientId,
+                    type: created.type,
+                    title: created.title,
+                },
+                correlationId,
+            );
+
+            return created;
         });
 
         this.logger.log(`Medical record created: ${record.title} [${record.id}]`);
 
-        // Publish event
-        await this.rabbitMQ.publishEvent(
-            EventName.MEDICAL_RECORD_UPLOADED,
-            {
-                recordId: record.id,
-                patientId: record.patientId,
-                type: record.type,
-                title: record.title,
-            },
-            correlationId,
-        );
-
         return MedicalRecordResponseDto.fromEntity(record);
     }
 
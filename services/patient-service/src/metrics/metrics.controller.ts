@@ -0,0 +1,18 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiProduces } from '@nestjs/swagger';
+import { Registry } from 'prom-client';
+import { MetricsService } from './metrics.service';
+
+@ApiTags('Health')
+@Controller('metrics')
+export class MetricsController {
+    constructor(private metrics: MetricsService) { }
+
+    @Get()
+    @Header('Content-Type', Registry.PROMETHEUS_CONTENT_TYPE)
+    @ApiOperation({ summary: 'Prometheus metrics' })
+    @ApiProduces('text/plain')
+    async scrape(): Promise<string> {
+        return this.metrics.render();
+    }
+}
@@ -0,0 +1,17 @@
+import { Injectable } from '@nestjs/common';
+import { Registry, collectDefaultMetrics } from 'prom-client';
+
+// Prometheus registry for this service; modules register their own metrics on it
+@Injectable()
+export class MetricsService {
+    readonly registry = new Registry();
+
+    constructor() {
+        this.registry.setDefaultLabels({ service: 'patient-service' });
+        collectDefaultMetrics({ register: this.registry });
+    }
+
+    async render(): Promise<string> {
+        return this.registry.metrics();
+    }
+}
@@ -0,0 +1,3 @@
+export * from './outbox.module';
+export * from './outbox.service';
+export * from './outbox-relay.service';
@@ -0,0 +1,217 @@
+import { Registry } from 'prom-client';
+import { BaseEvent, EventBus } from '@careflow/shared';
+import { AppConfigService } from '../config';
+import { MetricsService } from '../metrics/metrics.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxRelayService } from './outbox-relay.service';
+
+const START = new Date('2026-03-02T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface OutboxRow {
+    id: string;
+    event: BaseEvent<unknown>;
+    attempts: number;
+    lastError: string | null;
+    createdAt: Date;
+    publishedAt: Date | null;
+}
+
+/**
+ * The outbox_events queries the relay runs, on an array. Rows in `locked` are
+ * held by another instance and skipped, like FOR UPDATE SKIP LOCKED does.
+ */
+class FakeOutboxPrisma {
+    readonly rows: OutboxRow[] = [];
+    readonly locked = new Set<string>();
+    transactions = 0;
+
+    readonly outboxEvent = {
+        update: async ({ where, data }: { where: { id: string }; data: Record<string, any> }) => {
+            const row = this.rows.find((candidate) => candidate.id === where.id)!;
+            const { attempts, ...rest } = data;
+            Object.assign(row, rest, { attempts: row.attempts + attempts.increment });
+            return row;
+        },
+        deleteMany: async ({ where }: { where: { publishedAt: { lt: Date } } }) => {
+            const expired = this.rows.filter(
+                (row) => row.publishedAt && row.publishedAt < where.publishedAt.lt,
+            );
+            expired.forEach((row) => this.rows.splice(this.rows.indexOf(row), 1));
+            return { count: expired.length };
+        },
+    };
+
+    // SELECT ... WHERE published_at IS NULL ORDER BY created_at LIMIT ${batchSize}
+    async $queryRaw(_sql: TemplateStringsArray, batchSize: number): Promise<OutboxRow[]> {
+        return this.rows
+            .filter((row) => !row.publishedAt && !this.locked.has(row.id))
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+            .slice(0, batchSize);
+    }
+
+    async $transaction<T>(fn: (tx: this) => Promise<T>): Promise<T> {
+        this.transactions++;
+        return fn(this);
+    }
+
+    // Stored a second apart, so creation order is unambiguous
+    store(...ids: string[]) {
+        for (const id of ids) {
+            this.rows.push({
+                id,
+                event: { eventId: id, eventName: 'patient.created' } as BaseEvent<unknown>,
+                attempts: 0,
+                lastError: null,
+                createdAt: new Date(),
+                publishedAt: null,
+            });
+            jest.advanceTimersByTime(1000);
+        }
+    }
+
+    row(id: string): OutboxRow {
+        return this.rows.find((candidate) => candidate.id === id)!;
+    }
+}
+
+describe('OutboxRelayService', () => {
+    let relay: OutboxRelayService;
+    let prisma: FakeOutboxPrisma;
+    let publishEvent: jest.Mock;
+
+    const published = () =>
+        publishEvent.mock.calls.map(([event]: [BaseEvent<unknown>]) => event.eventId);
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: START });
+        prisma = new FakeOutboxPrisma();
+        publishEvent = jest.fn().mockResolvedValue(undefined);
+
+        relay = new OutboxRelayService(
+            prisma as unknown as PrismaService,
+            { publishEvent } as unknown as EventBus,
+            { outbox: { pollIntervalMs: 1000, batchSize: 2 } } as AppConfigService,
+            { registry: new Registry() } as MetricsService,
+        );
+    });
+
+    afterEach(() => {
+        relay.onModuleDestroy();
+        jest.useRealTimers();
+    });
+
+    it('publishes pending rows in creation order, batch by batch', async () => {
+        prisma.store('event-1', 'event-2', 'event-3', 'event-4', 'event-5');
+
+        await relay.relay();
+
+        expect(published()).toEqual(['event-1', 'event-2', 'event-3', 'event-4', 'event-5']);
+        expect(prisma.transactions).toBe(3);
+    });
+
+    it('marks a row published once the broker confirms', async () => {
+        prisma.store('event-1');
+
+        await relay.relay();
+
+        expect(prisma.row('event-1')).toMatchObject({
+            publishedAt: new Date(Date.now()),
+            attempts: 1,
+            lastError: null,
+        });
+    });
+
+    it('does not publish a row twice', async () => {
+        prisma.store('event-1');
+
+        await relay.relay();
+        await relay.relay();
+
+        expect(published()).toEqual(['event-1']);
+    });
+
+    describe('when a publish fails', () => {
+        beforeEach(async () => {
+            prisma.store('event-1', 'event-2', 'event-3', 'event-4');
+            publishEvent.mockImplementation(async (event: BaseEvent<unknown>) => {
+                if (event.eventId === 'event-3') {
+                    throw new Error('Broker unavailable');
+                }
+            });
+
+            await relay.relay();
+        });
+
+        it('stops, so later rows wait for it', async () => {
+            expect(published()).toEqual(['event-1', 'event-2', 'event-3']);
+            expect(prisma.row('event-4').publishedAt).toBeNull();
+        });
+
+        it('records the attempt on the row', async () => {
+            expect(prisma.row('event-3')).toMatchObject({
+                publishedAt: null,
+                attempts: 1,
+                lastError: 'Broker unavailable',
+            });
+        });
+
+        it('retries it first on the next pass', async () => {
+            publishEvent.mockClear().mockResolvedValue(undefined);
+
+            await relay.relay();
+
+            expect(published()).toEqual(['event-3', 'event-4']);
+            expect(prisma.row('event-3')).toMatchObject({ attempts: 2, lastError: null });
+        });
+    });
+
+    it('skips rows another instance is relaying', async () => {
+        prisma.store('event-1', 'event-2');
+        prisma.locked.add('event-1');
+
+        await relay.relay();
+
+        expect(published()).toEqual(['event-2']);
+    });
+
+    it('runs one pass at a time', async () => {
+        prisma.store('event-1', 'event-2');
+        let confirm!: () => void;
+        const publishing = new Promise<void>((started) =>
+            publishEvent.mockImplementationOnce(() => {
+                started();
+                return new Promise<void>((resolve) => (confirm = resolve));
+            }),
+        );
+
+        const first = relay.relay();
+        await publishing;
+        await relay.relay();
+        expect(published()).toEqual(['event-1']);
+
+        confirm();
+        await first;
+        expect(published()).toEqual(['event-1', 'event-2']);
+    });
+
+    it('polls once started', async () => {
+        relay.onApplicationBootstrap();
+        prisma.store('event-1');
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(published()).toEqual(['event-1']);
+    });
+
+    it('prunes rows published more than a week ago', async () => {
+        prisma.store('old', 'recent', 'pending');
+        prisma.row('old').publishedAt = new Date(Date.now() - 7 * DAY_MS - 1);
+        prisma.row('recent').publishedAt = new Date(Date.now() - 6 * DAY_MS);
+
+        relay.onApplicationBootstrap();
+        await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+        expect(prisma.rows.map((row) => row.id)).toEqual(['recent', 'pending']);
+    });
+});
@@ -0,0 +1,176 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { Counter, Gauge, Histogram } from 'prom-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { AppConfigService } from '../config';
+import { BaseEvent, EventBus } from '@careflow/shared';
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const PUBLISHED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Rows stay locked while their batch is published
+const BATCH_TIMEOUT_MS = 60_000;
+
+interface PendingRow {
+    id: string;
+    event: BaseEvent<unknown>;
+    createdAt: Date;
+}
+
+/**
+ * Publishes committed outbox rows in creation order and marks them published once the
+ * broker confirms. Rows are claimed with FOR UPDATE SKIP LOCKED, so several instances
+ * can relay side by side. A failed publish stops the batch and is retried on the next
+ * poll; consumers dedupe by eventId, so a row published twice is harmless.
+ */
+@Injectable()
+export class OutboxRelayService implements OnApplicationBootstrap, OnModuleDestroy {
+    private readonly logger = new Logger(OutboxRelayService.name);
+    private pollTimer?: NodeJS.Timeout;
+    private pruneTimer?: NodeJS.Timeout;
+    private relaying = false;
+
+    private readonly published: Counter<'event_name'>;
+    private readonly failures: Counter<'event_name'>;
+    private readonly publishLag: Histogram;
+
+    constructor(
+        private prisma: PrismaService,
+        private eventBus: EventBus,
+        private config: AppConfigService,
+        metrics: MetricsService,
+    ) {
+        const registers = [metrics.registry];
+        const outbox = this.prisma.outboxEvent;
+
+        this.published = new Counter({
+            name: 'careflow_outbox_published_total',
+            help: 'Outbox events published and confirmed by the broker',
+            labelNames: ['event_name'],
+            registers,
+        });
+        this.failures = new Counter({
+            name: 'careflow_outbox_publish_failures_total',
+            help: 'Failed attempts to publish an outbox event',
+            labelNames: ['event_name'],
+            registers,
+        });
+        this.publishLag = new Histogram({
+            name: 'careflow_outbox_publish_lag_seconds',
+            help: 'Time from writing an outbox event to its broker confirm',
+            buckets: [0.05, 0.1, 0.5, 1, 2, 5, 15, 60, 300],
+            registers,
+        });
+        new Gauge({
+            name: 'careflow_outbox_pending_events',
+            help: 'Outbox events not yet published',
+            registers,
+            async collect() {
+                this.set(await outbox.count({ where: { publishedAt: null } }));
+            },
+        });
+        new Gauge({
+            name: 'careflow_outbox_oldest_pending_age_seconds',
+            help: 'Age of the oldest unpublished outbox event (0 when none)',
+            registers,
+            async collect() {
+                const oldest = await outbox.findFirst({
+                    where: { publishedAt: null },
+                    orderBy: { createdAt: 'asc' },
+                    select: { createdAt: true },
+                });
+                this.set(oldest ? (Date.now() - oldest.createdAt.getTime()) / 1000 : 0);
+            },
+        });
+    }
+
+    onApplicationBootstrap() {
+        this.pollTimer = setInterval(() => void this.relay(), this.config.outbox.pollIntervalMs);
+        this.pruneTimer = setInterval(() => void this.prune(), PRUNE_INTERVAL_MS);
+    }
+
+    onModuleDestroy() {
+        clearInterval(this.pollTimer);
+        clearInterval(this.pruneTimer);
+    }
+
+    // Drain the outbox batch by batch until it is empty or a publish fails
+    async relay(): Promise<void> {
+        if (this.relaying) {
+            return;
+        }
+
+        this.relaying = true;
+        try {
+            let more = true;
+            while (more) {
+                more = await this.relayBatch();
+            }
+        } catch (error) {
+            this.logger.error('Outbox relay failed', error);
+        } finally {
+            this.relaying = false;
+        }
+    }
+
+    // Returns true when the batch was full and fully published, i.e. more may be waiting
+    private async relayBatch(): Promise<boolean> {
+        const { batchSize } = this.config.outbox;
+
+        return this.prisma.$transaction(
+            async (tx) => {
+                const rows = await tx.$queryRaw<PendingRow[]>`
+                    SELECT id, event, created_at AS "createdAt"
+                    FROM outbox_events
+                    WHERE published_at IS NULL
+                    ORDER BY created_at
+                    LIMIT ${batchSize}
+                    FOR UPDATE SKIP LOCKED`;
+
+                for (const row of rows) {
+                    try {
+                        await this.eventBus.publishEvent(row.event);
+                    } catch (error) {
+                        this.failures.inc({ event_name: row.event.eventName });
+                        await tx.outboxEvent.update({
+                            where: { id: row.id },
+                            data: {
+                                attempts: { increment: 1 },
+                                lastError: error instanceof Error ? error.message : String(error),
+                            },
+                        });
+                        // Keep the order: later rows wait for this one
+                        return false;
+                    }
+
+                    const publishedAt = new Date();
+                    await tx.outboxEvent.update({
+                        where: { id: row.id },
+                        data: { publishedAt, attempts: { increment: 1 }, lastError: null },
+                    });
+
+                    this.published.inc({ event_name: row.event.eventName });
+                    this.publishLag.observe(
+                        (publishedAt.getTime() - row.createdAt.getTime()) / 1000,
+                    );
+                }
+
+                return rows.length === batchSize;
+            },
+            { timeout: BATCH_TIMEOUT_MS },
+        );
+    }
+
+    private async prune(): Promise<void> {
+        try {
+            const { count } = await this.prisma.outboxEvent.deleteMany({
+                where: { publishedAt: { lt: new Date(Date.now() - PUBLISHED_RETENTION_MS) } },
+            });
+
+            if (count) {
+                this.logger.log(`Pruned ${count} published outbox events`);
+            }
+        } catch (error) {
+            this.logger.error('Outbox prune failed', error);
+        }
+    }
+}
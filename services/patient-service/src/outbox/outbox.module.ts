@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { OutboxService } from './outbox.service';
+import { OutboxRelayService } from './outbox-relay.service';
+
+@Global()
+@Module({
+    providers: [OutboxService, OutboxRelayService],
+    exports: [OutboxService],
+})
+export class OutboxModule { }
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { EventBus, EventName, EventOf, EventPayloadMap } from '@careflow/shared';
+
+/**
+ * Writes events to the outbox inside the caller's transaction.
+ * They are published by OutboxRelayService once the transaction has committed, so an
+ * event exists exactly when the change it describes does.
+ */
+@Injectable()
+export class OutboxService {
+    constructor(private eventBus: EventBus) { }
+
+    async enqueue<E extends EventName>(
+        tx: Prisma.TransactionClient,
+        eventName: E,
+        payload: EventPayloadMap[E],
+        correlationId?: string,
+    ): Promise<EventOf<E>> {
+        const event = this.eventBus.createEvent(eventName, payload, correlationId);
+
+        await tx.outboxEvent.create({
+            data: {
+                id: event.eventId,
+                eventName,
+                event: event as unknown as Prisma.InputJsonValue,
+            },
+        });
+
+        return event;
+    }
+}
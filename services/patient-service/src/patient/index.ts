@@ -1,4 +1,5 @@
 export * from './patient.module';
 export * from './patient.service';
 export * from './patient.controller';
+export * from './user-events.consumer';
 export * from './dto/patient.dto';
\ No newline at end of file
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { PatientService } from './patient.service';
 import { PatientController } from './patient.controller';
+import { UserEventsConsumer } from './user-events.consumer';
 
 @Module({
     controllers: [PatientController],
-    providers: [PatientService],
+    providers: [PatientService, UserEventsConsumer],
     exports: [PatientService],
 })
 export class PatientModule { }
\ No newline at end of file
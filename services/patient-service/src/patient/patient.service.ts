@@ -4,8 +4,9 @@ import {
     ConflictException,
     Logger,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
+import { OutboxService } from '../outbox/outbox.service';
 import {
     CreatePatientDto,
     UpdatePatientDto,
@@ -21,7 +22,7 @@ export class PatientService {
 
     constructor(
         private prisma: PrismaService,
-        private rabbitMQ: RabbitMQService,
+        private outbox: OutboxService,
     ) { }
 
     async create(
@@ -46,48 +47,52 @@ export class PatientService {
             throw new ConflictException('Patient with this email already exists');
         }
 
-        const patient = await this.prisma.patient.create({
-            data: {
-                userId: dto.userId,
-                firstName: dto.firstName,
-                lastName: dto.lastName,
-                dateOfBirth: new Date(dto.dateOfBirth),
-                gender: dto.gender,
-                email: dto.email,
-                phone: dto.phone,
-                addressLine1: dto.addressLine1,
-                addressLine2: dto.addressLine2,
-                city: dto.city,
-                state: dto.state,
-                postalCode: dto.postalCode,
-                country: dto.country || 'US',
-                bloodType: dto.bloodType,
-                allergies: dto.allergies || [],
-                chronicConditions: dto.chronicConditions || [],
-                emergencyContactName: dto.emergencyContactName,
-                emergencyContactPhone: dto.emergencyContactPhone,
-                emergencyContactRelation: dto.emergencyContactRelation,
-                insuranceProvider: dto.insuranceProvider,
-                insurancePolicyNumber: dto.insurancePolicyNumber,
-                insuranceGroupNumber: dto.insuranceGroupNumber,
-            },
+        const patient = await this.prisma.$transaction(async (tx) => {
+            const created = await tx.patient.create({
+                data: {
+                    userId: dto.userId,
+                    firstName: dto.firstName,
+                    lastName: dto.lastName,
+                    dateOfBirth: new Date(dto.dateOfBirth),
+                    gender: dto.gender,
+                    email: dto.email,
+                    phone: dto.phone,
+                    addressLine1: dto.addressLine1,
+                    addressLine2: dto.addressLine2,
+                    city: dto.city,
+                    state: dto.state,
+                    postalCode: dto.postalCode,
+                    country: dto.country || 'US',
+                    bloodType: dto.bloodType,
+                    allergies: dto.allergies || [],
+                    chronicConditions: dto.chronicConditions || [],
+                    emergencyContactName: dto.emergencyContactName,
+                    emergencyContactPhone: dto.emergencyContactPhone,
+                    emergencyContactRelation: dto.emergencyContactRelation,
+                    insuranceProvider: dto.insuranceProvider,
+                    insurancePolicyNumber: dto.insurancePolicyNumber,
+                    insuranceGroupNumber: dto.insuranceGroupNumber,
+                },
+            });
+
+            await this.outbox.enqueue(
+                tx,
+                EventName.PATIENT_CREATED,
+                {
+                    patientId: created.id,
+                    userId: created.userId,
+                    email: created.email,
+                    firstName: created.firstName,
+                    lastName: created.lastName,
+                },
+                correlationId,
+            );
+
+            return created;
         });
 
         this.logger.log(`Patient created: ${patient.email} [${patient.id}]`);
 
-        // Publish patient.created event
-        await this.rabbitMQ.publishEvent(
-            EventName.PATIENT_CREATED,
-            {
-                patientId: patient.id,
-                userId: patient.userId,
-                email: patient.email,
-                firstName: patient.firstName,
-                lastName: patient.lastName,
-            },
-            correlationId,
-        );
-
         return PatientResponseDto.fromEntity(patient);
     }
 
@@ -186,47 +191,51 @@ export class PatientService {
             }
         }
 
-        const patient = await this.prisma.patient.update({
-            where: { id },
-            data: {
-                firstName: dto.firstName,
-                lastName: dto.lastName,
-                dateOfBirth: dto.dateOfBirth ? new Date(dto.dateOfBirth) : undefined,
-                gender: dto.gender,
-                email: dto.email,
-                phone: dto.phone,
-                addressLine1: dto.addressLine1,
-                addressLine2: dto.addressLine2,
-                city: dto.city,
-                state: dto.state,
-                postalCode: dto.postalCode,
-                country: dto.country,
-                bloodType: dto.bloodType,
-                allergies: dto.allergies,
-                chronicConditions: dto.chronicConditions,
-                emergencyContactName: dto.emergencyContactName,
-                emergencyContactPhone: dto.emergencyContactPhone,
-                emergencyContactRelation: dto.emergencyContactRelation,
-                insuranceProvider: dto.insuranceProvider,
-                insurancePolicyNumber: dto.insurancePolicyNumber,
-                insuranceGroupNumber: dto.insuranceGroupNumber,
-                isActive: dto.isActive,
-            },
+        const patient = await this.prisma.$transaction(async (tx) => {
+            const updated = await tx.patient.update({
+                where: { id },
+                data: {
+                    firstName: dto.firstName,
+                    lastName: dto.lastName,
+                    dateOfBirth: dto.dateOfBirth ? new Date(dto.dateOfBirth) : undefined,
+                    gender: dto.gender,
+                    email: dto.email,
+                    phone: dto.phone,
+                    addressLine1: dto.addressLine1,
+                    addressLine2: dto.addressLine2,
+                    city: dto.city,
+                    state: dto.state,
+                    postalCode: dto.postalCode,
+                    country: dto.country,
+                    bloodType: dto.bloodType,
+                    allergies: dto.allergies,
+                    chronicConditions: dto.chronicConditions,
+                    emergencyContactName: dto.emergencyContactName,
+                    emergencyContactPhone: dto.emergencyContactPhone,
+                    emergencyContactRelation: dto.emergencyContactRelation,
+                    insuranceProvider: dto.insuranceProvider,
+                    insurancePolicyNumber: dto.insurancePolicyNumber,
+                    insuranceGroupNumber: dto.insuranceGroupNumber,
+                    isActive: dto.isActive,
+                },
+            });
+
+            await this.outbox.enqueue(
+                tx,
+                EventName.PATIENT_UPDATED,
+                {
+                    patientId: updated.id,
+                    userId: updated.userId,
+                    changes: Object.keys(dto),
+                },
+                correlationId,
+            );
+
+            return updated;
         });
 
         this.logger.log(`Patient updated: ${patient.email} [${patient.id}]`);
 
-        // Publish patient.updated event
-        await this.rabbitMQ.publishEvent(
-            EventName.PATIENT_UPDATED,
-            {
-                patientId: patient.id,
-                userId: patient.userId,
-                changes: Object.keys(dto),
-            },
-            correlationId,
-        );
-
         return PatientResponseDto.fromEntity(patient);
     }
 
@@ -240,33 +249,39 @@ export class PatientService {
         }
 
         // Soft delete - just mark as inactive
-        await this.prisma.patient.update({
-            where: { id },
-            data: { isActive: false },
+        await this.prisma.$transaction(async (tx) => {
+            await tx.patient.update({
+                where: { id },
+                data: { isActive: false },
+            });
+
+            await this.outbox.enqueue(
+                tx,
+                EventName.PATIENT_DELETED,
+                {
+                    patientId: patient.id,
+                    userId: patient.userId,
+                },
+                correlationId,
+            );
         });
 
         this.logger.log(`Patient deactivated: ${patient.email} [${patient.id}]`);
-
-        // Publish patient.deleted event
-        await this.rabbitMQ.publishEvent(
-            EventName.PATIENT_DELETED,
-            {
-                patientId: patient.id,
-                userId: patient.userId,
-            },
-            correlationId,
-        );
     }
 
     // Called when user.created event is received
-    async createFromUserEvent(userData: {
-        userId: string;
-        email: string;
-        firstName: string;
-        lastName: string;
-    }): Promise<PatientResponseDto | null> {
+    async createFromUserEvent(
+        userData: {
+            userId: string;
+            email: string;
+            firstName: string;
+            lastName: string;
+        },
+        tx: Prisma.TransactionClient,
+        correlationId?: string,
+    ): Promise<PatientResponseDto | null> {
         // Check if patient already exists
-        const existing = await this.prisma.patient.findUnique({
+        const existing = await tx.patient.findUnique({
             where: { userId: userData.userId },
         });
 
@@ -275,7 +290,7 @@ export class PatientService {
             return null;
         }
 
-        const patient = await this.prisma.patient.create({
+        const patient = await tx.patient.create({
             data: {
                 userId: userData.userId,
                 email: userData.email,
@@ -285,6 +300,19 @@ export class PatientService {
             },
         });
 
+        await this.outbox.enqueue(
+            tx,
+            EventName.PATIENT_CREATED,
+            {
+                patientId: patient.id,
+                userId: patient.userId,
+                email: patient.email,
+                firstName: patient.firstName,
+                lastName: patient.lastName,
+            },
+            correlationId,
+        );
+
         this.logger.log(`Patient created from user event: ${patient.email}`);
 
         return PatientResponseDto.fromEntity(patient);
@@ -0,0 +1,74 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PatientService } from './patient.service';
+import { BaseEvent, EventName, EventOf, OnEvent, UserRole } from '@careflow/shared';
+
+type EventHandler = (tx: Prisma.TransactionClient) => Promise<void>;
+
+/**
+ * Consumes auth events from patient.events.
+ *
+ * Each event is handled at most once: the processed_events row, the handler's writes
+ * and any events it emits (through the outbox) commit together, so a redelivery finds
+ * the row and is acked without effect. A throwing handler rolls all of it back and the
+ * message is retried, then dead-lettered.
+ */
+@Injectable()
+export class UserEventsConsumer {
+    private readonly logger = new Logger(UserEventsConsumer.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private patientService: PatientService,
+    ) { }
+
+    @OnEvent(EventName.USER_CREATED)
+    async onUserCreated(event: EventOf<EventName.USER_CREATED>): Promise<void> {
+        const { userId, email, firstName, lastName, role } = event.payload;
+
+        await this.processOnce(event, async (tx) => {
+            // Doctors and admins are registered through the same event but have no chart
+            if (role !== UserRole.PATIENT) {
+                this.logger.debug(`User ${userId} has role ${role}, no patient profile needed`);
+                return;
+            }
+
+            await this.patientService.createFromUserEvent(
+                { userId, email, firstName, lastName },
+                tx,
+                event.correlationId,
+            );
+        });
+    }
+
+    private async processOnce(event: BaseEvent<unknown>, handler: EventHandler): Promise<void> {
+        if (!event.eventId) {
+            throw new Error(`${event.eventName} without eventId cannot be deduplicated`);
+        }
+
+        const processed = await this.prisma.$transaction(async (tx) => {
+            const { count } = await tx.processedEvent.createMany({
+                data: [
+                    {
+                        eventId: event.eventId,
+                        eventName: event.eventName,
+                        source: event.source || 'unknown',
+                    },
+                ],
+                skipDuplicates: true,
+            });
+
+            if (!count) {
+                return false;
+            }
+
+            await handler(tx);
+            return true;
+        });
+
+        if (!processed) {
+            this.logger.log(`${event.eventName} [${event.eventId}] already processed, skipping`);
+        }
+    }
+}
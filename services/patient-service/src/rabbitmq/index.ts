@@ -1,2 +0,0 @@
-export * from './rabbitmq.module';
-export * from './rabbitmq.service';
\ No newline at end of file